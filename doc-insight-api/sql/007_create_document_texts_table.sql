@@ -0,0 +1,16 @@
+-- Create document_texts table
+CREATE TABLE IF NOT EXISTS document_texts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL UNIQUE REFERENCES documents(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    pages JSONB NOT NULL DEFAULT '[]',
+    page_count INTEGER NOT NULL DEFAULT 0,
+    character_count INTEGER NOT NULL DEFAULT 0,
+    extractor VARCHAR(50) NOT NULL,
+    extracted_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for document_texts table
+CREATE INDEX IF NOT EXISTS idx_document_texts_extracted_at ON document_texts(extracted_at);
@@ -0,0 +1,34 @@
+-- Create document_chunks table
+CREATE TABLE IF NOT EXISTS document_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    start_offset INTEGER NOT NULL,
+    end_offset INTEGER NOT NULL,
+    page_number INTEGER NULL,
+    embedding REAL[] NOT NULL,
+    embedding_model VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE (document_id, chunk_index)
+);
+
+-- Create indexes for document_chunks table
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document_id ON document_chunks(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_model ON document_chunks(embedding_model);
+
+-- Cosine similarity between two vectors stored as REAL[]
+CREATE OR REPLACE FUNCTION cosine_similarity(a REAL[], b REAL[])
+RETURNS DOUBLE PRECISION AS $$
+    SELECT CASE
+        WHEN norm_a = 0 OR norm_b = 0 THEN 0
+        ELSE dot / (sqrt(norm_a) * sqrt(norm_b))
+    END
+    FROM (
+        SELECT
+            SUM(x * y) AS dot,
+            SUM(x * x) AS norm_a,
+            SUM(y * y) AS norm_b
+        FROM unnest(a, b) AS v(x, y)
+    ) sums;
+$$ LANGUAGE SQL IMMUTABLE STRICT PARALLEL SAFE;
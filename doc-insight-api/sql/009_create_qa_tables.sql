@@ -0,0 +1,24 @@
+-- Create qa_questions table
+CREATE TABLE IF NOT EXISTS qa_questions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    question_text TEXT NOT NULL,
+    context TEXT NULL,
+    document_ids UUID[] NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create qa_answers table
+CREATE TABLE IF NOT EXISTS qa_answers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    question_id UUID NOT NULL UNIQUE REFERENCES qa_questions(id) ON DELETE CASCADE,
+    answer_text TEXT NOT NULL,
+    confidence REAL NOT NULL DEFAULT 0 CHECK (confidence >= 0 AND confidence <= 1),
+    sources JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for qa tables
+CREATE INDEX IF NOT EXISTS idx_qa_questions_user_id ON qa_questions(user_id);
+CREATE INDEX IF NOT EXISTS idx_qa_questions_user_id_created_at ON qa_questions(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_qa_questions_created_at ON qa_questions(created_at);
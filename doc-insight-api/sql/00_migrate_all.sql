@@ -23,4 +23,80 @@
 \echo 'Running migration 005: Insert initial data...'
 \i 005_initial_data.sql
 
+-- Run migration 007: Create document_texts table
+\echo 'Running migration 007: Create document_texts table...'
+\i 007_create_document_texts_table.sql
+
+-- Run migration 008: Create document_chunks table
+\echo 'Running migration 008: Create document_chunks table...'
+\i 008_create_document_chunks_table.sql
+
+-- Run migration 009: Create qa_questions and qa_answers tables
+\echo 'Running migration 009: Create qa tables...'
+\i 009_create_qa_tables.sql
+
+-- Run migration 010: Add generator column to qa_answers
+\echo 'Running migration 010: Add qa_answers generator column...'
+\i 010_add_qa_answer_generator.sql
+
+-- Run migration 011: Add full-text search vector to documents
+\echo 'Running migration 011: Add documents search_vector...'
+\i 011_add_document_search_vector.sql
+
+-- Run migration 012: Add worker lease columns to ingestion_jobs
+\echo 'Running migration 012: Add ingestion_jobs lease columns...'
+\i 012_add_ingestion_job_leases.sql
+
+-- Run migration 013: Add retry scheduling and dead-letter status to ingestion_jobs
+\echo 'Running migration 013: Add ingestion_jobs retries...'
+\i 013_add_ingestion_job_retries.sql
+
+-- Run migration 014: Add cancellation audit columns to ingestion_jobs
+\echo 'Running migration 014: Add ingestion_jobs cancellation columns...'
+\i 014_add_ingestion_job_cancellation.sql
+
+-- Run migration 015: Create ingestion_job_events history table
+\echo 'Running migration 015: Create ingestion_job_events table...'
+\i 015_create_ingestion_job_events_table.sql
+
+-- Run migration 016: Create ingestion_job_steps timeline table
+\echo 'Running migration 016: Create ingestion_job_steps table...'
+\i 016_create_ingestion_job_steps_table.sql
+
+-- Run migration 017: Create ingestion_batches table
+\echo 'Running migration 017: Create ingestion_batches table...'
+\i 017_create_ingestion_batches_table.sql
+
+-- Run migration 018: Record who requested each ingestion job
+\echo 'Running migration 018: Add requested_by to ingestion_jobs...'
+\i 018_add_ingestion_jobs_requested_by.sql
+
+-- Run migration 019: Add priority to ingestion jobs
+\echo 'Running migration 019: Add priority to ingestion_jobs...'
+\i 019_add_ingestion_jobs_priority.sql
+
+-- Run migration 020: Create schedules table
+\echo 'Running migration 020: Create schedules table...'
+\i 020_create_schedules_table.sql
+
+-- Run migration 021: Add content hash to documents
+\echo 'Running migration 021: Add content_hash to documents...'
+\i 021_add_documents_content_hash.sql
+
+-- Run migration 022: Create document versions table
+\echo 'Running migration 022: Create document_versions table...'
+\i 022_create_document_versions_table.sql
+
+-- Run migration 023: Create upload sessions table
+\echo 'Running migration 023: Create upload_sessions table...'
+\i 023_create_upload_sessions_table.sql
+
+-- Run migration 024: Add malware scanning
+\echo 'Running migration 024: Add malware scanning...'
+\i 024_add_malware_scanning.sql
+
+-- Run migration 025: Keep document chunks per version
+\echo 'Running migration 025: Keep document_chunks per version...'
+\i 025_keep_document_chunks_per_version.sql
+
 \echo 'Database migration completed successfully!'
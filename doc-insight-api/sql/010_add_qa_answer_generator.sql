@@ -0,0 +1,2 @@
+-- Record which answer generator produced each answer
+ALTER TABLE qa_answers ADD COLUMN IF NOT EXISTS generator VARCHAR(100) NOT NULL DEFAULT 'extractive';
@@ -0,0 +1,78 @@
+-- Full-text search vector over document metadata and extracted text
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE INDEX IF NOT EXISTS idx_documents_search_vector ON documents USING GIN(search_vector);
+
+-- Weighted search vector: title (A), description and file name (B), extracted text (C).
+-- Extracted text is capped so very large documents stay within the tsvector size limit.
+CREATE OR REPLACE FUNCTION build_document_search_vector(
+    p_title TEXT,
+    p_description TEXT,
+    p_file_name TEXT,
+    p_content TEXT
+)
+RETURNS TSVECTOR AS $$
+    SELECT
+        setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(p_description, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(p_file_name, '')), 'B') ||
+        setweight(to_tsvector('english', left(coalesce(p_content, ''), 500000)), 'C');
+$$ LANGUAGE SQL IMMUTABLE PARALLEL SAFE;
+
+-- Refresh the vector when document metadata changes
+CREATE OR REPLACE FUNCTION documents_search_vector_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector := build_document_search_vector(
+        NEW.title,
+        NEW.description,
+        NEW.file_name,
+        (SELECT content FROM document_texts WHERE document_id = NEW.id)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_documents_search_vector ON documents;
+CREATE TRIGGER trg_documents_search_vector
+    BEFORE INSERT OR UPDATE OF title, description, file_name ON documents
+    FOR EACH ROW EXECUTE FUNCTION documents_search_vector_trigger();
+
+-- Refresh the vector when extracted text is stored, replaced or removed
+CREATE OR REPLACE FUNCTION document_texts_search_vector_trigger()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_document_id UUID;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        target_document_id := OLD.document_id;
+    ELSE
+        target_document_id := NEW.document_id;
+    END IF;
+
+    UPDATE documents
+    SET search_vector = build_document_search_vector(
+        title,
+        description,
+        file_name,
+        (SELECT content FROM document_texts WHERE document_id = target_document_id)
+    )
+    WHERE id = target_document_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_document_texts_search_vector ON document_texts;
+CREATE TRIGGER trg_document_texts_search_vector
+    AFTER INSERT OR UPDATE OF content OR DELETE ON document_texts
+    FOR EACH ROW EXECUTE FUNCTION document_texts_search_vector_trigger();
+
+-- Backfill existing documents
+UPDATE documents d
+SET search_vector = build_document_search_vector(
+    d.title,
+    d.description,
+    d.file_name,
+    (SELECT content FROM document_texts WHERE document_id = d.id)
+);
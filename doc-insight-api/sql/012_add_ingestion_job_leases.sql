@@ -0,0 +1,11 @@
+-- Worker leases for the database-backed ingestion queue.
+-- A worker that claims a job owns it until locked_until; jobs whose lease has
+-- expired while still processing are recovered by the next worker that checks.
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS locked_by VARCHAR(255) NULL;
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP NULL;
+
+-- Queued jobs are claimed oldest first
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_queued ON ingestion_jobs(created_at) WHERE status = 'queued';
+
+-- Processing jobs are scanned for expired leases
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_locked_until ON ingestion_jobs(locked_until) WHERE status = 'processing';
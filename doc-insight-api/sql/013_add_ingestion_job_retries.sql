@@ -0,0 +1,11 @@
+-- Automatic retries with backoff and a dead-letter state for ingestion jobs.
+-- A failed attempt is requeued with next_attempt_at in the future; once a job
+-- has used all its attempts it is parked as dead_lettered for an admin to requeue.
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP NULL;
+
+ALTER TABLE ingestion_jobs DROP CONSTRAINT IF EXISTS ingestion_jobs_status_check;
+ALTER TABLE ingestion_jobs ADD CONSTRAINT ingestion_jobs_status_check
+    CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled', 'dead_lettered'));
+
+-- Queued jobs are claimed once their next attempt is due
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_next_attempt_at ON ingestion_jobs(next_attempt_at) WHERE status = 'queued';
@@ -0,0 +1,5 @@
+-- Cancellation audit columns for ingestion jobs.
+-- A cancelled job records who stopped it and when; the user reference survives
+-- the user being deleted as NULL so the job history is kept.
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS cancelled_by UUID NULL REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP NULL;
@@ -0,0 +1,15 @@
+-- History of ingestion job status transitions.
+-- One row per transition, written in the same transaction as the status change.
+-- from_status is NULL for the row recording the job's creation.
+CREATE TABLE IF NOT EXISTS ingestion_job_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+    from_status VARCHAR(20) NULL,
+    to_status VARCHAR(20) NOT NULL,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('api', 'worker', 'webhook', 'recovery')),
+    actor_id UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+    message TEXT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_job_events_job_id_created_at ON ingestion_job_events(job_id, created_at);
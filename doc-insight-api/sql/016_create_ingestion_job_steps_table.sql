@@ -0,0 +1,19 @@
+-- Per-step timeline of ingestion jobs.
+-- A step starts when a progress update first reports it and ends when the next step
+-- is reported or the job leaves processing. Steps are numbered per attempt, so a
+-- retried job keeps the timeline of its earlier attempts.
+CREATE TABLE IF NOT EXISTS ingestion_job_steps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    step VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+    message TEXT NULL,
+    started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMP NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_job_steps_job_id_started_at ON ingestion_job_steps(job_id, started_at);
+
+-- At most one running step per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ingestion_job_steps_running ON ingestion_job_steps(job_id) WHERE ended_at IS NULL;
@@ -0,0 +1,17 @@
+-- Ingestion batches group the jobs queued by one bulk trigger so they can be
+-- followed, cancelled and retried as a unit. Counts and progress are computed
+-- from the batch's jobs when read, so nothing here has to be kept in sync.
+CREATE TABLE IF NOT EXISTS ingestion_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+    cancelled_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+    cancelled_at TIMESTAMP NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_batches_created_at ON ingestion_batches(created_at);
+
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS batch_id UUID NULL REFERENCES ingestion_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_batch_id ON ingestion_jobs(batch_id) WHERE batch_id IS NOT NULL;
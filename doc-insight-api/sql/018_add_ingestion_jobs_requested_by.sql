@@ -0,0 +1,14 @@
+-- Record who queued each ingestion job so workers can enforce per-user and
+-- per-role concurrency limits and share the queue fairly between users.
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS requested_by UUID NULL REFERENCES users(id) ON DELETE SET NULL;
+
+-- Jobs queued before this migration are attributed to their document's uploader
+UPDATE ingestion_jobs
+SET requested_by = documents.uploaded_by
+FROM documents
+WHERE documents.id = ingestion_jobs.document_id
+  AND ingestion_jobs.requested_by IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_active_requested_by
+    ON ingestion_jobs(requested_by, created_at)
+    WHERE status IN ('queued', 'processing');
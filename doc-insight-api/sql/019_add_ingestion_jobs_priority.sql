@@ -0,0 +1,4 @@
+-- Ingestion job priority: workers claim higher-priority jobs first, and take
+-- turns between users within a priority. Only admins may queue urgent jobs.
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS priority VARCHAR(10) NOT NULL DEFAULT 'normal'
+    CHECK (priority IN ('low', 'normal', 'high', 'urgent'));
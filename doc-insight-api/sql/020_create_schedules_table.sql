@@ -0,0 +1,23 @@
+-- Recurring tasks run by the scheduler: re-ingestion of document sets and
+-- maintenance such as expired session cleanup. Each schedule is claimed by one
+-- process when it is due, which moves next_run_at on before the task runs.
+CREATE TABLE IF NOT EXISTS schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    task VARCHAR(50) NOT NULL CHECK (task IN ('reingest_documents', 'cleanup_expired_sessions')),
+    cron_expression VARCHAR(100) NOT NULL,
+    options JSONB NOT NULL DEFAULT '{}',
+    is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    next_run_at TIMESTAMP NULL,
+    last_run_at TIMESTAMP NULL,
+    last_run_status VARCHAR(20) NULL CHECK (last_run_status IN ('running', 'succeeded', 'failed')),
+    last_run_error TEXT NULL,
+    last_run_result JSONB NULL,
+    -- Start of the last successful run; re-ingestion picks up documents changed since then
+    last_success_at TIMESTAMP NULL,
+    created_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_next_run_at ON schedules(next_run_at) WHERE is_enabled = TRUE;
@@ -0,0 +1,7 @@
+-- SHA-256 of each document's file, computed while the upload is written, so
+-- byte-identical uploads can be detected. Documents uploaded before this
+-- migration have no hash and are never matched as duplicates.
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash CHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_documents_content_hash ON documents(content_hash)
+    WHERE content_hash IS NOT NULL;
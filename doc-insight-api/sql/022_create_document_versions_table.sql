@@ -0,0 +1,36 @@
+-- Document versions: every file a document has had, current one included.
+-- The documents row keeps the current version's file columns, so everything
+-- that reads a document's file keeps working; restoring an old version adds a
+-- new version that points at the old file.
+CREATE TABLE IF NOT EXISTS document_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    file_path VARCHAR(1000) NOT NULL,
+    file_type VARCHAR(50) NOT NULL,
+    file_size BIGINT NOT NULL,
+    mime_type VARCHAR(100) NOT NULL,
+    content_hash CHAR(64) NULL,
+    restored_from INTEGER NULL,
+    uploaded_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE (document_id, version_number)
+);
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+-- Existing documents start at version 1
+INSERT INTO document_versions (document_id, version_number, file_name, file_path, file_type, file_size, mime_type, content_hash, uploaded_by, created_at)
+SELECT id, 1, file_name, file_path, file_type, file_size, mime_type, content_hash, uploaded_by, created_at
+FROM documents
+ON CONFLICT (document_id, version_number) DO NOTHING;
+
+-- Which version each job ingested, and which version the stored text and chunks come from
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS document_version INTEGER NULL;
+ALTER TABLE document_texts ADD COLUMN IF NOT EXISTS document_version INTEGER NULL;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS document_version INTEGER NULL;
+
+UPDATE ingestion_jobs SET document_version = 1 WHERE document_version IS NULL;
+UPDATE document_texts SET document_version = 1 WHERE document_version IS NULL;
+UPDATE document_chunks SET document_version = 1 WHERE document_version IS NULL;
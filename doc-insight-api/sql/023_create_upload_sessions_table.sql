@@ -0,0 +1,44 @@
+-- Resumable uploads of files too large for a single request. A session is
+-- created with the file's size, its chunks are sent (and verified) one by one in
+-- any order, and completing it assembles the file into a document. Chunks live
+-- on disk under the upload path until then; sessions not completed before
+-- expires_at (moved on with every chunk) are cleaned up by cleanup_stale_uploads.
+CREATE TABLE IF NOT EXISTS upload_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_name VARCHAR(255) NOT NULL,
+    file_size BIGINT NOT NULL,
+    mime_type VARCHAR(100) NOT NULL,
+    chunk_size INTEGER NOT NULL,
+    total_chunks INTEGER NOT NULL,
+    -- SHA-256 of the whole file, if the client declared it; checked on completion
+    checksum CHAR(64) NULL,
+    title VARCHAR(500) NOT NULL,
+    description TEXT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completing', 'completed', 'aborted')),
+    document_id UUID NULL REFERENCES documents(id) ON DELETE SET NULL,
+    created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at);
+
+-- Chunks received so far; a chunk sent again replaces the earlier one
+CREATE TABLE IF NOT EXISTS upload_session_chunks (
+    session_id UUID NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    size INTEGER NOT NULL,
+    checksum CHAR(64) NOT NULL,
+    received_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (session_id, chunk_index)
+);
+
+ALTER TABLE schedules DROP CONSTRAINT IF EXISTS schedules_task_check;
+ALTER TABLE schedules ADD CONSTRAINT schedules_task_check
+    CHECK (task IN ('reingest_documents', 'cleanup_expired_sessions', 'cleanup_stale_uploads'));
+
+-- Clean up stale uploads hourly out of the box
+INSERT INTO schedules (name, task, cron_expression, next_run_at)
+SELECT 'Clean up stale uploads', 'cleanup_stale_uploads', '0 * * * *', NOW()
+WHERE NOT EXISTS (SELECT 1 FROM schedules WHERE task = 'cleanup_stale_uploads');
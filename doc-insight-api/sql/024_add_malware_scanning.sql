@@ -0,0 +1,26 @@
+-- Malware scanning of uploads. An upload found infected is moved to the
+-- quarantine folder under the upload path; a new document keeps a record of it
+-- in the 'quarantined' status (never ingested or served), and every detection
+-- is listed for admins until one of them acknowledges it.
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_status_check;
+ALTER TABLE documents ADD CONSTRAINT documents_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'quarantined'));
+
+CREATE TABLE IF NOT EXISTS malware_detections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- The quarantined document, or the document an infected new version was uploaded to
+    document_id UUID NULL REFERENCES documents(id) ON DELETE SET NULL,
+    file_name VARCHAR(255) NOT NULL,
+    file_path VARCHAR(1000) NOT NULL, -- where the file is quarantined
+    file_size BIGINT NOT NULL,
+    content_hash CHAR(64) NULL,
+    scanner VARCHAR(50) NOT NULL,
+    signature VARCHAR(255) NOT NULL, -- what the scanner found, e.g. Eicar-Test-Signature
+    uploaded_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+    acknowledged_at TIMESTAMP NULL,
+    acknowledged_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_malware_detections_unacknowledged ON malware_detections(created_at)
+    WHERE acknowledged_at IS NULL;
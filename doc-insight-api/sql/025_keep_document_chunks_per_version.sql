@@ -0,0 +1,19 @@
+-- Chunks are kept per document version, so Q&A can still cite an older version
+-- on request. indexed_version is the version whose chunks are cited by default:
+-- it moves on when a version's chunks have been indexed, so a new version that
+-- is still being ingested (or failed to be) leaves the previous one in place.
+ALTER TABLE document_chunks DROP CONSTRAINT IF EXISTS document_chunks_document_id_chunk_index_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_chunks_version_chunk
+    ON document_chunks(document_id, document_version, chunk_index);
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS indexed_version INTEGER NULL;
+
+-- Documents indexed so far were indexed from the version their chunks carry
+UPDATE documents d
+SET indexed_version = chunks.document_version
+FROM (
+    SELECT document_id, MAX(document_version) AS document_version
+    FROM document_chunks
+    GROUP BY document_id
+) chunks
+WHERE chunks.document_id = d.id AND d.indexed_version IS NULL;
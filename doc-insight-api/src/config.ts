@@ -31,6 +31,20 @@ interface Config extends Record<string, any> {
     maxFileSize: number;
     uploadPath: string;
     allowedFileTypes: string[];
+    duplicateUploadMode: string;
+    maxFilesPerUpload: number;
+    resumableUploadMaxSize: number;
+    resumableUploadChunkSize: number;
+    resumableUploadTtl: number;
+    zipImportMaxSize: number;
+    zipImportMaxEntries: number;
+    zipImportMaxUncompressedSize: number;
+    zipImportMaxCompressionRatio: number;
+    uploadScanner: string;
+    clamdSocket: string;
+    clamdHost: string;
+    clamdPort: number;
+    clamdTimeout: number;
     pythonServiceUrl: string;
     pythonServiceApiKey: string;
     // Mock Ingestion Service Configuration
@@ -38,10 +52,50 @@ interface Config extends Record<string, any> {
     mockIngestionMinTime: number;
     mockIngestionMaxTime: number;
     mockIngestionFailureRate: number;
-    mockIngestionMaxRetries: number;
-    mockIngestionAutoCleanup: boolean;
-    mockIngestionCleanupInterval: number;
-    mockIngestionMaxAge: number;
+    mockIngestionLocalProcessing: boolean;
+    // Ingestion Queue Configuration
+    ingestionProcessor: string;
+    ingestionWorkerInProcess: boolean;
+    ingestionWorkerConcurrency: number;
+    ingestionMaxRunningJobs: number;
+    ingestionUserMaxRunningJobs: number;
+    ingestionRoleMaxRunningJobs: string;
+    ingestionPollInterval: number;
+    ingestionVisibilityTimeout: number;
+    ingestionRecoveryInterval: number;
+    ingestionMaxRetries: number;
+    ingestionRetryBaseDelay: number;
+    ingestionRetryMaxDelay: number;
+    ingestionRetryJitter: number;
+    ingestionEventsKeepAliveInterval: number;
+    ingestionBulkMaxDocuments: number;
+    // Ingestion Webhook Configuration
+    ingestionWebhookSecret: string;
+    ingestionWebhookPreviousSecret: string;
+    ingestionWebhookTolerance: number;
+    // Scheduler Configuration
+    schedulerEnabled: boolean;
+    schedulerPollInterval: number;
+    // Chunking and Embedding Configuration
+    textExtractionMaxSize: number;
+    chunkSize: number;
+    chunkOverlap: number;
+    embeddingProvider: string;
+    embeddingDimensions: number;
+    embeddingBatchSize: number;
+    // Q&A Configuration
+    qaTopK: number;
+    qaMinRelevance: number;
+    answerProvider: string;
+    llmApiUrl: string;
+    llmApiKey: string;
+    llmModel: string;
+    llmTemperature: number;
+    llmMaxTokens: number;
+    llmTimeout: number;
+    // Search Configuration
+    searchCandidates: number;
+    searchRrfK: number;
 }
 
 // Load environment variables
@@ -78,6 +132,20 @@ const config: Config = {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'),
     uploadPath: process.env.UPLOAD_PATH || './uploads',
     allowedFileTypes: (process.env.ALLOWED_FILE_TYPES || 'pdf,doc,docx,txt,md').split(','),
+    duplicateUploadMode: process.env.DUPLICATE_UPLOAD_MODE || 'reject',
+    maxFilesPerUpload: parseInt(process.env.MAX_FILES_PER_UPLOAD || '20'),
+    resumableUploadMaxSize: parseInt(process.env.RESUMABLE_UPLOAD_MAX_SIZE || '1073741824'),
+    resumableUploadChunkSize: parseInt(process.env.RESUMABLE_UPLOAD_CHUNK_SIZE || '16777216'),
+    resumableUploadTtl: parseInt(process.env.RESUMABLE_UPLOAD_TTL || '86400000'),
+    zipImportMaxSize: parseInt(process.env.ZIP_IMPORT_MAX_SIZE || '104857600'),
+    zipImportMaxEntries: parseInt(process.env.ZIP_IMPORT_MAX_ENTRIES || '1000'),
+    zipImportMaxUncompressedSize: parseInt(process.env.ZIP_IMPORT_MAX_UNCOMPRESSED_SIZE || '1073741824'),
+    zipImportMaxCompressionRatio: parseInt(process.env.ZIP_IMPORT_MAX_COMPRESSION_RATIO || '100'),
+    uploadScanner: process.env.UPLOAD_SCANNER || '',
+    clamdSocket: process.env.CLAMD_SOCKET || '',
+    clamdHost: process.env.CLAMD_HOST || 'localhost',
+    clamdPort: parseInt(process.env.CLAMD_PORT || '3310'),
+    clamdTimeout: parseInt(process.env.CLAMD_TIMEOUT || '60000'),
     pythonServiceUrl: process.env.PYTHON_SERVICE_URL || 'http://localhost:8000',
     pythonServiceApiKey: process.env.PYTHON_SERVICE_API_KEY || '',
     // Mock Ingestion Service Configuration
@@ -85,10 +153,50 @@ const config: Config = {
     mockIngestionMinTime: parseInt(process.env.MOCK_INGESTION_MIN_TIME || '2000'),
     mockIngestionMaxTime: parseInt(process.env.MOCK_INGESTION_MAX_TIME || '10000'),
     mockIngestionFailureRate: parseFloat(process.env.MOCK_INGESTION_FAILURE_RATE || '0.1'),
-    mockIngestionMaxRetries: parseInt(process.env.MOCK_INGESTION_MAX_RETRIES || '3'),
-    mockIngestionAutoCleanup: process.env.MOCK_INGESTION_AUTO_CLEANUP === 'true',
-    mockIngestionCleanupInterval: parseInt(process.env.MOCK_INGESTION_CLEANUP_INTERVAL || '300000'),
-    mockIngestionMaxAge: parseInt(process.env.MOCK_INGESTION_MAX_AGE || '3600000'),
+    mockIngestionLocalProcessing: process.env.MOCK_INGESTION_LOCAL_PROCESSING !== 'false',
+    // Ingestion Queue Configuration
+    ingestionProcessor: process.env.INGESTION_PROCESSOR || '',
+    ingestionWorkerInProcess: process.env.INGESTION_WORKER_IN_PROCESS !== 'false',
+    ingestionWorkerConcurrency: parseInt(process.env.INGESTION_WORKER_CONCURRENCY || '2'),
+    ingestionMaxRunningJobs: parseInt(process.env.INGESTION_MAX_RUNNING_JOBS || '10'),
+    ingestionUserMaxRunningJobs: parseInt(process.env.INGESTION_USER_MAX_RUNNING_JOBS || '3'),
+    ingestionRoleMaxRunningJobs: process.env.INGESTION_ROLE_MAX_RUNNING_JOBS ?? 'editor:6,viewer:2',
+    ingestionPollInterval: parseInt(process.env.INGESTION_POLL_INTERVAL || '1000'),
+    ingestionVisibilityTimeout: parseInt(process.env.INGESTION_VISIBILITY_TIMEOUT || '300000'),
+    ingestionRecoveryInterval: parseInt(process.env.INGESTION_RECOVERY_INTERVAL || '60000'),
+    ingestionMaxRetries: parseInt(process.env.INGESTION_MAX_RETRIES || '3'),
+    ingestionRetryBaseDelay: parseInt(process.env.INGESTION_RETRY_BASE_DELAY || '5000'),
+    ingestionRetryMaxDelay: parseInt(process.env.INGESTION_RETRY_MAX_DELAY || '300000'),
+    ingestionRetryJitter: parseFloat(process.env.INGESTION_RETRY_JITTER || '0.2'),
+    ingestionEventsKeepAliveInterval: parseInt(process.env.INGESTION_EVENTS_KEEPALIVE_INTERVAL || '15000'),
+    ingestionBulkMaxDocuments: parseInt(process.env.INGESTION_BULK_MAX_DOCUMENTS || '500'),
+    // Ingestion Webhook Configuration
+    ingestionWebhookSecret: process.env.INGESTION_WEBHOOK_SECRET || '',
+    ingestionWebhookPreviousSecret: process.env.INGESTION_WEBHOOK_PREVIOUS_SECRET || '',
+    ingestionWebhookTolerance: parseInt(process.env.INGESTION_WEBHOOK_TOLERANCE || '300000'),
+    // Scheduler Configuration
+    schedulerEnabled: process.env.SCHEDULER_ENABLED !== 'false',
+    schedulerPollInterval: parseInt(process.env.SCHEDULER_POLL_INTERVAL || '30000'),
+    // Chunking and Embedding Configuration
+    textExtractionMaxSize: parseInt(process.env.TEXT_EXTRACTION_MAX_SIZE || '104857600'),
+    chunkSize: parseInt(process.env.CHUNK_SIZE || '1000'),
+    chunkOverlap: parseInt(process.env.CHUNK_OVERLAP || '200'),
+    embeddingProvider: process.env.EMBEDDING_PROVIDER || 'hashing',
+    embeddingDimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '384'),
+    embeddingBatchSize: parseInt(process.env.EMBEDDING_BATCH_SIZE || '32'),
+    // Q&A Configuration
+    qaTopK: parseInt(process.env.QA_TOP_K || '5'),
+    qaMinRelevance: parseFloat(process.env.QA_MIN_RELEVANCE || '0.1'),
+    answerProvider: process.env.ANSWER_PROVIDER || 'extractive',
+    llmApiUrl: process.env.LLM_API_URL || 'https://api.openai.com/v1',
+    llmApiKey: process.env.LLM_API_KEY || '',
+    llmModel: process.env.LLM_MODEL || 'gpt-4o-mini',
+    llmTemperature: parseFloat(process.env.LLM_TEMPERATURE || '0.2'),
+    llmMaxTokens: parseInt(process.env.LLM_MAX_TOKENS || '512'),
+    llmTimeout: parseInt(process.env.LLM_TIMEOUT || '30000'),
+    // Search Configuration
+    searchCandidates: parseInt(process.env.SEARCH_CANDIDATES || '50'),
+    searchRrfK: parseInt(process.env.SEARCH_RRF_K || '60'),
 }
 
 export default config;
\ No newline at end of file
@@ -22,15 +22,8 @@ export interface MockIngestionConfig {
     percentage: number; // Progress percentage
   }>;
   
-  // Retry settings
-  maxRetries: number; // Maximum number of retries allowed
-  
-  // Cleanup settings
-  autoCleanup: {
-    enabled: boolean;
-    interval: number; // Cleanup interval in milliseconds
-    maxAge: number; // Maximum age of completed jobs in milliseconds
-  };
+  // Run real in-process work (text extraction) for steps that support it
+  localProcessing: boolean;
 }
 
 export const defaultMockIngestionConfig: MockIngestionConfig = {
@@ -49,13 +42,7 @@ export const defaultMockIngestionConfig: MockIngestionConfig = {
     { name: 'finalizing', duration: 500, percentage: 95 },
   ],
   
-  maxRetries: 3,
-  
-  autoCleanup: {
-    enabled: false, // Disabled by default
-    interval: 300000, // 5 minutes
-    maxAge: 3600000, // 1 hour
-  },
+  localProcessing: true,
 };
 
 /**
@@ -77,20 +64,8 @@ export function getMockIngestionConfig(): MockIngestionConfig {
     config.failureRate = parseFloat(process.env.MOCK_INGESTION_FAILURE_RATE);
   }
   
-  if (process.env.MOCK_INGESTION_MAX_RETRIES) {
-    config.maxRetries = parseInt(process.env.MOCK_INGESTION_MAX_RETRIES);
-  }
-  
-  if (process.env.MOCK_INGESTION_AUTO_CLEANUP === 'true') {
-    config.autoCleanup.enabled = true;
-  }
-  
-  if (process.env.MOCK_INGESTION_CLEANUP_INTERVAL) {
-    config.autoCleanup.interval = parseInt(process.env.MOCK_INGESTION_CLEANUP_INTERVAL);
-  }
-  
-  if (process.env.MOCK_INGESTION_MAX_AGE) {
-    config.autoCleanup.maxAge = parseInt(process.env.MOCK_INGESTION_MAX_AGE);
+  if (process.env.MOCK_INGESTION_LOCAL_PROCESSING === 'false') {
+    config.localProcessing = false;
   }
   
   return config;
@@ -114,20 +89,6 @@ export function validateMockIngestionConfig(config: MockIngestionConfig): string
     errors.push('Failure rate must be between 0 and 1');
   }
   
-  if (config.maxRetries < 0) {
-    errors.push('Maximum retries must be non-negative');
-  }
-  
-  if (config.autoCleanup.enabled) {
-    if (config.autoCleanup.interval <= 0) {
-      errors.push('Cleanup interval must be positive');
-    }
-    
-    if (config.autoCleanup.maxAge <= 0) {
-      errors.push('Maximum age must be positive');
-    }
-  }
-  
   // Validate steps
   if (config.steps.length === 0) {
     errors.push('At least one processing step must be defined');
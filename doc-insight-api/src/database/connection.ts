@@ -68,12 +68,3 @@ export async function healthCheck(): Promise<boolean> {
     return false;
   }
 }
-
-// Graceful shutdown
-process.on('SIGTERM', async () => {
-  await closeDatabase();
-});
-
-process.on('SIGINT', async () => {
-  await closeDatabase();
-});
\ No newline at end of file
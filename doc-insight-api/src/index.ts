@@ -5,20 +5,30 @@ import rateLimit from 'express-rate-limit';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
+import { captureRawBody } from './middleware/webhookMiddleware';
 import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
 import documentRoutes from './routes/documentRoutes';
+import uploadRoutes from './routes/uploadRoutes';
 import ingestionRoutes from './routes/ingestionRoutes';
-import { initializeDatabase } from './database/connection';
+import qaRoutes from './routes/qaRoutes';
+import scheduleRoutes from './routes/scheduleRoutes';
+import quarantineRoutes from './routes/quarantineRoutes';
+import { initializeDatabase, closeDatabase } from './database/connection';
+import { IngestionWorker } from './services/ingestionWorker';
+import { ingestionEvents } from './services/ingestionEventService';
+import { ScheduleRunner } from './services/scheduleRunner';
 import config from './config';
 import { 
   validateRequiredEnvVars, 
   getConfigSummary, 
   getEnvironmentRecommendations,
-  shouldUseMockIngestion 
+  getIngestionQueueConfig
 } from './utils/configHelper';
 
 const app = express();
+let ingestionWorker: IngestionWorker | undefined;
+let scheduleRunner: ScheduleRunner | undefined;
 const PORT = config.port;
 const HOST = config.host;
 
@@ -42,7 +52,8 @@ const limiter = rateLimit({
 app.use(limiter);
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Keep the raw body alongside the parsed one for webhook signature checks
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Request logging
@@ -68,8 +79,12 @@ app.get('/health', (_req, res) => {
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/documents/uploads', uploadRoutes);
 app.use('/api/documents', documentRoutes);
 app.use('/api/ingestion', ingestionRoutes);
+app.use('/api/qa', qaRoutes);
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/quarantine', quarantineRoutes);
 
 // Error handling middleware
 app.use(notFoundHandler);
@@ -98,6 +113,17 @@ async function startServer() {
     // Initialize database
     await initializeDatabase();
     logger.info('Database connection established');
+
+    // Process queued ingestion jobs here unless a separate worker process does
+    if (config.ingestionWorkerInProcess) {
+      ingestionWorker = new IngestionWorker();
+      ingestionWorker.start();
+    }
+
+    if (config.schedulerEnabled) {
+      scheduleRunner = new ScheduleRunner();
+      scheduleRunner.start();
+    }
     
     // Start server
     app.listen(PORT, () => {
@@ -107,10 +133,15 @@ async function startServer() {
       logger.info(`API Documentation: http://${HOST}:${PORT}/api`);
       
       // Log service configuration
-      if (shouldUseMockIngestion()) {
+      const queueConfig = getIngestionQueueConfig();
+      if (!queueConfig.workerInProcess) {
+        logger.info('Ingestion jobs are processed by a separate worker process');
+      } else if (queueConfig.processor === 'mock') {
         logger.info('Using Mock Ingestion Service for document processing');
-      } else {
+      } else if (queueConfig.processor === 'python') {
         logger.info(`Using Python Service: ${config.pythonServiceUrl}`);
+      } else {
+        logger.info('Processing documents in-process');
       }
     });
   } catch (error) {
@@ -119,16 +150,24 @@ async function startServer() {
   }
 }
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
+// Graceful shutdown: let in-flight ingestion jobs and schedule runs finish and end
+// live event streams (which hold a pooled connection) before closing the database
+async function shutdown(signal: string) {
+  logger.info(`${signal} received, shutting down gracefully`);
+  if (ingestionWorker) {
+    await ingestionWorker.stop();
+  }
+  if (scheduleRunner) {
+    await scheduleRunner.stop();
+  }
+  await ingestionEvents.close();
+  await closeDatabase();
   process.exit(0);
-});
+}
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  process.exit(0);
-});
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
@@ -11,12 +11,14 @@ export class CustomError extends Error implements AppError {
   public statusCode: number;
   public isOperational: boolean;
   public code?: string;
+  public data?: Record<string, any> | undefined; // sent to the client with the error, e.g. the conflicting record
 
-  constructor(message: string, statusCode: number, code?: string) {
+  constructor(message: string, statusCode: number, code?: string, data?: Record<string, any>) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
     this.code = code || '';
+    this.data = data;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -130,6 +132,7 @@ export const errorHandler = (
     success: false,
     error: customError.message,
     code: customError.code,
+    ...(customError.data && { data: customError.data }),
     timestamp: new Date().toISOString(),
     ...(config.nodeEnv === 'development' && {
       stack: error.stack,
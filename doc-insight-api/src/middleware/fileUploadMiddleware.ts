@@ -1,126 +1,216 @@
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { CustomError } from './errorHandler';
 import { logger } from '../utils/logger';
 import { ErrorCodes } from '../utils/constants';
 import config from '../config';
+import { RejectedUpload } from '../types';
+import { getResumableUploadConfig } from '../utils/configHelper';
+import { createStoredFilePath } from '../utils/fileStorage';
+import { VerifiedFileType, verifyFileType } from '../utils/fileSignature';
+
+// Extend Multer's file interface with the hash and type found while storing the upload,
+// and the request with the files a multi-file upload turned away
+declare global {
+  namespace Express {
+    namespace Multer {
+      interface File {
+        contentHash?: string; // hex SHA-256 of the stored file
+        detectedType?: VerifiedFileType | null; // type found from the content, null if it is not the declared one
+        uploadIndex?: number; // position of the file in a multi-file upload
+        tooLarge?: boolean; // a multi-file upload's file over the size limit, which was not stored
+      }
+    }
+    interface Request {
+      rejectedUploads?: RejectedUpload[]; // files a multi-file upload did not accept
+    }
+  }
+}
 
 // File upload configuration
 const MAX_FILE_SIZE = config.maxFileSize;
 const UPLOAD_PATH = config.uploadPath;
 const ALLOWED_FILE_TYPES = config.allowedFileTypes;
+const MAX_FILES_PER_UPLOAD = config.maxFilesPerUpload;
+const ZIP_IMPORT_MAX_SIZE = config.zipImportMaxSize;
+const ARCHIVE_PATH = path.join(UPLOAD_PATH, '.imports');
+const CONTENT_MISMATCH_MESSAGE = 'File content does not match its file type';
+const ALLOWED_ARCHIVE_MIME_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed', // Windows
+  'multipart/x-zip',
+  'application/octet-stream', // clients that do not recognise the extension
+];
 
 // Ensure upload directory exists
 if (!fs.existsSync(UPLOAD_PATH)) {
   fs.mkdirSync(UPLOAD_PATH, { recursive: true });
 }
 
-// Configure storage
-const storage = multer.diskStorage({
-  destination: (_req: Request, file: Express.Multer.File, cb: (error: Error | null, destination: string) => void) => {
-    // Create subdirectories based on file type
-    const fileTypeDir = path.join(UPLOAD_PATH, file.mimetype.split('/')[1] || 'other');
-    if (!fs.existsSync(fileTypeDir)) {
-      fs.mkdirSync(fileTypeDir, { recursive: true });
-    }
-    cb(null, fileTypeDir);
+// Configure storage: files are written to disk and hashed in the same pass, then their
+// content is checked against their name and MIME type, which the client chose
+const storage: multer.StorageEngine = {
+  _handleFile: (_req: Request, file: Express.Multer.File, cb: (error?: any, info?: Partial<Express.Multer.File>) => void) => {
+    const { destination: fileTypeDir, filename: fileName, path: filePath } = createStoredFilePath(file.originalname, file.mimetype);
+
+    const hash = crypto.createHash('sha256');
+    const output = fs.createWriteStream(filePath);
+    let received = 0;
+    let settled = false;
+    const done = (error: any, info?: Partial<Express.Multer.File>) => {
+      if (!settled) {
+        settled = true;
+        cb(error, info);
+      }
+    };
+
+    file.stream.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received <= MAX_FILE_SIZE) {
+        hash.update(chunk);
+      } else if (!output.destroyed) {
+        // Only multi-file uploads get here (single uploads are cut off by multer's fileSize
+        // limit): discard the file and let the rest of it drain, so the other files still arrive
+        file.stream.unpipe(output);
+        output.once('close', () => fs.unlink(filePath, () => undefined));
+        output.destroy();
+        done(null, { destination: fileTypeDir, filename: fileName, path: filePath, size: received, tooLarge: true });
+      }
+    });
+    file.stream.on('error', done);
+    output.on('error', done);
+    output.on('finish', () => {
+      verifyFileType(filePath, file.originalname, file.mimetype)
+        .then((detectedType) => {
+          done(null, {
+            destination: fileTypeDir,
+            filename: fileName,
+            path: filePath,
+            size: output.bytesWritten,
+            contentHash: hash.digest('hex'),
+            detectedType,
+          });
+        })
+        .catch((error) => {
+          fs.unlink(filePath, () => undefined);
+          done(error);
+        });
+    });
+
+    file.stream.pipe(output);
   },
-  filename: (_req: Request, file: Express.Multer.File, cb: (error: Error | null, filename: string) => void) => {
-    // Generate unique filename with timestamp
-    const timestamp = Date.now();
-    const randomString = Math.random().toString(36).substring(2, 15);
-    const fileExtension = path.extname(file.originalname);
-    const fileName = `${timestamp}-${randomString}${fileExtension}`;
-    cb(null, fileName);
+  _removeFile: (_req: Request, file: Express.Multer.File, cb: (error: Error | null) => void) => {
+    fs.unlink(file.path, (error) => cb(error));
   },
-});
+};
 
-// File filter function
-const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  try {
-    // Check file type
-    const fileExtension = path.extname(file.originalname).toLowerCase().substring(1);
-    const mimeType = file.mimetype.toLowerCase();
+/**
+ * Check an incoming file's name and type, returning the reason it is not accepted, or null.
+ * Folder uploads may send a relative path as the filename; it must stay inside the folder.
+ */
+const checkFile = (
+  req: Request,
+  file: Pick<Express.Multer.File, 'originalname' | 'mimetype' | 'size'>,
+  { allowRelativePath = false, maxSize = MAX_FILE_SIZE }: { allowRelativePath?: boolean; maxSize?: number } = {}
+): CustomError | null => {
+  // Check file type
+  const fileExtension = path.extname(file.originalname).toLowerCase().substring(1);
+  const mimeType = file.mimetype.toLowerCase();
+  
+  // Validate file extension
+  if (!ALLOWED_FILE_TYPES.includes(fileExtension)) {
+    logger.warn('File upload rejected - invalid extension', {
+      fileName: file.originalname,
+      fileExtension,
+      allowedTypes: ALLOWED_FILE_TYPES,
+      userId: req.user?.user_id,
+    });
     
-    // Validate file extension
-    if (!ALLOWED_FILE_TYPES.includes(fileExtension)) {
-      logger.warn('File upload rejected - invalid extension', {
-        fileName: file.originalname,
-        fileExtension,
-        allowedTypes: ALLOWED_FILE_TYPES,
-        userId: req.user?.user_id,
-      });
-      
-      return cb(new CustomError(
-        `File type not allowed. Allowed types: ${ALLOWED_FILE_TYPES.join(', ')}`,
-        400,
-        ErrorCodes.INVALID_FILE_TYPE
-      ));
-    }
-
-    // Validate MIME type
-    const allowedMimeTypes = [
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain',
-      'text/markdown',
-    ];
-
-    if (!allowedMimeTypes.includes(mimeType)) {
-      logger.warn('File upload rejected - invalid MIME type', {
-        fileName: file.originalname,
-        mimeType,
-        allowedMimeTypes,
-        userId: req.user?.user_id,
-      });
-      
-      return cb(new CustomError(
-        'File MIME type not allowed',
-        400,
-        ErrorCodes.INVALID_MIME_TYPE
-      ));
-    }
+    return new CustomError(
+      `File type not allowed. Allowed types: ${ALLOWED_FILE_TYPES.join(', ')}`,
+      400,
+      ErrorCodes.INVALID_FILE_TYPE
+    );
+  }
 
-    // Check file size
-    if (file.size > MAX_FILE_SIZE) {
-      logger.warn('File upload rejected - file too large', {
-        fileName: file.originalname,
-        fileSize: file.size,
-        maxSize: MAX_FILE_SIZE,
-        userId: req.user?.user_id,
-      });
-      
-      return cb(new CustomError(
-        `File too large. Maximum size: ${Math.round(MAX_FILE_SIZE / 1024 / 1024)}MB`,
-        400,
-        'FILE_TOO_LARGE'
-      ));
-    }
+  // Validate MIME type
+  const allowedMimeTypes = [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain',
+    'text/markdown',
+  ];
 
-    // Additional security checks
-    if (file.originalname.includes('..') || file.originalname.includes('/') || file.originalname.includes('\\')) {
-      logger.warn('File upload rejected - suspicious filename', {
-        fileName: file.originalname,
-        userId: req.user?.user_id,
-      });
-      
-      return cb(new CustomError(
-        'Invalid filename',
-        400,
-        ErrorCodes.INVALID_FILENAME
-      ));
-    }
+  if (!allowedMimeTypes.includes(mimeType)) {
+    logger.warn('File upload rejected - invalid MIME type', {
+      fileName: file.originalname,
+      mimeType,
+      allowedMimeTypes,
+      userId: req.user?.user_id,
+    });
+    
+    return new CustomError(
+      'File MIME type not allowed',
+      400,
+      ErrorCodes.INVALID_MIME_TYPE
+    );
+  }
 
-    // Log successful file validation
-    logger.info('File upload validated successfully', {
+  // Check file size
+  if (file.size > maxSize) {
+    logger.warn('File upload rejected - file too large', {
       fileName: file.originalname,
       fileSize: file.size,
-      mimeType,
+      maxSize,
       userId: req.user?.user_id,
     });
+    
+    return new CustomError(
+      `File too large. Maximum size: ${Math.round(maxSize / 1024 / 1024)}MB`,
+      400,
+      'FILE_TOO_LARGE'
+    );
+  }
+
+  // Additional security checks
+  const suspicious = allowRelativePath
+    ? file.originalname.includes('\\') || file.originalname.split('/').some(segment => segment === '' || segment === '.' || segment === '..')
+    : file.originalname.includes('..') || file.originalname.includes('/') || file.originalname.includes('\\');
+  if (suspicious) {
+    logger.warn('File upload rejected - suspicious filename', {
+      fileName: file.originalname,
+      userId: req.user?.user_id,
+    });
+    
+    return new CustomError(
+      'Invalid filename',
+      400,
+      ErrorCodes.INVALID_FILENAME
+    );
+  }
+
+  // Log successful file validation
+  logger.info('File upload validated successfully', {
+    fileName: file.originalname,
+    fileSize: file.size,
+    mimeType,
+    userId: req.user?.user_id,
+  });
+
+  return null;
+};
+
+// File filter function
+const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  try {
+    const rejection = checkFile(req, file);
+    if (rejection) {
+      return cb(rejection);
+    }
 
     cb(null, true);
   } catch (error) {
@@ -129,6 +219,61 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
   }
 };
 
+// Number of files seen so far by each multi-file request, to number them in arrival order
+const receivedFiles = new WeakMap<Request, number>();
+
+// File filter of multi-file uploads: a file that fails validation is skipped and
+// recorded on the request instead of failing the whole request
+const collectingFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const index = receivedFiles.get(req) ?? 0;
+  receivedFiles.set(req, index + 1);
+  file.uploadIndex = index;
+
+  let rejection: CustomError | null;
+  try {
+    rejection = checkFile(req, file, { allowRelativePath: true });
+  } catch (error) {
+    logger.error('Error in file filter:', error);
+    rejection = new CustomError('File validation failed', 500, 'FILE_VALIDATION_ERROR');
+  }
+
+  if (rejection) {
+    req.rejectedUploads = [
+      ...(req.rejectedUploads || []),
+      { index, file_name: file.originalname, error: rejection.message, code: rejection.code || ErrorCodes.FILE_UPLOAD_ERROR },
+    ];
+    return cb(null, false);
+  }
+
+  cb(null, true);
+};
+
+// Configure storage of ZIP archives, which are only kept until they are imported
+const archiveStorage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    fs.mkdir(ARCHIVE_PATH, { recursive: true }, (error) => cb(error, ARCHIVE_PATH));
+  },
+  filename: (_req, _file, cb) => {
+    cb(null, `${Date.now()}-${Math.random().toString(36).substring(2, 15)}.zip`);
+  },
+});
+
+// File filter of ZIP imports; the entries are checked when the archive is imported
+const archiveFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (path.extname(file.originalname).toLowerCase() !== '.zip'
+    || !ALLOWED_ARCHIVE_MIME_TYPES.includes(file.mimetype.toLowerCase())) {
+    logger.warn('Archive upload rejected - not a ZIP file', {
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      userId: req.user?.user_id,
+    });
+
+    return cb(new CustomError('Only ZIP archives can be imported', 400, ErrorCodes.INVALID_FILE_TYPE));
+  }
+
+  cb(null, true);
+};
+
 // Create multer instance
 const upload = multer({
   storage,
@@ -139,17 +284,49 @@ const upload = multer({
   },
 });
 
+// Create multer instance for multi-file uploads. Files over the size limit are
+// discarded by the storage engine one by one instead of failing the request, and
+// relative paths are kept so that folder uploads can record where each file was.
+const multiUpload = multer({
+  storage,
+  fileFilter: collectingFileFilter,
+  preservePath: true,
+  limits: {
+    files: MAX_FILES_PER_UPLOAD,
+  },
+});
+
+// Create multer instance for ZIP imports
+const archiveUpload = multer({
+  storage: archiveStorage,
+  fileFilter: archiveFileFilter,
+  limits: {
+    fileSize: ZIP_IMPORT_MAX_SIZE,
+    files: 1,
+  },
+});
+
 /**
  * Single file upload middleware
  */
 export const uploadSingle = upload.single('file');
 
+/**
+ * Multi-file upload middleware
+ */
+export const uploadMultiple = multiUpload.array('files', MAX_FILES_PER_UPLOAD);
+
+/**
+ * ZIP archive upload middleware
+ */
+export const uploadArchive = archiveUpload.single('file');
+
 /**
  * File upload error handling middleware
  */
 export const handleFileUploadError = (
   error: Error,
-  _req: Request,
+  req: Request,
   _res: Response,
   next: NextFunction
 ): void => {
@@ -170,7 +347,9 @@ export const handleFileUploadError = (
         break;
       case ErrorCodes.LIMIT_FILE_COUNT:
         customError = new CustomError(
-          'Too many files. Only one file allowed per request',
+          Array.isArray(req.files)
+            ? `Too many files. Maximum ${MAX_FILES_PER_UPLOAD} files per request`
+            : 'Too many files. Only one file allowed per request',
           400,
           ErrorCodes.TOO_MANY_FILES
         );
@@ -198,6 +377,27 @@ export const handleFileUploadError = (
   }
 };
 
+/**
+ * Archive upload error handling middleware: reports the archive size limit, otherwise as handleFileUploadError
+ */
+export const handleArchiveUploadError = (
+  error: Error,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (error instanceof multer.MulterError && error.code === ErrorCodes.LIMIT_FILE_SIZE) {
+    next(new CustomError(
+      `Archive too large. Maximum size: ${Math.round(ZIP_IMPORT_MAX_SIZE / 1024 / 1024)}MB`,
+      400,
+      ErrorCodes.FILE_TOO_LARGE
+    ));
+    return;
+  }
+
+  handleFileUploadError(error, req, res, next);
+};
+
 /**
  * Validate uploaded file exists
  */
@@ -220,12 +420,89 @@ export const validateFileUpload = (req: Request, _res: Response, next: NextFunct
     return;
   }
 
+  if (file.detectedType === null) {
+    logger.warn('File upload rejected - content does not match file type', {
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      userId: req.user?.user_id,
+    });
+    fs.unlink(file.path, () => undefined);
+    next(new CustomError(CONTENT_MISMATCH_MESSAGE, 400, ErrorCodes.INVALID_MIME_TYPE));
+    return;
+  }
+
   // Add file metadata to request
   req.body.file = file;
   
   next();
 };
 
+/**
+ * Validate a multi-file upload received at least one file, and move files over the
+ * size limit or whose content is not their declared type to the rejected ones
+ */
+export const validateMultiFileUpload = (req: Request, _res: Response, next: NextFunction): void => {
+  const received = Array.isArray(req.files) ? req.files : [];
+  const rejected = req.rejectedUploads || [];
+
+  for (const file of received.filter(file => file.tooLarge)) {
+    logger.warn('File upload rejected - file too large', {
+      fileName: file.originalname,
+      fileSize: file.size,
+      maxSize: MAX_FILE_SIZE,
+      userId: req.user?.user_id,
+    });
+
+    rejected.push({
+      index: file.uploadIndex ?? 0,
+      file_name: file.originalname,
+      error: `File too large. Maximum size: ${Math.round(MAX_FILE_SIZE / 1024 / 1024)}MB`,
+      code: ErrorCodes.FILE_TOO_LARGE,
+    });
+  }
+
+  for (const file of received.filter(file => !file.tooLarge && file.detectedType === null)) {
+    logger.warn('File upload rejected - content does not match file type', {
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      userId: req.user?.user_id,
+    });
+    fs.unlink(file.path, () => undefined);
+
+    rejected.push({
+      index: file.uploadIndex ?? 0,
+      file_name: file.originalname,
+      error: CONTENT_MISMATCH_MESSAGE,
+      code: ErrorCodes.INVALID_MIME_TYPE,
+    });
+  }
+
+  const files = received.filter(file => !file.tooLarge && file.detectedType !== null);
+  if (files.length === 0 && rejected.length === 0) {
+    next(new CustomError('No files uploaded', 400, ErrorCodes.NO_FILE));
+    return;
+  }
+
+  req.files = files;
+  req.rejectedUploads = rejected;
+
+  next();
+};
+
+/**
+ * Validate the file described when starting a resumable upload (see validationSchemas.createUploadSession)
+ * the way uploaded files are validated, against the resumable upload size limit
+ */
+export const validateResumableUpload = (req: Request, _res: Response, next: NextFunction): void => {
+  const rejection = checkFile(
+    req,
+    { originalname: req.body.file_name, mimetype: req.body.mime_type, size: req.body.file_size },
+    { maxSize: getResumableUploadConfig().maxSize }
+  );
+
+  next(rejection || undefined);
+};
+
 /**
  * Clean up uploaded file on error
  */
@@ -254,11 +531,41 @@ export const cleanupUploadedFile = (req: Request, res: Response, next: NextFunct
   next();
 };
 
+/**
+ * Clean up the files of a multi-file upload on error
+ */
+export const cleanupUploadedFiles = (req: Request, res: Response, next: NextFunction): void => {
+  const originalPaths = Array.isArray(req.files) ? req.files.map(file => file.path) : [];
+
+  const originalEnd = res.end;
+  res.end = function(chunk?: any, encoding?: any): any  {
+    if (res.statusCode >= 400) {
+      for (const filePath of originalPaths.filter(filePath => fs.existsSync(filePath))) {
+        try {
+          fs.unlinkSync(filePath);
+          logger.info('Cleaned up uploaded file due to error', {
+            filePath,
+            statusCode: res.statusCode,
+            userId: req.user?.user_id,
+          });
+        } catch (error) {
+          logger.error('Failed to cleanup uploaded file:', error);
+        }
+      }
+    }
+    originalEnd.call(this, chunk, encoding);
+  };
+
+  next();
+};
+
 /**
  * Get file upload configuration
  */
 export const getFileUploadConfig = () => ({
   maxFileSize: MAX_FILE_SIZE,
+  maxFilesPerUpload: MAX_FILES_PER_UPLOAD,
+  maxArchiveSize: ZIP_IMPORT_MAX_SIZE,
   allowedFileTypes: ALLOWED_FILE_TYPES,
   uploadPath: UPLOAD_PATH,
 });
@@ -272,3 +579,23 @@ export const fileUploadMiddleware = [
   validateFileUpload,
   cleanupUploadedFile,
 ];
+
+/**
+ * Complete multi-file upload middleware chain
+ */
+export const multiFileUploadMiddleware = [
+  uploadMultiple,
+  handleFileUploadError,
+  validateMultiFileUpload,
+  cleanupUploadedFiles,
+];
+
+/**
+ * Complete ZIP archive upload middleware chain
+ */
+export const archiveUploadMiddleware = [
+  uploadArchive,
+  handleArchiveUploadError,
+  validateFileUpload,
+  cleanupUploadedFile,
+];
@@ -28,6 +28,30 @@ export const validateRequest = (schema: Joi.ObjectSchema) => {
   };
 };
 
+/**
+ * Task options of a schedule; only reingest_documents takes any
+ */
+const scheduleOptionsSchema = Joi.object({
+  document_ids: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .unique()
+    .optional()
+    .messages({
+      'string.guid': 'Document IDs must be valid UUIDs',
+      'array.min': 'document_ids must not be empty',
+      'array.unique': 'document_ids must not contain duplicates',
+    }),
+  changed_since_last_run: Joi.boolean()
+    .optional(),
+  priority: Joi.string()
+    .valid('low', 'normal', 'high', 'urgent')
+    .optional()
+    .messages({
+      'any.only': 'Priority must be one of: low, normal, high, urgent',
+    }),
+}).optional();
+
 /**
  * Validation schemas for different endpoints
  */
@@ -175,6 +199,66 @@ export const validationSchemas = {
       }),
   }),
 
+  // Multi-file document upload; titles come from the file names
+  uploadDocuments: Joi.object({
+    description: Joi.string()
+      .max(2000)
+      .optional()
+      .allow('')
+      .messages({
+        'string.max': 'Document description must not exceed 2000 characters',
+      }),
+  }),
+
+  // Resumable upload; the file itself is checked by validateResumableUpload
+  createUploadSession: Joi.object({
+    file_name: Joi.string()
+      .min(1)
+      .max(255)
+      .required()
+      .messages({
+        'string.max': 'File name must not exceed 255 characters',
+        'any.required': 'File name is required',
+      }),
+    file_size: Joi.number()
+      .integer()
+      .min(1)
+      .required()
+      .messages({
+        'number.base': 'File size must be a positive integer',
+        'number.integer': 'File size must be a positive integer',
+        'number.min': 'File size must be a positive integer',
+        'any.required': 'File size is required',
+      }),
+    mime_type: Joi.string()
+      .max(100)
+      .required()
+      .messages({
+        'any.required': 'MIME type is required',
+      }),
+    checksum: Joi.string()
+      .pattern(/^[0-9a-f]{64}$/)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Checksum must be a lowercase hex SHA-256',
+      }),
+    title: Joi.string()
+      .min(1)
+      .max(500)
+      .optional()
+      .messages({
+        'string.min': 'Document title cannot be empty',
+        'string.max': 'Document title must not exceed 500 characters',
+      }),
+    description: Joi.string()
+      .max(2000)
+      .optional()
+      .allow('')
+      .messages({
+        'string.max': 'Document description must not exceed 2000 characters',
+      }),
+  }),
+
   // Document update
   updateDocument: Joi.object({
     title: Joi.string()
@@ -236,6 +320,118 @@ export const validationSchemas = {
       }),
   }),
 
+  // Ingestion job listing (admin), filtered by job status
+  ingestionJobs: Joi.object({
+    page: Joi.number()
+      .integer()
+      .min(1)
+      .default(1)
+      .messages({
+        'number.base': 'Page must be a number',
+        'number.integer': 'Page must be an integer',
+        'number.min': 'Page must be at least 1',
+      }),
+    limit: Joi.number()
+      .integer()
+      .min(1)
+      .max(100)
+      .default(20)
+      .messages({
+        'number.base': 'Limit must be a number',
+        'number.integer': 'Limit must be an integer',
+        'number.min': 'Limit must be at least 1',
+        'number.max': 'Limit must not exceed 100',
+      }),
+    status: Joi.string()
+      .valid('queued', 'processing', 'completed', 'failed', 'cancelled', 'dead_lettered')
+      .optional()
+      .messages({
+        'any.only': 'Status must be one of: queued, processing, completed, failed, cancelled, dead_lettered',
+      }),
+  }),
+
+  // Document search query
+  search: Joi.object({
+    q: Joi.string()
+      .trim()
+      .min(1)
+      .max(500)
+      .required()
+      .messages({
+        'string.empty': 'Search term is required',
+        'string.max': 'Search term must not exceed 500 characters',
+        'any.required': 'Search term is required',
+      }),
+    page: Joi.number()
+      .integer()
+      .min(1)
+      .default(1)
+      .messages({
+        'number.base': 'Page must be a number',
+        'number.integer': 'Page must be an integer',
+        'number.min': 'Page must be at least 1',
+      }),
+    limit: Joi.number()
+      .integer()
+      .min(1)
+      .max(100)
+      .default(20)
+      .messages({
+        'number.base': 'Limit must be a number',
+        'number.integer': 'Limit must be an integer',
+        'number.min': 'Limit must be at least 1',
+        'number.max': 'Limit must not exceed 100',
+      }),
+    sort_by: Joi.string()
+      .valid('relevance', 'created_at', 'updated_at', 'title', 'file_name', 'file_size')
+      .default('relevance')
+      .messages({
+        'any.only': 'Sort by must be one of: relevance, created_at, updated_at, title, file_name, file_size',
+      }),
+    sort_order: Joi.string()
+      .valid('asc', 'desc')
+      .default('desc')
+      .messages({
+        'any.only': 'Sort order must be either asc or desc',
+      }),
+  }),
+
+  // Hybrid semantic search query
+  semanticSearch: Joi.object({
+    q: Joi.string()
+      .trim()
+      .min(1)
+      .max(500)
+      .required()
+      .messages({
+        'string.empty': 'Search term is required',
+        'string.max': 'Search term must not exceed 500 characters',
+        'any.required': 'Search term is required',
+      }),
+    limit: Joi.number()
+      .integer()
+      .min(1)
+      .max(50)
+      .default(10)
+      .messages({
+        'number.base': 'Limit must be a number',
+        'number.integer': 'Limit must be an integer',
+        'number.min': 'Limit must be at least 1',
+        'number.max': 'Limit must not exceed 50',
+      }),
+    chunks_per_document: Joi.number()
+      .integer()
+      .min(1)
+      .max(10)
+      .default(3)
+      .messages({
+        'number.base': 'Chunks per document must be a number',
+        'number.integer': 'Chunks per document must be an integer',
+        'number.min': 'Chunks per document must be at least 1',
+        'number.max': 'Chunks per document must not exceed 10',
+      }),
+  }),
+
   // Ingestion trigger
   triggerIngestion: Joi.object({
     document_id: Joi.string()
@@ -245,6 +441,161 @@ export const validationSchemas = {
         'string.guid': 'Document ID must be a valid UUID',
         'any.required': 'Document ID is required',
       }),
+    priority: Joi.string()
+      .valid('low', 'normal', 'high', 'urgent')
+      .optional()
+      .messages({
+        'any.only': 'Priority must be one of: low, normal, high, urgent',
+      }),
+  }),
+
+  // Live ingestion event stream filters
+  ingestionEvents: Joi.object({
+    job_id: Joi.string()
+      .uuid()
+      .optional()
+      .messages({
+        'string.guid': 'Job ID must be a valid UUID',
+      }),
+    document_id: Joi.string()
+      .uuid()
+      .optional()
+      .messages({
+        'string.guid': 'Document ID must be a valid UUID',
+      }),
+  }),
+
+  // Requeue dead-lettered ingestion jobs (all of them when job_ids is omitted)
+  requeueDeadLetteredJobs: Joi.object({
+    job_ids: Joi.array()
+      .items(Joi.string().uuid())
+      .min(1)
+      .max(100)
+      .unique()
+      .messages({
+        'string.guid': 'Job IDs must be valid UUIDs',
+        'array.min': 'job_ids must not be empty',
+        'array.max': 'Maximum 100 jobs can be requeued at once',
+        'array.unique': 'job_ids must not contain duplicates',
+      }),
+  }),
+
+  // Schedule creation
+  createSchedule: Joi.object({
+    name: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .required()
+      .messages({
+        'string.empty': 'Name is required',
+        'string.max': 'Name must not exceed 100 characters',
+        'any.required': 'Name is required',
+      }),
+    task: Joi.string()
+      .valid('reingest_documents', 'cleanup_expired_sessions', 'cleanup_stale_uploads')
+      .required()
+      .messages({
+        'any.only': 'Task must be one of: reingest_documents, cleanup_expired_sessions, cleanup_stale_uploads',
+        'any.required': 'Task is required',
+      }),
+    cron_expression: Joi.string()
+      .trim()
+      .max(100)
+      .required()
+      .messages({
+        'string.empty': 'Cron expression is required',
+        'any.required': 'Cron expression is required',
+      }),
+    options: scheduleOptionsSchema,
+    is_enabled: Joi.boolean()
+      .optional(),
+  }),
+
+  // Schedule update
+  updateSchedule: Joi.object({
+    name: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .optional()
+      .messages({
+        'string.empty': 'Name cannot be empty',
+        'string.max': 'Name must not exceed 100 characters',
+      }),
+    task: Joi.string()
+      .valid('reingest_documents', 'cleanup_expired_sessions', 'cleanup_stale_uploads')
+      .optional()
+      .messages({
+        'any.only': 'Task must be one of: reingest_documents, cleanup_expired_sessions, cleanup_stale_uploads',
+      }),
+    cron_expression: Joi.string()
+      .trim()
+      .max(100)
+      .optional()
+      .messages({
+        'string.empty': 'Cron expression cannot be empty',
+      }),
+    options: scheduleOptionsSchema,
+    is_enabled: Joi.boolean()
+      .optional(),
+  }).min(1).messages({
+    'object.min': 'At least one field must be updated',
+  }),
+
+  // Malware detection listing
+  malwareDetectionQuery: Joi.object({
+    acknowledged: Joi.boolean()
+      .optional()
+      .messages({
+        'boolean.base': 'Acknowledged must be true or false',
+      }),
+  }),
+
+  // Q&A question
+  askQuestion: Joi.object({
+    question: Joi.string()
+      .trim()
+      .min(3)
+      .max(2000)
+      .required()
+      .messages({
+        'string.min': 'Question must be at least 3 characters long',
+        'string.max': 'Question must not exceed 2000 characters',
+        'string.empty': 'Question is required',
+        'any.required': 'Question is required',
+      }),
+    context: Joi.string()
+      .max(5000)
+      .optional()
+      .allow('')
+      .messages({
+        'string.max': 'Context must not exceed 5000 characters',
+      }),
+    document_ids: Joi.array()
+      .items(Joi.string().uuid())
+      .max(50)
+      .optional()
+      // An older version is cited from one document at a time
+      .when('document_version', {
+        is: Joi.exist(),
+        then: Joi.array().length(1).required(),
+      })
+      .messages({
+        'string.guid': 'Document IDs must be valid UUIDs',
+        'array.max': 'No more than 50 document IDs may be given',
+        'array.length': 'A document version can only be asked about with exactly one document ID',
+        'any.required': 'A document version can only be asked about with exactly one document ID',
+      }),
+    document_version: Joi.number()
+      .integer()
+      .min(1)
+      .optional()
+      .messages({
+        'number.base': 'Document version must be a number',
+        'number.integer': 'Document version must be an integer',
+        'number.min': 'Document version must be at least 1',
+      }),
   }),
 };
 
@@ -310,3 +661,75 @@ export const uuidSchema = Joi.object({
       'any.required': 'ID is required',
     }),
 });
+
+/**
+ * Ingestion job ID validation schema
+ */
+export const jobIdSchema = Joi.object({
+  jobId: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.guid': 'Job ID must be a valid UUID',
+      'any.required': 'Job ID is required',
+    }),
+});
+
+/**
+ * Ingestion batch ID validation schema
+ */
+export const batchIdSchema = Joi.object({
+  batchId: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.guid': 'Batch ID must be a valid UUID',
+      'any.required': 'Batch ID is required',
+    }),
+});
+
+/**
+ * Document version validation schema
+ */
+export const documentVersionSchema = Joi.object({
+  id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.guid': 'ID must be a valid UUID',
+      'any.required': 'ID is required',
+    }),
+  version: Joi.number()
+    .integer()
+    .min(1)
+    .required()
+    .messages({
+      'number.base': 'Version must be a positive integer',
+      'number.integer': 'Version must be a positive integer',
+      'number.min': 'Version must be a positive integer',
+      'any.required': 'Version is required',
+    }),
+});
+
+/**
+ * Upload chunk validation schema
+ */
+export const uploadChunkSchema = Joi.object({
+  id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.guid': 'ID must be a valid UUID',
+      'any.required': 'ID is required',
+    }),
+  index: Joi.number()
+    .integer()
+    .min(0)
+    .required()
+    .messages({
+      'number.base': 'Chunk index must be a non-negative integer',
+      'number.integer': 'Chunk index must be a non-negative integer',
+      'number.min': 'Chunk index must be a non-negative integer',
+      'any.required': 'Chunk index is required',
+    }),
+});
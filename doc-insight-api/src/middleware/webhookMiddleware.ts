@@ -0,0 +1,47 @@
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { CustomError } from './errorHandler';
+import { logger } from '../utils/logger';
+import { ErrorCodes } from '../utils/constants';
+import { getWebhookConfig } from '../utils/configHelper';
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from '../utils/webhookSignature';
+
+// Extend Express Request interface to include the unparsed body
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * `verify` hook for the body parsers: keeps the raw bytes so signatures can be checked
+ */
+export const captureRawBody = (req: IncomingMessage, _res: unknown, buffer: Buffer): void => {
+  (req as Request).rawBody = buffer;
+};
+
+/**
+ * Middleware to verify HMAC-signed webhook calls from the ingestion service
+ */
+export const verifyWebhookRequest = (req: Request, _res: Response, next: NextFunction): void => {
+  const { secrets, tolerance } = getWebhookConfig();
+  const result = verifyWebhookSignature(
+    req.get(WEBHOOK_SIGNATURE_HEADER),
+    req.rawBody,
+    secrets,
+    tolerance
+  );
+
+  if (!result.valid) {
+    logger.warn('Rejected webhook call', {
+      path: req.path,
+      ip: req.ip,
+      reason: result.reason,
+    });
+    return next(new CustomError('Invalid webhook signature', 401, ErrorCodes.WEBHOOK_SIGNATURE_INVALID));
+  }
+
+  next();
+};
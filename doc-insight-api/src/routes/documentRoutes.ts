@@ -1,21 +1,44 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import fs from 'fs';
 import { DocumentService } from '../services/documentService';
+import { DocumentVersionService } from '../services/documentVersionService';
+import { ArchiveImportService } from '../services/archiveImportService';
 import { IngestionService } from '../services/ingestionService';
-import { validateRequest, validationSchemas, validateParams, uuidSchema, validateQuery } from '../middleware/validationMiddleware';
+import { TextExtractionService } from '../services/textExtractionService';
+import { HybridSearchService } from '../services/hybridSearchService';
+import {
+  validateRequest,
+  validationSchemas,
+  validateParams,
+  uuidSchema,
+  documentVersionSchema,
+  validateQuery,
+} from '../middleware/validationMiddleware';
 import { authenticateToken, requireEditor } from '../middleware/authMiddleware';
-import { fileUploadMiddleware, getFileUploadConfig } from '../middleware/fileUploadMiddleware';
-import { asyncHandler } from '../middleware/errorHandler';
+import {
+  fileUploadMiddleware,
+  multiFileUploadMiddleware,
+  archiveUploadMiddleware,
+  getFileUploadConfig,
+} from '../middleware/fileUploadMiddleware';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
-import { PaginationQuery } from '../types';
+import { ErrorCodes } from '../utils/constants';
+import { buildContentDisposition, buildETag, isETagFresh, isIfRangeFresh, parseRangeHeader } from '../utils/fileStreaming';
+import { DocumentSearchQuery, SemanticSearchQuery } from '../types';
 
 const router = Router();
 
 // Create service instance on-demand to avoid database initialization issues
 const getDocumentService = () => new DocumentService();
+const getHybridSearchService = () => new HybridSearchService();
+const getDocumentVersionService = () => new DocumentVersionService();
+const getArchiveImportService = () => new ArchiveImportService();
 
 /**
  * @route   POST /api/documents
- * @desc    Upload a new document
+ * @desc    Upload a new document. A byte-identical duplicate of an existing document is
+ *          rejected (409) or, with DUPLICATE_UPLOAD_MODE=link, answered with that document (200)
  * @access  Private (Editor/Admin)
  */
 router.post('/',
@@ -27,18 +50,88 @@ router.post('/',
     const userId = req.user!.user_id;
     const documentData = req.body;
     
-    const newDocument = await getDocumentService().createDocument(userId, documentData);
+    const { document, duplicate } = await getDocumentService().createDocument(userId, documentData);
     
     logger.info('Document uploaded successfully', {
-      documentId: newDocument.id,
+      documentId: document.id,
       userId,
-      fileName: newDocument.file_name,
+      fileName: document.file_name,
+      duplicate,
     });
 
-    res.status(201).json({
+    res.status(duplicate ? 200 : 201).json({
+      success: true,
+      data: document,
+      message: duplicate
+        ? 'An identical file has already been uploaded; returning the existing document'
+        : 'Document uploaded successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/documents/bulk
+ * @desc    Upload several documents (or a folder) in one request, as `files` fields. Each file
+ *          is validated and stored on its own and gets its own result; the new documents are
+ *          queued for ingestion as one batch.
+ * @access  Private (Editor/Admin)
+ */
+router.post('/bulk',
+  authenticateToken,
+  requireEditor,
+  multiFileUploadMiddleware,
+  validateRequest(validationSchemas.uploadDocuments),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.user_id;
+    const files = req.files as Express.Multer.File[];
+
+    const result = await getDocumentService().uploadDocuments(userId, files, req.rejectedUploads, req.body.description);
+
+    logger.info('Documents uploaded successfully', {
+      userId,
+      batchId: result.batch?.id,
+      ...result.summary,
+    });
+
+    res.status(result.summary.created > 0 ? 201 : 200).json({
+      success: true,
+      data: result,
+      message: `${result.summary.created} of ${result.summary.total} files uploaded as new documents`,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/documents/import
+ * @desc    Import a ZIP archive (`file` field) as one document per entry of an allowed type,
+ *          keeping each entry's folder path. Responds with a per-entry report; the new
+ *          documents are queued for ingestion as one batch.
+ * @access  Private (Editor/Admin)
+ */
+router.post('/import',
+  authenticateToken,
+  requireEditor,
+  archiveUploadMiddleware,
+  validateRequest(validationSchemas.uploadDocuments),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.user_id;
+    const archive = req.file!;
+
+    const result = await getArchiveImportService().importArchive(userId, archive, req.body.description);
+
+    logger.info('ZIP archive imported successfully', {
+      userId,
+      archive: archive.originalname,
+      batchId: result.batch?.id,
+      ...result.summary,
+    });
+
+    res.status(result.summary.created > 0 ? 201 : 200).json({
       success: true,
-      data: newDocument,
-      message: 'Document uploaded successfully',
+      data: result,
+      message: `${result.summary.created} of ${result.archive.entries} archive entries imported as new documents`,
       timestamp: new Date().toISOString(),
     });
   })
@@ -76,6 +169,70 @@ router.get('/',
   })
 );
 
+/**
+ * @route   GET /api/documents/search
+ * @desc    Full-text search over document titles, descriptions and contents
+ * @access  Private
+ */
+// Registered before /:id so that "search" is not parsed as a document ID
+router.get('/search',
+  authenticateToken,
+  validateQuery(validationSchemas.search),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { q: searchTerm, ...query } = req.query as unknown as DocumentSearchQuery & { q: string };
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const documents = await getDocumentService().searchDocuments(searchTerm, userId, userRole, query);
+
+    logger.info('Document search completed successfully', {
+      searchTerm,
+      userId,
+      userRole,
+      page: query.page,
+      limit: query.limit,
+      total: documents.pagination.total,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: documents.data,
+      pagination: documents.pagination,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/documents/search/semantic
+ * @desc    Hybrid semantic and keyword search returning matching chunks grouped by document
+ * @access  Private
+ */
+router.get('/search/semantic',
+  authenticateToken,
+  validateQuery(validationSchemas.semanticSearch),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { q: searchTerm, ...query } = req.query as unknown as SemanticSearchQuery & { q: string };
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const results = await getHybridSearchService().search(searchTerm, userId, userRole, query);
+
+    logger.info('Semantic search completed successfully', {
+      searchTerm,
+      userId,
+      userRole,
+      resultCount: results.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: results,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
 /**
  * @route   GET /api/documents/:id
  * @desc    Get document by ID
@@ -201,48 +358,6 @@ router.get('/status/:status',
   })
 );
 
-/**
- * @route   GET /api/documents/search
- * @desc    Search documents
- * @access  Private
- */
-router.get('/search',
-  authenticateToken,
-  validateQuery(validationSchemas.pagination),
-  asyncHandler(async (req: Request, res: Response) => {
-    const { q: searchTerm, page = 1, limit = 20, sort_by = 'created_at', sort_order = 'desc' } = req.query;
-    const userId = req.user!.user_id;
-    const userRole = req.user!.role;
-    
-    if (!searchTerm) {
-      return res.status(400).json({
-        success: false,
-        error: 'Search term is required',
-        timestamp: new Date().toISOString(),
-      });
-    }
-    
-    const query: PaginationQuery = { page: Number(page), limit: Number(limit), sort_by: sort_by as string, sort_order: sort_order as 'asc' | 'desc' };
-    const documents = await getDocumentService().searchDocuments(searchTerm as string, userId, userRole, query);
-    
-    logger.info('Document search completed successfully', {
-      searchTerm,
-      userId,
-      userRole,
-      page,
-      limit,
-      total: documents.pagination.total,
-    });
-
-    return res.status(200).json({
-      success: true,
-      data: documents.data,
-      pagination: documents.pagination,
-      timestamp: new Date().toISOString(),
-    });
-  })
-);
-
 /**
  * @route   GET /api/documents/stats/overview
  * @desc    Get document statistics
@@ -286,7 +401,6 @@ router.get('/:id/download',
     const document = await getDocumentService().getDocumentById(id, userId, userRole);
     
     // Return file metadata for client-side download
-    // The actual file streaming would be implemented with proper file system handling
     res.status(200).json({
       success: true,
       data: {
@@ -294,7 +408,7 @@ router.get('/:id/download',
         file_name: document.file_name,
         file_type: document.file_type,
         file_size: document.file_size,
-        download_url: `/api/documents/${id}/stream`, // Separate endpoint for actual file streaming
+        download_url: `/api/documents/${id}/stream`,
         message: 'Use the download_url to stream the actual file'
       },
       timestamp: new Date().toISOString(),
@@ -310,6 +424,195 @@ router.get('/:id/download',
   })
 );
 
+/**
+ * @route   GET /api/documents/:id/stream
+ * @desc    Stream document file (supports HTTP Range requests)
+ * @access  Private
+ */
+router.get('/:id/stream',
+  authenticateToken,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const { document, filePath, stats } = await getDocumentService().getDocumentFile(id, userId, userRole);
+
+    return streamFile(req, res, next, {
+      filePath,
+      stats,
+      fileName: document.file_name,
+      mimeType: document.mime_type,
+      contentHash: document.content_hash,
+    }, {
+      documentId: id,
+      userId,
+      userRole,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/documents/:id/text
+ * @desc    Get extracted plain text and page boundaries
+ * @access  Private
+ */
+router.get('/:id/text',
+  authenticateToken,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    // Apply the same access rules as reading the document itself
+    await getDocumentService().getDocumentById(id, userId, userRole);
+    const documentText = await new TextExtractionService().getDocumentText(id);
+
+    logger.info('Document text retrieved successfully', {
+      documentId: id,
+      userId,
+      userRole,
+      characterCount: documentText.character_count,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: documentText,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/documents/:id/versions
+ * @desc    List a document's versions, newest first
+ * @access  Private
+ */
+router.get('/:id/versions',
+  authenticateToken,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const versions = await getDocumentVersionService().listVersions(id, userId, userRole);
+
+    logger.info('Document versions retrieved successfully', {
+      documentId: id,
+      userId,
+      userRole,
+      count: versions.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: versions,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/documents/:id/versions
+ * @desc    Upload a new version of a document and queue its ingestion
+ * @access  Private (Editor/Admin)
+ */
+router.post('/:id/versions',
+  authenticateToken,
+  requireEditor,
+  validateParams(uuidSchema),
+  fileUploadMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const result = await getDocumentVersionService().uploadVersion(id, userId, userRole, req.body.file);
+
+    logger.info('Document version uploaded successfully', {
+      documentId: id,
+      versionNumber: result.version.version_number,
+      jobId: result.ingestion_job?.id,
+      userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Document version uploaded successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/documents/:id/versions/:version/stream
+ * @desc    Stream the file of a document version (supports HTTP Range requests)
+ * @access  Private
+ */
+router.get('/:id/versions/:version/stream',
+  authenticateToken,
+  validateParams(documentVersionSchema),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const versionNumber = Number(req.params['version']);
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const { version, filePath, stats } = await getDocumentVersionService()
+      .getVersionFile(id, versionNumber, userId, userRole);
+
+    return streamFile(req, res, next, {
+      filePath,
+      stats,
+      fileName: version.file_name,
+      mimeType: version.mime_type,
+      contentHash: version.content_hash,
+    }, {
+      documentId: id,
+      versionNumber,
+      userId,
+      userRole,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/documents/:id/versions/:version/restore
+ * @desc    Restore a previous version as the new current version and queue its ingestion
+ * @access  Private (Editor/Admin)
+ */
+router.post('/:id/versions/:version/restore',
+  authenticateToken,
+  requireEditor,
+  validateParams(documentVersionSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const versionNumber = Number(req.params['version']);
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const result = await getDocumentVersionService().restoreVersion(id, versionNumber, userId, userRole);
+
+    logger.info('Document version restored successfully', {
+      documentId: id,
+      restoredFrom: versionNumber,
+      versionNumber: result.version.version_number,
+      userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: `Version ${versionNumber} restored as version ${result.version.version_number}`,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
 /**
  * @route   POST /api/documents/:id/retry
  * @desc    Retry failed document processing
@@ -351,7 +654,7 @@ router.post('/:id/retry',
 
       // Trigger ingestion process again
       const ingestionService = new IngestionService();
-      await ingestionService.triggerIngestion(userId, { document_id: id });
+      await ingestionService.triggerIngestion(userId, { document_id: id }, userRole);
 
       logger.info('Document retry initiated successfully', {
         documentId: id,
@@ -396,4 +699,75 @@ router.get('/upload/config',
   })
 );
 
+/**
+ * Stream a stored file with ETag and HTTP Range support
+ */
+function streamFile(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  file: { filePath: string; stats: fs.Stats; fileName: string; mimeType: string; contentHash?: string | null | undefined },
+  logContext: Record<string, any>
+) {
+  const { filePath, stats } = file;
+  const etag = buildETag(stats, file.contentHash);
+
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', stats.mtime.toUTCString());
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', 'private, no-cache');
+
+  if (isETagFresh(req.headers['if-none-match'], etag)) {
+    return res.status(304).end();
+  }
+
+  // Ignore the Range header when If-Range does not strongly match the current file
+  const rangeHeader = isIfRangeFresh(req.get('if-range'), etag) ? req.headers.range : undefined;
+  const range = parseRangeHeader(rangeHeader, stats.size);
+
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${stats.size}`);
+    return next(new CustomError('Requested range not satisfiable', 416, ErrorCodes.RANGE_NOT_SATISFIABLE));
+  }
+
+  const disposition = req.query.disposition === 'inline' ? 'inline' : 'attachment';
+  res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+  res.setHeader('Content-Disposition', buildContentDisposition(file.fileName, disposition));
+
+  const streamOptions = range ? { start: range.start, end: range.end } : {};
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stats.size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.status(200);
+    res.setHeader('Content-Length', stats.size);
+  }
+
+  const fileStream = fs.createReadStream(filePath, streamOptions);
+
+  fileStream.on('error', (streamError) => {
+    logger.error('Document stream failed:', streamError);
+    if (!res.headersSent) {
+      res.removeHeader('Content-Disposition');
+      res.removeHeader('Content-Range');
+      res.removeHeader('Content-Length');
+      next(new CustomError('Failed to stream document', 500, ErrorCodes.DOCUMENT_STREAM_ERROR));
+    } else {
+      res.destroy(streamError);
+    }
+  });
+
+  // Stop reading from disk if the client goes away mid-transfer
+  res.on('close', () => fileStream.destroy());
+
+  logger.info('Document stream started', {
+    ...logContext,
+    fileName: file.fileName,
+    range: range ? `${range.start}-${range.end}` : 'full',
+  });
+
+  return fileStream.pipe(res);
+}
+
 export default router;
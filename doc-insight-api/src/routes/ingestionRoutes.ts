@@ -1,25 +1,23 @@
 import { Router, Request, Response } from 'express';
 import { IngestionService } from '../services/ingestionService';
-import { MockIngestionService } from '../services/mockIngestionService';
-import { validateRequest, validationSchemas, validateParams, uuidSchema, validateQuery } from '../middleware/validationMiddleware';
+import { ingestionEvents } from '../services/ingestionEventService';
+import { INGESTION_JOB_PRIORITIES, isIngestionJobPriority } from '../services/jobScheduler';
+import { validateRequest, validationSchemas, validateParams, jobIdSchema, batchIdSchema, validateQuery } from '../middleware/validationMiddleware';
 import { authenticateToken, requireEditor, requireAdmin } from '../middleware/authMiddleware';
-import { asyncHandler } from '../middleware/errorHandler';
+import { verifyWebhookRequest } from '../middleware/webhookMiddleware';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 import config from '../config';
 
 const router = Router();
 
-// Create service instance on-demand - use mock service in development
-const getIngestionService = () => {
-  if (config.useMockIngestion) {
-    return new MockIngestionService();
-  }
-  return new IngestionService();
-};
+// Create service instance on-demand to avoid database initialization issues.
+// Jobs are queued in the database and processed by the ingestion worker.
+const getIngestionService = () => new IngestionService();
 
 /**
  * @route   POST /api/ingestion/trigger
- * @desc    Trigger ingestion process for a document
+ * @desc    Trigger ingestion process for a document, optionally with a priority (urgent is admin only)
  * @access  Private (Editor/Admin)
  */
 router.post('/trigger',
@@ -28,13 +26,15 @@ router.post('/trigger',
   validateRequest(validationSchemas.triggerIngestion),
   asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user!.user_id;
+    const userRole = req.user!.role;
     const request = req.body;
     
-    const ingestionJob = await getIngestionService().triggerIngestion(userId, request);
+    const ingestionJob = await getIngestionService().triggerIngestion(userId, request, userRole);
     
     logger.info('Ingestion triggered successfully', {
       jobId: ingestionJob.id,
       documentId: request.document_id,
+      priority: ingestionJob.priority,
       userId,
     });
 
@@ -54,7 +54,7 @@ router.post('/trigger',
  */
 router.get('/status/:jobId',
   authenticateToken,
-  validateParams(uuidSchema),
+  validateParams(jobIdSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const { jobId } = req.params;
     const userId = req.user!.user_id;
@@ -77,6 +77,132 @@ router.get('/status/:jobId',
   })
 );
 
+/**
+ * @route   GET /api/ingestion/status/:jobId/history
+ * @desc    Get the status transitions of an ingestion job
+ * @access  Private
+ */
+router.get('/status/:jobId/history',
+  authenticateToken,
+  validateParams(jobIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+    
+    const history = await getIngestionService().getJobHistory(jobId, userId, userRole);
+    
+    logger.info('Ingestion job history retrieved successfully', {
+      jobId,
+      userId,
+      userRole,
+      transitions: history.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: history,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/ingestion/status/:jobId/timeline
+ * @desc    Get the per-step timings of an ingestion job
+ * @access  Private
+ */
+router.get('/status/:jobId/timeline',
+  authenticateToken,
+  validateParams(jobIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+    
+    const timeline = await getIngestionService().getJobTimeline(jobId, userId, userRole);
+    
+    logger.info('Ingestion job timeline retrieved successfully', {
+      jobId,
+      userId,
+      userRole,
+      steps: timeline.steps.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: timeline,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/ingestion/events
+ * @desc    Stream live job status and progress changes as Server-Sent Events
+ * @access  Private (own jobs; admins see all jobs)
+ */
+router.get('/events',
+  authenticateToken,
+  validateQuery(validationSchemas.ingestionEvents),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+    const { job_id: jobId, document_id: documentId } = req.query;
+    let unsubscribe: (() => void) | undefined;
+    let keepAlive: NodeJS.Timeout | undefined;
+    let closed = false;
+
+    // Listen for the client leaving before subscribing, so one that leaves mid-setup is not missed
+    req.on('close', () => {
+      closed = true;
+      clearInterval(keepAlive);
+      unsubscribe?.();
+      logger.info('Ingestion event stream closed', { userId });
+    });
+    
+    unsubscribe = await ingestionEvents.subscribe({
+      onEvent: ({ owner_id: ownerId, ...event }) => {
+        // Events that arrive before the stream is open are dropped
+        if (!res.headersSent) {
+          return;
+        }
+        if (userRole !== 'admin' && ownerId !== userId) {
+          return;
+        }
+        if ((jobId && event.job_id !== jobId) || (documentId && event.document_id !== documentId)) {
+          return;
+        }
+        res.write(`event: job\ndata: ${JSON.stringify(event)}\n\n`);
+      },
+      onClose: () => res.end(),
+    });
+
+    if (closed) {
+      unsubscribe();
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // Stop reverse proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(': connected\n\n');
+
+    keepAlive = setInterval(() => res.write(': keep-alive\n\n'), config.ingestionEventsKeepAliveInterval);
+
+    logger.info('Ingestion event stream opened successfully', {
+      userId,
+      userRole,
+      jobId,
+      documentId,
+    });
+  })
+);
+
 /**
  * @route   GET /api/ingestion/jobs
  * @desc    Get user's ingestion jobs
@@ -128,7 +254,7 @@ router.get('/jobs',
 router.get('/jobs/all',
   authenticateToken,
   requireAdmin,
-  validateQuery(validationSchemas.pagination),
+  validateQuery(validationSchemas.ingestionJobs),
   asyncHandler(async (req: Request, res: Response) => {
     const { page = 1, limit = 20, status } = req.query;
     
@@ -161,14 +287,111 @@ router.get('/jobs/all',
   })
 );
 
+/**
+ * @route   GET /api/ingestion/jobs/dead-lettered
+ * @desc    Get jobs that ran out of automatic retries (admin only)
+ * @access  Admin
+ */
+router.get('/jobs/dead-lettered',
+  authenticateToken,
+  requireAdmin,
+  validateQuery(validationSchemas.pagination),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { page = 1, limit = 20 } = req.query;
+    
+    const result = await getIngestionService().getAllIngestionJobs(
+      parseInt(page as string), 
+      parseInt(limit as string),
+      'dead_lettered'
+    );
+    
+    logger.info('Dead-lettered ingestion jobs retrieved successfully', {
+      adminUserId: req.user!.user_id,
+      page,
+      limit,
+      total: result.total,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.jobs,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total: result.total,
+        total_pages: result.totalPages,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/ingestion/jobs/dead-lettered/requeue
+ * @desc    Requeue the given dead-lettered jobs, or all of them (admin only)
+ * @access  Admin
+ */
+router.post('/jobs/dead-lettered/requeue',
+  authenticateToken,
+  requireAdmin,
+  validateRequest(validationSchemas.requeueDeadLetteredJobs),
+  asyncHandler(async (req: Request, res: Response) => {
+    const adminUserId = req.user!.user_id;
+    const { job_ids } = req.body;
+    
+    const jobs = await getIngestionService().requeueDeadLetteredJobs(adminUserId, job_ids);
+    
+    logger.info('Dead-lettered ingestion jobs requeued successfully', {
+      adminUserId,
+      requeued: jobs.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: jobs,
+      message: `${jobs.length} dead-lettered job(s) requeued`,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/ingestion/jobs/:jobId/requeue
+ * @desc    Requeue a dead-lettered job with a fresh set of retries (admin only)
+ * @access  Admin
+ */
+router.post('/jobs/:jobId/requeue',
+  authenticateToken,
+  requireAdmin,
+  validateParams(jobIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const adminUserId = req.user!.user_id;
+    
+    const [job] = await getIngestionService().requeueDeadLetteredJobs(adminUserId, [jobId]);
+    
+    logger.info('Dead-lettered ingestion job requeued successfully', {
+      jobId,
+      adminUserId,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: job,
+      message: 'Ingestion job requeued successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
 /**
  * @route   POST /api/ingestion/jobs/:jobId/retry
- * @desc    Retry failed ingestion job
+ * @desc    Retry a failed or dead-lettered ingestion job with a fresh set of retries
  * @access  Private (Owner/Admin)
  */
 router.post('/jobs/:jobId/retry',
   authenticateToken,
-  validateParams(uuidSchema),
+  validateParams(jobIdSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const { jobId } = req.params;
     const userId = req.user!.user_id;
@@ -192,31 +415,45 @@ router.post('/jobs/:jobId/retry',
   })
 );
 
+/**
+ * @route   POST /api/ingestion/jobs/:jobId/cancel
+ * @desc    Cancel a queued or running ingestion job
+ * @access  Private (Owner/Admin)
+ */
+router.post('/jobs/:jobId/cancel',
+  authenticateToken,
+  validateParams(jobIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+    
+    const cancelledJob = await getIngestionService().cancelJob(jobId, userId, userRole);
+    
+    logger.info('Ingestion job cancelled successfully', {
+      jobId,
+      userId,
+      userRole,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: cancelledJob,
+      message: 'Ingestion job cancelled successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
 /**
  * @route   POST /api/ingestion/webhook/status-update
  * @desc    Webhook endpoint for Python service to update job status
- * @access  Public (with API key validation)
+ * @access  Public (HMAC-signed, see X-Webhook-Signature)
  */
 router.post('/webhook/status-update',
+  verifyWebhookRequest,
   asyncHandler(async (req: Request, res: Response) => {
-    const { job_id, status, progress, error_message, api_key } = req.body;
-    
-    // Validate API key (skip validation in development with mock service)
-    if (!config.useMockIngestion) {
-      const expectedApiKey = config.pythonServiceApiKey;
-      if (!expectedApiKey || api_key !== expectedApiKey) {
-        logger.warn('Invalid API key in webhook call', {
-          providedKey: api_key ? '***' : 'none',
-          jobId: job_id,
-        });
-        
-        return res.status(401).json({
-          success: false,
-          error: 'Unauthorized',
-          timestamp: new Date().toISOString(),
-        });
-      }
-    }
+    const { job_id, status, progress, error_message } = req.body;
     
     if (!job_id || !status) {
       return res.status(400).json({
@@ -234,7 +471,6 @@ router.post('/webhook/status-update',
         status,
         progress,
         errorMessage: error_message,
-        mockService: config.useMockIngestion,
       });
       
       return res.status(200).json({
@@ -243,6 +479,11 @@ router.post('/webhook/status-update',
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      // Rejected updates (unknown job, invalid transition) are reported back to the sender
+      if (error instanceof CustomError && error.statusCode < 500) {
+        throw error;
+      }
+
       logger.error('Error processing webhook status update:', error);
       
       return res.status(500).json({
@@ -342,14 +583,14 @@ router.get('/stats/admin',
 
 /**
  * @route   POST /api/ingestion/bulk/trigger
- * @desc    Trigger ingestion for multiple documents (admin only)
+ * @desc    Trigger ingestion for multiple documents as one batch, optionally with a priority (admin only)
  * @access  Admin
  */
 router.post('/bulk/trigger',
   authenticateToken,
   requireAdmin,
   asyncHandler(async (req: Request, res: Response) => {
-    const { document_ids } = req.body;
+    const { document_ids, priority = 'normal' } = req.body;
     
     if (!Array.isArray(document_ids) || document_ids.length === 0) {
       return res.status(400).json({
@@ -359,29 +600,28 @@ router.post('/bulk/trigger',
       });
     }
     
-    if (document_ids.length > 100) {
+    if (document_ids.length > config.ingestionBulkMaxDocuments) {
       return res.status(400).json({
         success: false,
-        error: 'Maximum 100 documents can be processed at once',
+        error: `Maximum ${config.ingestionBulkMaxDocuments} documents can be processed at once`,
         timestamp: new Date().toISOString(),
       });
     }
     
-    const results = [];
-    const errors = [];
-    
-    // Process each document
-    for (const documentId of document_ids) {
-      try {
-        const job = await getIngestionService().triggerIngestion(req.user!.user_id, { document_id: documentId });
-        results.push({ document_id: documentId, job_id: job.id, status: 'triggered' });
-      } catch (error) {
-        errors.push({ document_id: documentId, error: error instanceof Error ? error.message : 'Unknown error' });
-      }
+    if (!isIngestionJobPriority(priority)) {
+      return res.status(400).json({
+        success: false,
+        error: `Priority must be one of: ${INGESTION_JOB_PRIORITIES.join(', ')}`,
+        timestamp: new Date().toISOString(),
+      });
     }
     
+    const { batch, results, errors } = await getIngestionService().triggerBatch(req.user!.user_id, document_ids, priority);
+    
     logger.info('Bulk ingestion triggered', {
       adminUserId: req.user!.user_id,
+      batchId: batch?.id,
+      priority,
       totalRequested: document_ids.length,
       successful: results.length,
       failed: errors.length,
@@ -390,6 +630,7 @@ router.post('/bulk/trigger',
     return res.status(200).json({
       success: true,
       data: {
+        batch,
         results,
         errors,
         summary: {
@@ -403,6 +644,93 @@ router.post('/bulk/trigger',
   })
 );
 
+/**
+ * @route   GET /api/ingestion/batches/:batchId
+ * @desc    Get a batch's job counts and overall progress
+ * @access  Private (Creator/Admin)
+ */
+router.get('/batches/:batchId',
+  authenticateToken,
+  validateParams(batchIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { batchId } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+    
+    const batch = await getIngestionService().getBatch(batchId, userId, userRole);
+    
+    logger.info('Ingestion batch retrieved successfully', {
+      batchId,
+      userId,
+      status: batch.status,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: batch,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/ingestion/batches/:batchId/cancel
+ * @desc    Cancel the queued and running jobs of a batch
+ * @access  Private (Creator/Admin)
+ */
+router.post('/batches/:batchId/cancel',
+  authenticateToken,
+  validateParams(batchIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { batchId } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+    
+    const batch = await getIngestionService().cancelBatch(batchId, userId, userRole);
+    
+    logger.info('Ingestion batch cancelled successfully', {
+      batchId,
+      userId,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: batch,
+      message: 'Batch cancelled successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/ingestion/batches/:batchId/retry
+ * @desc    Requeue the failed and dead-lettered jobs of a batch
+ * @access  Private (Creator/Admin)
+ */
+router.post('/batches/:batchId/retry',
+  authenticateToken,
+  validateParams(batchIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { batchId } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+    
+    const batch = await getIngestionService().retryBatch(batchId, userId, userRole);
+    
+    logger.info('Ingestion batch retried successfully', {
+      batchId,
+      userId,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: batch,
+      message: 'Failed jobs in the batch requeued successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
 /**
  * @route   DELETE /api/ingestion/jobs/:jobId
  * @desc    Cancel ingestion job (admin only)
@@ -411,47 +739,23 @@ router.post('/bulk/trigger',
 router.delete('/jobs/:jobId',
   authenticateToken,
   requireAdmin,
-  validateParams(uuidSchema),
+  validateParams(jobIdSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const { jobId } = req.params;
+    const adminUserId = req.user!.user_id;
     
-    try {
-      const service = getIngestionService();
-      
-      // Check if job exists and can be cancelled
-      const job = await service.getIngestionStatus(jobId, req.user!.user_id, 'admin');
-      
-      if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
-        return res.status(400).json({
-          success: false,
-          error: `Job cannot be cancelled. Current status: ${job.status}`,
-          timestamp: new Date().toISOString(),
-        });
-      }
-      
-      // Cancel the job
-      await service.updateJobStatus(jobId, 'cancelled', { step: 'cancelled', percentage: 0 }, 'Job cancelled by admin');
-      
-      logger.info('Ingestion job cancelled by admin', {
-        jobId,
-        adminUserId: req.user!.user_id,
-        previousStatus: job.status,
-      });
-      
-      return res.status(200).json({
-        success: true,
-        message: 'Job cancelled successfully',
-        timestamp: new Date().toISOString(),
-      });
-    } catch (error) {
-      logger.error('Error cancelling ingestion job:', error);
-      
-      return res.status(500).json({
-        success: false,
-        error: 'Failed to cancel job',
-        timestamp: new Date().toISOString(),
-      });
-    }
+    await getIngestionService().cancelJob(jobId, adminUserId, 'admin');
+    
+    logger.info('Ingestion job cancelled by admin', {
+      jobId,
+      adminUserId,
+    });
+    
+    res.status(200).json({
+      success: true,
+      message: 'Job cancelled successfully',
+      timestamp: new Date().toISOString(),
+    });
   })
 );
 
@@ -0,0 +1,128 @@
+import { Router, Request, Response } from 'express';
+import { QaService } from '../services/qaService';
+import { validateRequest, validationSchemas, validateParams, uuidSchema, validateQuery } from '../middleware/validationMiddleware';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { PaginationQuery } from '../types';
+
+const router = Router();
+
+// Create service instance on-demand to avoid database initialization issues
+const getQaService = () => new QaService();
+
+/**
+ * @route   POST /api/qa/ask
+ * @desc    Ask a question about the user's accessible documents
+ * @access  Private
+ */
+router.post('/ask',
+  authenticateToken,
+  validateRequest(validationSchemas.askQuestion),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const result = await getQaService().askQuestion(userId, userRole, req.body);
+
+    logger.info('Question asked successfully', {
+      questionId: result.question.id,
+      userId,
+      confidence: result.answer.confidence,
+      sourceCount: result.answer.sources.length,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/qa/history
+ * @desc    Get the current user's question history
+ * @access  Private
+ */
+router.get('/history',
+  authenticateToken,
+  validateQuery(validationSchemas.pagination),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.user_id;
+    const { page = 1, limit = 20 } = req.query as PaginationQuery;
+
+    const history = await getQaService().getQuestionHistory(userId, page, limit);
+
+    logger.info('Question history retrieved successfully', {
+      userId,
+      page,
+      limit,
+      total: history.pagination.total,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: history.data,
+      pagination: history.pagination,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/qa/answers/:id
+ * @desc    Get the answer to a question
+ * @access  Private (Owner/Admin)
+ */
+router.get('/answers/:id',
+  authenticateToken,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const answer = await getQaService().getAnswer(id, userId, userRole);
+
+    logger.info('Answer retrieved successfully', {
+      questionId: id,
+      userId,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: answer,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/qa/stats
+ * @desc    Get Q&A statistics
+ * @access  Private
+ */
+router.get('/stats',
+  authenticateToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.user_id;
+    const userRole = req.user!.role;
+
+    const stats = await getQaService().getQaStats(userId, userRole);
+
+    logger.info('Q&A stats retrieved successfully', {
+      userId,
+      userRole,
+      totalQuestions: stats.totalQuestions,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: stats,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+export default router;
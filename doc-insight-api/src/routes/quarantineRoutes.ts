@@ -0,0 +1,66 @@
+import { Router, Request, Response } from 'express';
+import { QuarantineService } from '../services/quarantineService';
+import { MalwareDetectionQuery } from '../types';
+import { validateQuery, validationSchemas, validateParams, uuidSchema } from '../middleware/validationMiddleware';
+import { authenticateToken, requireAdmin } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Create service instance on-demand to avoid database initialization issues
+const getQuarantineService = () => new QuarantineService();
+
+/**
+ * @route   GET /api/quarantine
+ * @desc    List malware detected in uploads, newest first; ?acknowledged=false lists the ones
+ *          still to be dealt with (admin only)
+ * @access  Admin
+ */
+router.get('/',
+  authenticateToken,
+  requireAdmin,
+  validateQuery(validationSchemas.malwareDetectionQuery),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as MalwareDetectionQuery;
+
+    const detections = await getQuarantineService().listDetections(query);
+
+    logger.info('Malware detections retrieved successfully', {
+      adminUserId: req.user!.user_id,
+      acknowledged: query.acknowledged,
+      count: detections.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: detections,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/quarantine/:id/acknowledge
+ * @desc    Acknowledge a malware detection once it has been dealt with (admin only)
+ * @access  Admin
+ */
+router.post('/:id/acknowledge',
+  authenticateToken,
+  requireAdmin,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const detection = await getQuarantineService().acknowledgeDetection(id, req.user!.user_id);
+
+    res.status(200).json({
+      success: true,
+      data: detection,
+      message: 'Malware detection acknowledged',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+export default router;
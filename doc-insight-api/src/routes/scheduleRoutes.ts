@@ -0,0 +1,179 @@
+import { Router, Request, Response } from 'express';
+import { ScheduleService } from '../services/scheduleService';
+import { validateRequest, validationSchemas, validateParams, uuidSchema } from '../middleware/validationMiddleware';
+import { authenticateToken, requireAdmin } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Create service instance on-demand to avoid database initialization issues
+const getScheduleService = () => new ScheduleService();
+
+/**
+ * @route   GET /api/schedules
+ * @desc    List schedules with their last and next runs (admin only)
+ * @access  Admin
+ */
+router.get('/',
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const schedules = await getScheduleService().listSchedules();
+
+    logger.info('Schedules retrieved successfully', {
+      adminUserId: req.user!.user_id,
+      count: schedules.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: schedules,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/schedules/:id
+ * @desc    Get a schedule with its last and next runs (admin only)
+ * @access  Admin
+ */
+router.get('/:id',
+  authenticateToken,
+  requireAdmin,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const schedule = await getScheduleService().getSchedule(id);
+
+    logger.info('Schedule retrieved successfully', {
+      scheduleId: id,
+      adminUserId: req.user!.user_id,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: schedule,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/schedules
+ * @desc    Create a schedule (admin only)
+ * @access  Admin
+ */
+router.post('/',
+  authenticateToken,
+  requireAdmin,
+  validateRequest(validationSchemas.createSchedule),
+  asyncHandler(async (req: Request, res: Response) => {
+    const adminUserId = req.user!.user_id;
+
+    const schedule = await getScheduleService().createSchedule(adminUserId, req.body);
+
+    logger.info('Schedule created by admin', {
+      scheduleId: schedule.id,
+      task: schedule.task,
+      adminUserId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: schedule,
+      message: 'Schedule created successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/schedules/:id
+ * @desc    Update a schedule (admin only)
+ * @access  Admin
+ */
+router.put('/:id',
+  authenticateToken,
+  requireAdmin,
+  validateParams(uuidSchema),
+  validateRequest(validationSchemas.updateSchedule),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const schedule = await getScheduleService().updateSchedule(id, req.body);
+
+    logger.info('Schedule updated by admin', {
+      scheduleId: id,
+      adminUserId: req.user!.user_id,
+      updatedFields: Object.keys(req.body),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: schedule,
+      message: 'Schedule updated successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/schedules/:id
+ * @desc    Delete a schedule (admin only)
+ * @access  Admin
+ */
+router.delete('/:id',
+  authenticateToken,
+  requireAdmin,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await getScheduleService().deleteSchedule(id);
+
+    logger.info('Schedule deleted by admin', {
+      scheduleId: id,
+      adminUserId: req.user!.user_id,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Schedule deleted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/schedules/:id/run
+ * @desc    Run a schedule's task now, without moving its next run (admin only)
+ * @access  Admin
+ */
+router.post('/:id/run',
+  authenticateToken,
+  requireAdmin,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const schedule = await getScheduleService().runSchedule(id);
+
+    logger.info('Schedule run by admin', {
+      scheduleId: id,
+      adminUserId: req.user!.user_id,
+      status: schedule.last_run_status,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: schedule,
+      message: schedule.last_run_status === 'succeeded' ? 'Schedule ran successfully' : 'Schedule run failed',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,161 @@
+import { Router, Request, Response } from 'express';
+import { UploadSessionService } from '../services/uploadSessionService';
+import {
+  validateRequest,
+  validationSchemas,
+  validateParams,
+  uuidSchema,
+  uploadChunkSchema,
+} from '../middleware/validationMiddleware';
+import { authenticateToken, requireEditor } from '../middleware/authMiddleware';
+import { validateResumableUpload } from '../middleware/fileUploadMiddleware';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { ErrorCodes } from '../utils/constants';
+
+const router = Router();
+
+// Create service instance on-demand to avoid database initialization issues
+const getUploadSessionService = () => new UploadSessionService();
+
+/**
+ * @route   POST /api/documents/uploads
+ * @desc    Start a resumable upload of a file (for files over MAX_FILE_SIZE). The response
+ *          gives the chunk size and number of chunks to send.
+ * @access  Private (Editor/Admin)
+ */
+router.post('/',
+  authenticateToken,
+  requireEditor,
+  validateRequest(validationSchemas.createUploadSession),
+  validateResumableUpload,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.user_id;
+
+    const upload = await getUploadSessionService().createSession(userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: upload,
+      message: 'Upload started',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   GET /api/documents/uploads/:id
+ * @desc    Get the status of a resumable upload, with the chunks received so far
+ * @access  Private (Editor/Admin)
+ */
+router.get('/:id',
+  authenticateToken,
+  requireEditor,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.user_id;
+
+    const upload = await getUploadSessionService().getSession(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: upload,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/documents/uploads/:id/chunks/:index
+ * @desc    Send one chunk of a resumable upload as the raw request body, with its
+ *          SHA-256 (hex) in the X-Chunk-SHA256 header. A chunk can be sent again.
+ * @access  Private (Editor/Admin)
+ */
+router.put('/:id/chunks/:index',
+  authenticateToken,
+  requireEditor,
+  validateParams(uploadChunkSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const chunkIndex = Number(req.params['index']);
+    const userId = req.user!.user_id;
+    const checksum = req.get('X-Chunk-SHA256')?.toLowerCase();
+
+    if (!checksum || !/^[0-9a-f]{64}$/.test(checksum)) {
+      throw new CustomError(
+        'X-Chunk-SHA256 header with the chunk\'s hex SHA-256 is required',
+        400,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+
+    const upload = await getUploadSessionService().receiveChunk(id, userId, chunkIndex, checksum, req);
+
+    res.status(200).json({
+      success: true,
+      data: upload,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   POST /api/documents/uploads/:id/complete
+ * @desc    Assemble a fully received upload and create its document, as POST /api/documents
+ *          would (including duplicate detection). Missing chunks are listed in a 409.
+ * @access  Private (Editor/Admin)
+ */
+router.post('/:id/complete',
+  authenticateToken,
+  requireEditor,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.user_id;
+
+    const { document, duplicate } = await getUploadSessionService().completeSession(id, userId);
+
+    logger.info('Document uploaded successfully', {
+      documentId: document.id,
+      uploadId: id,
+      userId,
+      fileName: document.file_name,
+      duplicate,
+    });
+
+    res.status(duplicate ? 200 : 201).json({
+      success: true,
+      data: document,
+      message: duplicate
+        ? 'An identical file has already been uploaded; returning the existing document'
+        : 'Document uploaded successfully',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/documents/uploads/:id
+ * @desc    Abort a resumable upload and delete its chunks
+ * @access  Private (Editor/Admin)
+ */
+router.delete('/:id',
+  authenticateToken,
+  requireEditor,
+  validateParams(uuidSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.user_id;
+
+    await getUploadSessionService().abortSession(id, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Upload aborted',
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+export default router;
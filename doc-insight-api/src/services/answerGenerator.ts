@@ -0,0 +1,258 @@
+import axios from 'axios';
+import config from '../config';
+import { GeneratedAnswer, QaSource, RetrievedChunk } from '../types';
+import { logger } from '../utils/logger';
+import { tokenize } from './embeddingService';
+
+const NO_ANSWER_TEXT = 'I could not find information about this in your documents.';
+const MAX_ANSWER_SENTENCES = 3;
+const MAX_EXCERPT_LENGTH = 300;
+
+// Words that carry no meaning for matching a question against document text
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Writes an answer to a question from retrieved chunks. Chunks arrive ordered
+ * by relevance, highest first, and may be empty.
+ */
+export interface AnswerGenerator {
+  readonly name: string;
+  generate(question: string, chunks: RetrievedChunk[]): Promise<GeneratedAnswer>;
+}
+
+/**
+ * Offline generator that quotes the retrieved sentences which best cover the
+ * question's keywords. Deterministic and needs no network access.
+ */
+export class ExtractiveAnswerGenerator implements AnswerGenerator {
+  readonly name = 'extractive';
+
+  async generate(question: string, chunks: RetrievedChunk[]): Promise<GeneratedAnswer> {
+    const keywords = new Set(tokenize(question).filter(token => !STOP_WORDS.has(token)));
+
+    if (chunks.length === 0 || keywords.size === 0) {
+      return noAnswer(this.name);
+    }
+
+    const candidates = chunks.flatMap((chunk, chunkRank) =>
+      splitSentences(chunk.content).map((sentence, position) => {
+        const sentenceTokens = new Set(tokenize(sentence));
+        const matched = [...keywords].filter(keyword => sentenceTokens.has(keyword));
+        return {
+          sentence,
+          chunk,
+          chunkRank,
+          position,
+          matched,
+          score: (matched.length / keywords.size) * chunk.relevance,
+        };
+      })
+    );
+
+    const selected = candidates
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_ANSWER_SENTENCES)
+      // Present the chosen sentences in retrieval and reading order
+      .sort((a, b) => a.chunkRank - b.chunkRank || a.position - b.position);
+
+    if (selected.length === 0) {
+      return noAnswer(this.name);
+    }
+
+    const covered = new Set(selected.flatMap(candidate => candidate.matched));
+    const coverage = covered.size / keywords.size;
+    const topRelevance = Math.max(...selected.map(candidate => candidate.chunk.relevance));
+
+    // One source per chunk, quoting the best sentence taken from it
+    const bestSentences = new Map<string, { chunk: RetrievedChunk; sentence: string }>();
+    [...selected]
+      .sort((a, b) => b.score - a.score)
+      .forEach(candidate => {
+        if (!bestSentences.has(candidate.chunk.chunk_id)) {
+          bestSentences.set(candidate.chunk.chunk_id, candidate);
+        }
+      });
+
+    return {
+      text: selected.map(candidate => candidate.sentence).join(' '),
+      confidence: roundTo(Math.min(1, 0.5 * coverage + 0.5 * topRelevance), 2),
+      sources: [...bestSentences.values()]
+        .sort((a, b) => b.chunk.relevance - a.chunk.relevance)
+        .map(({ chunk, sentence }) => toSource(chunk, sentence)),
+      generator: this.name,
+    };
+  }
+}
+
+/**
+ * Generator backed by an OpenAI-compatible chat completions endpoint.
+ *
+ * The model is told to answer only from the numbered context passages and to
+ * cite them as [n]; cited passages become the answer's sources.
+ */
+export class OpenAiAnswerGenerator implements AnswerGenerator {
+  readonly name: string;
+
+  constructor(
+    private apiUrl: string = config.llmApiUrl,
+    private apiKey: string = config.llmApiKey,
+    private model: string = config.llmModel
+  ) {
+    this.name = `openai:${model}`;
+  }
+
+  async generate(question: string, chunks: RetrievedChunk[]): Promise<GeneratedAnswer> {
+    // Do not let the model answer from its own knowledge when nothing was retrieved
+    if (chunks.length === 0) {
+      return noAnswer(this.name);
+    }
+
+    const context = chunks
+      .map((chunk, index) => `[${index + 1}] ${chunk.document_title || chunk.file_name}` +
+        `${chunk.page_number !== null ? ` (page ${chunk.page_number})` : ''}\n${chunk.content}`)
+      .join('\n\n');
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    try {
+      const response = await axios.post(`${this.apiUrl.replace(/\/+$/, '')}/chat/completions`, {
+        model: this.model,
+        temperature: config.llmTemperature,
+        max_tokens: config.llmMaxTokens,
+        messages: [
+          {
+            role: 'system',
+            content: 'Answer the question using only the numbered context passages. ' +
+              'Cite the passages you use as [n]. If the passages do not contain the answer, ' +
+              `reply exactly: "${NO_ANSWER_TEXT}"`,
+          },
+          {
+            role: 'user',
+            content: `Context:\n${context}\n\nQuestion: ${question}`,
+          },
+        ],
+      }, {
+        headers,
+        timeout: config.llmTimeout,
+      });
+
+      const text = String(response.data?.choices?.[0]?.message?.content || '').trim();
+      if (!text || text === NO_ANSWER_TEXT) {
+        return noAnswer(this.name);
+      }
+
+      const cited = parseCitations(text, chunks.length).map(index => chunks[index - 1] as RetrievedChunk);
+      const sourceChunks = cited.length > 0 ? cited : chunks;
+
+      return {
+        text,
+        // The model gives no calibrated score, so rate the answer by its best supporting passage
+        confidence: roundTo(Math.max(...sourceChunks.map(chunk => chunk.relevance)), 2),
+        sources: sourceChunks.map(chunk => toSource(chunk, chunk.content)),
+        generator: this.name,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        logger.error('Answer generation request failed', {
+          model: this.model,
+          status: error.response?.status,
+          statusText: error.response?.statusText,
+        });
+        throw new Error(`Answer generation error: ${error.response?.status ?? error.code} ${error.response?.statusText ?? error.message}`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create the answer generator selected in configuration
+ */
+export function createAnswerGenerator(provider: string = config.answerProvider): AnswerGenerator {
+  switch (provider) {
+    case 'extractive':
+      return new ExtractiveAnswerGenerator();
+    case 'openai':
+      return new OpenAiAnswerGenerator();
+    default:
+      throw new Error(`Unknown answer provider: ${provider}`);
+  }
+}
+
+/**
+ * Answer returned when the documents do not cover the question
+ */
+function noAnswer(generator: string): GeneratedAnswer {
+  return { text: NO_ANSWER_TEXT, confidence: 0, sources: [], generator };
+}
+
+/**
+ * Distinct in-range [n] citation numbers in order of first appearance
+ */
+function parseCitations(text: string, chunkCount: number): number[] {
+  const citations: number[] = [];
+  for (const match of text.matchAll(/\[(\d+)\]/g)) {
+    const index = parseInt(match[1] as string);
+    if (index >= 1 && index <= chunkCount && !citations.includes(index)) {
+      citations.push(index);
+    }
+  }
+  return citations;
+}
+
+/**
+ * Build a source citation for a chunk
+ */
+function toSource(chunk: RetrievedChunk, excerpt: string): QaSource {
+  const source: QaSource = {
+    documentId: chunk.document_id,
+    documentName: chunk.document_title || chunk.file_name,
+    excerpt: truncate(excerpt.replace(/\s+/g, ' ').trim(), MAX_EXCERPT_LENGTH),
+    relevance: roundTo(chunk.relevance, 3),
+  };
+  if (chunk.page_number !== null) {
+    source.pageNumber = chunk.page_number;
+  }
+  if (chunk.document_version !== null && chunk.document_version !== undefined) {
+    source.documentVersion = chunk.document_version;
+  }
+  return source;
+}
+
+/**
+ * Split text into trimmed sentences
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n\s*\n/)
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Shorten text to a maximum length on a word boundary
+ */
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * Round to a number of decimal places
+ */
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
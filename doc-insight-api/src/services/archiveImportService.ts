@@ -0,0 +1,262 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { once } from 'events';
+import yauzl, { Entry, ZipFile } from 'yauzl';
+import { ArchiveImportResult, RejectedUpload, SkippedArchiveEntry } from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { getFileUploadConfig, getZipImportConfig } from '../utils/configHelper';
+import { createStoredFilePath } from '../utils/fileStorage';
+import { getExpectedMimeType, VerifiedFileType, verifyFileType } from '../utils/fileSignature';
+import { DocumentService } from './documentService';
+
+// A file of the archive, numbered among the archive's files
+interface ArchiveFile {
+  index: number;
+  name: string;
+  entry: Entry;
+}
+
+/**
+ * Import of ZIP archives as individual documents.
+ *
+ * The whole archive is checked from its central directory before anything is
+ * extracted: too many entries or too much data in total rejects it, as do entry
+ * paths leaving the archive (which yauzl refuses to read). Extracted files are
+ * stored under generated names like any upload, so entry paths never reach the
+ * filesystem; the path is kept as the document's relativePath. Each entry of an
+ * allowed type becomes a document as a file of a multi-file upload would, and
+ * the new documents are queued for ingestion as one batch.
+ */
+export class ArchiveImportService {
+  private documentService: DocumentService;
+
+  constructor(documentService?: DocumentService) {
+    this.documentService = documentService || new DocumentService();
+  }
+
+  /**
+   * Extract the documents of an uploaded ZIP archive and create one document per entry.
+   * The archive itself is deleted afterwards.
+   */
+  async importArchive(userId: string, archive: Express.Multer.File, description?: string): Promise<ArchiveImportResult> {
+    let zipFile: ZipFile | undefined;
+
+    try {
+      const { maxEntries, maxUncompressedSize } = getZipImportConfig();
+
+      zipFile = await this.openArchive(archive.path);
+      if (zipFile.entryCount > maxEntries) {
+        throw new CustomError(
+          `Archive has too many entries. Maximum: ${maxEntries}`,
+          400,
+          ErrorCodes.ARCHIVE_TOO_MANY_ENTRIES
+        );
+      }
+
+      const archiveFiles = await this.readFiles(zipFile);
+      const { accepted, rejected, skipped } = this.checkFiles(archiveFiles);
+
+      const uncompressedSize = accepted.reduce((total, file) => total + file.entry.uncompressedSize, 0);
+      if (uncompressedSize > maxUncompressedSize) {
+        throw new CustomError(
+          `Archive too large when extracted. Maximum: ${Math.round(maxUncompressedSize / 1024 / 1024)}MB`,
+          400,
+          ErrorCodes.ARCHIVE_TOO_LARGE
+        );
+      }
+
+      const files: Express.Multer.File[] = [];
+      for (const file of accepted) {
+        try {
+          files.push(await this.extractFile(zipFile, file));
+        } catch (extractError) {
+          logger.warn('Failed to extract archive entry', {
+            archive: archive.originalname,
+            entry: file.name,
+            error: extractError,
+          });
+          rejected.push({
+            index: file.index,
+            file_name: file.name,
+            ...(extractError instanceof CustomError
+              ? { error: extractError.message, code: extractError.code || ErrorCodes.INVALID_ARCHIVE }
+              : { error: 'Entry could not be extracted', code: ErrorCodes.INVALID_ARCHIVE }),
+          });
+        }
+      }
+
+      const result = await this.documentService.uploadDocuments(userId, files, rejected, description);
+      skipped.sort((a, b) => a.index - b.index);
+
+      logger.info('ZIP archive imported', {
+        userId,
+        archive: archive.originalname,
+        batchId: result.batch?.id,
+        ...result.summary,
+        skipped: skipped.length,
+      });
+
+      return {
+        ...result,
+        archive: { file_name: archive.originalname, entries: archiveFiles.length, uncompressed_size: uncompressedSize },
+        skipped,
+        summary: { ...result.summary, skipped: skipped.length },
+      };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error importing ZIP archive:', error);
+      throw new CustomError('Failed to import ZIP archive', 500, ErrorCodes.ARCHIVE_IMPORT_ERROR);
+    } finally {
+      zipFile?.close();
+      await this.removeArchive(archive);
+    }
+  }
+
+  /**
+   * Open a ZIP archive to read its entries one at a time
+   */
+  private openArchive(archivePath: string): Promise<ZipFile> {
+    return new Promise((resolve, reject) => {
+      yauzl.open(archivePath, { lazyEntries: true, autoClose: false }, (error, zipFile) => {
+        if (error || !zipFile) {
+          reject(new CustomError('File is not a valid ZIP archive', 400, ErrorCodes.INVALID_ARCHIVE));
+          return;
+        }
+        resolve(zipFile);
+      });
+    });
+  }
+
+  /**
+   * Read the file entries of an archive (folders are left out), failing on entries
+   * whose paths are absolute or leave the archive
+   */
+  private readFiles(zipFile: ZipFile): Promise<ArchiveFile[]> {
+    return new Promise((resolve, reject) => {
+      const files: ArchiveFile[] = [];
+
+      zipFile.on('entry', (entry: Entry) => {
+        if (!entry.fileName.endsWith('/')) {
+          files.push({ index: files.length, name: path.posix.normalize(entry.fileName), entry });
+        }
+        zipFile.readEntry();
+      });
+      zipFile.on('end', () => resolve(files));
+      zipFile.on('error', (error: Error) => {
+        reject(new CustomError(`Invalid ZIP archive: ${error.message}`, 400, ErrorCodes.INVALID_ARCHIVE));
+      });
+
+      zipFile.readEntry();
+    });
+  }
+
+  /**
+   * Sort the files of an archive into those to extract, those that cannot be imported,
+   * and those that are not documents (other file types, hidden and system files)
+   */
+  private checkFiles(files: ArchiveFile[]): {
+    accepted: ArchiveFile[];
+    rejected: RejectedUpload[];
+    skipped: SkippedArchiveEntry[];
+  } {
+    const { maxSize, allowedTypes } = getFileUploadConfig();
+    const { maxCompressionRatio } = getZipImportConfig();
+    const accepted: ArchiveFile[] = [];
+    const rejected: RejectedUpload[] = [];
+    const skipped: SkippedArchiveEntry[] = [];
+
+    for (const file of files) {
+      const { entry } = file;
+      const reject = (error: string, code: string) => rejected.push({ index: file.index, file_name: file.name, error, code });
+
+      // e.g. .DS_Store, .git/ and the __MACOSX/ folder of archives made on macOS
+      if (file.name.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX')) {
+        skipped.push({ index: file.index, file_name: file.name, reason: 'Hidden or system file' });
+      } else if (!allowedTypes.includes(path.extname(file.name).toLowerCase().substring(1))) {
+        skipped.push({ index: file.index, file_name: file.name, reason: 'File type not allowed' });
+      } else if (entry.isEncrypted()) {
+        reject('Encrypted entries cannot be imported', ErrorCodes.ARCHIVE_ENTRY_ENCRYPTED);
+      } else if (entry.uncompressedSize > maxSize) {
+        reject(`File too large. Maximum size: ${Math.round(maxSize / 1024 / 1024)}MB`, ErrorCodes.FILE_TOO_LARGE);
+      } else if (entry.uncompressedSize > entry.compressedSize * maxCompressionRatio) {
+        reject(
+          `Entry is compressed more than ${maxCompressionRatio}:1, which suggests a decompression bomb`,
+          ErrorCodes.ARCHIVE_ENTRY_SUSPICIOUS
+        );
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    return { accepted, rejected, skipped };
+  }
+
+  /**
+   * Extract an archive file and store it as an upload would have been stored, if its content
+   * is the type its name says. yauzl fails the stream if an entry holds more data than its
+   * header declares, so the sizes checked beforehand hold.
+   */
+  private async extractFile(zipFile: ZipFile, file: ArchiveFile): Promise<Express.Multer.File> {
+    const mimeType = getExpectedMimeType(file.name) || 'application/octet-stream';
+    const stored = createStoredFilePath(file.name, mimeType);
+    const hash = crypto.createHash('sha256');
+    const output = fs.createWriteStream(stored.path);
+    let detectedType: VerifiedFileType | null;
+
+    try {
+      const input = await new Promise<NodeJS.ReadableStream>((resolve, reject) => {
+        zipFile.openReadStream(file.entry, (error, stream) => (error || !stream ? reject(error) : resolve(stream)));
+      });
+
+      for await (const data of input) {
+        hash.update(data);
+        if (!output.write(data)) {
+          await once(output, 'drain');
+        }
+      }
+
+      output.end();
+      await once(output, 'finish');
+
+      detectedType = await verifyFileType(stored.path, file.name);
+      if (!detectedType) {
+        throw new CustomError('File content does not match its file type', 400, ErrorCodes.INVALID_MIME_TYPE);
+      }
+    } catch (error) {
+      output.destroy();
+      await fs.promises.rm(stored.path, { force: true });
+      throw error;
+    }
+
+    return {
+      fieldname: 'file',
+      originalname: file.name,
+      encoding: '7bit',
+      mimetype: mimeType,
+      size: file.entry.uncompressedSize,
+      ...stored,
+      contentHash: hash.digest('hex'),
+      detectedType,
+      uploadIndex: file.index,
+    } as Express.Multer.File;
+  }
+
+  /**
+   * Delete an imported archive
+   */
+  private async removeArchive(archive: Express.Multer.File): Promise<void> {
+    try {
+      await fs.promises.rm(archive.path, { force: true });
+    } catch (fileError) {
+      logger.warn('Failed to delete imported archive from filesystem', {
+        filePath: archive.path,
+        error: fileError,
+      });
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { getDatabase } from '../database/connection';
+import { DocumentChunk, DocumentChunkResponse, RetrievedChunk } from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { chunkText } from '../utils/textChunker';
+import { Embedder, createEmbedder } from './embeddingService';
+import config from '../config';
+
+/**
+ * Chunks of document text with their embeddings, for Q&A and semantic search.
+ *
+ * Chunks are kept per document version. By default retrieval cites the version
+ * indexed last (documents.indexed_version), so a new version keeps the previous
+ * one cited until its own ingestion has indexed it; an older version can still
+ * be cited on request.
+ */
+export class ChunkStoreService {
+  private get db() {
+    return getDatabase();
+  }
+  private embedder: Embedder;
+
+  constructor(embedder?: Embedder) {
+    this.embedder = embedder || createEmbedder();
+  }
+
+  /**
+   * Chunk a document's extracted text, embed the chunks and replace any stored for its
+   * version, then cite that version by default
+   */
+  async indexDocument(documentId: string): Promise<{ chunkCount: number; embeddingModel: string }> {
+    try {
+      const documentText = await this.db('document_texts')
+        .where('document_id', documentId)
+        .first();
+
+      if (!documentText) {
+        throw new CustomError('Document text not found', 404, ErrorCodes.DOCUMENT_TEXT_NOT_FOUND);
+      }
+
+      const chunks = chunkText(documentText.content, documentText.pages || [], {
+        chunkSize: config.chunkSize,
+        chunkOverlap: config.chunkOverlap,
+      });
+
+      // Embed in batches to bound memory use and request size for remote embedders
+      const embeddings: number[][] = [];
+      for (let i = 0; i < chunks.length; i += config.embeddingBatchSize) {
+        const batch = chunks.slice(i, i + config.embeddingBatchSize);
+        embeddings.push(...await this.embedder.embed(batch.map(chunk => chunk.content)));
+      }
+
+      const documentVersion = documentText.document_version ?? null;
+      const rows = chunks.map((chunk, index) => ({
+        document_id: documentId,
+        chunk_index: chunk.chunk_index,
+        content: chunk.content,
+        start_offset: chunk.start_offset,
+        end_offset: chunk.end_offset,
+        page_number: chunk.page_number,
+        embedding: embeddings[index],
+        embedding_model: this.embedder.name,
+        document_version: documentVersion,
+      }));
+
+      await this.db.transaction(async (trx) => {
+        await trx('document_chunks')
+          .where({ document_id: documentId, document_version: documentVersion })
+          .del();
+
+        if (rows.length > 0) {
+          await trx.batchInsert('document_chunks', rows, 100);
+        }
+
+        await trx('documents')
+          .where('id', documentId)
+          .update({ indexed_version: documentVersion });
+      });
+
+      logger.info('Document chunks indexed successfully', {
+        documentId,
+        documentVersion,
+        chunkCount: rows.length,
+        embeddingModel: this.embedder.name,
+      });
+
+      return { chunkCount: rows.length, embeddingModel: this.embedder.name };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error indexing document chunks:', error);
+      throw new CustomError('Failed to index document chunks', 500, ErrorCodes.CHUNK_INDEXING_ERROR);
+    }
+  }
+
+  /**
+   * Get the stored chunks of a document's indexed version (without their vectors)
+   */
+  async getDocumentChunks(documentId: string): Promise<DocumentChunkResponse[]> {
+    try {
+      const chunks = await this.db('document_chunks as dc')
+        .join('documents as d', 'd.id', 'dc.document_id')
+        .where('dc.document_id', documentId)
+        .whereRaw('dc.document_version = d.indexed_version')
+        .select('dc.*')
+        .orderBy('dc.chunk_index', 'asc');
+
+      return chunks.map((chunk: DocumentChunk) => this.mapToResponse(chunk));
+    } catch (error) {
+      logger.error('Error getting document chunks:', error);
+      throw new CustomError('Failed to get document chunks', 500, ErrorCodes.DOCUMENT_CHUNKS_FETCH_ERROR);
+    }
+  }
+
+  /**
+   * Find the chunks most similar to a query within the documents a user can access.
+   * Each document's indexed version is searched, or the given version instead.
+   */
+  async findRelevantChunks(
+    query: string,
+    userId: string,
+    userRole: string,
+    limit: number,
+    documentIds?: string[],
+    documentVersion?: number
+  ): Promise<RetrievedChunk[]> {
+    try {
+      const [queryEmbedding] = await this.embedder.embed([query]);
+
+      let chunkQuery = this.db('document_chunks as dc')
+        .join('documents as d', 'd.id', 'dc.document_id')
+        .select(
+          'dc.id as chunk_id',
+          'dc.document_id',
+          'd.title as document_title',
+          'd.file_name',
+          'dc.chunk_index',
+          'dc.content',
+          'dc.page_number',
+          'dc.document_version',
+          this.db.raw('cosine_similarity(dc.embedding, ?::real[]) as relevance', [queryEmbedding])
+        )
+        // Vectors from a different embedder are not comparable with the query vector
+        .where('dc.embedding_model', this.embedder.name);
+
+      chunkQuery = documentVersion !== undefined
+        ? chunkQuery.where('dc.document_version', documentVersion)
+        : chunkQuery.whereRaw('dc.document_version = d.indexed_version');
+
+      // Apply role-based filtering
+      if (userRole === 'viewer') {
+        chunkQuery = chunkQuery.where('d.uploaded_by', userId);
+      }
+
+      if (documentIds && documentIds.length > 0) {
+        chunkQuery = chunkQuery.whereIn('dc.document_id', documentIds);
+      }
+
+      const chunks = await chunkQuery
+        .orderBy('relevance', 'desc')
+        .limit(limit);
+
+      return chunks.map((chunk: any) => ({
+        ...chunk,
+        relevance: Number(chunk.relevance) || 0,
+      }));
+    } catch (error) {
+      logger.error('Error retrieving relevant chunks:', error);
+      throw new CustomError('Failed to retrieve relevant chunks', 500, ErrorCodes.CHUNK_RETRIEVAL_ERROR);
+    }
+  }
+
+  /**
+   * Map database chunk to response format
+   */
+  private mapToResponse(chunk: DocumentChunk): DocumentChunkResponse {
+    return {
+      id: chunk.id,
+      document_id: chunk.document_id,
+      chunk_index: chunk.chunk_index,
+      content: chunk.content,
+      start_offset: chunk.start_offset,
+      end_offset: chunk.end_offset,
+      page_number: chunk.page_number,
+      embedding_model: chunk.embedding_model,
+      created_at: chunk.created_at,
+    };
+  }
+}
@@ -5,23 +5,50 @@ import {
   UpdateDocumentRequest, 
   DocumentResponse, 
   PaginationQuery,
-  PaginatedResponse 
+  PaginatedResponse,
+  DocumentSearchQuery,
+  DocumentSearchResult,
+  DocumentUploadResult,
+  MultiUploadFileResult,
+  MultiUploadResult,
+  RejectedUpload,
+  IngestionBatchResponse
 } from '../types';
 import { logger } from '../utils/logger';
 import { CustomError } from '../middleware/errorHandler';
 import fs from 'fs';
 import path from 'path';
 import { ErrorCodes } from '../utils/constants';
+import { getFileUploadConfig } from '../utils/configHelper';
+import { IngestionService } from './ingestionService';
+import { QuarantineService } from './quarantineService';
+
+// Text search configuration used to build documents.search_vector (see migration 011)
+const SEARCH_CONFIG = 'english';
+
+// Control characters mark highlights so they survive HTML escaping of the snippet
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_STOP = '\u0002';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
 
 export class DocumentService {
   private get db() {
     return getDatabase();
   }
+  private ingestionService: IngestionService;
+  private quarantineService: QuarantineService;
+
+  constructor(ingestionService?: IngestionService, quarantineService?: QuarantineService) {
+    this.ingestionService = ingestionService || new IngestionService();
+    this.quarantineService = quarantineService || new QuarantineService();
+  }
 
   /**
-   * Create a new document
+   * Create a new document, unless a document with identical content already exists.
+   * An upload found infected is quarantined: its document is kept in the quarantined
+   * status for admins to review, and the upload fails with MALWARE_DETECTED.
    */
-  async createDocument(userId: string, documentData: CreateDocumentRequest): Promise<DocumentResponse> {
+  async createDocument(userId: string, documentData: CreateDocumentRequest): Promise<DocumentUploadResult> {
     try {
       const { title, description, file } = documentData;
 
@@ -30,25 +57,98 @@ export class DocumentService {
         throw new CustomError('No file provided', 400, ErrorCodes.NO_FILE);
       }
 
-      // Create document record
-      const [newDocument] = await this.db('documents')
-        .insert({
-          title,
-          description: description || null,
-          file_name: file.originalname,
-          file_path: file.path,
-          file_type: path.extname(file.originalname).substring(1),
-          file_size: file.size,
-          mime_type: file.mimetype,
-          status: 'pending',
-          metadata: {
-            originalName: file.originalname,
-            encoding: file.encoding,
-            fieldname: file.fieldname,
-          },
-          uploaded_by: userId,
-        })
-        .returning('*');
+      const scan = await this.quarantineService.scan(file);
+      const filePath = scan.infected ? await this.quarantineService.quarantineFile(file) : file.path;
+
+      // Files of a folder upload are named by their path within the folder
+      const fileName = path.posix.basename(file.originalname);
+
+      // Create document record along with its first version, unless its content is already stored
+      const { document: newDocument, duplicate } = await this.db.transaction(async (trx) => {
+        if (file.contentHash && !scan.infected) {
+          // Uploads of the same content take turns, so concurrent ones cannot both miss each other
+          await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [file.contentHash]);
+
+          const existingDocument: Document | undefined = await trx('documents')
+            .where('content_hash', file.contentHash)
+            .orderBy('created_at', 'asc')
+            .first();
+
+          if (existingDocument) {
+            return { document: existingDocument, duplicate: true };
+          }
+        }
+
+        const [document] = await trx('documents')
+          .insert({
+            title,
+            description: description || null,
+            file_name: fileName,
+            file_path: filePath,
+            file_type: path.extname(fileName).substring(1),
+            file_size: file.size,
+            // The type found from the content, where it was checked, rather than the client's
+            mime_type: file.detectedType?.mimeType || file.mimetype,
+            status: scan.infected ? 'quarantined' : 'pending',
+            metadata: {
+              originalName: fileName,
+              encoding: file.encoding,
+              fieldname: file.fieldname,
+              ...(fileName !== file.originalname && { relativePath: file.originalname }),
+              ...(file.detectedType && { detectedType: file.detectedType.type, declaredMimeType: file.mimetype }),
+            },
+            content_hash: file.contentHash || null,
+            uploaded_by: userId,
+          })
+          .returning('*');
+
+        await trx('document_versions')
+          .insert({
+            document_id: document.id,
+            version_number: 1,
+            file_name: document.file_name,
+            file_path: document.file_path,
+            file_type: document.file_type,
+            file_size: document.file_size,
+            mime_type: document.mime_type,
+            content_hash: document.content_hash,
+            uploaded_by: userId,
+          });
+
+        if (scan.infected) {
+          await this.quarantineService.recordDetection({
+            document_id: document.id,
+            file_name: fileName,
+            file_path: filePath,
+            file_size: file.size,
+            content_hash: file.contentHash || null,
+            signature: scan.signature || 'unknown',
+            uploaded_by: userId,
+          }, trx);
+        }
+
+        return { document: document as Document, duplicate: false };
+      });
+
+      if (duplicate) {
+        return await this.handleDuplicateUpload(newDocument, file, userId);
+      }
+
+      if (scan.infected) {
+        logger.warn('Infected upload quarantined', {
+          documentId: newDocument.id,
+          userId,
+          fileName: file.originalname,
+          signature: scan.signature,
+        });
+
+        throw new CustomError(
+          'The file contains malware and has been quarantined',
+          422,
+          ErrorCodes.MALWARE_DETECTED,
+          { document_id: newDocument.id, signature: scan.signature }
+        );
+      }
 
       logger.info('Document created successfully', {
         documentId: newDocument.id,
@@ -57,7 +157,7 @@ export class DocumentService {
         fileSize: file.size,
       });
 
-      return this.mapToResponse(newDocument);
+      return { document: this.mapToResponse(newDocument), duplicate: false };
     } catch (error) {
       if (error instanceof CustomError) {
         throw error;
@@ -68,23 +168,107 @@ export class DocumentService {
   }
 
   /**
-   * Get document by ID
+   * Create a document from each file of a multi-file upload, titled after its file name, and
+   * queue the new documents for ingestion as one batch. A file that cannot be added (or was
+   * rejected before it was stored) is reported in its own result without affecting the others.
    */
-  async getDocumentById(documentId: string, userId: string, userRole: string): Promise<DocumentResponse> {
+  async uploadDocuments(
+    userId: string,
+    files: Express.Multer.File[],
+    rejectedUploads: RejectedUpload[] = [],
+    description?: string
+  ): Promise<MultiUploadResult> {
     try {
-      const document = await this.db('documents')
-        .where('id', documentId)
-        .first();
+      const results: MultiUploadFileResult[] = rejectedUploads.map(rejection => ({ ...rejection, status: 'failed' }));
+      const created: MultiUploadFileResult[] = [];
 
-      if (!document) {
-        throw new CustomError('Document not found', 404, ErrorCodes.DOCUMENT_NOT_FOUND);
+      for (const file of files) {
+        const entry = { index: file.uploadIndex ?? results.length, file_name: file.originalname };
+
+        try {
+          const { document, duplicate } = await this.createDocument(userId, {
+            title: this.titleFromFileName(file.originalname),
+            ...(description && { description }),
+            file,
+          });
+
+          const result: MultiUploadFileResult = { ...entry, status: duplicate ? 'duplicate' : 'created', document };
+          results.push(result);
+          if (!duplicate) {
+            created.push(result);
+          }
+        } catch (error) {
+          // Infected files have been moved to quarantine
+          if (!(error instanceof CustomError && error.code === ErrorCodes.MALWARE_DETECTED)) {
+            await this.discardUpload(file);
+          }
+
+          const customError = error instanceof CustomError
+            ? error
+            : new CustomError('Failed to create document', 500, ErrorCodes.DOCUMENT_CREATE_ERROR);
+          results.push({
+            ...entry,
+            status: 'failed',
+            error: customError.message,
+            code: customError.code || ErrorCodes.DOCUMENT_CREATE_ERROR,
+            ...(customError.data && { data: customError.data }),
+          });
+        }
       }
 
-      // Check permissions
-      if (document.uploaded_by !== userId && userRole !== 'admin' && userRole !== 'editor') {
-        throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
+      // The documents are stored by now, so a failure to queue them must not fail the request;
+      // their ingestion can still be triggered by hand
+      let batch: IngestionBatchResponse | null = null;
+      if (created.length > 0) {
+        let jobs: Map<string, string> = new Map();
+        try {
+          const ingestion = await this.ingestionService.triggerBatch(userId, created.map(result => result.document!.id));
+          batch = ingestion.batch;
+          jobs = new Map(ingestion.results.map(job => [job.document_id, job.job_id]));
+        } catch (ingestionError) {
+          logger.error('Failed to queue ingestion of uploaded documents:', {
+            userId,
+            documentIds: created.map(result => result.document!.id),
+            error: ingestionError,
+          });
+        }
+
+        for (const result of created) {
+          result.job_id = jobs.get(result.document!.id) ?? null;
+        }
       }
 
+      results.sort((a, b) => a.index - b.index);
+      const summary = {
+        total: results.length,
+        created: created.length,
+        duplicate: results.filter(result => result.status === 'duplicate').length,
+        failed: results.filter(result => result.status === 'failed').length,
+      };
+
+      logger.info('Multi-file upload processed', {
+        userId,
+        batchId: batch?.id,
+        ...summary,
+      });
+
+      return { batch, results, summary };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error uploading documents:', error);
+      throw new CustomError('Failed to upload documents', 500, ErrorCodes.DOCUMENT_CREATE_ERROR);
+    }
+  }
+
+  /**
+   * Get document by ID
+   */
+  async getDocumentById(documentId: string, userId: string, userRole: string): Promise<DocumentResponse> {
+    try {
+      const document = await this.findAccessibleDocument(documentId, userId, userRole);
+
       logger.info('Document retrieved successfully', {
         documentId,
         userId,
@@ -101,6 +285,50 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Get the stored file of a document for streaming
+   */
+  async getDocumentFile(
+    documentId: string,
+    userId: string,
+    userRole: string
+  ): Promise<{ document: DocumentResponse; filePath: string; stats: fs.Stats }> {
+    try {
+      const document = await this.findAccessibleDocument(documentId, userId, userRole);
+      if (document.status === 'quarantined') {
+        throw new CustomError('Document is quarantined', 409, ErrorCodes.DOCUMENT_QUARANTINED);
+      }
+
+      let stats: fs.Stats;
+      try {
+        stats = await fs.promises.stat(document.file_path);
+      } catch (statError) {
+        logger.warn('Document file missing from filesystem', {
+          documentId,
+          filePath: document.file_path,
+          error: statError,
+        });
+        throw new CustomError('Document file not found', 404, ErrorCodes.DOCUMENT_FILE_NOT_FOUND);
+      }
+
+      if (!stats.isFile()) {
+        throw new CustomError('Document file not found', 404, ErrorCodes.DOCUMENT_FILE_NOT_FOUND);
+      }
+
+      return {
+        document: this.mapToResponse(document),
+        filePath: document.file_path,
+        stats,
+      };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error getting document file:', error);
+      throw new CustomError('Failed to get document file', 500, ErrorCodes.DOCUMENT_FETCH_ERROR);
+    }
+  }
+
   /**
    * Get all documents with pagination
    */
@@ -198,6 +426,11 @@ export class DocumentService {
         throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
       }
 
+      // Changing the status would release the infected file
+      if (existingDocument.status === 'quarantined' && updateData.status !== undefined) {
+        throw new CustomError('Document is quarantined', 409, ErrorCodes.DOCUMENT_QUARANTINED);
+      }
+
       // Prepare update fields
       const updateFields: any = { updated_at: new Date() };
       if (updateData.title !== undefined) updateFields.title = updateData.title;
@@ -246,18 +479,26 @@ export class DocumentService {
         throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
       }
 
-      // Delete file from filesystem
-      if (existingDocument.file_path && fs.existsSync(existingDocument.file_path)) {
+      // Delete the files of all versions from filesystem; restored versions share their file
+      const versions: { file_path: string }[] = await this.db('document_versions')
+        .where('document_id', documentId)
+        .select('file_path');
+      const filePaths = new Set([existingDocument.file_path, ...versions.map(version => version.file_path)]);
+
+      for (const filePath of filePaths) {
+        if (!filePath || !fs.existsSync(filePath)) {
+          continue;
+        }
         try {
-          fs.unlinkSync(existingDocument.file_path);
+          fs.unlinkSync(filePath);
           logger.info('Document file deleted from filesystem', {
             documentId,
-            filePath: existingDocument.file_path,
+            filePath,
           });
         } catch (fileError) {
           logger.warn('Failed to delete document file from filesystem', {
             documentId,
-            filePath: existingDocument.file_path,
+            filePath,
             error: fileError,
           });
         }
@@ -405,30 +646,27 @@ export class DocumentService {
   }
 
   /**
-   * Search documents
+   * Full-text search over document metadata and extracted text, ranked by relevance
    */
   async searchDocuments(
     searchTerm: string,
     userId: string,
     userRole: string,
-    query: PaginationQuery
-  ): Promise<PaginatedResponse<DocumentResponse>> {
+    query: DocumentSearchQuery
+  ): Promise<PaginatedResponse<DocumentSearchResult>> {
     try {
-      const { page = 1, limit = 20, sort_by = 'created_at', sort_order = 'desc' } = query;
+      const { page = 1, limit = 20, sort_by = 'relevance', sort_order = 'desc' } = query;
       const offset = (page - 1) * limit;
 
-      // Build search query
-      let baseQuery = this.db('documents')
-        .where(function() {
-          this.where('title', 'ilike', `%${searchTerm}%`)
-            .orWhere('description', 'ilike', `%${searchTerm}%`)
-            .orWhere('file_name', 'ilike', `%${searchTerm}%`);
-        })
-        .select('id', 'title', 'description', 'file_name', 'file_type', 'file_size', 'status', 'created_at', 'updated_at', 'uploaded_by');
+      // websearch_to_tsquery accepts "quoted phrases", -negation and OR, and never fails on malformed input
+      const tsQuery = this.db.raw('websearch_to_tsquery(?::regconfig, ?)', [SEARCH_CONFIG, searchTerm]);
+
+      let baseQuery = this.db('documents as d')
+        .whereRaw('d.search_vector @@ ?', [tsQuery]);
 
       // Apply role-based filtering
       if (userRole === 'viewer') {
-        baseQuery = baseQuery.where('uploaded_by', userId);
+        baseQuery = baseQuery.where('d.uploaded_by', userId);
       }
 
       // Get total count
@@ -436,12 +674,37 @@ export class DocumentService {
       const total = parseInt(count as string);
       const totalPages = Math.ceil(total / limit);
 
-      // Execute query with pagination
-      const documents = await baseQuery
-        .orderBy(sort_by, sort_order)
+      let pageQuery = baseQuery
+        .select(
+          'd.id', 'd.title', 'd.description', 'd.file_name', 'd.file_type', 'd.file_size', 'd.mime_type',
+          'd.status', 'd.created_at', 'd.updated_at', 'd.uploaded_by',
+          this.db.raw('ts_rank(d.search_vector, ?) as rank', [tsQuery])
+        );
+
+      pageQuery = sort_by === 'relevance'
+        ? pageQuery.orderBy('rank', sort_order).orderBy('d.created_at', 'desc')
+        : pageQuery.orderBy(`d.${sort_by}`, sort_order);
+
+      const documents = await pageQuery
         .limit(limit)
         .offset(offset);
 
+      // Headlines are expensive, so only build them for the documents on this page
+      const headlines = new Map<string, string>();
+      if (documents.length > 0) {
+        const rows = await this.db('documents as d')
+          .leftJoin('document_texts as dt', 'dt.document_id', 'd.id')
+          .whereIn('d.id', documents.map(doc => doc.id))
+          .select(
+            'd.id',
+            this.db.raw(
+              `ts_headline(?::regconfig, coalesce(dt.content, d.description, d.title), ?, ?) as headline`,
+              [SEARCH_CONFIG, tsQuery, HEADLINE_OPTIONS]
+            )
+          );
+        rows.forEach((row: { id: string; headline: string }) => headlines.set(row.id, row.headline));
+      }
+
       logger.info('Document search completed successfully', {
         searchTerm,
         userId,
@@ -453,7 +716,11 @@ export class DocumentService {
       });
 
       return {
-        data: documents.map(doc => this.mapToResponse(doc)),
+        data: documents.map(doc => ({
+          ...this.mapToResponse(doc),
+          rank: Number(doc.rank),
+          snippet: toHighlightedHtml(headlines.get(doc.id) || ''),
+        })),
         pagination: {
           page,
           limit,
@@ -467,6 +734,90 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Load a document and check that the user may read it
+   */
+  private async findAccessibleDocument(documentId: string, userId: string, userRole: string): Promise<Document> {
+    const document = await this.db('documents')
+      .where('id', documentId)
+      .first();
+
+    if (!document) {
+      throw new CustomError('Document not found', 404, ErrorCodes.DOCUMENT_NOT_FOUND);
+    }
+
+    // Check permissions
+    if (document.uploaded_by !== userId && userRole !== 'admin' && userRole !== 'editor') {
+      throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
+    }
+
+    return document;
+  }
+
+  /**
+   * Reject an upload identical to an existing document, or (DUPLICATE_UPLOAD_MODE=link) discard
+   * the uploaded file and return the existing document, which needs no new ingestion
+   */
+  private async handleDuplicateUpload(
+    existingDocument: Document,
+    file: Express.Multer.File,
+    userId: string
+  ): Promise<DocumentUploadResult> {
+    if (getFileUploadConfig().duplicateMode === 'reject') {
+      logger.warn('Duplicate upload rejected', {
+        existingDocumentId: existingDocument.id,
+        userId,
+        fileName: file.originalname,
+      });
+
+      throw new CustomError(
+        'An identical file has already been uploaded',
+        409,
+        ErrorCodes.DUPLICATE_DOCUMENT,
+        { document_id: existingDocument.id, title: existingDocument.title }
+      );
+    }
+
+    try {
+      await fs.promises.unlink(file.path);
+    } catch (fileError) {
+      logger.warn('Failed to delete duplicate upload from filesystem', {
+        filePath: file.path,
+        error: fileError,
+      });
+    }
+
+    logger.info('Duplicate upload linked to existing document', {
+      documentId: existingDocument.id,
+      userId,
+      fileName: file.originalname,
+    });
+
+    return { document: this.mapToResponse(existingDocument), duplicate: true };
+  }
+
+  /**
+   * Title a document after its file name, without the folder and extension
+   */
+  private titleFromFileName(fileName: string): string {
+    const baseName = path.posix.basename(fileName);
+    return (path.posix.basename(baseName, path.extname(baseName)) || baseName).substring(0, 500);
+  }
+
+  /**
+   * Delete the stored file of an upload that did not become a document
+   */
+  private async discardUpload(file: Express.Multer.File): Promise<void> {
+    try {
+      await fs.promises.unlink(file.path);
+    } catch (fileError) {
+      logger.warn('Failed to delete uploaded file from filesystem', {
+        filePath: file.path,
+        error: fileError,
+      });
+    }
+  }
+
   /**
    * Map database document to response format
    */
@@ -494,7 +845,30 @@ export class DocumentService {
     if (document.processed_at !== undefined) {
       response.processed_at = document.processed_at;
     }
+    if (document.content_hash !== undefined) {
+      response.content_hash = document.content_hash;
+    }
+    if (document.current_version !== undefined) {
+      response.current_version = document.current_version;
+    }
+    if (document.indexed_version !== undefined) {
+      response.indexed_version = document.indexed_version;
+    }
 
     return response;
   }
 }
+
+/**
+ * Escape a ts_headline snippet for HTML and wrap highlighted terms in <mark>
+ */
+export function toHighlightedHtml(headline: string): string {
+  return headline
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_STOP).join('</mark>');
+}
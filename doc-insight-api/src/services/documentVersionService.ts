@@ -0,0 +1,347 @@
+import fs from 'fs';
+import path from 'path';
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import {
+  Document,
+  DocumentVersion,
+  DocumentVersionResponse,
+  DocumentVersionResult,
+  IngestionJobResponse,
+} from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { IngestionService } from './ingestionService';
+import { QuarantineService } from './quarantineService';
+
+// The columns a document shares with its current version
+type VersionFile = Pick<DocumentVersion, 'file_name' | 'file_path' | 'file_type' | 'file_size' | 'mime_type' | 'content_hash'>;
+
+/**
+ * Versions of a document's file.
+ *
+ * Every file a document has had is kept in document_versions, and the documents
+ * row carries the current version's file columns, so ingestion, streaming and
+ * search always work on the current version. A new current version (uploaded or
+ * restored) gets its own ingestion job, which replaces the document's text and
+ * indexes the version's chunks; until then Q&A keeps citing the previous version.
+ */
+export class DocumentVersionService {
+  private get db() {
+    return getDatabase();
+  }
+  private ingestionService: IngestionService;
+  private quarantineService: QuarantineService;
+
+  constructor(ingestionService?: IngestionService, quarantineService?: QuarantineService) {
+    this.ingestionService = ingestionService || new IngestionService();
+    this.quarantineService = quarantineService || new QuarantineService();
+  }
+
+  /**
+   * List a document's versions, newest first
+   */
+  async listVersions(documentId: string, userId: string, userRole: string): Promise<DocumentVersionResponse[]> {
+    try {
+      const document = await this.findAccessibleDocument(this.db, documentId, userId, userRole);
+
+      const versions: DocumentVersion[] = await this.db('document_versions')
+        .where('document_id', documentId)
+        .orderBy('version_number', 'desc');
+
+      logger.info('Document versions retrieved successfully', {
+        documentId,
+        userId,
+        count: versions.length,
+      });
+
+      return versions.map(version => this.mapToResponse(version, document));
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error listing document versions:', error);
+      throw new CustomError('Failed to list document versions', 500, ErrorCodes.DOCUMENT_VERSION_ERROR);
+    }
+  }
+
+  /**
+   * Get the stored file of a document version for streaming
+   */
+  async getVersionFile(
+    documentId: string,
+    versionNumber: number,
+    userId: string,
+    userRole: string
+  ): Promise<{ version: DocumentVersionResponse; filePath: string; stats: fs.Stats }> {
+    try {
+      const document = await this.findAccessibleDocument(this.db, documentId, userId, userRole);
+      if (document.status === 'quarantined') {
+        throw new CustomError('Document is quarantined', 409, ErrorCodes.DOCUMENT_QUARANTINED);
+      }
+      const version = await this.findVersion(this.db, documentId, versionNumber);
+
+      let stats: fs.Stats;
+      try {
+        stats = await fs.promises.stat(version.file_path);
+      } catch (statError) {
+        logger.warn('Document version file missing from filesystem', {
+          documentId,
+          versionNumber,
+          filePath: version.file_path,
+          error: statError,
+        });
+        throw new CustomError('Document file not found', 404, ErrorCodes.DOCUMENT_FILE_NOT_FOUND);
+      }
+
+      if (!stats.isFile()) {
+        throw new CustomError('Document file not found', 404, ErrorCodes.DOCUMENT_FILE_NOT_FOUND);
+      }
+
+      return {
+        version: this.mapToResponse(version, document),
+        filePath: version.file_path,
+        stats,
+      };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error getting document version file:', error);
+      throw new CustomError('Failed to get document version file', 500, ErrorCodes.DOCUMENT_VERSION_ERROR);
+    }
+  }
+
+  /**
+   * Make an uploaded file the document's new current version and queue its ingestion
+   */
+  async uploadVersion(
+    documentId: string,
+    userId: string,
+    userRole: string,
+    file: Express.Multer.File
+  ): Promise<DocumentVersionResult> {
+    await this.scanVersion(documentId, userId, userRole, file);
+
+    return this.addVersion(documentId, userId, userRole, {
+      file_name: file.originalname,
+      file_path: file.path,
+      file_type: path.extname(file.originalname).substring(1),
+      file_size: file.size,
+      mime_type: file.detectedType?.mimeType || file.mimetype,
+      content_hash: file.contentHash || null,
+    });
+  }
+
+  /**
+   * Restore a previous version by adding a new current version with its file, and queue its ingestion
+   */
+  async restoreVersion(
+    documentId: string,
+    versionNumber: number,
+    userId: string,
+    userRole: string
+  ): Promise<DocumentVersionResult> {
+    return this.addVersion(documentId, userId, userRole, undefined, versionNumber);
+  }
+
+  /**
+   * Add a new current version, from an uploaded file or from an earlier version,
+   * then queue its ingestion. A version identical to the current one is rejected.
+   */
+  private async addVersion(
+    documentId: string,
+    userId: string,
+    userRole: string,
+    upload: VersionFile | undefined,
+    restoredFrom?: number
+  ): Promise<DocumentVersionResult> {
+    try {
+      const { document, version } = await this.db.transaction(async (trx) => {
+        // Lock the document so concurrent uploads get consecutive version numbers
+        const current = await this.findAccessibleDocument(trx, documentId, userId, userRole, true);
+        if (current.status === 'quarantined') {
+          throw new CustomError('Document is quarantined', 409, ErrorCodes.DOCUMENT_QUARANTINED);
+        }
+        const currentVersion = current.current_version ?? 1;
+        let versionFile: VersionFile;
+
+        if (restoredFrom !== undefined) {
+          const source = await this.findVersion(trx, documentId, restoredFrom);
+          versionFile = {
+            file_name: source.file_name,
+            file_path: source.file_path,
+            file_type: source.file_type,
+            file_size: source.file_size,
+            mime_type: source.mime_type,
+            content_hash: source.content_hash,
+          };
+        } else {
+          versionFile = upload!;
+        }
+
+        const identical = restoredFrom === currentVersion
+          || (versionFile.content_hash !== null && versionFile.content_hash === current.content_hash);
+        if (identical) {
+          throw new CustomError(
+            'The file is identical to the current version',
+            409,
+            ErrorCodes.DUPLICATE_DOCUMENT,
+            { document_id: documentId, version_number: currentVersion }
+          );
+        }
+
+        const [version] = await trx('document_versions')
+          .insert({
+            document_id: documentId,
+            version_number: currentVersion + 1,
+            ...versionFile,
+            restored_from: restoredFrom ?? null,
+            uploaded_by: userId,
+          })
+          .returning('*');
+
+        const [document] = await trx('documents')
+          .where('id', documentId)
+          .update({
+            ...versionFile,
+            current_version: version.version_number,
+            updated_at: new Date(),
+          })
+          .returning('*');
+
+        return { document: document as Document, version: version as DocumentVersion };
+      });
+
+      logger.info(restoredFrom !== undefined ? 'Document version restored successfully' : 'Document version uploaded successfully', {
+        documentId,
+        versionNumber: version.version_number,
+        restoredFrom,
+        userId,
+      });
+
+      // The version is committed by now, so a failure to queue it must not fail the request
+      // (which would also delete the uploaded file); it can still be triggered by hand
+      let ingestionJob: IngestionJobResponse | null = null;
+      try {
+        ingestionJob = await this.ingestionService.triggerVersionIngestion(userId, documentId);
+      } catch (ingestionError) {
+        logger.error('Failed to queue ingestion of document version:', {
+          documentId,
+          versionNumber: version.version_number,
+          error: ingestionError,
+        });
+      }
+
+      return { version: this.mapToResponse(version, document), ingestion_job: ingestionJob };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error adding document version:', error);
+      throw new CustomError('Failed to add document version', 500, ErrorCodes.DOCUMENT_VERSION_ERROR);
+    }
+  }
+
+  /**
+   * Load a document and check that the user may read it, optionally locking it
+   */
+  private async findAccessibleDocument(
+    db: Knex | Knex.Transaction,
+    documentId: string,
+    userId: string,
+    userRole: string,
+    forUpdate = false
+  ): Promise<Document> {
+    let query = db('documents').where('id', documentId);
+    if (forUpdate) {
+      query = query.forUpdate();
+    }
+    const document: Document | undefined = await query.first();
+
+    if (!document) {
+      throw new CustomError('Document not found', 404, ErrorCodes.DOCUMENT_NOT_FOUND);
+    }
+
+    // Check permissions
+    if (document.uploaded_by !== userId && userRole !== 'admin' && userRole !== 'editor') {
+      throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
+    }
+
+    return document;
+  }
+
+  /**
+   * Scan an uploaded version. An infected file is quarantined and recorded against the
+   * document, without becoming a version of it, and the upload fails with MALWARE_DETECTED.
+   */
+  private async scanVersion(documentId: string, userId: string, userRole: string, file: Express.Multer.File): Promise<void> {
+    try {
+      const scan = await this.quarantineService.scan(file);
+      if (!scan.infected) {
+        return;
+      }
+
+      await this.findAccessibleDocument(this.db, documentId, userId, userRole);
+      const filePath = await this.quarantineService.quarantineFile(file);
+      await this.quarantineService.recordDetection({
+        document_id: documentId,
+        file_name: file.originalname,
+        file_path: filePath,
+        file_size: file.size,
+        content_hash: file.contentHash || null,
+        signature: scan.signature || 'unknown',
+        uploaded_by: userId,
+      });
+
+      logger.warn('Infected document version quarantined', {
+        documentId,
+        userId,
+        fileName: file.originalname,
+        signature: scan.signature,
+      });
+
+      throw new CustomError(
+        'The file contains malware and has been quarantined',
+        422,
+        ErrorCodes.MALWARE_DETECTED,
+        { document_id: documentId, signature: scan.signature }
+      );
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error scanning document version:', error);
+      throw new CustomError('Failed to add document version', 500, ErrorCodes.DOCUMENT_VERSION_ERROR);
+    }
+  }
+
+  /**
+   * Load a version of a document
+   */
+  private async findVersion(db: Knex | Knex.Transaction, documentId: string, versionNumber: number): Promise<DocumentVersion> {
+    const version = await db('document_versions')
+      .where({ document_id: documentId, version_number: versionNumber })
+      .first();
+
+    if (!version) {
+      throw new CustomError('Document version not found', 404, ErrorCodes.DOCUMENT_VERSION_NOT_FOUND);
+    }
+
+    return version;
+  }
+
+  /**
+   * Map a database version to response format
+   */
+  private mapToResponse(version: DocumentVersion, document: Document): DocumentVersionResponse {
+    const { file_path: _filePath, ...response } = version;
+
+    return {
+      ...response,
+      is_current: version.version_number === (document.current_version ?? 1),
+      download_url: `/api/documents/${version.document_id}/versions/${version.version_number}/stream`,
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import config from '../config';
+
+/**
+ * Turns text into fixed-length vectors. Implementations must return one
+ * L2-normalized vector of `dimensions` length per input text, in order.
+ */
+export interface Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Deterministic, offline embedder based on feature hashing.
+ *
+ * Word unigrams and bigrams are hashed into a fixed number of signed buckets
+ * and the result is L2-normalized, so cosine similarity reflects lexical
+ * overlap. It needs no model download or network access.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = 384) {
+    if (!Number.isInteger(dimensions) || dimensions <= 0) {
+      throw new Error('Embedding dimensions must be a positive integer');
+    }
+    this.dimensions = dimensions;
+    this.name = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+
+    tokens.forEach((token, index) => {
+      this.addFeature(vector, token, 1);
+      if (index > 0) {
+        this.addFeature(vector, `${tokens[index - 1]} ${token}`, 0.5);
+      }
+    });
+
+    return normalize(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const bucket = hash % this.dimensions;
+    // Use the top bit as the sign so colliding features tend to cancel out
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[bucket] = (vector[bucket] as number) + sign * weight;
+  }
+}
+
+/**
+ * Create the embedder selected in configuration
+ */
+export function createEmbedder(provider: string = config.embeddingProvider): Embedder {
+  switch (provider) {
+    case 'hashing':
+      return new HashingEmbedder(config.embeddingDimensions);
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
+
+/**
+ * Cosine similarity between two vectors of the same length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same length');
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] as number;
+    const y = b[i] as number;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Lowercase word tokens (letters and digits in any script)
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,141 @@
+import {
+  DocumentSearchResult,
+  RetrievedChunk,
+  SemanticSearchQuery,
+  SemanticSearchResult,
+} from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { DocumentService } from './documentService';
+import { ChunkStoreService } from './chunkStoreService';
+import config from '../config';
+
+export class HybridSearchService {
+  private documentService: DocumentService;
+  private chunkStoreService: ChunkStoreService;
+
+  constructor(documentService?: DocumentService, chunkStoreService?: ChunkStoreService) {
+    this.documentService = documentService || new DocumentService();
+    this.chunkStoreService = chunkStoreService || new ChunkStoreService();
+  }
+
+  /**
+   * Search by meaning and by keywords, fusing both document rankings with reciprocal rank fusion
+   */
+  async search(
+    searchTerm: string,
+    userId: string,
+    userRole: string,
+    query: SemanticSearchQuery
+  ): Promise<SemanticSearchResult[]> {
+    try {
+      const { limit = 10, chunks_per_document = 3 } = query;
+
+      const [chunks, keywordResults] = await Promise.all([
+        this.chunkStoreService.findRelevantChunks(searchTerm, userId, userRole, config.searchCandidates),
+        this.documentService.searchDocuments(searchTerm, userId, userRole, {
+          page: 1,
+          limit: config.searchCandidates,
+          sort_by: 'relevance',
+          sort_order: 'desc',
+        }),
+      ]);
+
+      // Chunks arrive best first, so grouping keeps each document's hits in relevance order
+      const chunksByDocument = new Map<string, RetrievedChunk[]>();
+      chunks
+        .filter(chunk => chunk.relevance > 0)
+        .forEach(chunk => {
+          const documentChunks = chunksByDocument.get(chunk.document_id) || [];
+          documentChunks.push(chunk);
+          chunksByDocument.set(chunk.document_id, documentChunks);
+        });
+
+      const semanticRanking = [...chunksByDocument.keys()];
+      const keywordRanking = keywordResults.data.map(document => document.id);
+      const keywordDocuments = new Map<string, DocumentSearchResult>(
+        keywordResults.data.map(document => [document.id, document])
+      );
+
+      const results = reciprocalRankFusion([semanticRanking, keywordRanking], config.searchRrfK)
+        .slice(0, limit)
+        .map(({ id, score, ranks }): SemanticSearchResult => {
+          const documentChunks = chunksByDocument.get(id) || [];
+          const keywordDocument = keywordDocuments.get(id);
+          const firstChunk = documentChunks[0];
+
+          return {
+            document_id: id,
+            title: keywordDocument ? keywordDocument.title : firstChunk!.document_title,
+            file_name: keywordDocument ? keywordDocument.file_name : firstChunk!.file_name,
+            score: Math.round(score * 1e6) / 1e6,
+            semantic_rank: ranks[0] ?? null,
+            keyword_rank: ranks[1] ?? null,
+            snippet: keywordDocument ? keywordDocument.snippet : null,
+            chunks: documentChunks.slice(0, chunks_per_document).map(chunk => ({
+              chunk_id: chunk.chunk_id,
+              chunk_index: chunk.chunk_index,
+              content: chunk.content,
+              page_number: chunk.page_number,
+              relevance: Math.round(chunk.relevance * 1000) / 1000,
+            })),
+          };
+        });
+
+      logger.info('Hybrid search completed successfully', {
+        searchTerm,
+        userId,
+        userRole,
+        semanticCandidates: semanticRanking.length,
+        keywordCandidates: keywordRanking.length,
+        resultCount: results.length,
+      });
+
+      return results;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error running hybrid search:', error);
+      throw new CustomError('Failed to run semantic search', 500, ErrorCodes.SEMANTIC_SEARCH_ERROR);
+    }
+  }
+}
+
+/**
+ * Fuse several rankings of ids into one using reciprocal rank fusion.
+ *
+ * Each id scores the sum of 1 / (k + rank) over the rankings it appears in
+ * (ranks are 1-based). `ranks[i]` is the id's rank in `rankings[i]`, if any.
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k: number = 60
+): { id: string; score: number; ranks: (number | undefined)[] }[] {
+  const fused = new Map<string, { id: string; score: number; ranks: (number | undefined)[] }>();
+
+  rankings.forEach((ranking, rankingIndex) => {
+    ranking.forEach((id, index) => {
+      const entry = fused.get(id) || { id, score: 0, ranks: new Array(rankings.length).fill(undefined) };
+      if (entry.ranks[rankingIndex] !== undefined) {
+        return; // Only the first occurrence of an id in a ranking counts
+      }
+      entry.ranks[rankingIndex] = index + 1;
+      entry.score += 1 / (k + index + 1);
+      fused.set(id, entry);
+    });
+  });
+
+  // Ties go to the id with the best single rank, then to the earlier ranking
+  return [...fused.values()].sort((a, b) =>
+    b.score - a.score || bestRank(a.ranks) - bestRank(b.ranks)
+  );
+}
+
+/**
+ * Lowest rank an id reached in any ranking
+ */
+function bestRank(ranks: (number | undefined)[]): number {
+  return Math.min(...ranks.map(rank => rank ?? Infinity));
+}
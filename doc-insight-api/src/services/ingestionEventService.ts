@@ -0,0 +1,220 @@
+import { Client, Notification } from 'pg';
+import { getDatabase } from '../database/connection';
+import { IngestionJobEvent } from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+
+const CHANNEL = 'ingestion_job_events';
+const RECONNECT_DELAY = 5000;
+
+export interface IngestionJobEventSubscriber {
+  onEvent(event: IngestionJobEvent): void;
+  /** The event stream is shutting down; no more events will arrive */
+  onClose(): void;
+}
+
+/**
+ * Live ingestion job changes.
+ *
+ * Whatever changes a job (API, webhook, or a worker in any process) publishes it
+ * with pg_notify, so events reach every API process. Each API process holds one
+ * LISTEN connection while it has subscribers and fans the events out to them.
+ * Events are not persisted: a subscriber only sees changes made while it is
+ * connected, and changes made while the connection is being re-established are lost.
+ */
+export class IngestionEventService {
+  private get db() {
+    return getDatabase();
+  }
+  private subscribers: Set<IngestionJobEventSubscriber> = new Set();
+  private listening: Promise<Client> | null = null;
+  private reconnectTimer?: NodeJS.Timeout | undefined;
+
+  /**
+   * Publish the current state of the given jobs. Call after the change is committed.
+   */
+  async publishJobChange(jobIds: string | string[]): Promise<void> {
+    const ids = Array.isArray(jobIds) ? jobIds : [jobIds];
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db('ingestion_jobs as j')
+        .join('documents as d', 'd.id', 'j.document_id')
+        .whereIn('j.id', ids)
+        .select(this.db.raw(
+          `pg_notify(?, json_build_object(
+             'job_id', j.id,
+             'document_id', j.document_id,
+             'owner_id', d.uploaded_by,
+             'status', j.status,
+             'progress', j.progress,
+             'error_message', j.error_message,
+             'retry_count', j.retry_count,
+             'next_attempt_at', j.next_attempt_at,
+             'updated_at', j.updated_at
+           )::text)`,
+          [CHANNEL]
+        ));
+    } catch (error) {
+      // A missed event only delays what live subscribers see; the job change itself stands
+      logger.error('Error publishing ingestion job event:', error);
+    }
+  }
+
+  /**
+   * Receive job events until the returned function is called
+   */
+  async subscribe(subscriber: IngestionJobEventSubscriber): Promise<() => void> {
+    this.subscribers.add(subscriber);
+
+    try {
+      await this.ensureListening();
+    } catch (error) {
+      this.subscribers.delete(subscriber);
+      logger.error('Error listening for ingestion job events:', error);
+      throw new CustomError('Live ingestion events are unavailable', 503, ErrorCodes.INGESTION_EVENTS_ERROR);
+    }
+
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0) {
+        void this.stopListening();
+      }
+    };
+  }
+
+  /**
+   * Number of live subscribers in this process
+   */
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * End every subscription and release the listening connection (on shutdown)
+   */
+  async close(): Promise<void> {
+    const subscribers = [...this.subscribers];
+    this.subscribers.clear();
+    subscribers.forEach(subscriber => subscriber.onClose());
+
+    await this.stopListening();
+  }
+
+  /**
+   * Start listening on a pooled connection unless already listening
+   */
+  private ensureListening(): Promise<Client> {
+    if (!this.listening) {
+      this.listening = this.listen();
+      this.listening.catch(() => {
+        this.listening = null;
+      });
+    }
+    return this.listening;
+  }
+
+  /**
+   * Acquire a connection from the pool and LISTEN on it
+   */
+  private async listen(): Promise<Client> {
+    const connection: Client = await this.db.client.acquireConnection();
+
+    try {
+      connection.on('notification', this.handleNotification);
+      connection.on('error', this.handleConnectionError);
+      await connection.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      this.detach(connection);
+      throw error;
+    }
+
+    logger.info('Listening for ingestion job events');
+    return connection;
+  }
+
+  /**
+   * Stop listening and return the connection to the pool
+   */
+  private async stopListening(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    const listening = this.listening;
+    this.listening = null;
+    if (!listening) {
+      return;
+    }
+
+    try {
+      const connection = await listening;
+      await connection.query(`UNLISTEN ${CHANNEL}`);
+      this.detach(connection);
+    } catch (error) {
+      logger.warn('Error releasing ingestion event connection', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Remove our handlers from a connection and return it to the pool
+   */
+  private detach(connection: Client): void {
+    connection.removeListener('notification', this.handleNotification);
+    connection.removeListener('error', this.handleConnectionError);
+    this.db.client.releaseConnection(connection);
+  }
+
+  /**
+   * Fan a notification out to every subscriber
+   */
+  private handleNotification = (message: Notification): void => {
+    if (message.channel !== CHANNEL || !message.payload) {
+      return;
+    }
+
+    let event: IngestionJobEvent;
+    try {
+      event = JSON.parse(message.payload);
+    } catch (error) {
+      logger.warn('Ignoring malformed ingestion job event', { payload: message.payload });
+      return;
+    }
+
+    for (const subscriber of this.subscribers) {
+      subscriber.onEvent(event);
+    }
+  };
+
+  /**
+   * The listening connection broke: drop it and listen again while anyone is subscribed
+   */
+  private handleConnectionError = (error: Error): void => {
+    logger.error('Ingestion event connection lost:', error);
+
+    const listening = this.listening;
+    this.listening = null;
+    void listening?.then(connection => this.detach(connection)).catch(() => undefined);
+
+    if (this.subscribers.size > 0 && !this.reconnectTimer) {
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = undefined;
+        if (this.subscribers.size > 0) {
+          this.ensureListening().catch(reconnectError => {
+            logger.error('Error listening for ingestion job events:', reconnectError);
+            this.handleConnectionError(reconnectError);
+          });
+        }
+      }, RECONNECT_DELAY);
+    }
+  };
+}
+
+// One listener per process, shared by every subscriber
+export const ingestionEvents = new IngestionEventService();
@@ -0,0 +1,147 @@
+import axios from 'axios';
+import { getDatabase } from '../database/connection';
+import { IngestionJob, IngestionProcessResult, PythonServiceResponse } from '../types';
+import { logger } from '../utils/logger';
+import { getIngestionQueueConfig } from '../utils/configHelper';
+import { TextExtractionService } from './textExtractionService';
+import { ChunkStoreService } from './chunkStoreService';
+import { MockIngestionService } from './mockIngestionService';
+import config from '../config';
+
+export interface JobProcessingContext {
+  /** Record progress on the job; also keeps the worker's lease alive */
+  reportProgress(progress: Record<string, any>): Promise<void>;
+  /** Aborted once the worker no longer holds the job (cancelled or lease lost) */
+  signal: AbortSignal;
+}
+
+/**
+ * Does the work for a claimed ingestion job. Throwing fails the job.
+ */
+export interface IngestionJobProcessor {
+  readonly name: string;
+  process(job: IngestionJob, context: JobProcessingContext): Promise<IngestionProcessResult>;
+  /** Ask the owner of a dispatched job to stop working on it */
+  cancel?(job: IngestionJob): Promise<void>;
+}
+
+/**
+ * Stop processing a job the worker has given up
+ */
+export function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error('Ingestion job aborted');
+  }
+}
+
+/**
+ * Processes documents in-process: extracts their text, then chunks and embeds it
+ */
+export class LocalIngestionProcessor implements IngestionJobProcessor {
+  readonly name = 'local';
+  private textExtractionService: TextExtractionService;
+  private chunkStoreService: ChunkStoreService;
+
+  constructor(textExtractionService?: TextExtractionService, chunkStoreService?: ChunkStoreService) {
+    this.textExtractionService = textExtractionService || new TextExtractionService();
+    this.chunkStoreService = chunkStoreService || new ChunkStoreService();
+  }
+
+  async process(job: IngestionJob, context: JobProcessingContext): Promise<IngestionProcessResult> {
+    await context.reportProgress({ step: 'extracting_text', percentage: 10 });
+    throwIfAborted(context.signal);
+    await this.textExtractionService.extractDocument(job.document_id);
+
+    await context.reportProgress({ step: 'generating_embeddings', percentage: 50 });
+    throwIfAborted(context.signal);
+    const { chunkCount } = await this.chunkStoreService.indexDocument(job.document_id);
+
+    return {
+      status: 'completed',
+      progress: { step: 'completed', percentage: 100, chunk_count: chunkCount },
+    };
+  }
+}
+
+/**
+ * Dispatches jobs to the Python ingestion service, which reports back through the status webhook
+ */
+export class PythonIngestionProcessor implements IngestionJobProcessor {
+  readonly name = 'python';
+
+  constructor(
+    private pythonServiceUrl: string = config.pythonServiceUrl,
+    private pythonServiceApiKey: string = config.pythonServiceApiKey
+  ) {}
+
+  async process(job: IngestionJob): Promise<IngestionProcessResult> {
+    const document = await getDatabase()('documents')
+      .where('id', job.document_id)
+      .first();
+
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    await this.callPythonService('/ingest', {
+      document_id: job.document_id,
+      job_id: job.id,
+      file_path: document.file_path,
+      file_type: document.file_type,
+      retry_count: job.retry_count,
+    });
+
+    return { status: 'dispatched' };
+  }
+
+  async cancel(job: IngestionJob): Promise<void> {
+    await this.callPythonService('/cancel', {
+      document_id: job.document_id,
+      job_id: job.id,
+    });
+  }
+
+  /**
+   * Call Python service
+   */
+  private async callPythonService(endpoint: string, data: any): Promise<PythonServiceResponse> {
+    try {
+      const response = await axios.post(`${this.pythonServiceUrl}${endpoint}`, data, {
+        headers: {
+          'Authorization': `Bearer ${this.pythonServiceApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        timeout: 30000, // 30 seconds
+      });
+
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        logger.error('Python service call failed', {
+          endpoint,
+          status: error.response?.status,
+          statusText: error.response?.statusText,
+          data: error.response?.data,
+        });
+        throw new Error(`Python service error: ${error.response?.status} ${error.response?.statusText}`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create the ingestion job processor selected in configuration
+ */
+export function createIngestionProcessor(name: string = getIngestionQueueConfig().processor): IngestionJobProcessor {
+  switch (name) {
+    case 'mock':
+      return new MockIngestionService();
+    case 'local':
+      return new LocalIngestionProcessor();
+    case 'python':
+      return new PythonIngestionProcessor();
+    default:
+      throw new Error(`Unknown ingestion processor: ${name}`);
+  }
+}
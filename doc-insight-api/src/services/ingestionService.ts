@@ -1,126 +1,108 @@
+import { Knex } from 'knex';
 import { getDatabase } from '../database/connection';
 import { 
+  BulkIngestionResult,
+  IngestionBatch,
+  IngestionBatchResponse,
+  IngestionBatchStatus,
   IngestionJob, 
+  IngestionJobPriority,
   IngestionJobResponse, 
-  TriggerIngestionRequest,
-  PythonServiceResponse 
+  IngestionJobStep,
+  IngestionJobTimeline,
+  IngestionJobTransition,
+  TriggerIngestionRequest
 } from '../types';
 import { logger } from '../utils/logger';
 import { CustomError } from '../middleware/errorHandler';
-import axios from 'axios';
 import config from '../config';
+import { getIngestionQueueConfig } from '../utils/configHelper';
 import { ErrorCodes } from '../utils/constants';
+import { JobQueueService } from './jobQueueService';
+import { IngestionJobProcessor, createIngestionProcessor } from './ingestionProcessors';
+import { ingestionEvents } from './ingestionEventService';
+import { isIngestionJobStatus, recordJobCreated, transitionJob } from './jobStateMachine';
+import { buildTimeline, recordStepProgress } from './jobTimeline';
+import { estimateStartTime, loadQueueStats, queuePositions } from './jobScheduler';
 
 export class IngestionService {
   private get db() {
     return getDatabase();
   }
-  private pythonServiceUrl: string;
-  private pythonServiceApiKey: string;
+  private jobQueueService: JobQueueService;
+  private processor: IngestionJobProcessor | undefined;
 
-  constructor() {
-    this.pythonServiceUrl = config.pythonServiceUrl;
-    this.pythonServiceApiKey = config.pythonServiceApiKey;
+  constructor(jobQueueService?: JobQueueService, processor?: IngestionJobProcessor) {
+    this.jobQueueService = jobQueueService || new JobQueueService();
+    this.processor = processor;
   }
 
   /**
-   * Trigger ingestion process for a document
+   * Queue a document for ingestion; only admins may queue it as urgent
    */
-  async triggerIngestion(userId: string, request: TriggerIngestionRequest): Promise<IngestionJobResponse> {
+  async triggerIngestion(userId: string, request: TriggerIngestionRequest, userRole: string): Promise<IngestionJobResponse> {
     try {
-      // Verify document exists
-      const document = await this.db('documents')
-        .where('id', request.document_id)
-        .first();
-
-      if (!document) {
-        throw new CustomError('Document not found', 404, ErrorCodes.DOCUMENT_NOT_FOUND);
+      if (request.priority === 'urgent' && userRole !== 'admin') {
+        throw new CustomError('Only admins can queue urgent ingestion jobs', 403, ErrorCodes.ACCESS_DENIED);
       }
 
-      // Check if document is already being processed
-      const existingJob = await this.db('ingestion_jobs')
-        .where('document_id', request.document_id)
-        .whereIn('status', ['queued', 'processing'])
-        .first();
+      const ingestionJob = await this.queueJob(userId, request);
+      const [response] = await this.withQueueEstimates([ingestionJob]);
 
-      if (existingJob) {
-        throw new CustomError('Document is already being processed', 409, ErrorCodes.ALREADY_PROCESSING);
+      return response!;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
       }
+      logger.error('Error triggering ingestion:', error);
+      throw new CustomError('Failed to trigger ingestion', 500, ErrorCodes.INGESTION_TRIGGER_ERROR);
+    }
+  }
 
-      // Create ingestion job
-      const [ingestionJob] = await this.db('ingestion_jobs')
-        .insert({
-          document_id: request.document_id,
-          status: 'queued',
-          retry_count: 0,
-        })
-        .returning('*');
-
-      // Update document status
-      await this.db('documents')
-        .where('id', request.document_id)
-        .update({ 
-          status: 'processing',
-          updated_at: new Date() 
-        });
+  /**
+   * Queue ingestion of a document's new current version, cancelling any job still
+   * working on the version it replaces
+   */
+  async triggerVersionIngestion(userId: string, documentId: string): Promise<IngestionJobResponse> {
+    try {
+      const supersededJob = await this.db.transaction(async (trx) => {
+        const job: IngestionJob | undefined = await trx('ingestion_jobs')
+          .where('document_id', documentId)
+          .whereIn('status', ['queued', 'processing'])
+          .forUpdate()
+          .first();
+
+        if (job) {
+          await this.cancelLockedJob(trx, job, userId);
+        }
+
+        return job;
+      });
 
-      // Trigger Python service
-      try {
-        await this.callPythonService('/ingest', {
-          document_id: request.document_id,
-          job_id: ingestionJob.id,
-          file_path: document.file_path,
-          file_type: document.file_type,
-        });
+      if (supersededJob) {
+        await ingestionEvents.publishJobChange(supersededJob.id);
 
-        // Update job status to processing
-        await this.db('ingestion_jobs')
-          .where('id', ingestionJob.id)
-          .update({ 
-            status: 'processing',
-            started_at: new Date(),
-            updated_at: new Date() 
-          });
+        if (supersededJob.status === 'processing') {
+          await this.cancelDispatchedJob(supersededJob);
+        }
 
-        logger.info('Ingestion triggered successfully', {
-          jobId: ingestionJob.id,
-          documentId: request.document_id,
+        logger.info('Ingestion job superseded by a new document version', {
+          jobId: supersededJob.id,
+          documentId,
           userId,
+          previousStatus: supersededJob.status,
         });
-
-      } catch (pythonError) {
-        // If Python service fails, mark job as failed
-        await this.db('ingestion_jobs')
-          .where('id', ingestionJob.id)
-          .update({ 
-            status: 'failed',
-            error_message: `Failed to trigger Python service: ${pythonError}`,
-            updated_at: new Date() 
-          });
-
-        // Reset document status
-        await this.db('documents')
-          .where('id', request.document_id)
-          .update({ 
-            status: 'failed',
-            updated_at: new Date() 
-          });
-
-        logger.error('Failed to trigger Python service', {
-          jobId: ingestionJob.id,
-          documentId: request.document_id,
-          error: pythonError,
-        });
-
-        throw new CustomError('Failed to trigger ingestion process', 500, ErrorCodes.PYTHON_SERVICE_ERROR);
       }
 
-      return this.mapToResponse(ingestionJob);
+      const ingestionJob = await this.queueJob(userId, { document_id: documentId });
+      const [response] = await this.withQueueEstimates([ingestionJob]);
+
+      return response!;
     } catch (error) {
       if (error instanceof CustomError) {
         throw error;
       }
-      logger.error('Error triggering ingestion:', error);
+      logger.error('Error triggering version ingestion:', error);
       throw new CustomError('Failed to trigger ingestion', 500, ErrorCodes.INGESTION_TRIGGER_ERROR);
     }
   }
@@ -158,7 +140,9 @@ export class IngestionService {
         status: job.status,
       });
 
-      return this.mapToResponse(job);
+      const [response] = await this.withQueueEstimates([job]);
+
+      return response!;
     } catch (error) {
       if (error instanceof CustomError) {
         throw error;
@@ -168,6 +152,62 @@ export class IngestionService {
     }
   }
 
+  /**
+   * Get the status transitions of an ingestion job, oldest first
+   */
+  async getJobHistory(jobId: string, userId: string, userRole: string): Promise<IngestionJobTransition[]> {
+    try {
+      await this.findViewableJob(jobId, userId, userRole);
+
+      const transitions: IngestionJobTransition[] = await this.db('ingestion_job_events')
+        .where('job_id', jobId)
+        .orderBy('created_at', 'asc');
+
+      logger.info('Ingestion job history retrieved successfully', {
+        jobId,
+        userId,
+        userRole,
+        transitions: transitions.length,
+      });
+
+      return transitions;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error getting ingestion job history:', error);
+      throw new CustomError('Failed to get ingestion job history', 500, ErrorCodes.INGESTION_STATUS_ERROR);
+    }
+  }
+
+  /**
+   * Get the per-step timings of an ingestion job across its attempts
+   */
+  async getJobTimeline(jobId: string, userId: string, userRole: string): Promise<IngestionJobTimeline> {
+    try {
+      const job = await this.findViewableJob(jobId, userId, userRole);
+
+      const steps: IngestionJobStep[] = await this.db('ingestion_job_steps')
+        .where('job_id', jobId)
+        .orderBy('started_at', 'asc');
+
+      logger.info('Ingestion job timeline retrieved successfully', {
+        jobId,
+        userId,
+        userRole,
+        steps: steps.length,
+      });
+
+      return buildTimeline(job, steps);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error getting ingestion job timeline:', error);
+      throw new CustomError('Failed to get ingestion job timeline', 500, ErrorCodes.INGESTION_STATUS_ERROR);
+    }
+  }
+
   /**
    * Get all ingestion jobs for a user
    */
@@ -210,7 +250,7 @@ export class IngestionService {
       });
 
       return {
-        jobs: jobs.map(job => this.mapToResponse(job)),
+        jobs: await this.withQueueEstimates(jobs),
         total,
         totalPages,
       };
@@ -266,7 +306,7 @@ export class IngestionService {
       });
 
       return {
-        jobs: jobs.map(job => this.mapToResponse(job)),
+        jobs: await this.withQueueEstimates(jobs),
         total,
         totalPages,
       };
@@ -277,7 +317,8 @@ export class IngestionService {
   }
 
   /**
-   * Update ingestion job status (called by Python service webhook)
+   * Update ingestion job status (called by Python service webhook).
+   * Rejects unknown statuses and transitions the job's current status does not allow.
    */
   async updateJobStatus(
     jobId: string, 
@@ -286,43 +327,85 @@ export class IngestionService {
     errorMessage?: string
   ): Promise<void> {
     try {
-      const updateFields: any = { 
-        status, 
-        updated_at: new Date() 
-      };
+      if (!isIngestionJobStatus(status)) {
+        throw new CustomError(`Unknown job status: ${status}`, 400, ErrorCodes.INVALID_JOB_STATUS);
+      }
 
-      if (status === 'completed') {
-        updateFields.completed_at = new Date();
-        updateFields.progress = progress;
-      } else if (status === 'failed') {
-        updateFields.error_message = errorMessage;
-        updateFields.progress = progress;
-      } else if (status === 'processing') {
-        updateFields.progress = progress;
+      // Failures reported by the external service follow the same retry policy as worker failures
+      if (status === 'failed') {
+        const outcome = await this.jobQueueService.failJob(jobId, null, errorMessage || 'Ingestion failed', 'webhook');
+        if (outcome) {
+          logger.info('Ingestion job failure reported', {
+            jobId,
+            outcome,
+            errorMessage,
+          });
+          return;
+        }
       }
 
-      await this.db('ingestion_jobs')
-        .where('id', jobId)
-        .update(updateFields);
+      const updated = await this.db.transaction(async (trx) => {
+        const job: IngestionJob | undefined = await trx('ingestion_jobs')
+          .where('id', jobId)
+          .forUpdate()
+          .first();
+
+        if (!job) {
+          throw new CustomError('Ingestion job not found', 404, ErrorCodes.INGESTION_JOB_NOT_FOUND);
+        }
+
+        // The external service may keep reporting on a job until it sees the cancellation
+        if (job.status === 'cancelled') {
+          logger.info('Ignoring status update for cancelled ingestion job', { jobId, status });
+          return false;
+        }
+
+        // Status updates act as the external service's heartbeat on its lease
+        const leaseExpiry = trx.raw(`NOW() + (? * INTERVAL '1 millisecond')`, [config.ingestionVisibilityTimeout]);
+
+        // Progress reports on a running job are not transitions
+        if (job.status === 'processing' && status === 'processing') {
+          await trx('ingestion_jobs')
+            .where('id', jobId)
+            .update({
+              progress,
+              locked_until: leaseExpiry,
+              updated_at: new Date(),
+            });
+          await recordStepProgress(trx, job, progress);
+          return true;
+        }
+
+        const updateFields: Record<string, any> = { progress };
+
+        if (status === 'completed') {
+          updateFields['completed_at'] = new Date();
+        }
+
+        if (status === 'processing') {
+          updateFields['locked_until'] = leaseExpiry;
+        } else {
+          updateFields['locked_by'] = null;
+          updateFields['locked_until'] = null;
+        }
+
+        const updatedJob = await transitionJob(trx, job, status, updateFields, {
+          source: 'webhook',
+          message: errorMessage || null,
+        });
 
-      // Update document status
-      const job = await this.db('ingestion_jobs')
-        .where('id', jobId)
-        .first();
+        if (status === 'processing') {
+          await recordStepProgress(trx, updatedJob, progress);
+        }
+        return true;
+      });
 
-      if (job) {
-        const documentStatus = status === 'completed' ? 'completed' : 
-                              status === 'failed' ? 'failed' : 'processing';
-        
-        await this.db('documents')
-          .where('id', job.document_id)
-          .update({ 
-            status: documentStatus,
-            processed_at: status === 'completed' ? new Date() : null,
-            updated_at: new Date() 
-          });
+      if (!updated) {
+        return;
       }
 
+      await ingestionEvents.publishJobChange(jobId);
+
       logger.info('Ingestion job status updated', {
         jobId,
         status,
@@ -330,149 +413,555 @@ export class IngestionService {
         errorMessage,
       });
     } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
       logger.error('Error updating ingestion job status:', error);
       throw new CustomError('Failed to update job status', 500, ErrorCodes.JOB_STATUS_UPDATE_ERROR);
     }
   }
 
   /**
-   * Retry failed ingestion job
+   * Retry a failed or dead-lettered ingestion job with a fresh set of retries (owner or admin)
    */
   async retryJob(jobId: string, userId: string, userRole: string): Promise<IngestionJobResponse> {
     try {
-      const job = await this.db('ingestion_jobs')
-        .where('id', jobId)
-        .first();
+      const updatedJob = await this.db.transaction(async (trx) => {
+        const job: IngestionJob | undefined = await trx('ingestion_jobs')
+          .where('id', jobId)
+          .forUpdate()
+          .first();
 
-      if (!job) {
-        throw new CustomError('Ingestion job not found', 404, ErrorCodes.INGESTION_JOB_NOT_FOUND);
+        if (!job) {
+          throw new CustomError('Ingestion job not found', 404, ErrorCodes.INGESTION_JOB_NOT_FOUND);
+        }
+
+        // Check permissions
+        const document = await trx('documents')
+          .where('id', job.document_id)
+          .first();
+
+        if (!document) {
+          throw new CustomError('Document not found', 404, ErrorCodes.DOCUMENT_NOT_FOUND);
+        }
+
+        if (document.uploaded_by !== userId && userRole !== 'admin') {
+          throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
+        }
+
+        // Jobs out of retries end up dead-lettered; failed is left for jobs failed before dead letters
+        if (job.status !== 'failed' && job.status !== 'dead_lettered') {
+          throw new CustomError('Only failed or dead-lettered jobs can be retried', 400, ErrorCodes.INVALID_JOB_STATUS);
+        }
+
+        return this.requeueLockedJob(trx, job, userId, 'Retry requested');
+      });
+
+      await ingestionEvents.publishJobChange(jobId);
+
+      logger.info('Ingestion job requeued for retry', {
+        jobId,
+        documentId: updatedJob.document_id,
+        userId,
+        retryCount: updatedJob.retry_count,
+      });
+
+      return this.mapToResponse(updatedJob);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
       }
+      logger.error('Error retrying ingestion job:', error);
+      throw new CustomError('Failed to retry ingestion job', 500, ErrorCodes.INGESTION_RETRY_ERROR);
+    }
+  }
 
-      // Check permissions
-      const document = await this.db('documents')
-        .where('id', job.document_id)
-        .first();
+  /**
+   * Cancel a queued or running ingestion job and roll its document back.
+   * A worker running the job loses its lease and stops at its next heartbeat or
+   * progress update; a job dispatched to an external service is cancelled there too.
+   */
+  async cancelJob(jobId: string, userId: string, userRole: string): Promise<IngestionJobResponse> {
+    try {
+      const { previousJob, cancelledJob } = await this.db.transaction(async (trx) => {
+        const job: IngestionJob | undefined = await trx('ingestion_jobs')
+          .where('id', jobId)
+          .forUpdate()
+          .first();
 
-      if (!document) {
-        throw new CustomError('Document not found', 404, ErrorCodes.DOCUMENT_NOT_FOUND);
+        if (!job) {
+          throw new CustomError('Ingestion job not found', 404, ErrorCodes.INGESTION_JOB_NOT_FOUND);
+        }
+
+        // Check permissions
+        const document = await trx('documents')
+          .where('id', job.document_id)
+          .first();
+
+        if (!document) {
+          throw new CustomError('Document not found', 404, ErrorCodes.DOCUMENT_NOT_FOUND);
+        }
+
+        if (document.uploaded_by !== userId && userRole !== 'admin') {
+          throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
+        }
+
+        if (job.status !== 'queued' && job.status !== 'processing') {
+          throw new CustomError(`Job cannot be cancelled. Current status: ${job.status}`, 400, ErrorCodes.INVALID_JOB_STATUS);
+        }
+
+        const cancelledJob = await this.cancelLockedJob(trx, job, userId);
+
+        return { previousJob: job, cancelledJob };
+      });
+
+      await ingestionEvents.publishJobChange(jobId);
+
+      if (previousJob.status === 'processing') {
+        await this.cancelDispatchedJob(previousJob);
       }
 
-      if (document.uploaded_by !== userId && userRole !== 'admin') {
-        throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
+      logger.info('Ingestion job cancelled', {
+        jobId,
+        documentId: previousJob.document_id,
+        userId,
+        previousStatus: previousJob.status,
+      });
+
+      return this.mapToResponse(cancelledJob);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
       }
+      logger.error('Error cancelling ingestion job:', error);
+      throw new CustomError('Failed to cancel ingestion job', 500, ErrorCodes.INGESTION_CANCEL_ERROR);
+    }
+  }
+
+  /**
+   * Requeue dead-lettered jobs with a fresh set of retries (admin only).
+   * Requeues the given jobs, or every dead-lettered job when none are given.
+   */
+  async requeueDeadLetteredJobs(adminUserId: string, jobIds?: string[]): Promise<IngestionJobResponse[]> {
+    try {
+      const jobs = await this.db.transaction(async (trx) => {
+        let query = trx('ingestion_jobs')
+          .where('status', 'dead_lettered');
+
+        if (jobIds) {
+          query = query.whereIn('id', jobIds);
+        }
+
+        const deadLetteredJobs: IngestionJob[] = await query.forUpdate();
 
-      if (job.status !== 'failed') {
-        throw new CustomError('Only failed jobs can be retried', 400, ErrorCodes.INVALID_JOB_STATUS);
+        const requeuedJobs: IngestionJob[] = [];
+        for (const job of deadLetteredJobs) {
+          requeuedJobs.push(await this.requeueLockedJob(trx, job, adminUserId, 'Requeued from dead letters'));
+        }
+
+        return requeuedJobs;
+      });
+
+      if (jobIds && jobIds.length === 1 && jobs.length === 0) {
+        const job = await this.db('ingestion_jobs')
+          .where('id', jobIds[0])
+          .first();
+
+        if (!job) {
+          throw new CustomError('Ingestion job not found', 404, ErrorCodes.INGESTION_JOB_NOT_FOUND);
+        }
+        throw new CustomError('Only dead-lettered jobs can be requeued', 400, ErrorCodes.INVALID_JOB_STATUS);
       }
 
-      // Reset job status
-      const [updatedJob] = await this.db('ingestion_jobs')
-        .where('id', jobId)
-        .update({
-          status: 'queued',
-          error_message: null,
-          retry_count: job.retry_count + 1,
-          updated_at: new Date(),
-        })
+      await ingestionEvents.publishJobChange(jobs.map(job => job.id));
+
+      logger.info('Dead-lettered ingestion jobs requeued', {
+        adminUserId,
+        jobIds: jobs.map(job => job.id),
+      });
+
+      return jobs.map(job => this.mapToResponse(job));
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error requeuing dead-lettered ingestion jobs:', error);
+      throw new CustomError('Failed to requeue dead-lettered jobs', 500, ErrorCodes.INGESTION_REQUEUE_ERROR);
+    }
+  }
+
+  /**
+   * Queue documents for ingestion as one batch on behalf of a user. Documents that cannot be
+   * queued are reported back and left out; no batch is kept when none could be queued.
+   */
+  async triggerBatch(
+    userId: string,
+    documentIds: string[],
+    priority: IngestionJobPriority = 'normal'
+  ): Promise<BulkIngestionResult> {
+    try {
+      const [batch] = await this.db('ingestion_batches')
+        .insert({ created_by: userId })
         .returning('*');
 
-      // Update document status
-      await this.db('documents')
-        .where('id', job.document_id)
-        .update({ 
-          status: 'processing',
-          updated_at: new Date() 
-        });
+      const results: BulkIngestionResult['results'] = [];
+      const errors: BulkIngestionResult['errors'] = [];
 
-      // Trigger Python service again
-      try {
-        await this.callPythonService('/ingest', {
-          document_id: job.document_id,
-          job_id: jobId,
-          file_path: document.file_path,
-          file_type: document.file_type,
-          retry_count: updatedJob.retry_count,
-        });
+      for (const documentId of new Set(documentIds)) {
+        try {
+          const job = await this.queueJob(userId, { document_id: documentId, priority }, batch.id);
+          results.push({ document_id: documentId, job_id: job.id, status: 'triggered' });
+        } catch (error) {
+          errors.push({ document_id: documentId, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
 
-        // Update job status to processing
-        await this.db('ingestion_jobs')
-          .where('id', jobId)
-          .update({ 
-            status: 'processing',
-            started_at: new Date(),
-            updated_at: new Date() 
-          });
+      if (results.length === 0) {
+        await this.db('ingestion_batches')
+          .where('id', batch.id)
+          .delete();
 
-        logger.info('Ingestion job retried successfully', {
-          jobId,
-          documentId: job.document_id,
-          userId,
-          retryCount: updatedJob.retry_count,
-        });
+        return { batch: null, results, errors };
+      }
 
-      } catch (pythonError) {
-        // Mark job as failed again
-        await this.db('ingestion_jobs')
-          .where('id', jobId)
-          .update({ 
-            status: 'failed',
-            error_message: `Retry failed: ${pythonError}`,
-            updated_at: new Date() 
-          });
+      logger.info('Ingestion batch queued', {
+        batchId: batch.id,
+        userId,
+        queued: results.length,
+        failed: errors.length,
+      });
 
-        // Reset document status
-        await this.db('documents')
-          .where('id', job.document_id)
-          .update({ 
-            status: 'failed',
-            updated_at: new Date() 
+      return { batch: await this.withBatchCounts(batch), results, errors };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error triggering ingestion batch:', error);
+      throw new CustomError('Failed to trigger ingestion batch', 500, ErrorCodes.INGESTION_BATCH_ERROR);
+    }
+  }
+
+  /**
+   * Get a batch with the number of its jobs in each state and its overall progress
+   * (its creator or an admin)
+   */
+  async getBatch(batchId: string, userId: string, userRole: string): Promise<IngestionBatchResponse> {
+    try {
+      const batch = await this.findBatch(this.db, batchId, userId, userRole);
+
+      return await this.withBatchCounts(batch);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error getting ingestion batch:', error);
+      throw new CustomError('Failed to get ingestion batch', 500, ErrorCodes.INGESTION_BATCH_ERROR);
+    }
+  }
+
+  /**
+   * Cancel every queued or running job of a batch (its creator or an admin); finished
+   * jobs are left alone
+   */
+  async cancelBatch(batchId: string, userId: string, userRole: string): Promise<IngestionBatchResponse> {
+    try {
+      const cancelled = await this.db.transaction(async (trx) => {
+        await this.findBatch(trx, batchId, userId, userRole);
+
+        const activeJobs: IngestionJob[] = await trx('ingestion_jobs')
+          .where('batch_id', batchId)
+          .whereIn('status', ['queued', 'processing'])
+          .forUpdate();
+
+        for (const job of activeJobs) {
+          await this.cancelLockedJob(trx, job, userId);
+        }
+
+        await trx('ingestion_batches')
+          .where('id', batchId)
+          .update({
+            cancelled_by: userId,
+            cancelled_at: new Date(),
+            updated_at: new Date(),
           });
 
-        logger.error('Failed to retry ingestion job', {
-          jobId,
-          documentId: job.document_id,
-          error: pythonError,
-        });
+        return activeJobs;
+      });
+
+      await ingestionEvents.publishJobChange(cancelled.map(job => job.id));
 
-        throw new CustomError('Failed to retry ingestion process', 500, ErrorCodes.PYTHON_SERVICE_ERROR);
+      for (const job of cancelled.filter(job => job.status === 'processing')) {
+        await this.cancelDispatchedJob(job);
       }
 
-      return this.mapToResponse(updatedJob);
+      logger.info('Ingestion batch cancelled', {
+        batchId,
+        userId,
+        cancelledJobs: cancelled.length,
+      });
+
+      return await this.getBatch(batchId, userId, userRole);
     } catch (error) {
       if (error instanceof CustomError) {
         throw error;
       }
-      logger.error('Error retrying ingestion job:', error);
-      throw new CustomError('Failed to retry ingestion job', 500, ErrorCodes.INGESTION_RETRY_ERROR);
+      logger.error('Error cancelling ingestion batch:', error);
+      throw new CustomError('Failed to cancel ingestion batch', 500, ErrorCodes.INGESTION_BATCH_ERROR);
     }
   }
 
   /**
-   * Call Python service
+   * Requeue every failed or dead-lettered job of a batch with a fresh set of retries
+   * (its creator or an admin)
    */
-  private async callPythonService(endpoint: string, data: any): Promise<PythonServiceResponse> {
+  async retryBatch(batchId: string, userId: string, userRole: string): Promise<IngestionBatchResponse> {
     try {
-      const response = await axios.post(`${this.pythonServiceUrl}${endpoint}`, data, {
-        headers: {
-          'Authorization': `Bearer ${this.pythonServiceApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        timeout: 30000, // 30 seconds
+      const requeued = await this.db.transaction(async (trx) => {
+        await this.findBatch(trx, batchId, userId, userRole);
+
+        const failedJobs: IngestionJob[] = await trx('ingestion_jobs')
+          .where('batch_id', batchId)
+          .whereIn('status', ['failed', 'dead_lettered'])
+          .forUpdate();
+
+        const requeuedJobs: IngestionJob[] = [];
+        for (const job of failedJobs) {
+          requeuedJobs.push(await this.requeueLockedJob(trx, job, userId, 'Retried with its batch'));
+        }
+
+        // A retried batch is running again, even if it had been cancelled
+        if (requeuedJobs.length > 0) {
+          await trx('ingestion_batches')
+            .where('id', batchId)
+            .update({
+              cancelled_by: null,
+              cancelled_at: null,
+              updated_at: new Date(),
+            });
+        }
+
+        return requeuedJobs;
+      });
+
+      await ingestionEvents.publishJobChange(requeued.map(job => job.id));
+
+      logger.info('Ingestion batch retried', {
+        batchId,
+        userId,
+        requeuedJobs: requeued.length,
       });
 
-      return response.data;
+      return await this.getBatch(batchId, userId, userRole);
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        logger.error('Python service call failed', {
-          endpoint,
-          status: error.response?.status,
-          statusText: error.response?.statusText,
-          data: error.response?.data,
-        });
-        throw new Error(`Python service error: ${error.response?.status} ${error.response?.statusText}`);
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error retrying ingestion batch:', error);
+      throw new CustomError('Failed to retry ingestion batch', 500, ErrorCodes.INGESTION_BATCH_ERROR);
+    }
+  }
+
+  /**
+   * Queue a document for ingestion on behalf of a user, optionally as part of a batch
+   */
+  private async queueJob(userId: string, request: TriggerIngestionRequest, batchId?: string): Promise<IngestionJob> {
+    const ingestionJob = await this.db.transaction(async (trx) => {
+      // Verify document exists
+      const document = await trx('documents')
+        .where('id', request.document_id)
+        .forUpdate()
+        .first();
+
+      if (!document) {
+        throw new CustomError('Document not found', 404, ErrorCodes.DOCUMENT_NOT_FOUND);
+      }
+
+      if (document.status === 'quarantined') {
+        throw new CustomError('Quarantined documents cannot be ingested', 409, ErrorCodes.DOCUMENT_QUARANTINED);
+      }
+
+      // Check if document is already being processed
+      const existingJob = await trx('ingestion_jobs')
+        .where('document_id', request.document_id)
+        .whereIn('status', ['queued', 'processing'])
+        .first();
+
+      if (existingJob) {
+        throw new CustomError('Document is already being processed', 409, ErrorCodes.ALREADY_PROCESSING);
+      }
+
+      // Create ingestion job; recording it also moves the document to processing
+      const [job] = await trx('ingestion_jobs')
+        .insert({
+          document_id: request.document_id,
+          status: 'queued',
+          retry_count: 0,
+          batch_id: batchId || null,
+          requested_by: userId,
+          priority: request.priority || 'normal',
+          document_version: document.current_version ?? null,
+        })
+        .returning('*');
+
+      await recordJobCreated(trx, job, { source: 'api', actorId: userId });
+
+      return job as IngestionJob;
+    });
+
+    await ingestionEvents.publishJobChange(ingestionJob.id);
+
+    // The job is picked up by an ingestion worker polling the queue
+    logger.info('Ingestion queued successfully', {
+      jobId: ingestionJob.id,
+      documentId: request.document_id,
+      userId,
+    });
+
+    return ingestionJob;
+  }
+
+  /**
+   * Cancel a queued or processing job whose row is locked in `trx`
+   */
+  private cancelLockedJob(trx: Knex.Transaction, job: IngestionJob, userId: string): Promise<IngestionJob> {
+    return transitionJob(trx, job, 'cancelled', {
+      progress: { step: 'cancelled', percentage: 0 },
+      cancelled_by: userId,
+      cancelled_at: new Date(),
+      completed_at: new Date(),
+      next_attempt_at: null,
+      locked_by: null,
+      locked_until: null,
+    }, { source: 'api', actorId: userId });
+  }
+
+  /**
+   * Requeue a failed or dead-lettered job whose row is locked in `trx`, with a fresh set of retries
+   */
+  private requeueLockedJob(trx: Knex.Transaction, job: IngestionJob, actorId: string, message: string): Promise<IngestionJob> {
+    return transitionJob(trx, job, 'queued', {
+      error_message: null,
+      retry_count: 0,
+      next_attempt_at: null,
+      started_at: null,
+      completed_at: null,
+    }, { source: 'api', actorId, message });
+  }
+
+  /**
+   * Load a batch, locked in a transaction, that the user may follow: admins may follow
+   * every batch, other users the batches they started
+   */
+  private async findBatch(db: Knex, batchId: string, userId: string, userRole: string): Promise<IngestionBatch> {
+    let query = db('ingestion_batches').where('id', batchId);
+    if (db.isTransaction) {
+      query = query.forUpdate();
+    }
+    const batch: IngestionBatch | undefined = await query.first();
+
+    if (!batch) {
+      throw new CustomError('Ingestion batch not found', 404, ErrorCodes.INGESTION_BATCH_NOT_FOUND);
+    }
+
+    if (batch.created_by !== userId && userRole !== 'admin') {
+      throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Count a batch's jobs in each state and work out its overall progress
+   */
+  private async withBatchCounts(batch: IngestionBatch): Promise<IngestionBatchResponse> {
+    const [counts] = await this.db('ingestion_jobs')
+      .where('batch_id', batch.id)
+      .select(
+        this.db.raw(`COUNT(*) FILTER (WHERE status = 'queued')::int AS queued`),
+        this.db.raw(`COUNT(*) FILTER (WHERE status = 'processing')::int AS running`),
+        this.db.raw(`COUNT(*) FILTER (WHERE status = 'completed')::int AS done`),
+        this.db.raw(`COUNT(*) FILTER (WHERE status IN ('failed', 'dead_lettered'))::int AS failed`),
+        this.db.raw(`COUNT(*) FILTER (WHERE status = 'cancelled')::int AS cancelled`),
+        this.db.raw(`COALESCE(SUM((progress->>'percentage')::numeric) FILTER (WHERE status = 'processing'), 0)::float AS running_percentage`)
+      );
+
+    return this.mapBatchToResponse(batch, counts);
+  }
+
+  /**
+   * Tell the external service that owns a handed-off job to stop; the job is cancelled either way
+   */
+  private async cancelDispatchedJob(job: IngestionJob): Promise<void> {
+    const processor = this.processor || createIngestionProcessor();
+
+    if (job.locked_by !== processor.name || !processor.cancel) {
+      return;
+    }
+
+    try {
+      await processor.cancel(job);
+    } catch (error) {
+      logger.warn('Failed to cancel ingestion job in external service', {
+        jobId: job.id,
+        processor: processor.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Load a job the user may view: their own, or any job for admins and editors
+   */
+  private async findViewableJob(jobId: string, userId: string, userRole: string): Promise<IngestionJob> {
+    const job = await this.db('ingestion_jobs')
+      .join('documents', 'ingestion_jobs.document_id', 'documents.id')
+      .where('ingestion_jobs.id', jobId)
+      .select('ingestion_jobs.*', 'documents.uploaded_by')
+      .first();
+
+    if (!job) {
+      throw new CustomError('Ingestion job not found', 404, ErrorCodes.INGESTION_JOB_NOT_FOUND);
+    }
+
+    if (job.uploaded_by !== userId && userRole !== 'admin' && userRole !== 'editor') {
+      throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
+    }
+
+    return job;
+  }
+
+  /**
+   * Map jobs to response format, adding the queue position and estimated start time of queued ones
+   */
+  private async withQueueEstimates(jobs: IngestionJob[]): Promise<IngestionJobResponse[]> {
+    const responses = jobs.map(job => this.mapToResponse(job));
+    const queuedJobIds = jobs.filter(job => job.status === 'queued').map(job => job.id);
+
+    if (queuedJobIds.length === 0) {
+      return responses;
+    }
+
+    const queueConfig = getIngestionQueueConfig();
+    const positions = await queuePositions(this.db, queuedJobIds);
+    const stats = await loadQueueStats(this.db, queueConfig.maxRunningJobs || queueConfig.concurrency);
+
+    for (const response of responses) {
+      const position = positions.get(response.id);
+      if (position === undefined) {
+        continue;
+      }
+
+      response.queue_position = position;
+
+      const estimate = estimateStartTime(position, stats);
+      if (estimate) {
+        // A job waiting out a retry delay starts no earlier than its next attempt
+        const nextAttempt = response.next_attempt_at ? new Date(response.next_attempt_at) : null;
+        response.estimated_start_at = nextAttempt && nextAttempt > estimate ? nextAttempt : estimate;
       }
-      throw error;
     }
+
+    return responses;
   }
 
   /**
@@ -483,6 +972,7 @@ export class IngestionService {
       id: job.id,
       document_id: job.document_id,
       status: job.status,
+      priority: job.priority || 'normal',
       retry_count: job.retry_count,
       created_at: job.created_at,
       updated_at: job.updated_at,
@@ -501,6 +991,69 @@ export class IngestionService {
     if (job.completed_at !== undefined) {
       response.completed_at = job.completed_at;
     }
+    if (job.next_attempt_at) {
+      response.next_attempt_at = job.next_attempt_at;
+    }
+    if (job.cancelled_by) {
+      response.cancelled_by = job.cancelled_by;
+    }
+    if (job.cancelled_at) {
+      response.cancelled_at = job.cancelled_at;
+    }
+    if (job.batch_id) {
+      response.batch_id = job.batch_id;
+    }
+    if (job.requested_by) {
+      response.requested_by = job.requested_by;
+    }
+    if (job.document_version) {
+      response.document_version = job.document_version;
+    }
+
+    return response;
+  }
+
+  /**
+   * Map a batch and the counts of its jobs to response format
+   */
+  private mapBatchToResponse(
+    batch: IngestionBatch,
+    counts: { queued: number; running: number; done: number; failed: number; cancelled: number; running_percentage: number }
+  ): IngestionBatchResponse {
+    const { queued, running, done, failed, cancelled } = counts;
+    const total = queued + running + done + failed + cancelled;
+    const finished = done + failed + cancelled;
+
+    let status: IngestionBatchStatus;
+    if (queued + running > 0) {
+      status = 'processing';
+    } else if (batch.cancelled_at) {
+      status = 'cancelled';
+    } else if (failed > 0) {
+      status = 'failed';
+    } else if (done > 0 || total === 0) {
+      status = 'completed';
+    } else {
+      status = 'cancelled';
+    }
+
+    const response: IngestionBatchResponse = {
+      id: batch.id,
+      status,
+      total_jobs: total,
+      counts: { queued, running, done, failed, cancelled },
+      progress: total === 0 ? 100 : Math.round((finished * 100 + counts.running_percentage) / total),
+      created_by: batch.created_by,
+      created_at: batch.created_at,
+      updated_at: batch.updated_at,
+    };
+
+    if (batch.cancelled_by) {
+      response.cancelled_by = batch.cancelled_by;
+    }
+    if (batch.cancelled_at) {
+      response.cancelled_at = batch.cancelled_at;
+    }
 
     return response;
   }
@@ -0,0 +1,214 @@
+import { hostname } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { IngestionJob, IngestionProcessResult } from '../types';
+import { logger } from '../utils/logger';
+import { getIngestionQueueConfig } from '../utils/configHelper';
+import { JobQueueService } from './jobQueueService';
+import { IngestionJobProcessor, createIngestionProcessor } from './ingestionProcessors';
+
+export interface IngestionWorkerOptions {
+  concurrency: number;
+  pollInterval: number;
+  visibilityTimeout: number;
+  recoveryInterval: number;
+}
+
+/**
+ * Polls the ingestion queue and runs claimed jobs through a processor.
+ *
+ * Runs inside the API process or on its own (src/worker.ts). Each worker holds
+ * a lease on the jobs it runs and heartbeats them; it also periodically
+ * requeues jobs whose lease expired because their worker died.
+ */
+export class IngestionWorker {
+  readonly workerId: string;
+  private jobQueueService: JobQueueService;
+  private processor: IngestionJobProcessor;
+  private options: IngestionWorkerOptions;
+  private running = false;
+  private polling = false;
+  private activeJobs: Map<string, Promise<void>> = new Map();
+  private pollTimer?: NodeJS.Timeout | undefined;
+  private recoveryTimer?: NodeJS.Timeout | undefined;
+
+  constructor(
+    jobQueueService?: JobQueueService,
+    processor?: IngestionJobProcessor,
+    options?: Partial<IngestionWorkerOptions>
+  ) {
+    const queueConfig = getIngestionQueueConfig();
+    this.options = {
+      concurrency: queueConfig.concurrency,
+      pollInterval: queueConfig.pollInterval,
+      visibilityTimeout: queueConfig.visibilityTimeout,
+      recoveryInterval: queueConfig.recoveryInterval,
+      ...options,
+    };
+    this.jobQueueService = jobQueueService || new JobQueueService({ visibilityTimeout: this.options.visibilityTimeout });
+    this.processor = processor || createIngestionProcessor();
+    this.workerId = `${hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+  }
+
+  /**
+   * Start polling for jobs and recovering expired leases
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    void this.recover();
+    this.recoveryTimer = setInterval(() => void this.recover(), this.options.recoveryInterval);
+    this.schedulePoll(0);
+
+    logger.info('Ingestion worker started', {
+      workerId: this.workerId,
+      processor: this.processor.name,
+      concurrency: this.options.concurrency,
+    });
+  }
+
+  /**
+   * Stop claiming jobs and wait for the ones in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = undefined;
+    }
+
+    await Promise.allSettled(this.activeJobs.values());
+
+    logger.info('Ingestion worker stopped', { workerId: this.workerId });
+  }
+
+  /**
+   * Number of jobs this worker is running
+   */
+  getActiveJobCount(): number {
+    return this.activeJobs.size;
+  }
+
+  /**
+   * Claim jobs until the queue is empty or the worker is at capacity
+   */
+  private async poll(): Promise<void> {
+    this.pollTimer = undefined;
+    this.polling = true;
+
+    try {
+      while (this.running && this.activeJobs.size < this.options.concurrency) {
+        const job = await this.jobQueueService.claimNextJob(this.workerId);
+        if (!job) {
+          break;
+        }
+        this.track(job);
+      }
+    } catch (error) {
+      logger.error('Ingestion worker failed to claim a job:', error);
+    } finally {
+      this.polling = false;
+    }
+
+    this.schedulePoll(this.options.pollInterval);
+  }
+
+  /**
+   * Schedule the next poll unless one is already running or due sooner
+   */
+  private schedulePoll(delay: number): void {
+    if (!this.running || this.polling) {
+      return;
+    }
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+    this.pollTimer = setTimeout(() => void this.poll(), delay);
+  }
+
+  /**
+   * Run a claimed job in the background and poll again as soon as it finishes
+   */
+  private track(job: IngestionJob): void {
+    const run = this.runJob(job).finally(() => {
+      this.activeJobs.delete(job.id);
+      this.schedulePoll(0);
+    });
+    this.activeJobs.set(job.id, run);
+  }
+
+  /**
+   * Process a claimed job while heartbeating its lease, then record the outcome.
+   * Losing the lease (the job was cancelled or recovered) aborts the processor.
+   */
+  private async runJob(job: IngestionJob): Promise<void> {
+    const abortController = new AbortController();
+    const leaseLost = () => {
+      if (!abortController.signal.aborted) {
+        logger.warn('Ingestion job lease lost while processing', { jobId: job.id, workerId: this.workerId });
+        abortController.abort();
+      }
+    };
+
+    const heartbeat = setInterval(() => {
+      this.jobQueueService.extendLease(job.id, this.workerId)
+        .then(held => {
+          if (!held) {
+            leaseLost();
+          }
+        })
+        .catch(error => logger.error('Failed to extend ingestion job lease:', error));
+    }, Math.max(1000, Math.floor(this.options.visibilityTimeout / 3)));
+
+    try {
+      let result: IngestionProcessResult;
+      try {
+        result = await this.processor.process(job, {
+          reportProgress: async (progress) => {
+            if (!await this.jobQueueService.updateProgress(job.id, this.workerId, progress)) {
+              leaseLost();
+            }
+          },
+          signal: abortController.signal,
+        });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          // Whoever took the job away (cancellation or recovery) already recorded its outcome
+          logger.info('Ingestion job processing stopped', { jobId: job.id, workerId: this.workerId });
+          return;
+        }
+        await this.jobQueueService.failJob(job.id, this.workerId, error instanceof Error ? error.message : String(error));
+        return;
+      }
+
+      if (result.status === 'dispatched') {
+        await this.jobQueueService.handOff(job.id, this.workerId, this.processor.name);
+      } else {
+        await this.jobQueueService.completeJob(job.id, this.workerId, result.progress);
+      }
+    } catch (error) {
+      // The lease will expire and recovery will pick the job up again
+      logger.error('Failed to record ingestion job outcome:', error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Retry jobs whose worker stopped heartbeating
+   */
+  private async recover(): Promise<void> {
+    try {
+      await this.jobQueueService.recoverExpiredJobs();
+    } catch (error) {
+      logger.error('Ingestion worker failed to recover expired jobs:', error);
+    }
+  }
+}
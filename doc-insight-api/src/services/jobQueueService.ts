@@ -0,0 +1,423 @@
+import { getDatabase } from '../database/connection';
+import { IngestionJob, IngestionJobTransitionSource } from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { getIngestionQueueConfig } from '../utils/configHelper';
+import { Knex } from 'knex';
+import { ingestionEvents } from './ingestionEventService';
+import { transitionJob } from './jobStateMachine';
+import { recordStepProgress } from './jobTimeline';
+import {
+  ConcurrencyLimits,
+  claimConstraints,
+  loadRunningJobCounts,
+  lockClaims,
+  nextClaimCandidates,
+} from './jobScheduler';
+
+export interface JobQueueOptions extends ConcurrencyLimits {
+  visibilityTimeout: number;
+  maxRetries: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  retryJitter: number;
+}
+
+export type JobFailureOutcome = 'retry_scheduled' | 'dead_lettered';
+
+// Queued jobs considered per claim; more than one so a job locked by a cancellation is skipped
+const CLAIM_CANDIDATES = 10;
+
+/**
+ * Postgres-backed ingestion queue.
+ *
+ * Queued rows in ingestion_jobs are claimed with SELECT ... FOR UPDATE SKIP LOCKED,
+ * so any number of workers in any number of processes can share the table. Which
+ * job is claimed next, and whether one may be claimed at all, is decided by the
+ * fair scheduler (jobScheduler.ts) under the configured concurrency limits. A
+ * claimed job is leased to its worker until locked_until; the worker extends the
+ * lease while it runs, and a job whose lease expires is assumed abandoned.
+ * Failed and abandoned attempts are requeued with exponential backoff until the
+ * job runs out of retries, when it is dead-lettered. Lease and retry times always
+ * come from the database clock so workers on different hosts agree on them.
+ */
+export class JobQueueService {
+  private get db() {
+    return getDatabase();
+  }
+  private options: JobQueueOptions;
+
+  constructor(options?: Partial<JobQueueOptions>) {
+    const queueConfig = getIngestionQueueConfig();
+    this.options = {
+      visibilityTimeout: queueConfig.visibilityTimeout,
+      maxRunningJobs: queueConfig.maxRunningJobs,
+      userMaxRunningJobs: queueConfig.userMaxRunningJobs,
+      roleMaxRunningJobs: queueConfig.roleMaxRunningJobs,
+      maxRetries: queueConfig.maxRetries,
+      retryBaseDelay: queueConfig.retryBaseDelay,
+      retryMaxDelay: queueConfig.retryMaxDelay,
+      retryJitter: queueConfig.retryJitter,
+      ...options,
+    };
+  }
+
+  /**
+   * Claim the next due queued job in fair order for a worker, or return null when
+   * none is due or the concurrency limits allow none to start
+   */
+  async claimNextJob(workerId: string): Promise<IngestionJob | null> {
+    try {
+      const claimedJob = await this.db.transaction(async (trx) => {
+        await lockClaims(trx);
+
+        const constraints = claimConstraints(await loadRunningJobCounts(trx), this.options);
+        if (constraints.atCapacity) {
+          return null;
+        }
+
+        let job: IngestionJob | undefined;
+        for (const candidateId of await nextClaimCandidates(trx, constraints, CLAIM_CANDIDATES)) {
+          job = await trx('ingestion_jobs')
+            .where('id', candidateId)
+            .where('status', 'queued')
+            .forUpdate()
+            .skipLocked()
+            .first();
+
+          if (job) {
+            break;
+          }
+        }
+
+        if (!job) {
+          return null;
+        }
+
+        const claimedJob = await transitionJob(trx, job, 'processing', {
+          started_at: new Date(),
+          locked_by: workerId,
+          locked_until: this.leaseExpiry(),
+          next_attempt_at: null,
+        }, { source: 'worker', message: `Claimed by ${workerId}` });
+
+        logger.info('Ingestion job claimed', {
+          jobId: job.id,
+          documentId: job.document_id,
+          workerId,
+        });
+
+        return claimedJob;
+      });
+
+      if (claimedJob) {
+        await ingestionEvents.publishJobChange(claimedJob.id);
+      }
+
+      return claimedJob;
+    } catch (error) {
+      logger.error('Error claiming ingestion job:', error);
+      throw new CustomError('Failed to claim ingestion job', 500, ErrorCodes.INGESTION_QUEUE_ERROR);
+    }
+  }
+
+  /**
+   * Extend a worker's lease on a job; false means the lease was lost (recovered or cancelled)
+   */
+  async extendLease(jobId: string, workerId: string): Promise<boolean> {
+    try {
+      const updated = await this.leasedJob(jobId, workerId)
+        .update({
+          locked_until: this.leaseExpiry(),
+          updated_at: new Date(),
+        });
+
+      return updated > 0;
+    } catch (error) {
+      logger.error('Error extending ingestion job lease:', error);
+      throw new CustomError('Failed to extend ingestion job lease', 500, ErrorCodes.INGESTION_QUEUE_ERROR);
+    }
+  }
+
+  /**
+   * Record progress on a leased job and in its step timeline, extending the lease at the same time
+   */
+  async updateProgress(jobId: string, workerId: string, progress: Record<string, any>): Promise<boolean> {
+    try {
+      const updated = await this.db.transaction(async (trx) => {
+        const job = await this.leasedJob(jobId, workerId, trx)
+          .forUpdate()
+          .first();
+
+        if (!job) {
+          return false;
+        }
+
+        await trx('ingestion_jobs')
+          .where('id', jobId)
+          .update({
+            progress,
+            locked_until: this.leaseExpiry(),
+            updated_at: new Date(),
+          });
+
+        await recordStepProgress(trx, job, progress);
+
+        return true;
+      });
+
+      if (updated) {
+        await ingestionEvents.publishJobChange(jobId);
+      }
+
+      return updated;
+    } catch (error) {
+      logger.error('Error updating ingestion job progress:', error);
+      throw new CustomError('Failed to update ingestion job progress', 500, ErrorCodes.INGESTION_QUEUE_ERROR);
+    }
+  }
+
+  /**
+   * Mark a leased job and its document as completed
+   */
+  async completeJob(jobId: string, workerId: string, progress?: Record<string, any>): Promise<boolean> {
+    try {
+      const completed = await this.db.transaction(async (trx) => {
+        const job = await this.leasedJob(jobId, workerId, trx)
+          .forUpdate()
+          .first();
+
+        if (!job) {
+          logger.warn('Ingestion job lease lost before completion', { jobId, workerId });
+          return false;
+        }
+
+        await transitionJob(trx, job, 'completed', {
+          progress: progress || { step: 'completed', percentage: 100 },
+          completed_at: new Date(),
+          locked_by: null,
+          locked_until: null,
+        }, { source: 'worker' });
+
+        logger.info('Ingestion job completed', {
+          jobId,
+          documentId: job.document_id,
+          workerId,
+        });
+
+        return true;
+      });
+
+      if (completed) {
+        await ingestionEvents.publishJobChange(jobId);
+      }
+
+      return completed;
+    } catch (error) {
+      logger.error('Error completing ingestion job:', error);
+      throw new CustomError('Failed to complete ingestion job', 500, ErrorCodes.INGESTION_QUEUE_ERROR);
+    }
+  }
+
+  /**
+   * Record a failed attempt on a processing job: requeue it with backoff, or dead-letter it
+   * once it is out of retries. Pass a worker ID to only fail the job while that worker holds it.
+   */
+  async failJob(
+    jobId: string,
+    workerId: string | null,
+    errorMessage: string,
+    source: IngestionJobTransitionSource = 'worker'
+  ): Promise<JobFailureOutcome | null> {
+    try {
+      const outcome = await this.db.transaction(async (trx) => {
+        let query = trx('ingestion_jobs')
+          .where('id', jobId)
+          .where('status', 'processing');
+
+        if (workerId) {
+          query = query.where('locked_by', workerId);
+        }
+
+        const job = await query.forUpdate().first();
+
+        if (!job) {
+          logger.warn('Ingestion job lease lost before failure was recorded', { jobId, workerId, errorMessage });
+          return null;
+        }
+
+        return this.retryOrDeadLetter(trx, job, errorMessage, source);
+      });
+
+      if (outcome) {
+        await ingestionEvents.publishJobChange(jobId);
+      }
+
+      return outcome;
+    } catch (error) {
+      logger.error('Error failing ingestion job:', error);
+      throw new CustomError('Failed to record ingestion job failure', 500, ErrorCodes.INGESTION_QUEUE_ERROR);
+    }
+  }
+
+  /**
+   * Pass a leased job to an external owner that reports back through the status webhook.
+   * The job stays processing; the owner's status updates keep the lease alive.
+   */
+  async handOff(jobId: string, workerId: string, owner: string): Promise<boolean> {
+    try {
+      const updated = await this.leasedJob(jobId, workerId)
+        .update({
+          locked_by: owner,
+          locked_until: this.leaseExpiry(),
+          updated_at: new Date(),
+        });
+
+      if (updated === 0) {
+        logger.warn('Ingestion job lease lost before hand-off', { jobId, workerId, owner });
+      }
+
+      return updated > 0;
+    } catch (error) {
+      logger.error('Error handing off ingestion job:', error);
+      throw new CustomError('Failed to hand off ingestion job', 500, ErrorCodes.INGESTION_QUEUE_ERROR);
+    }
+  }
+
+  /**
+   * Retry processing jobs whose lease expired (their worker crashed or hung),
+   * dead-lettering those that are out of retries
+   */
+  async recoverExpiredJobs(): Promise<{ requeued: number; deadLettered: number }> {
+    try {
+      const { jobIds, ...result } = await this.db.transaction(async (trx) => {
+        // Jobs left processing without a lease predate the queue and are treated as abandoned
+        const expiredJobs: IngestionJob[] = await trx('ingestion_jobs')
+          .where('status', 'processing')
+          .where((builder) => {
+            builder.whereNull('locked_until').orWhere('locked_until', '<', trx.fn.now());
+          })
+          .forUpdate()
+          .skipLocked();
+
+        const outcomes: JobFailureOutcome[] = [];
+        for (const job of expiredJobs) {
+          outcomes.push(await this.retryOrDeadLetter(trx, job, 'Job abandoned: worker lease expired', 'recovery'));
+        }
+
+        const result = {
+          requeued: outcomes.filter(outcome => outcome === 'retry_scheduled').length,
+          deadLettered: outcomes.filter(outcome => outcome === 'dead_lettered').length,
+        };
+
+        if (expiredJobs.length > 0) {
+          logger.warn('Recovered expired ingestion jobs', {
+            jobIds: expiredJobs.map(job => job.id),
+            ...result,
+          });
+        }
+
+        return { jobIds: expiredJobs.map(job => job.id), ...result };
+      });
+
+      await ingestionEvents.publishJobChange(jobIds);
+
+      return result;
+    } catch (error) {
+      logger.error('Error recovering expired ingestion jobs:', error);
+      throw new CustomError('Failed to recover expired ingestion jobs', 500, ErrorCodes.INGESTION_QUEUE_ERROR);
+    }
+  }
+
+  /**
+   * Requeue a failed attempt after a backoff delay, or dead-letter the job (which fails its document)
+   */
+  private async retryOrDeadLetter(
+    trx: Knex.Transaction,
+    job: IngestionJob,
+    errorMessage: string,
+    source: IngestionJobTransitionSource
+  ): Promise<JobFailureOutcome> {
+    if (job.retry_count < this.options.maxRetries) {
+      const retryCount = job.retry_count + 1;
+      const delay = computeRetryDelay(retryCount, {
+        baseDelay: this.options.retryBaseDelay,
+        maxDelay: this.options.retryMaxDelay,
+        jitter: this.options.retryJitter,
+      });
+
+      await transitionJob(trx, job, 'queued', {
+        error_message: errorMessage,
+        retry_count: retryCount,
+        next_attempt_at: this.fromNow(delay),
+        started_at: null,
+        locked_by: null,
+        locked_until: null,
+      }, { source, message: errorMessage });
+
+      logger.info('Ingestion job retry scheduled', {
+        jobId: job.id,
+        documentId: job.document_id,
+        retryCount,
+        delay,
+        errorMessage,
+      });
+
+      return 'retry_scheduled';
+    }
+
+    await transitionJob(trx, job, 'dead_lettered', {
+      error_message: errorMessage,
+      completed_at: new Date(),
+      locked_by: null,
+      locked_until: null,
+    }, { source, message: errorMessage });
+
+    logger.warn('Ingestion job dead-lettered', {
+      jobId: job.id,
+      documentId: job.document_id,
+      retryCount: job.retry_count,
+      errorMessage,
+    });
+
+    return 'dead_lettered';
+  }
+
+  /**
+   * Query for a job that is processing under a given lease holder
+   */
+  private leasedJob(jobId: string, workerId: string, trx = this.db) {
+    return trx('ingestion_jobs')
+      .where('id', jobId)
+      .where('status', 'processing')
+      .where('locked_by', workerId);
+  }
+
+  /**
+   * Lease expiry one visibility timeout from now
+   */
+  private leaseExpiry() {
+    return this.fromNow(this.options.visibilityTimeout);
+  }
+
+  /**
+   * A time some milliseconds from now, by the database clock
+   */
+  private fromNow(milliseconds: number) {
+    return this.db.raw(`NOW() + (? * INTERVAL '1 millisecond')`, [milliseconds]);
+  }
+}
+
+/**
+ * Delay before a retry: the base delay doubled for every earlier retry, capped
+ * at the max delay, then spread by +/- the jitter fraction. `retryNumber` is 1-based.
+ */
+export function computeRetryDelay(
+  retryNumber: number,
+  policy: { baseDelay: number; maxDelay: number; jitter: number },
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** Math.max(0, retryNumber - 1));
+  return Math.max(0, Math.round(delay * (1 + policy.jitter * (2 * random() - 1))));
+}
@@ -0,0 +1,231 @@
+import { Knex } from 'knex';
+import { IngestionJobPriority } from '../types';
+
+/**
+ * Fair scheduling of the ingestion queue.
+ *
+ * Higher-priority jobs are always claimed first. Within a priority, each user's
+ * queued jobs take turns: a job's turn is the number of jobs its requester
+ * already has running plus its place among their queued jobs, and the queue is
+ * served in turn order (oldest first within a turn). A user who queues 500
+ * documents therefore gets one job in per round instead of the next 500.
+ * Jobs are only claimed while the global, per-user and per-role limits on
+ * running jobs allow it; claims are serialized so the limits hold across workers.
+ */
+
+export interface ConcurrencyLimits {
+  maxRunningJobs: number; // across all workers; 0 for no limit
+  userMaxRunningJobs: number; // per requester; 0 for no limit
+  roleMaxRunningJobs: Record<string, number>; // across all requesters with the role; 0 for no limit
+}
+
+export interface RunningJobCount {
+  requested_by: string | null;
+  role: string | null;
+  running: number;
+}
+
+export interface ClaimConstraints {
+  atCapacity: boolean;
+  blockedUsers: string[];
+  blockedRoles: string[];
+}
+
+export interface QueueStats {
+  slots: number; // jobs that can run at the same time
+  running: number;
+  averageDurationMs: number | null; // null until a job has completed
+}
+
+// Lowest to highest
+export const INGESTION_JOB_PRIORITIES: IngestionJobPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+// Completed jobs the duration estimate is averaged over
+const DURATION_SAMPLE_SIZE = 50;
+
+/**
+ * Check that a value is a known ingestion job priority
+ */
+export function isIngestionJobPriority(value: unknown): value is IngestionJobPriority {
+  return INGESTION_JOB_PRIORITIES.includes(value as IngestionJobPriority);
+}
+
+/**
+ * Serialize job claims for the rest of the transaction, so that concurrent
+ * workers see each other's claims when checking the concurrency limits
+ */
+export async function lockClaims(trx: Knex.Transaction): Promise<void> {
+  await trx.raw(`SELECT pg_advisory_xact_lock(hashtext('ingestion_job_claims'))`);
+}
+
+/**
+ * Count running jobs per requester, with the requester's role
+ */
+export async function loadRunningJobCounts(db: Knex): Promise<RunningJobCount[]> {
+  const rows: { requested_by: string | null; role: string | null; running: string | number }[] = await db('ingestion_jobs')
+    .leftJoin('users', 'users.id', 'ingestion_jobs.requested_by')
+    .where('ingestion_jobs.status', 'processing')
+    .groupBy('ingestion_jobs.requested_by', 'users.role')
+    .select('ingestion_jobs.requested_by', 'users.role')
+    .count({ running: '*' });
+
+  return rows.map(row => ({
+    requested_by: row.requested_by,
+    role: row.role,
+    running: Number(row.running),
+  }));
+}
+
+/**
+ * Work out which requesters and roles are at their limit, and whether the queue as a whole is
+ */
+export function claimConstraints(running: RunningJobCount[], limits: ConcurrencyLimits): ClaimConstraints {
+  const total = running.reduce((sum, count) => sum + count.running, 0);
+
+  const roleTotals = new Map<string, number>();
+  for (const count of running) {
+    if (count.role) {
+      roleTotals.set(count.role, (roleTotals.get(count.role) || 0) + count.running);
+    }
+  }
+
+  return {
+    atCapacity: limits.maxRunningJobs > 0 && total >= limits.maxRunningJobs,
+    blockedUsers: limits.userMaxRunningJobs > 0
+      ? running
+        .filter(count => count.requested_by && count.running >= limits.userMaxRunningJobs)
+        .map(count => count.requested_by!)
+      : [],
+    blockedRoles: Object.entries(limits.roleMaxRunningJobs)
+      .filter(([role, limit]) => limit > 0 && (roleTotals.get(role) || 0) >= limit)
+      .map(([role]) => role),
+  };
+}
+
+/**
+ * IDs of the due queued jobs that may be claimed, in the order they should be claimed
+ */
+export async function nextClaimCandidates(
+  trx: Knex.Transaction,
+  constraints: ClaimConstraints,
+  limit: number
+): Promise<string[]> {
+  const queue = fairQueue(trx)
+    .leftJoin('users', 'users.id', 'ingestion_jobs.requested_by')
+    .where((builder) => {
+      builder.whereNull('ingestion_jobs.next_attempt_at').orWhere('ingestion_jobs.next_attempt_at', '<=', trx.fn.now());
+    });
+
+  // Jobs without a requester (the user was deleted) are only held to the global limit
+  if (constraints.blockedUsers.length > 0) {
+    queue.where((builder) => {
+      builder.whereNull('ingestion_jobs.requested_by').orWhereNotIn('ingestion_jobs.requested_by', constraints.blockedUsers);
+    });
+  }
+  if (constraints.blockedRoles.length > 0) {
+    queue.where((builder) => {
+      builder.whereNull('users.role').orWhereNotIn('users.role', constraints.blockedRoles);
+    });
+  }
+
+  const rows: { id: string }[] = await trx
+    .select('id')
+    .from(queue.as('queue'))
+    .orderBy([{ column: 'priority_rank', order: 'desc' }, { column: 'turn' }, { column: 'created_at' }])
+    .limit(limit);
+
+  return rows.map(row => row.id);
+}
+
+/**
+ * Position of queued jobs in the fair queue, 1 being the next to be claimed.
+ * Concurrency limits and retry delays are not taken into account.
+ */
+export async function queuePositions(db: Knex, jobIds: string[]): Promise<Map<string, number>> {
+  if (jobIds.length === 0) {
+    return new Map();
+  }
+
+  const ranked = db
+    .select('id', db.raw('ROW_NUMBER() OVER (ORDER BY priority_rank DESC, turn, created_at) AS position'))
+    .from(fairQueue(db).as('queue'));
+
+  const rows: { id: string; position: string | number }[] = await db
+    .select('id', 'position')
+    .from(ranked.as('ranked'))
+    .whereIn('id', jobIds);
+
+  return new Map(rows.map(row => [row.id, Number(row.position)]));
+}
+
+/**
+ * Load what start time estimates are based on: running jobs and the average
+ * duration of recently completed ones
+ */
+export async function loadQueueStats(db: Knex, slots: number): Promise<QueueStats> {
+  const [{ count }] = await db('ingestion_jobs')
+    .where('status', 'processing')
+    .count({ count: '*' });
+
+  const recent = db('ingestion_jobs')
+    .where('status', 'completed')
+    .whereNotNull('started_at')
+    .whereNotNull('completed_at')
+    .orderBy('completed_at', 'desc')
+    .limit(DURATION_SAMPLE_SIZE)
+    .select('started_at', 'completed_at');
+
+  const [{ average }] = await db
+    .from(recent.as('recent'))
+    .select(db.raw('AVG(EXTRACT(EPOCH FROM (completed_at - started_at)) * 1000) AS average'));
+
+  return {
+    slots,
+    running: Number(count),
+    averageDurationMs: average === null || average === undefined ? null : Number(average),
+  };
+}
+
+/**
+ * Estimate when the job at a queue position starts: jobs start in free slots
+ * straight away, then one round of slots per average job duration
+ */
+export function estimateStartTime(position: number, stats: QueueStats, now: Date = new Date()): Date | null {
+  if (stats.averageDurationMs === null || stats.slots <= 0) {
+    return null;
+  }
+
+  const freeSlots = Math.max(0, stats.slots - stats.running);
+  const rounds = position <= freeSlots ? 0 : Math.ceil((position - freeSlots) / stats.slots);
+
+  return new Date(now.getTime() + rounds * stats.averageDurationMs);
+}
+
+/**
+ * Queued jobs with their priority rank and their turn: the requester's running jobs
+ * plus the job's place among their queued jobs, highest priority first
+ */
+function fairQueue(db: Knex) {
+  const priorityRank = `CASE ingestion_jobs.priority ${INGESTION_JOB_PRIORITIES
+    .map((priority, rank) => `WHEN '${priority}' THEN ${rank}`)
+    .join(' ')} END`;
+
+  const running = db('ingestion_jobs')
+    .select('requested_by')
+    .count({ running: '*' })
+    .where('status', 'processing')
+    .groupBy('requested_by')
+    .as('running');
+
+  return db('ingestion_jobs')
+    .leftJoin(running, 'running.requested_by', 'ingestion_jobs.requested_by')
+    .where('ingestion_jobs.status', 'queued')
+    .select(
+      'ingestion_jobs.id',
+      'ingestion_jobs.created_at',
+      db.raw(`${priorityRank} AS priority_rank`),
+      db.raw(`COALESCE(running.running, 0) + ROW_NUMBER() OVER (
+        PARTITION BY ingestion_jobs.requested_by ORDER BY ${priorityRank} DESC, ingestion_jobs.created_at
+      ) AS turn`)
+    );
+}
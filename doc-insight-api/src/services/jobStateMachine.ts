@@ -0,0 +1,145 @@
+import { Knex } from 'knex';
+import { IngestionJob, IngestionJobStatus, IngestionJobTransitionSource } from '../types';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { endRunningStep } from './jobTimeline';
+
+/**
+ * Statuses each ingestion job status may move to. Completed and cancelled jobs
+ * are final; failed and dead-lettered jobs only leave their state when requeued.
+ * Progress updates keep a job processing and are not transitions.
+ */
+export const JOB_TRANSITIONS: Readonly<Record<IngestionJobStatus, readonly IngestionJobStatus[]>> = {
+  queued: ['processing', 'cancelled'],
+  processing: ['completed', 'failed', 'queued', 'dead_lettered', 'cancelled'],
+  completed: [],
+  failed: ['queued'],
+  cancelled: [],
+  dead_lettered: ['queued'],
+};
+
+export interface JobTransitionOptions {
+  source: IngestionJobTransitionSource;
+  actorId?: string | null;
+  message?: string | null;
+}
+
+/**
+ * Whether a string is a known ingestion job status
+ */
+export function isIngestionJobStatus(status: string): status is IngestionJobStatus {
+  return Object.prototype.hasOwnProperty.call(JOB_TRANSITIONS, status);
+}
+
+/**
+ * Whether a job may move from one status to another
+ */
+export function canTransition(from: IngestionJobStatus, to: IngestionJobStatus): boolean {
+  return JOB_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw INVALID_JOB_STATUS unless a job may move from one status to another
+ */
+export function assertTransition(from: IngestionJobStatus, to: IngestionJobStatus): void {
+  if (!canTransition(from, to)) {
+    throw new CustomError(`Invalid job status transition from ${from} to ${to}`, 400, ErrorCodes.INVALID_JOB_STATUS);
+  }
+}
+
+/**
+ * Move a job to a new status inside a transaction that already holds its row lock:
+ * checks the transition, applies `fields` to the job, ends its running step when it
+ * leaves processing, brings the document's status in line and records the
+ * transition. Returns the updated job.
+ */
+export async function transitionJob(
+  trx: Knex.Transaction,
+  job: IngestionJob,
+  toStatus: IngestionJobStatus,
+  fields: Record<string, any>,
+  options: JobTransitionOptions
+): Promise<IngestionJob> {
+  assertTransition(job.status, toStatus);
+
+  const [updatedJob] = await trx('ingestion_jobs')
+    .where('id', job.id)
+    .update({
+      ...fields,
+      status: toStatus,
+      updated_at: new Date(),
+    })
+    .returning('*');
+
+  if (job.status === 'processing') {
+    await endRunningStep(trx, job.id, toStatus, options.message);
+  }
+
+  await syncDocumentStatus(trx, job.document_id, toStatus);
+  await recordTransition(trx, job.id, job.status, toStatus, options);
+
+  return updatedJob;
+}
+
+/**
+ * Record a newly created job as the first entry of its history
+ */
+export async function recordJobCreated(
+  trx: Knex.Transaction,
+  job: IngestionJob,
+  options: JobTransitionOptions
+): Promise<void> {
+  await syncDocumentStatus(trx, job.document_id, job.status);
+  await recordTransition(trx, job.id, null, job.status, options);
+}
+
+/**
+ * Set a document's status to match the status of its ingestion job
+ */
+async function syncDocumentStatus(trx: Knex.Transaction, documentId: string, jobStatus: IngestionJobStatus): Promise<void> {
+  const update: Record<string, any> = { updated_at: new Date() };
+
+  switch (jobStatus) {
+    case 'queued':
+    case 'processing':
+      update['status'] = 'processing';
+      break;
+    case 'completed':
+      update['status'] = 'completed';
+      // The same time as updated_at, so later changes are those with updated_at > processed_at
+      update['processed_at'] = update['updated_at'];
+      break;
+    case 'failed':
+    case 'dead_lettered':
+      update['status'] = 'failed';
+      break;
+    case 'cancelled':
+      // Documents that were ingested before keep serving their previous content
+      update['status'] = trx.raw(`CASE WHEN processed_at IS NULL THEN 'pending' ELSE 'completed' END`);
+      break;
+  }
+
+  await trx('documents')
+    .where('id', documentId)
+    .update(update);
+}
+
+/**
+ * Append a transition to the job's history
+ */
+async function recordTransition(
+  trx: Knex.Transaction,
+  jobId: string,
+  fromStatus: IngestionJobStatus | null,
+  toStatus: IngestionJobStatus,
+  options: JobTransitionOptions
+): Promise<void> {
+  await trx('ingestion_job_events').insert({
+    job_id: jobId,
+    from_status: fromStatus,
+    to_status: toStatus,
+    source: options.source,
+    actor_id: options.actorId || null,
+    message: options.message || null,
+  });
+}
@@ -0,0 +1,132 @@
+import { Knex } from 'knex';
+import {
+  IngestionJob,
+  IngestionJobStatus,
+  IngestionJobStep,
+  IngestionJobStepStatus,
+  IngestionJobTimeline,
+} from '../types';
+
+/**
+ * Record a progress update in a job's step timeline. Reporting a new step ends the
+ * running one and starts the new one; repeated reports of the running step only
+ * update its message. Updates without a step are ignored.
+ */
+export async function recordStepProgress(
+  trx: Knex.Transaction,
+  job: IngestionJob,
+  progress: Record<string, any> | null | undefined
+): Promise<void> {
+  const step = progress?.['step'];
+  if (typeof step !== 'string' || step.length === 0) {
+    return;
+  }
+
+  const attempt = job.retry_count + 1;
+  const message = typeof progress?.['message'] === 'string' ? progress['message'] : null;
+
+  const runningStep: IngestionJobStep | undefined = await trx('ingestion_job_steps')
+    .where('job_id', job.id)
+    .whereNull('ended_at')
+    .first();
+
+  if (runningStep && runningStep.step === step && runningStep.attempt === attempt) {
+    if (message) {
+      await trx('ingestion_job_steps')
+        .where('id', runningStep.id)
+        .update({ message });
+    }
+    return;
+  }
+
+  if (runningStep) {
+    await trx('ingestion_job_steps')
+      .where('id', runningStep.id)
+      .update({
+        status: 'completed',
+        ended_at: trx.fn.now(),
+      });
+  }
+
+  await trx('ingestion_job_steps').insert({
+    job_id: job.id,
+    attempt,
+    step,
+    message,
+  });
+}
+
+/**
+ * End a job's running step, if it has one, as the job leaves processing for `jobStatus`
+ */
+export async function endRunningStep(
+  trx: Knex.Transaction,
+  jobId: string,
+  jobStatus: IngestionJobStatus,
+  message?: string | null
+): Promise<void> {
+  const update: Record<string, any> = {
+    status: stepStatusFor(jobStatus),
+    ended_at: trx.fn.now(),
+  };
+
+  if (message) {
+    update['message'] = message;
+  }
+
+  await trx('ingestion_job_steps')
+    .where('job_id', jobId)
+    .whereNull('ended_at')
+    .update(update);
+}
+
+/**
+ * Build a job's timeline from its recorded steps, oldest first
+ */
+export function buildTimeline(job: IngestionJob, steps: IngestionJobStep[]): IngestionJobTimeline {
+  const timelineSteps = steps.map(step => ({
+    attempt: step.attempt,
+    step: step.step,
+    status: step.status,
+    message: step.message,
+    started_at: step.started_at,
+    ended_at: step.ended_at,
+    duration_ms: step.ended_at ? millisecondsBetween(step.started_at, step.ended_at) : null,
+  }));
+
+  let duration: number | null = null;
+  if (steps.length > 0 && steps.every(step => step.ended_at)) {
+    const lastEnd = Math.max(...steps.map(step => new Date(step.ended_at!).getTime()));
+    duration = lastEnd - new Date(steps[0]!.started_at).getTime();
+  }
+
+  return {
+    job_id: job.id,
+    status: job.status,
+    created_at: job.created_at,
+    completed_at: job.completed_at || null,
+    duration_ms: duration,
+    steps: timelineSteps,
+  };
+}
+
+/**
+ * Status of the running step when its job moves to a status other than processing
+ */
+function stepStatusFor(jobStatus: IngestionJobStatus): IngestionJobStepStatus {
+  switch (jobStatus) {
+    case 'completed':
+      return 'completed';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return 'failed';
+  }
+}
+
+/**
+ * Milliseconds between two timestamps
+ */
+function millisecondsBetween(start: Date, end: Date): number {
+  return new Date(end).getTime() - new Date(start).getTime();
+}
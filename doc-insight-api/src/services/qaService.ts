@@ -0,0 +1,232 @@
+import { getDatabase } from '../database/connection';
+import {
+  AskQuestionRequest,
+  GeneratedAnswer,
+  PaginatedResponse,
+  QaAnswer,
+  QaAnswerResponse,
+  QaQuestion,
+  QaQuestionResponse,
+  QaResponse,
+  QaStats,
+  RetrievedChunk,
+} from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { ChunkStoreService } from './chunkStoreService';
+import { AnswerGenerator, ExtractiveAnswerGenerator, createAnswerGenerator } from './answerGenerator';
+import config from '../config';
+
+export class QaService {
+  private get db() {
+    return getDatabase();
+  }
+  private chunkStoreService: ChunkStoreService;
+  private answerGenerator: AnswerGenerator;
+
+  constructor(chunkStoreService?: ChunkStoreService, answerGenerator?: AnswerGenerator) {
+    this.chunkStoreService = chunkStoreService || new ChunkStoreService();
+    this.answerGenerator = answerGenerator || createAnswerGenerator();
+  }
+
+  /**
+   * Answer a question from the documents the user can access and store both
+   */
+  async askQuestion(userId: string, userRole: string, request: AskQuestionRequest): Promise<QaResponse> {
+    try {
+      const retrievalQuery = request.context ? `${request.question}\n${request.context}` : request.question;
+      const chunks = await this.chunkStoreService.findRelevantChunks(
+        retrievalQuery,
+        userId,
+        userRole,
+        config.qaTopK,
+        request.document_ids,
+        request.document_version
+      );
+      const relevantChunks = chunks.filter(chunk => chunk.relevance >= config.qaMinRelevance);
+
+      const generated = await this.generateAnswer(request.question, relevantChunks);
+
+      const { question, answer } = await this.db.transaction(async (trx) => {
+        const [question] = await trx('qa_questions')
+          .insert({
+            user_id: userId,
+            question_text: request.question,
+            context: request.context || null,
+            document_ids: request.document_ids && request.document_ids.length > 0 ? request.document_ids : null,
+          })
+          .returning('*');
+
+        const [answer] = await trx('qa_answers')
+          .insert({
+            question_id: question.id,
+            answer_text: generated.text,
+            confidence: generated.confidence,
+            sources: JSON.stringify(generated.sources),
+            generator: generated.generator,
+          })
+          .returning('*');
+
+        return { question, answer };
+      });
+
+      logger.info('Question answered successfully', {
+        questionId: question.id,
+        userId,
+        chunkCount: relevantChunks.length,
+        confidence: generated.confidence,
+        generator: generated.generator,
+      });
+
+      return {
+        question: this.mapQuestionToResponse(question),
+        answer: this.mapAnswerToResponse(answer),
+      };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error answering question:', error);
+      throw new CustomError('Failed to answer question', 500, ErrorCodes.QA_ASK_ERROR);
+    }
+  }
+
+  /**
+   * Get the questions a user has asked, newest first
+   */
+  async getQuestionHistory(userId: string, page: number = 1, limit: number = 20): Promise<PaginatedResponse<QaQuestionResponse>> {
+    try {
+      const offset = (page - 1) * limit;
+
+      const baseQuery = this.db('qa_questions').where('user_id', userId);
+
+      const [{ count }] = await baseQuery.clone().count('* as count');
+      const total = parseInt(count as string);
+
+      const questions = await baseQuery
+        .orderBy('created_at', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        data: questions.map((question: QaQuestion) => this.mapQuestionToResponse(question)),
+        pagination: {
+          page,
+          limit,
+          total,
+          total_pages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting question history:', error);
+      throw new CustomError('Failed to get question history', 500, ErrorCodes.QA_HISTORY_ERROR);
+    }
+  }
+
+  /**
+   * Get the answer to a question (owner or admin only)
+   */
+  async getAnswer(questionId: string, userId: string, userRole: string): Promise<QaAnswerResponse> {
+    try {
+      const question = await this.db('qa_questions')
+        .where('id', questionId)
+        .first();
+
+      if (!question) {
+        throw new CustomError('Question not found', 404, ErrorCodes.QA_QUESTION_NOT_FOUND);
+      }
+
+      // Check permissions
+      if (question.user_id !== userId && userRole !== 'admin') {
+        throw new CustomError('Access denied', 403, ErrorCodes.ACCESS_DENIED);
+      }
+
+      const answer = await this.db('qa_answers')
+        .where('question_id', questionId)
+        .first();
+
+      if (!answer) {
+        throw new CustomError('Answer not found', 404, ErrorCodes.QA_QUESTION_NOT_FOUND);
+      }
+
+      return this.mapAnswerToResponse(answer);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error getting answer:', error);
+      throw new CustomError('Failed to get answer', 500, ErrorCodes.QA_ANSWER_FETCH_ERROR);
+    }
+  }
+
+  /**
+   * Get Q&A statistics (admins see all users, others only themselves)
+   */
+  async getQaStats(userId: string, userRole: string): Promise<QaStats> {
+    try {
+      let baseQuery = this.db('qa_questions');
+
+      if (userRole !== 'admin') {
+        baseQuery = baseQuery.where('user_id', userId);
+      }
+
+      const [{ count }] = await baseQuery.clone().count('* as count');
+      const recentQuestions = await baseQuery
+        .orderBy('created_at', 'desc')
+        .limit(5);
+
+      return {
+        totalQuestions: parseInt(count as string),
+        recentQuestions: recentQuestions.map((question: QaQuestion) => this.mapQuestionToResponse(question)),
+      };
+    } catch (error) {
+      logger.error('Error getting Q&A stats:', error);
+      throw new CustomError('Failed to get Q&A statistics', 500, ErrorCodes.QA_STATS_ERROR);
+    }
+  }
+
+  /**
+   * Generate an answer, falling back to the offline extractive generator if the configured one fails
+   */
+  private async generateAnswer(question: string, chunks: RetrievedChunk[]): Promise<GeneratedAnswer> {
+    try {
+      return await this.answerGenerator.generate(question, chunks);
+    } catch (error) {
+      if (this.answerGenerator instanceof ExtractiveAnswerGenerator) {
+        throw error;
+      }
+      logger.warn('Answer generator failed, falling back to extractive answer', {
+        generator: this.answerGenerator.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return new ExtractiveAnswerGenerator().generate(question, chunks);
+    }
+  }
+
+  /**
+   * Map database question to response format
+   */
+  private mapQuestionToResponse(question: QaQuestion): QaQuestionResponse {
+    return {
+      id: question.id,
+      text: question.question_text,
+      askedAt: question.created_at,
+      askedBy: question.user_id,
+    };
+  }
+
+  /**
+   * Map database answer to response format
+   */
+  private mapAnswerToResponse(answer: QaAnswer): QaAnswerResponse {
+    return {
+      id: answer.id,
+      questionId: answer.question_id,
+      text: answer.answer_text,
+      confidence: Number(answer.confidence),
+      sources: answer.sources || [],
+      answeredAt: answer.created_at,
+    };
+  }
+}
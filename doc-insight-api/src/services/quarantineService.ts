@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import { MalwareDetection, MalwareDetectionQuery, UploadScanResult } from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { getFileUploadConfig } from '../utils/configHelper';
+import { createUploadScanner, UploadScanner } from './uploadScanners';
+
+/**
+ * Malware scanning of uploads, with the scanner selected by UPLOAD_SCANNER.
+ *
+ * Scanning fails closed: an upload that cannot be scanned is refused rather than
+ * stored unscanned. Infected files are moved out of the way into the quarantine
+ * folder of the upload path, and each detection is kept for admins to review
+ * until one of them acknowledges it.
+ */
+export class QuarantineService {
+  private get db() {
+    return getDatabase();
+  }
+  private scanner: UploadScanner | null;
+
+  constructor(scanner?: UploadScanner | null) {
+    this.scanner = scanner === undefined ? createUploadScanner() : scanner;
+  }
+
+  /**
+   * Scan a stored upload; every upload is clean when no scanner is configured
+   */
+  async scan(file: Express.Multer.File): Promise<UploadScanResult> {
+    if (!this.scanner) {
+      return { infected: false };
+    }
+
+    try {
+      const result = await this.scanner.scan(file.path);
+
+      if (result.infected) {
+        logger.warn('Malware detected in upload', {
+          scanner: this.scanner.name,
+          signature: result.signature,
+          fileName: file.originalname,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Error scanning upload:', {
+        scanner: this.scanner.name,
+        fileName: file.originalname,
+        error,
+      });
+      throw new CustomError('The file could not be scanned for malware. Please try again later', 503, ErrorCodes.UPLOAD_SCAN_FAILED);
+    }
+  }
+
+  /**
+   * Move an infected upload into the quarantine folder and return its new path
+   */
+  async quarantineFile(file: Express.Multer.File): Promise<string> {
+    const quarantinePath = path.join(getFileUploadConfig().uploadPath, '.quarantine');
+    const filePath = path.join(quarantinePath, path.basename(file.path));
+
+    await fs.promises.mkdir(quarantinePath, { recursive: true });
+    await fs.promises.rename(file.path, filePath);
+
+    return filePath;
+  }
+
+  /**
+   * Record a detection for admins, in the transaction creating its document if any
+   */
+  async recordDetection(
+    detection: Pick<MalwareDetection, 'document_id' | 'file_name' | 'file_path' | 'file_size' | 'content_hash' | 'signature' | 'uploaded_by'>,
+    db: Knex = this.db
+  ): Promise<MalwareDetection> {
+    const [recorded] = await db('malware_detections')
+      .insert({ ...detection, scanner: this.scanner?.name ?? 'unknown' })
+      .returning('*');
+
+    return recorded;
+  }
+
+  /**
+   * List detections, newest first
+   */
+  async listDetections(query: MalwareDetectionQuery = {}): Promise<MalwareDetection[]> {
+    try {
+      const detections = this.db('malware_detections').orderBy('created_at', 'desc');
+
+      if (query.acknowledged === true) {
+        detections.whereNotNull('acknowledged_at');
+      } else if (query.acknowledged === false) {
+        detections.whereNull('acknowledged_at');
+      }
+
+      return await detections;
+    } catch (error) {
+      logger.error('Error listing malware detections:', error);
+      throw new CustomError('Failed to list malware detections', 500, ErrorCodes.MALWARE_DETECTION_ERROR);
+    }
+  }
+
+  /**
+   * Mark a detection as dealt with; acknowledging it again keeps the first acknowledgement
+   */
+  async acknowledgeDetection(detectionId: string, adminUserId: string): Promise<MalwareDetection> {
+    try {
+      const detection = await this.db('malware_detections')
+        .where('id', detectionId)
+        .first();
+
+      if (!detection) {
+        throw new CustomError('Malware detection not found', 404, ErrorCodes.MALWARE_DETECTION_NOT_FOUND);
+      }
+
+      if (detection.acknowledged_at) {
+        return detection;
+      }
+
+      const [acknowledged] = await this.db('malware_detections')
+        .where('id', detectionId)
+        .update({ acknowledged_at: new Date(), acknowledged_by: adminUserId })
+        .returning('*');
+
+      logger.info('Malware detection acknowledged', { detectionId, adminUserId });
+
+      return acknowledged;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error acknowledging malware detection:', error);
+      throw new CustomError('Failed to acknowledge malware detection', 500, ErrorCodes.MALWARE_DETECTION_ERROR);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { logger } from '../utils/logger';
+import { getSchedulerConfig } from '../utils/configHelper';
+import { ScheduleService } from './scheduleService';
+
+export interface ScheduleRunnerOptions {
+  pollInterval: number;
+}
+
+/**
+ * Periodically runs the schedules that are due.
+ *
+ * Runs in the API process and in standalone workers (src/worker.ts) when the
+ * scheduler is enabled; any number of runners can share the schedules table.
+ */
+export class ScheduleRunner {
+  private scheduleService: ScheduleService;
+  private options: ScheduleRunnerOptions;
+  private running = false;
+  private pollTimer?: NodeJS.Timeout | undefined;
+  private currentPoll?: Promise<void> | undefined;
+
+  constructor(scheduleService?: ScheduleService, options?: Partial<ScheduleRunnerOptions>) {
+    this.scheduleService = scheduleService || new ScheduleService();
+    this.options = {
+      pollInterval: getSchedulerConfig().pollInterval,
+      ...options,
+    };
+  }
+
+  /**
+   * Start checking for due schedules
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedulePoll(0);
+
+    logger.info('Schedule runner started', { pollInterval: this.options.pollInterval });
+  }
+
+  /**
+   * Stop checking for due schedules and wait for the runs in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+
+    await this.currentPoll;
+
+    logger.info('Schedule runner stopped');
+  }
+
+  /**
+   * Run the due schedules, then check again after the poll interval
+   */
+  private async poll(): Promise<void> {
+    this.pollTimer = undefined;
+
+    try {
+      await this.scheduleService.runDueSchedules();
+    } catch (error) {
+      logger.error('Schedule runner failed to run due schedules:', error);
+    }
+
+    this.schedulePoll(this.options.pollInterval);
+  }
+
+  /**
+   * Schedule the next poll
+   */
+  private schedulePoll(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.pollTimer = setTimeout(() => {
+      this.currentPoll = this.poll();
+    }, delay);
+  }
+}
@@ -0,0 +1,311 @@
+import { getDatabase } from '../database/connection';
+import {
+  CreateScheduleRequest,
+  Schedule,
+  ScheduledTaskName,
+  UpdateScheduleRequest,
+} from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { nextCronOccurrence, validateCronExpression } from '../utils/cronExpression';
+import { ScheduledTaskHandler, scheduledTasks } from './scheduledTasks';
+
+/**
+ * Cron schedules for recurring tasks, stored in the schedules table.
+ *
+ * A due schedule is claimed with SELECT ... FOR UPDATE SKIP LOCKED and its
+ * next_run_at moved on in the same transaction, so every run happens in only one
+ * of the processes running the scheduler. Runs that are cut off (the process
+ * died) are not retried; the schedule simply runs again at its next time.
+ */
+export class ScheduleService {
+  private get db() {
+    return getDatabase();
+  }
+  private tasks: Record<ScheduledTaskName, ScheduledTaskHandler>;
+
+  constructor(tasks?: Record<ScheduledTaskName, ScheduledTaskHandler>) {
+    this.tasks = tasks || scheduledTasks;
+  }
+
+  /**
+   * List all schedules
+   */
+  async listSchedules(): Promise<Schedule[]> {
+    try {
+      return await this.db('schedules').orderBy('created_at', 'asc');
+    } catch (error) {
+      logger.error('Error listing schedules:', error);
+      throw new CustomError('Failed to list schedules', 500, ErrorCodes.SCHEDULE_ERROR);
+    }
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  async getSchedule(scheduleId: string): Promise<Schedule> {
+    try {
+      const schedule = await this.db('schedules')
+        .where('id', scheduleId)
+        .first();
+
+      if (!schedule) {
+        throw new CustomError('Schedule not found', 404, ErrorCodes.SCHEDULE_NOT_FOUND);
+      }
+
+      return schedule;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error getting schedule:', error);
+      throw new CustomError('Failed to get schedule', 500, ErrorCodes.SCHEDULE_ERROR);
+    }
+  }
+
+  /**
+   * Create a schedule; enabled schedules first run at the next time their expression matches
+   */
+  async createSchedule(adminUserId: string, request: CreateScheduleRequest): Promise<Schedule> {
+    try {
+      this.assertValidCronExpression(request.cron_expression);
+
+      const isEnabled = request.is_enabled !== false;
+
+      const [schedule] = await this.db('schedules')
+        .insert({
+          name: request.name,
+          task: request.task,
+          cron_expression: request.cron_expression,
+          options: request.options || {},
+          is_enabled: isEnabled,
+          next_run_at: isEnabled ? this.nextRunAt(request.cron_expression) : null,
+          created_by: adminUserId,
+        })
+        .returning('*');
+
+      logger.info('Schedule created successfully', {
+        scheduleId: schedule.id,
+        task: schedule.task,
+        cronExpression: schedule.cron_expression,
+        adminUserId,
+      });
+
+      return schedule;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error creating schedule:', error);
+      throw new CustomError('Failed to create schedule', 500, ErrorCodes.SCHEDULE_ERROR);
+    }
+  }
+
+  /**
+   * Update a schedule. Changing its expression or enabling it recomputes its next run.
+   */
+  async updateSchedule(scheduleId: string, request: UpdateScheduleRequest): Promise<Schedule> {
+    try {
+      const existing = await this.getSchedule(scheduleId);
+
+      if (request.cron_expression !== undefined) {
+        this.assertValidCronExpression(request.cron_expression);
+      }
+
+      const cronExpression = request.cron_expression ?? existing.cron_expression;
+      const isEnabled = request.is_enabled ?? existing.is_enabled;
+
+      const updateFields: Record<string, any> = { updated_at: new Date() };
+      if (request.name !== undefined) updateFields['name'] = request.name;
+      if (request.task !== undefined) updateFields['task'] = request.task;
+      if (request.options !== undefined) updateFields['options'] = request.options;
+      if (request.cron_expression !== undefined) updateFields['cron_expression'] = cronExpression;
+      if (request.is_enabled !== undefined) updateFields['is_enabled'] = isEnabled;
+
+      if (cronExpression !== existing.cron_expression || isEnabled !== existing.is_enabled) {
+        updateFields['next_run_at'] = isEnabled ? this.nextRunAt(cronExpression) : null;
+      }
+
+      const [schedule] = await this.db('schedules')
+        .where('id', scheduleId)
+        .update(updateFields)
+        .returning('*');
+
+      logger.info('Schedule updated successfully', {
+        scheduleId,
+        updatedFields: Object.keys(updateFields),
+      });
+
+      return schedule;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error updating schedule:', error);
+      throw new CustomError('Failed to update schedule', 500, ErrorCodes.SCHEDULE_ERROR);
+    }
+  }
+
+  /**
+   * Delete a schedule
+   */
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    try {
+      const deleted = await this.db('schedules')
+        .where('id', scheduleId)
+        .delete();
+
+      if (deleted === 0) {
+        throw new CustomError('Schedule not found', 404, ErrorCodes.SCHEDULE_NOT_FOUND);
+      }
+
+      logger.info('Schedule deleted successfully', { scheduleId });
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error deleting schedule:', error);
+      throw new CustomError('Failed to delete schedule', 500, ErrorCodes.SCHEDULE_ERROR);
+    }
+  }
+
+  /**
+   * Run a schedule's task now, leaving its next run where it is
+   */
+  async runSchedule(scheduleId: string): Promise<Schedule> {
+    try {
+      await this.getSchedule(scheduleId);
+
+      const [schedule] = await this.db('schedules')
+        .where('id', scheduleId)
+        .update(this.runStartFields())
+        .returning('*');
+
+      return await this.execute(schedule);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error running schedule:', error);
+      throw new CustomError('Failed to run schedule', 500, ErrorCodes.SCHEDULE_RUN_ERROR);
+    }
+  }
+
+  /**
+   * Run every schedule that is due, one at a time, and return how many ran
+   */
+  async runDueSchedules(): Promise<number> {
+    let ran = 0;
+
+    for (let schedule = await this.claimDueSchedule(); schedule; schedule = await this.claimDueSchedule()) {
+      await this.execute(schedule);
+      ran++;
+    }
+
+    return ran;
+  }
+
+  /**
+   * Claim the most overdue enabled schedule: move its next run on and mark it running
+   */
+  private async claimDueSchedule(): Promise<Schedule | null> {
+    return this.db.transaction(async (trx) => {
+      const schedule: Schedule | undefined = await trx('schedules')
+        .where('is_enabled', true)
+        .where('next_run_at', '<=', trx.fn.now())
+        .orderBy('next_run_at', 'asc')
+        .forUpdate()
+        .skipLocked()
+        .first();
+
+      if (!schedule) {
+        return null;
+      }
+
+      const [claimed] = await trx('schedules')
+        .where('id', schedule.id)
+        .update({
+          ...this.runStartFields(),
+          next_run_at: this.nextRunAt(schedule.cron_expression),
+        })
+        .returning('*');
+
+      return claimed as Schedule;
+    });
+  }
+
+  /**
+   * Run a schedule's task and record the outcome; task failures are recorded, not thrown
+   */
+  private async execute(schedule: Schedule): Promise<Schedule> {
+    const startedAt = Date.now();
+    const outcome: Record<string, any> = { updated_at: new Date() };
+
+    try {
+      const result = await this.tasks[schedule.task](schedule);
+
+      outcome['last_run_status'] = 'succeeded';
+      outcome['last_run_result'] = result;
+      outcome['last_success_at'] = schedule.last_run_at;
+
+      logger.info('Schedule ran successfully', {
+        scheduleId: schedule.id,
+        task: schedule.task,
+        duration: Date.now() - startedAt,
+        result,
+      });
+    } catch (error) {
+      outcome['last_run_status'] = 'failed';
+      outcome['last_run_error'] = error instanceof Error ? error.message : String(error);
+
+      logger.error('Schedule run failed:', {
+        scheduleId: schedule.id,
+        task: schedule.task,
+        error: outcome['last_run_error'],
+      });
+    }
+
+    const [updated] = await this.db('schedules')
+      .where('id', schedule.id)
+      .update(outcome)
+      .returning('*');
+
+    return updated;
+  }
+
+  /**
+   * Fields that mark a schedule's run as started
+   */
+  private runStartFields(): Record<string, any> {
+    return {
+      last_run_at: new Date(),
+      last_run_status: 'running',
+      last_run_error: null,
+      last_run_result: null,
+      updated_at: new Date(),
+    };
+  }
+
+  /**
+   * When an expression next matches, or null if it never will
+   */
+  private nextRunAt(cronExpression: string): Date | null {
+    try {
+      return nextCronOccurrence(cronExpression, new Date());
+    } catch (error) {
+      logger.warn('Schedule has no next run', { cronExpression, error });
+      return null;
+    }
+  }
+
+  /**
+   * Reject a cron expression that is malformed or never matches
+   */
+  private assertValidCronExpression(cronExpression: string): void {
+    const problem = validateCronExpression(cronExpression);
+    if (problem) {
+      throw new CustomError(problem, 400, ErrorCodes.INVALID_CRON_EXPRESSION);
+    }
+  }
+}
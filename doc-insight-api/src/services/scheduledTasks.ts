@@ -0,0 +1,83 @@
+import { getDatabase } from '../database/connection';
+import { ReingestScheduleOptions, Schedule, ScheduledTaskName } from '../types';
+import { AuthService } from './authService';
+import { IngestionService } from './ingestionService';
+import { UploadSessionService } from './uploadSessionService';
+
+/**
+ * Runs a schedule's task and returns a summary, stored as the run's result.
+ * Throwing marks the run as failed with the error's message.
+ */
+export type ScheduledTaskHandler = (schedule: Schedule) => Promise<Record<string, any>>;
+
+/**
+ * Queue documents for re-ingestion as one batch, on behalf of the schedule's creator.
+ * With changed_since_last_run, only documents updated since the schedule last
+ * succeeded and not ingested since are queued. Documents already being processed
+ * are skipped.
+ */
+export async function reingestDocuments(schedule: Schedule): Promise<Record<string, any>> {
+  const options = schedule.options as ReingestScheduleOptions;
+
+  if (!schedule.created_by) {
+    throw new Error('Schedule has no owner to queue ingestion jobs for; its creator was deleted');
+  }
+
+  let query = getDatabase()('documents')
+    .select('id')
+    .whereNot('status', 'quarantined')
+    .orderBy('updated_at', 'asc');
+
+  if (options.document_ids && options.document_ids.length > 0) {
+    query = query.whereIn('id', options.document_ids);
+  }
+
+  if (options.changed_since_last_run) {
+    query = query.where((builder) => {
+      builder.whereNull('processed_at').orWhereRaw('updated_at > processed_at');
+    });
+    if (schedule.last_success_at) {
+      query = query.where('updated_at', '>', schedule.last_success_at);
+    }
+  }
+
+  const documentIds: string[] = (await query).map((document: { id: string }) => document.id);
+
+  if (documentIds.length === 0) {
+    return { documents: 0, queued: 0, skipped: 0, batch_id: null };
+  }
+
+  const { batch, results, errors } = await new IngestionService()
+    .triggerBatch(schedule.created_by, documentIds, options.priority || 'low');
+
+  return {
+    documents: documentIds.length,
+    queued: results.length,
+    skipped: errors.length,
+    batch_id: batch ? batch.id : null,
+  };
+}
+
+/**
+ * Delete expired and inactive user sessions
+ */
+export async function cleanupExpiredSessions(): Promise<Record<string, any>> {
+  const deleted = await new AuthService().cleanupExpiredSessions();
+
+  return { deleted };
+}
+
+/**
+ * Delete resumable uploads that expired before they were completed, and finished ones past their expiry
+ */
+export async function cleanupStaleUploads(): Promise<Record<string, any>> {
+  const deleted = await new UploadSessionService().cleanupStaleUploads();
+
+  return { deleted };
+}
+
+export const scheduledTasks: Record<ScheduledTaskName, ScheduledTaskHandler> = {
+  reingest_documents: reingestDocuments,
+  cleanup_expired_sessions: cleanupExpiredSessions,
+  cleanup_stale_uploads: cleanupStaleUploads,
+};
@@ -0,0 +1,238 @@
+import { getDatabase } from '../database/connection';
+import { DocumentText, ExtractedPage, ExtractedText } from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import config from '../config';
+import fs from 'fs';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+
+// Separator placed between pages when they are joined into one text body
+const PAGE_SEPARATOR = '\n\n';
+
+export class TextExtractionService {
+  private get db() {
+    return getDatabase();
+  }
+
+  /**
+   * Extract text from a stored document and persist it
+   */
+  async extractDocument(documentId: string): Promise<DocumentText> {
+    try {
+      const document = await this.db('documents')
+        .where('id', documentId)
+        .first();
+
+      if (!document) {
+        throw new CustomError('Document not found', 404, ErrorCodes.DOCUMENT_NOT_FOUND);
+      }
+
+      const extracted = await this.extractFromFile(document.file_path, document.file_type);
+
+      const [documentText] = await this.db('document_texts')
+        .insert({
+          document_id: documentId,
+          content: extracted.content,
+          pages: JSON.stringify(extracted.pages),
+          page_count: extracted.pages.length,
+          character_count: extracted.content.length,
+          extractor: extracted.extractor,
+          document_version: document.current_version ?? null,
+          extracted_at: new Date(),
+          updated_at: new Date(),
+        })
+        .onConflict('document_id')
+        .merge()
+        .returning('*');
+
+      logger.info('Document text extracted successfully', {
+        documentId,
+        extractor: extracted.extractor,
+        pageCount: extracted.pages.length,
+        characterCount: extracted.content.length,
+      });
+
+      return documentText;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error extracting document text:', error);
+      throw new CustomError('Failed to extract document text', 500, ErrorCodes.TEXT_EXTRACTION_ERROR);
+    }
+  }
+
+  /**
+   * Get previously extracted text for a document
+   */
+  async getDocumentText(documentId: string): Promise<DocumentText> {
+    try {
+      const documentText = await this.db('document_texts')
+        .where('document_id', documentId)
+        .first();
+
+      if (!documentText) {
+        throw new CustomError('Document text not found', 404, ErrorCodes.DOCUMENT_TEXT_NOT_FOUND);
+      }
+
+      return documentText;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error getting document text:', error);
+      throw new CustomError('Failed to get document text', 500, ErrorCodes.TEXT_EXTRACTION_ERROR);
+    }
+  }
+
+  /**
+   * Extract plain text and page boundaries from a file on disk. Files are read into memory
+   * whole, so ones larger than TEXT_EXTRACTION_MAX_SIZE are refused before reading.
+   */
+  async extractFromFile(filePath: string, fileType: string): Promise<ExtractedText> {
+    const { size } = await fs.promises.stat(filePath);
+    if (size > config.textExtractionMaxSize) {
+      throw new CustomError(
+        `File is too large to extract text from: ${size} bytes, the maximum is ${config.textExtractionMaxSize} bytes (TEXT_EXTRACTION_MAX_SIZE)`,
+        413,
+        ErrorCodes.FILE_TOO_LARGE
+      );
+    }
+
+    const buffer = await fs.promises.readFile(filePath);
+
+    switch (fileType.toLowerCase()) {
+      case 'pdf':
+        return this.extractPdf(buffer);
+      case 'docx':
+        return this.extractDocx(buffer);
+      case 'doc':
+        return this.extractDoc(buffer);
+      case 'txt':
+        return this.buildExtractedText(splitOnFormFeeds(decodeText(buffer)), 'plain-text');
+      case 'md':
+        return this.buildExtractedText(splitOnFormFeeds(stripMarkdown(decodeText(buffer))), 'markdown');
+      default:
+        throw new CustomError(`Text extraction is not supported for file type: ${fileType}`, 400, ErrorCodes.UNSUPPORTED_FILE_TYPE);
+    }
+  }
+
+  /**
+   * Extract PDF text page by page
+   */
+  private async extractPdf(buffer: Buffer): Promise<ExtractedText> {
+    const pageTexts: string[] = [];
+
+    // pdf-parse renders pages sequentially, so pushing keeps page order
+    await pdfParse(buffer, {
+      pagerender: async (pageData: any) => {
+        const textContent = await pageData.getTextContent({
+          normalizeWhitespace: true,
+          disableCombineTextItems: false,
+        });
+
+        let lastY: number | undefined;
+        let text = '';
+        for (const item of textContent.items) {
+          text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+          lastY = item.transform[5];
+        }
+
+        pageTexts.push(text);
+        return text;
+      },
+    });
+
+    return this.buildExtractedText(pageTexts, 'pdf-parse');
+  }
+
+  /**
+   * Extract DOCX text
+   */
+  private async extractDocx(buffer: Buffer): Promise<ExtractedText> {
+    const result = await mammoth.extractRawText({ buffer });
+    return this.buildExtractedText(splitOnFormFeeds(result.value), 'mammoth');
+  }
+
+  /**
+   * Extract legacy Word (OLE) text
+   */
+  private async extractDoc(buffer: Buffer): Promise<ExtractedText> {
+    const extractor = new WordExtractor();
+    const wordDocument = await extractor.extract(buffer);
+    return this.buildExtractedText(splitOnFormFeeds(wordDocument.getBody()), 'word-extractor');
+  }
+
+  /**
+   * Join page texts into one body and record where each page starts and ends
+   */
+  private buildExtractedText(pageTexts: string[], extractor: string): ExtractedText {
+    const pages: ExtractedPage[] = [];
+    let content = '';
+
+    pageTexts.forEach((pageText, index) => {
+      const normalized = normalizeText(pageText);
+
+      if (index > 0) {
+        content += PAGE_SEPARATOR;
+      }
+
+      const startOffset = content.length;
+      content += normalized;
+
+      pages.push({
+        page_number: index + 1,
+        start_offset: startOffset,
+        end_offset: content.length,
+      });
+    });
+
+    return { content, pages, extractor };
+  }
+}
+
+/**
+ * Decode a text file, dropping a UTF-8 byte order mark if present
+ */
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * Split text into pages on form feed characters
+ */
+function splitOnFormFeeds(text: string): string[] {
+  return text.split('\f');
+}
+
+/**
+ * Normalize line endings and whitespace, and remove characters PostgreSQL cannot store
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u0000/g, '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Reduce Markdown to readable plain text
+ */
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/^[ \t]*([-*_][ \t]*){3,}$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^ {0,3}#{1,6}[ \t]+/gm, '')
+    .replace(/^ {0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]*[-*+][ \t]+/gm, '')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+}
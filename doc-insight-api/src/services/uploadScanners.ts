@@ -0,0 +1,130 @@
+import fs from 'fs';
+import net from 'net';
+import { once } from 'events';
+import { UploadScanResult } from '../types';
+import { getUploadScanConfig } from '../utils/configHelper';
+
+/**
+ * Scans a stored upload for malware before it becomes a document. Throwing means the
+ * file could not be scanned, and the upload is refused.
+ */
+export interface UploadScanner {
+  readonly name: string;
+  scan(filePath: string): Promise<UploadScanResult>;
+}
+
+// Files are sent to clamd in chunks of this size
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Scans with a ClamAV daemon, streaming the file over its Unix socket or TCP port
+ * with the INSTREAM command. clamd's StreamMaxLength must allow the largest upload.
+ */
+export class ClamdScanner implements UploadScanner {
+  readonly name = 'clamd';
+
+  constructor(
+    private options: { clamdSocket: string; clamdHost: string; clamdPort: number; clamdTimeout: number } = getUploadScanConfig()
+  ) {}
+
+  async scan(filePath: string): Promise<UploadScanResult> {
+    const { clamdSocket, clamdHost, clamdPort, clamdTimeout } = this.options;
+    const socket = clamdSocket ? net.createConnection(clamdSocket) : net.createConnection(clamdPort, clamdHost);
+    socket.setTimeout(clamdTimeout, () => {
+      socket.destroy(new Error(`clamd did not reply within ${clamdTimeout}ms`));
+    });
+
+    // clamd replies once the stream ends, then closes the connection
+    const reply = new Promise<string>((resolve, reject) => {
+      const data: Buffer[] = [];
+      socket.on('data', (chunk: Buffer) => data.push(chunk));
+      socket.on('error', reject);
+      socket.on('close', () => resolve(Buffer.concat(data).toString('utf8')));
+    });
+
+    try {
+      const [, response] = await Promise.all([this.streamFile(socket, filePath), reply]);
+      return this.parseReply(response);
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  /**
+   * Send a file as an INSTREAM command: chunks prefixed with their length, ended by an empty chunk
+   */
+  private async streamFile(socket: net.Socket, filePath: string): Promise<void> {
+    await once(socket, 'connect');
+    socket.write('zINSTREAM\0');
+
+    for await (const data of fs.createReadStream(filePath, { highWaterMark: CLAMD_CHUNK_SIZE })) {
+      const length = Buffer.alloc(4);
+      length.writeUInt32BE((data as Buffer).length);
+      if (!socket.write(Buffer.concat([length, data as Buffer]))) {
+        await once(socket, 'drain');
+      }
+    }
+
+    socket.end(Buffer.alloc(4));
+  }
+
+  /**
+   * Read the result from clamd's reply, e.g. "stream: OK" or "stream: Eicar-Test-Signature FOUND"
+   */
+  private parseReply(response: string): UploadScanResult {
+    const reply = response.replace(/\0/g, '').trim();
+
+    if (reply === 'stream: OK') {
+      return { infected: false };
+    }
+
+    const found = /^stream: (.+) FOUND$/.exec(reply);
+    if (found) {
+      return { infected: true, signature: found[1]! };
+    }
+
+    throw new Error(`Unexpected reply from clamd: ${reply || '(none)'}`);
+  }
+}
+
+// The EICAR anti-virus test file, which every scanner reports as infected
+const EICAR_SIGNATURE = Buffer.from('X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*');
+
+/**
+ * Reports files containing the EICAR test string as infected and anything else as clean,
+ * to try out quarantine locally without a virus scanner
+ */
+export class EicarScanner implements UploadScanner {
+  readonly name = 'eicar';
+
+  async scan(filePath: string): Promise<UploadScanResult> {
+    // Keep the end of the previous chunk, in case the string spans two chunks
+    let tail = Buffer.alloc(0);
+
+    for await (const data of fs.createReadStream(filePath)) {
+      const window = Buffer.concat([tail, data as Buffer]);
+      if (window.includes(EICAR_SIGNATURE)) {
+        return { infected: true, signature: 'Eicar-Test-Signature' };
+      }
+      tail = window.subarray(Math.max(0, window.length - EICAR_SIGNATURE.length + 1));
+    }
+
+    return { infected: false };
+  }
+}
+
+/**
+ * Create the upload scanner selected in configuration, or null if uploads are not scanned
+ */
+export function createUploadScanner(name: string = getUploadScanConfig().scanner): UploadScanner | null {
+  switch (name) {
+    case '':
+      return null;
+    case 'clamd':
+      return new ClamdScanner();
+    case 'eicar':
+      return new EicarScanner();
+    default:
+      throw new Error(`Unknown upload scanner: ${name}`);
+  }
+}
@@ -0,0 +1,530 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { once } from 'events';
+import { Readable } from 'stream';
+import { getDatabase } from '../database/connection';
+import {
+  CompletedUploadResult,
+  CreateUploadSessionRequest,
+  UploadSession,
+  UploadSessionChunk,
+  UploadSessionResponse,
+} from '../types';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/constants';
+import { getFileUploadConfig, getResumableUploadConfig } from '../utils/configHelper';
+import { createStoredFilePath } from '../utils/fileStorage';
+import { verifyFileType } from '../utils/fileSignature';
+import { DocumentService } from './documentService';
+
+/**
+ * Resumable uploads of large files, sent as fixed-size chunks.
+ *
+ * A session fixes the file's size and chunk size up front. Chunks can be sent in
+ * any order and sent again after a network drop; each is checked against its
+ * SHA-256 and kept on disk until the session is completed, which assembles them
+ * into the stored file and creates the document as a single upload would. The
+ * status of a session lists the chunks received, so a client can resume.
+ */
+export class UploadSessionService {
+  private get db() {
+    return getDatabase();
+  }
+  private documentService: DocumentService;
+
+  constructor(documentService?: DocumentService) {
+    this.documentService = documentService || new DocumentService();
+  }
+
+  /**
+   * Start a resumable upload of a file whose name and type have been validated
+   */
+  async createSession(userId: string, request: CreateUploadSessionRequest): Promise<UploadSessionResponse> {
+    try {
+      const { chunkSize } = getResumableUploadConfig();
+      const { file_name, file_size, mime_type, checksum, title, description } = request;
+
+      const [session] = await this.db('upload_sessions')
+        .insert({
+          file_name,
+          file_size,
+          mime_type,
+          chunk_size: chunkSize,
+          total_chunks: Math.ceil(file_size / chunkSize),
+          checksum: checksum || null,
+          title: title || path.basename(file_name, path.extname(file_name)) || file_name,
+          description: description || null,
+          status: 'active',
+          created_by: userId,
+          expires_at: this.expiresAt(),
+        })
+        .returning('*');
+
+      logger.info('Upload session created', {
+        uploadId: session.id,
+        userId,
+        fileName: file_name,
+        fileSize: file_size,
+        totalChunks: session.total_chunks,
+      });
+
+      return this.mapToResponse(session, []);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error creating upload session:', error);
+      throw new CustomError('Failed to create upload session', 500, ErrorCodes.UPLOAD_SESSION_ERROR);
+    }
+  }
+
+  /**
+   * Get an upload session with the chunks received so far
+   */
+  async getSession(sessionId: string, userId: string): Promise<UploadSessionResponse> {
+    try {
+      const session = await this.findSession(sessionId, userId);
+
+      return this.mapToResponse(session, await this.findChunks(session.id));
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error getting upload session:', error);
+      throw new CustomError('Failed to get upload session', 500, ErrorCodes.UPLOAD_SESSION_ERROR);
+    }
+  }
+
+  /**
+   * Store one chunk of an active upload, streamed from the request body, if it has the
+   * expected size and SHA-256. Sending a chunk again replaces it.
+   */
+  async receiveChunk(
+    sessionId: string,
+    userId: string,
+    chunkIndex: number,
+    checksum: string,
+    body: Readable
+  ): Promise<UploadSessionResponse> {
+    let tempPath: string | undefined;
+
+    try {
+      const session = this.checkActive(await this.findSession(sessionId, userId));
+
+      if (chunkIndex >= session.total_chunks) {
+        throw new CustomError(
+          `Chunk index must be below ${session.total_chunks}`,
+          400,
+          ErrorCodes.VALIDATION_ERROR
+        );
+      }
+
+      // Every chunk but the last is exactly chunk_size bytes
+      const expectedSize = chunkIndex < session.total_chunks - 1
+        ? session.chunk_size
+        : Number(session.file_size) - session.chunk_size * (session.total_chunks - 1);
+
+      const chunkPath = this.chunkPath(session.id, chunkIndex);
+      await fs.promises.mkdir(path.dirname(chunkPath), { recursive: true });
+
+      // Write to a temporary file first, so a retry never sees a partial chunk
+      tempPath = `${chunkPath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+      const received = await this.writeChunk(body, tempPath, expectedSize);
+
+      if (received.size !== expectedSize) {
+        throw new CustomError(
+          `Chunk ${chunkIndex} must be ${expectedSize} bytes, received ${received.size}`,
+          400,
+          ErrorCodes.CHUNK_SIZE_MISMATCH
+        );
+      }
+
+      if (received.checksum !== checksum) {
+        throw new CustomError(
+          `Chunk ${chunkIndex} does not match its checksum`,
+          400,
+          ErrorCodes.CHUNK_CHECKSUM_MISMATCH
+        );
+      }
+
+      await fs.promises.rename(tempPath, chunkPath);
+      tempPath = undefined;
+
+      await this.db('upload_session_chunks')
+        .insert({
+          session_id: session.id,
+          chunk_index: chunkIndex,
+          size: received.size,
+          checksum,
+          received_at: new Date(),
+        })
+        .onConflict(['session_id', 'chunk_index'])
+        .merge();
+
+      // Every chunk keeps the upload alive for another TTL
+      const [updated] = await this.db('upload_sessions')
+        .where('id', session.id)
+        .update({
+          expires_at: this.expiresAt(),
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      return this.mapToResponse(updated, await this.findChunks(session.id));
+    } catch (error) {
+      if (tempPath) {
+        await fs.promises.rm(tempPath, { force: true });
+      }
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error receiving upload chunk:', error);
+      throw new CustomError('Failed to receive upload chunk', 500, ErrorCodes.UPLOAD_SESSION_ERROR);
+    }
+  }
+
+  /**
+   * Assemble the chunks of an upload into the stored file and create its document. If that
+   * fails (e.g. a duplicate is rejected), the upload stays active with its chunks.
+   */
+  async completeSession(sessionId: string, userId: string): Promise<CompletedUploadResult> {
+    try {
+      const session = await this.claimForCompletion(sessionId, userId);
+      let filePath: string | undefined;
+
+      try {
+        const chunks = await this.findChunks(session.id);
+        if (chunks.length < session.total_chunks) {
+          const received = new Set(chunks.map(chunk => chunk.chunk_index));
+          const missing = Array.from({ length: session.total_chunks }, (_, index) => index)
+            .filter(index => !received.has(index));
+
+          throw new CustomError(
+            `Upload is missing ${missing.length} of ${session.total_chunks} chunks`,
+            409,
+            ErrorCodes.UPLOAD_INCOMPLETE,
+            { missing_chunks: missing }
+          );
+        }
+
+        const file = await this.assembleFile(session);
+        filePath = file.path;
+
+        if (session.checksum && file.contentHash !== session.checksum) {
+          throw new CustomError(
+            'Uploaded file does not match its checksum',
+            400,
+            ErrorCodes.UPLOAD_CHECKSUM_MISMATCH
+          );
+        }
+
+        file.detectedType = await verifyFileType(file.path, session.file_name, session.mime_type);
+        if (!file.detectedType) {
+          throw new CustomError('File content does not match its file type', 400, ErrorCodes.INVALID_MIME_TYPE);
+        }
+
+        const result = await this.documentService.createDocument(userId, {
+          title: session.title,
+          ...(session.description && { description: session.description }),
+          file,
+        });
+        filePath = undefined;
+
+        const [completed] = await this.db('upload_sessions')
+          .where('id', session.id)
+          .update({
+            status: 'completed',
+            document_id: result.document.id,
+            updated_at: new Date(),
+          })
+          .returning('*');
+
+        await this.removeChunks(session.id);
+
+        logger.info('Upload session completed', {
+          uploadId: session.id,
+          documentId: result.document.id,
+          duplicate: result.duplicate,
+          userId,
+        });
+
+        return { ...result, upload: this.mapToResponse(completed, chunks) };
+      } catch (error) {
+        if (filePath) {
+          await fs.promises.rm(filePath, { force: true });
+        }
+
+        // An infected file is quarantined, so there is nothing left to retry
+        if (error instanceof CustomError && error.code === ErrorCodes.MALWARE_DETECTED) {
+          await this.db('upload_sessions')
+            .where({ id: session.id, status: 'completing' })
+            .update({ status: 'aborted', updated_at: new Date() });
+          await this.removeChunks(session.id);
+          throw error;
+        }
+
+        await this.db('upload_sessions')
+          .where({ id: session.id, status: 'completing' })
+          .update({ status: 'active', updated_at: new Date() });
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error completing upload session:', error);
+      throw new CustomError('Failed to complete upload session', 500, ErrorCodes.UPLOAD_SESSION_ERROR);
+    }
+  }
+
+  /**
+   * Abort an upload and delete its chunks
+   */
+  async abortSession(sessionId: string, userId: string): Promise<void> {
+    try {
+      const session = await this.findSession(sessionId, userId);
+
+      if (session.status !== 'active') {
+        throw new CustomError(`Upload is ${session.status}`, 409, ErrorCodes.UPLOAD_SESSION_NOT_ACTIVE);
+      }
+
+      await this.db('upload_sessions')
+        .where({ id: session.id, status: 'active' })
+        .update({ status: 'aborted', updated_at: new Date() });
+
+      await this.removeChunks(session.id);
+
+      logger.info('Upload session aborted', { uploadId: session.id, userId });
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      logger.error('Error aborting upload session:', error);
+      throw new CustomError('Failed to abort upload session', 500, ErrorCodes.UPLOAD_SESSION_ERROR);
+    }
+  }
+
+  /**
+   * Delete expired upload sessions, finished or not, along with their chunks
+   */
+  async cleanupStaleUploads(): Promise<number> {
+    try {
+      const stale: { id: string }[] = await this.db('upload_sessions')
+        .where('expires_at', '<', new Date())
+        .select('id');
+
+      for (const { id } of stale) {
+        await this.removeChunks(id);
+      }
+
+      const deleted = stale.length > 0
+        ? await this.db('upload_sessions').whereIn('id', stale.map(({ id }) => id)).delete()
+        : 0;
+
+      logger.info('Stale upload sessions cleaned up', { deleted });
+
+      return deleted;
+    } catch (error) {
+      logger.error('Error cleaning up stale upload sessions:', error);
+      throw new CustomError('Failed to clean up stale upload sessions', 500, ErrorCodes.UPLOAD_SESSION_ERROR);
+    }
+  }
+
+  /**
+   * Load an upload session of the user
+   */
+  private async findSession(sessionId: string, userId: string): Promise<UploadSession> {
+    const session: UploadSession | undefined = await this.db('upload_sessions')
+      .where({ id: sessionId, created_by: userId })
+      .first();
+
+    if (!session) {
+      throw new CustomError('Upload not found', 404, ErrorCodes.UPLOAD_SESSION_NOT_FOUND);
+    }
+
+    return session;
+  }
+
+  /**
+   * Check that an upload still accepts chunks
+   */
+  private checkActive(session: UploadSession): UploadSession {
+    if (session.status !== 'active') {
+      throw new CustomError(
+        `Upload is ${session.status}`,
+        409,
+        ErrorCodes.UPLOAD_SESSION_NOT_ACTIVE,
+        session.document_id ? { document_id: session.document_id } : undefined
+      );
+    }
+
+    if (new Date(session.expires_at) <= new Date()) {
+      throw new CustomError('Upload has expired', 410, ErrorCodes.UPLOAD_SESSION_EXPIRED);
+    }
+
+    return session;
+  }
+
+  /**
+   * Move an active upload to completing, so that only one request completes it
+   */
+  private async claimForCompletion(sessionId: string, userId: string): Promise<UploadSession> {
+    const [claimed] = await this.db('upload_sessions')
+      .where({ id: sessionId, created_by: userId, status: 'active' })
+      .where('expires_at', '>', new Date())
+      .update({ status: 'completing', expires_at: this.expiresAt(), updated_at: new Date() })
+      .returning('*');
+
+    if (!claimed) {
+      // Report why the upload cannot be completed
+      this.checkActive(await this.findSession(sessionId, userId));
+      throw new CustomError('Upload is completing', 409, ErrorCodes.UPLOAD_SESSION_NOT_ACTIVE);
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Load the chunks received for an upload, in order
+   */
+  private async findChunks(sessionId: string): Promise<UploadSessionChunk[]> {
+    return this.db('upload_session_chunks')
+      .where('session_id', sessionId)
+      .orderBy('chunk_index', 'asc');
+  }
+
+  /**
+   * Stream a chunk to a file, hashing it on the way, and stop reading once it exceeds its size
+   */
+  private writeChunk(body: Readable, filePath: string, maxSize: number): Promise<{ size: number; checksum: string }> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      const output = fs.createWriteStream(filePath);
+      let size = 0;
+      let failed = false;
+
+      const fail = (error: Error) => {
+        if (failed) {
+          return;
+        }
+        failed = true;
+        body.unpipe(output);
+        body.resume();
+        output.destroy();
+        reject(error);
+      };
+
+      body.on('data', (data: Buffer) => {
+        size += data.length;
+        if (size > maxSize) {
+          fail(new CustomError(`Chunk must be ${maxSize} bytes, received more`, 400, ErrorCodes.CHUNK_SIZE_MISMATCH));
+        } else {
+          hash.update(data);
+        }
+      });
+      body.on('error', fail);
+      body.on('close', () => {
+        if (!body.readableEnded) {
+          fail(new Error('Chunk upload was interrupted'));
+        }
+      });
+      output.on('error', fail);
+      output.on('finish', () => {
+        if (!failed) {
+          resolve({ size, checksum: hash.digest('hex') });
+        }
+      });
+
+      body.pipe(output);
+    });
+  }
+
+  /**
+   * Concatenate the chunks of an upload into a newly stored file, as a single upload would have stored it
+   */
+  private async assembleFile(session: UploadSession): Promise<Express.Multer.File> {
+    const stored = createStoredFilePath(session.file_name, session.mime_type);
+    const hash = crypto.createHash('sha256');
+    const output = fs.createWriteStream(stored.path);
+
+    try {
+      for (let index = 0; index < session.total_chunks; index++) {
+        for await (const data of fs.createReadStream(this.chunkPath(session.id, index))) {
+          hash.update(data);
+          if (!output.write(data)) {
+            await once(output, 'drain');
+          }
+        }
+      }
+
+      output.end();
+      await once(output, 'finish');
+    } catch (error) {
+      output.destroy();
+      await fs.promises.rm(stored.path, { force: true });
+      throw error;
+    }
+
+    return {
+      fieldname: 'file',
+      originalname: session.file_name,
+      encoding: '7bit',
+      mimetype: session.mime_type,
+      size: Number(session.file_size),
+      ...stored,
+      contentHash: hash.digest('hex'),
+    } as Express.Multer.File;
+  }
+
+  /**
+   * Delete the stored chunks of an upload
+   */
+  private async removeChunks(sessionId: string): Promise<void> {
+    try {
+      await fs.promises.rm(this.sessionDirectory(sessionId), { recursive: true, force: true });
+    } catch (fileError) {
+      logger.warn('Failed to delete upload chunks from filesystem', {
+        uploadId: sessionId,
+        error: fileError,
+      });
+    }
+  }
+
+  /**
+   * Directory holding the chunks of an upload until it is completed
+   */
+  private sessionDirectory(sessionId: string): string {
+    return path.join(getFileUploadConfig().uploadPath, '.resumable', sessionId);
+  }
+
+  /**
+   * Stored file of one chunk of an upload
+   */
+  private chunkPath(sessionId: string, chunkIndex: number): string {
+    return path.join(this.sessionDirectory(sessionId), `${chunkIndex}.part`);
+  }
+
+  /**
+   * When an upload touched now expires
+   */
+  private expiresAt(): Date {
+    return new Date(Date.now() + getResumableUploadConfig().ttl);
+  }
+
+  /**
+   * Map a database upload session to response format
+   */
+  private mapToResponse(session: UploadSession, chunks: UploadSessionChunk[]): UploadSessionResponse {
+    const expired = session.status === 'active' && new Date(session.expires_at) <= new Date();
+
+    return {
+      ...session,
+      file_size: Number(session.file_size),
+      status: expired ? 'expired' : session.status,
+      received_chunks: chunks.map(chunk => chunk.chunk_index),
+      bytes_received: chunks.reduce((total, chunk) => total + chunk.size, 0),
+    };
+  }
+}
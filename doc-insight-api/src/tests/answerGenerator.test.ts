@@ -0,0 +1,132 @@
+import axios from 'axios';
+import {
+  ExtractiveAnswerGenerator,
+  OpenAiAnswerGenerator,
+  createAnswerGenerator,
+} from '../services/answerGenerator';
+import { RetrievedChunk } from '../types';
+
+jest.mock('axios');
+jest.mock('../utils/logger');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const makeChunk = (overrides: Partial<RetrievedChunk>): RetrievedChunk => ({
+  chunk_id: 'chunk-1',
+  document_id: 'doc-1',
+  document_title: 'Employee Handbook',
+  file_name: 'handbook.pdf',
+  chunk_index: 0,
+  content: '',
+  page_number: 1,
+  document_version: 1,
+  relevance: 0.8,
+  ...overrides,
+});
+
+describe('ExtractiveAnswerGenerator', () => {
+  const generator = new ExtractiveAnswerGenerator();
+
+  it('should return a no-information answer when nothing was retrieved', async () => {
+    const result = await generator.generate('What is the vacation policy?', []);
+
+    expect(result.confidence).toBe(0);
+    expect(result.sources).toEqual([]);
+    expect(result.text).toMatch(/could not find/i);
+    expect(result.generator).toBe('extractive');
+  });
+
+  it('should answer with the sentences that match the question keywords', async () => {
+    const chunk = makeChunk({
+      content: 'The office opens at nine. Employees receive 25 vacation days per year. Parking is free.',
+      page_number: 4,
+    });
+
+    const result = await generator.generate('How many vacation days do employees get?', [chunk]);
+
+    expect(result.text).toContain('Employees receive 25 vacation days per year.');
+    expect(result.text).not.toContain('Parking');
+    expect(result.confidence).toBeGreaterThan(0);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+    expect(result.sources).toEqual([
+      {
+        documentId: 'doc-1',
+        documentName: 'Employee Handbook',
+        excerpt: 'Employees receive 25 vacation days per year.',
+        pageNumber: 4,
+        documentVersion: 1,
+        relevance: 0.8,
+      },
+    ]);
+  });
+
+  it('should cite each contributing chunk once, most relevant first', async () => {
+    const chunks = [
+      makeChunk({ chunk_id: 'a', document_id: 'doc-1', content: 'Vacation requests go to your manager.', relevance: 0.6 }),
+      makeChunk({ chunk_id: 'b', document_id: 'doc-2', content: 'Vacation days expire in March. Unused vacation is not paid out.', relevance: 0.9, page_number: null }),
+    ];
+
+    const result = await generator.generate('When does vacation expire?', chunks);
+
+    expect(result.sources.map(source => source.documentId)).toEqual(['doc-2', 'doc-1']);
+    expect(result.sources[0]).not.toHaveProperty('pageNumber');
+  });
+
+  it('should not answer when no sentence shares a keyword with the question', async () => {
+    const chunk = makeChunk({ content: 'Parking is free for all staff.' });
+
+    const result = await generator.generate('What is the vacation policy?', [chunk]);
+
+    expect(result.confidence).toBe(0);
+    expect(result.sources).toEqual([]);
+  });
+});
+
+describe('OpenAiAnswerGenerator', () => {
+  const generator = new OpenAiAnswerGenerator('http://llm.local/v1/', 'test-key', 'test-model');
+  const chunks = [
+    makeChunk({ chunk_id: 'a', document_id: 'doc-1', content: 'Vacation days expire in March.', relevance: 0.7 }),
+    makeChunk({ chunk_id: 'b', document_id: 'doc-2', content: 'Parking is free.', relevance: 0.4 }),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send the numbered passages and cite the passages the model used', async () => {
+    mockedAxios.post.mockResolvedValue({
+      data: { choices: [{ message: { content: 'Vacation days expire in March [1].' } }] },
+    });
+
+    const result = await generator.generate('When do vacation days expire?', chunks);
+
+    const [url, body, options] = mockedAxios.post.mock.calls[0] as [string, any, any];
+    expect(url).toBe('http://llm.local/v1/chat/completions');
+    expect(body.model).toBe('test-model');
+    expect(body.messages[1].content).toContain('[1] Employee Handbook (page 1)\nVacation days expire in March.');
+    expect(options.headers.Authorization).toBe('Bearer test-key');
+
+    expect(result.text).toBe('Vacation days expire in March [1].');
+    expect(result.generator).toBe('openai:test-model');
+    expect(result.confidence).toBe(0.7);
+    expect(result.sources.map(source => source.documentId)).toEqual(['doc-1']);
+  });
+
+  it('should not call the model when nothing was retrieved', async () => {
+    const result = await generator.generate('When do vacation days expire?', []);
+
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+    expect(result.confidence).toBe(0);
+  });
+});
+
+describe('createAnswerGenerator', () => {
+  it('should create the configured generator', () => {
+    expect(createAnswerGenerator('extractive')).toBeInstanceOf(ExtractiveAnswerGenerator);
+    expect(createAnswerGenerator('openai')).toBeInstanceOf(OpenAiAnswerGenerator);
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createAnswerGenerator('unknown')).toThrow('Unknown answer provider: unknown');
+  });
+});
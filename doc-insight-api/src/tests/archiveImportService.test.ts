@@ -0,0 +1,148 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { ArchiveImportService } from '../services/archiveImportService';
+import { DocumentService } from '../services/documentService';
+import { RejectedUpload } from '../types';
+import * as configHelper from '../utils/configHelper';
+import * as fileStorage from '../utils/fileStorage';
+import { zip } from './zipBuilder';
+
+jest.mock('../utils/logger');
+
+describe('ArchiveImportService', () => {
+  let uploadPath: string;
+  let uploadDocuments: jest.Mock;
+
+  const service = () => new ArchiveImportService({ uploadDocuments } as unknown as DocumentService);
+
+  const importArchive = (content: Buffer) => {
+    const archivePath = path.join(uploadPath, 'bundle.zip');
+    fs.writeFileSync(archivePath, content);
+    return service().importArchive('editor-1', { originalname: 'bundle.zip', path: archivePath } as Express.Multer.File);
+  };
+
+  beforeEach(() => {
+    uploadPath = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-import-'));
+
+    // Mirrors DocumentService.uploadDocuments: files become documents, rejected entries are failed
+    uploadDocuments = jest.fn(async (_userId: string, files: Express.Multer.File[], rejected: RejectedUpload[]) => {
+      const results = [
+        ...files.map(file => ({ index: file.uploadIndex!, file_name: file.originalname, status: 'created' })),
+        ...rejected.map(rejection => ({ ...rejection, status: 'failed' })),
+      ].sort((a, b) => a.index - b.index);
+      return {
+        batch: null,
+        results,
+        summary: { total: results.length, created: files.length, duplicate: 0, failed: rejected.length },
+      };
+    });
+
+    let stored = 0;
+    jest.spyOn(fileStorage, 'createStoredFilePath').mockImplementation((originalName: string) => {
+      const filename = `stored-${++stored}${path.extname(originalName)}`;
+      return { destination: uploadPath, filename, path: path.join(uploadPath, filename) };
+    });
+    jest.spyOn(configHelper, 'getFileUploadConfig').mockReturnValue({
+      maxSize: 64 * 1024,
+      uploadPath,
+      allowedTypes: ['pdf', 'txt', 'md'],
+      duplicateMode: 'reject',
+      maxFiles: 20,
+    });
+    jest.spyOn(configHelper, 'getZipImportConfig').mockReturnValue({
+      maxSize: 1024 * 1024,
+      maxEntries: 10,
+      maxUncompressedSize: 128 * 1024,
+      maxCompressionRatio: 100,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(uploadPath, { recursive: true, force: true });
+  });
+
+  it('should extract the documents of an archive with their folder paths and skip other files', async () => {
+    const result = await importArchive(zip({
+      'handbook/': '',
+      'handbook/hr/policy.md': '# Leave policy',
+      'handbook/setup.exe': 'binary',
+      'handbook/./notes.txt': 'notes',
+      '__MACOSX/handbook/._policy.md': 'resource fork',
+    }));
+
+    const [, files] = uploadDocuments.mock.calls[0];
+    expect(files.map((file: Express.Multer.File) => [file.uploadIndex, file.originalname, file.mimetype])).toEqual([
+      [0, 'handbook/hr/policy.md', 'text/markdown'],
+      [2, 'handbook/notes.txt', 'text/plain'],
+    ]);
+    expect(fs.readFileSync(files[0].path, 'utf8')).toBe('# Leave policy');
+    expect(files[0].contentHash).toBe(crypto.createHash('sha256').update('# Leave policy').digest('hex'));
+
+    expect(result.skipped).toEqual([
+      { index: 1, file_name: 'handbook/setup.exe', reason: 'File type not allowed' },
+      { index: 3, file_name: '__MACOSX/handbook/._policy.md', reason: 'Hidden or system file' },
+    ]);
+    expect(result.archive).toEqual({ file_name: 'bundle.zip', entries: 4, uncompressed_size: 19 });
+    expect(result.summary).toEqual({ total: 2, created: 2, duplicate: 0, failed: 0, skipped: 2 });
+    expect(fs.existsSync(path.join(uploadPath, 'bundle.zip'))).toBe(false);
+  });
+
+  it('should reject an archive with entries outside of it without extracting anything', async () => {
+    await expect(importArchive(zip({ 'notes.txt': 'notes', '../../etc/cron.d/job.txt': 'escape' })))
+      .rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_ARCHIVE',
+        message: 'Invalid ZIP archive: invalid relative path: ../../etc/cron.d/job.txt',
+      });
+
+    expect(uploadDocuments).not.toHaveBeenCalled();
+    expect(fs.readdirSync(uploadPath)).toEqual([]);
+  });
+
+  it('should report entries that are compressed suspiciously well, too large or not their type', async () => {
+    const result = await importArchive(zip({
+      'bomb.txt': Buffer.alloc(60 * 1024),
+      'large.txt': crypto.randomBytes(65 * 1024),
+      'notes.txt': 'notes',
+      'invoice.pdf': Buffer.from([0x4d, 0x5a, 0x90, 0x00]),
+    }));
+
+    expect(result.results).toEqual([
+      expect.objectContaining({ index: 0, status: 'failed', code: 'ARCHIVE_ENTRY_SUSPICIOUS' }),
+      expect.objectContaining({ index: 1, status: 'failed', code: 'FILE_TOO_LARGE' }),
+      expect.objectContaining({ index: 2, status: 'created' }),
+      expect.objectContaining({ index: 3, status: 'failed', code: 'INVALID_MIME_TYPE' }),
+    ]);
+    expect(fs.readdirSync(uploadPath)).toEqual(['stored-1.txt']);
+  });
+
+  it('should reject an archive that extracts to more than the limit', async () => {
+    const entries: Record<string, Buffer> = {};
+    for (let i = 0; i < 3; i++) {
+      entries[`part-${i}.txt`] = crypto.randomBytes(50 * 1024);
+    }
+
+    await expect(importArchive(zip(entries)))
+      .rejects.toMatchObject({ statusCode: 400, code: 'ARCHIVE_TOO_LARGE' });
+    expect(uploadDocuments).not.toHaveBeenCalled();
+  });
+
+  it('should reject an archive with too many entries', async () => {
+    const entries: Record<string, string> = {};
+    for (let i = 0; i < 11; i++) {
+      entries[`file-${i}.txt`] = `file ${i}`;
+    }
+
+    await expect(importArchive(zip(entries)))
+      .rejects.toMatchObject({ statusCode: 400, code: 'ARCHIVE_TOO_MANY_ENTRIES' });
+  });
+
+  it('should reject a file that is not a ZIP archive', async () => {
+    await expect(importArchive(Buffer.from('not an archive')))
+      .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_ARCHIVE' });
+    expect(fs.existsSync(path.join(uploadPath, 'bundle.zip'))).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { ChunkStoreService } from '../services/chunkStoreService';
+import { HashingEmbedder } from '../services/embeddingService';
+import { getDatabase } from '../database/connection';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+describe('ChunkStoreService', () => {
+  let documents: Record<string, any>;
+  let documentTexts: Record<string, any>;
+  let chunks: any[];
+
+  beforeEach(() => {
+    documents = { 'doc-1': { id: 'doc-1', uploaded_by: 'user-1', current_version: 1, indexed_version: null } };
+    documentTexts = { 'doc-1': { document_id: 'doc-1', content: 'Employees get 25 vacation days.', pages: [], document_version: 1 } };
+    chunks = [];
+
+    // In-memory tables; filters compare columns of the chunk ("dc.") or of its document ("d.")
+    const db: any = (tableName: string) => {
+      const table = tableName.split(' ')[0];
+      const rows = (): any[] => table === 'document_chunks' ? chunks : Object.values(table === 'documents' ? documents : documentTexts);
+      const column = (row: any, name: string) => name.startsWith('d.') && table === 'document_chunks'
+        ? documents[row.document_id][name.slice(2)]
+        : row[name.replace(/^dc?\./, '')];
+      const filters: Array<(row: any) => boolean> = [];
+      const matching = () => rows().filter(row => filters.every(filter => filter(row)));
+
+      const query: any = {
+        join: () => query,
+        select: () => query,
+        orderBy: () => query,
+        where: (name: string | Record<string, any>, value?: any) => {
+          const conditions = typeof name === 'string' ? { [name]: value } : name;
+          filters.push(row => Object.entries(conditions).every(([key, expected]) => column(row, key) === expected));
+          return query;
+        },
+        whereIn: (name: string, values: any[]) => {
+          filters.push(row => values.includes(column(row, name)));
+          return query;
+        },
+        whereRaw: (sql: string) => {
+          const [, left, right] = /^(\S+) = (\S+)$/.exec(sql)!;
+          filters.push(row => column(row, left!) === column(row, right!));
+          return query;
+        },
+        first: async () => matching()[0],
+        del: async () => {
+          const removed = matching();
+          chunks = chunks.filter(chunk => !removed.includes(chunk));
+          return removed.length;
+        },
+        update: async (fields: Record<string, any>) => matching().forEach(row => Object.assign(row, fields)),
+        limit: async () => matching().map(chunk => ({ ...chunk, relevance: '0.8' })),
+        then: (resolve: any, reject: any) => Promise.resolve(matching()).then(resolve, reject),
+      };
+      return query;
+    };
+    db.raw = (sql: string, bindings?: any[]) => ({ sql, bindings });
+    db.batchInsert = async (_table: string, rows: any[]) => chunks.push(...rows);
+    db.transaction = async (callback: (trx: any) => Promise<any>) => callback(db);
+    mockedGetDatabase.mockReturnValue(db);
+  });
+
+  const service = () => new ChunkStoreService(new HashingEmbedder(16));
+  const retrievedContent = async (userRole = 'editor', documentVersion?: number) =>
+    (await service().findRelevantChunks('vacation days', 'user-1', userRole, 5, undefined, documentVersion))
+      .map(chunk => chunk.content);
+
+  it('should index a version\'s chunks and cite that version', async () => {
+    expect(await service().indexDocument('doc-1')).toEqual({ chunkCount: 1, embeddingModel: 'hashing-16' });
+
+    expect(documents['doc-1'].indexed_version).toBe(1);
+    expect(await retrievedContent()).toEqual(['Employees get 25 vacation days.']);
+  });
+
+  it('should keep citing the indexed version while a new version awaits ingestion', async () => {
+    await service().indexDocument('doc-1');
+
+    // A second version is uploaded; its ingestion job is still queued
+    documents['doc-1'].current_version = 2;
+
+    expect(await retrievedContent()).toEqual(['Employees get 25 vacation days.']);
+  });
+
+  it('should cite a new version once it is indexed, and keep the old one on request', async () => {
+    await service().indexDocument('doc-1');
+    documents['doc-1'].current_version = 2;
+    documentTexts['doc-1'] = { ...documentTexts['doc-1'], content: 'Employees get 30 vacation days.', document_version: 2 };
+
+    await service().indexDocument('doc-1');
+
+    expect(await retrievedContent()).toEqual(['Employees get 30 vacation days.']);
+    expect(await retrievedContent('editor', 1)).toEqual(['Employees get 25 vacation days.']);
+    expect((await service().getDocumentChunks('doc-1')).map(chunk => chunk.content))
+      .toEqual(['Employees get 30 vacation days.']);
+  });
+
+  it('should replace the chunks of a version indexed again', async () => {
+    await service().indexDocument('doc-1');
+    await service().indexDocument('doc-1');
+
+    expect(chunks).toHaveLength(1);
+  });
+
+  it('should limit viewers to their own documents', async () => {
+    await service().indexDocument('doc-1');
+
+    expect(await retrievedContent('viewer')).toHaveLength(1);
+    expect(await service().findRelevantChunks('vacation days', 'user-2', 'viewer', 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { nextCronOccurrence, parseCronExpression, validateCronExpression } from '../utils/cronExpression';
+
+describe('parseCronExpression', () => {
+  it('should expand lists, ranges and steps', () => {
+    const cron = parseCronExpression('0,30 9-17/4 * * *');
+
+    expect([...cron.minutes]).toEqual([0, 30]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect(cron.daysOfMonth.size).toBe(31);
+  });
+
+  it('should accept month and day names and fold 7 into Sunday', () => {
+    const cron = parseCronExpression('0 0 * JAN-MAR sat,7');
+
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([6, 0]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow('Cron expression must have 5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('Invalid minute field');
+    expect(() => parseCronExpression('* * * * 1/0')).toThrow('Invalid day of week field');
+    expect(() => parseCronExpression('* 5-2 * * *')).toThrow('Invalid hour range');
+  });
+});
+
+describe('nextCronOccurrence', () => {
+  const after = new Date('2024-01-15T10:20:30Z'); // a Monday
+
+  it('should find the next matching minute strictly after the given time', () => {
+    expect(nextCronOccurrence('*/15 * * * *', after)).toEqual(new Date('2024-01-15T10:30:00Z'));
+    expect(nextCronOccurrence('20 10 * * *', new Date('2024-01-15T10:20:00Z')))
+      .toEqual(new Date('2024-01-16T10:20:00Z'));
+  });
+
+  it('should expand shorthands', () => {
+    expect(nextCronOccurrence('@daily', after)).toEqual(new Date('2024-01-16T00:00:00Z'));
+    expect(nextCronOccurrence('@weekly', after)).toEqual(new Date('2024-01-21T00:00:00Z'));
+    expect(nextCronOccurrence('@yearly', after)).toEqual(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  it('should match either the day of month or the day of week when both are restricted', () => {
+    // The 20th, or any Friday, whichever comes first
+    expect(nextCronOccurrence('0 3 20 * fri', after)).toEqual(new Date('2024-01-19T03:00:00Z'));
+    // A day of month starting with * does not count as restricted, so both must match
+    expect(nextCronOccurrence('0 3 */2 * fri', after)).toEqual(new Date('2024-01-19T03:00:00Z'));
+  });
+
+  it('should find dates that only exist in leap years', () => {
+    expect(nextCronOccurrence('0 0 29 2 *', after)).toEqual(new Date('2024-02-29T00:00:00Z'));
+  });
+
+  it('should throw for expressions that never match', () => {
+    expect(() => nextCronOccurrence('0 0 30 2 *', after)).toThrow('Cron expression never matches');
+  });
+});
+
+describe('validateCronExpression', () => {
+  it('should return null for valid expressions and the problem otherwise', () => {
+    expect(validateCronExpression('0 2 * * *')).toBeNull();
+    expect(validateCronExpression('0 0 31 4 *')).toBe('Cron expression never matches');
+    expect(validateCronExpression('every day')).toMatch(/must have 5 fields/);
+  });
+});
@@ -0,0 +1,142 @@
+import { DocumentService, toHighlightedHtml } from '../services/documentService';
+import { getDatabase } from '../database/connection';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+type Raw = { sql: string; bindings: any[] };
+
+describe('toHighlightedHtml', () => {
+  it('should wrap highlighted terms in mark tags', () => {
+    expect(toHighlightedHtml('the \u0001annual\u0002 \u0001report\u0002 for 2024'))
+      .toBe('the <mark>annual</mark> <mark>report</mark> for 2024');
+  });
+
+  it('should escape HTML in the document text', () => {
+    expect(toHighlightedHtml('<script>alert("x")</script> \u0001budget\u0002 & costs'))
+      .toBe('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; <mark>budget</mark> &amp; costs');
+  });
+});
+
+describe('DocumentService.searchDocuments', () => {
+  let calls: Array<[string, any[]]>;
+  let documents: Record<string, any>[];
+  let headlines: Array<{ id: string; headline: string }>;
+
+  const makeDocument = (id: string, rank: string) => ({
+    id,
+    title: `Report ${id}`,
+    file_name: `${id}.pdf`,
+    file_type: 'pdf',
+    file_size: 1024,
+    mime_type: 'application/pdf',
+    status: 'completed',
+    uploaded_by: 'user-1',
+    created_at: new Date('2024-01-01'),
+    updated_at: new Date('2024-01-01'),
+    rank,
+  });
+
+  beforeEach(() => {
+    calls = [];
+    documents = [makeDocument('doc-1', '0.6'), makeDocument('doc-2', '0.2')];
+    headlines = [
+      { id: 'doc-2', headline: 'draft of the \u0001annual\u0002 \u0001report\u0002' },
+      { id: 'doc-1', headline: 'the \u0001annual\u0002 \u0001report\u0002 <final>' },
+    ];
+
+    // Records the calls made on every query; the page query resolves to `documents`
+    // and the query joining document texts to `headlines`
+    const db: any = () => {
+      let joinsTexts = false;
+      const record = (method: string) => (...args: any[]) => {
+        calls.push([method, args]);
+        return query;
+      };
+      const query: any = {
+        where: record('where'),
+        whereRaw: record('whereRaw'),
+        whereIn: record('whereIn'),
+        select: record('select'),
+        orderBy: record('orderBy'),
+        limit: record('limit'),
+        offset: record('offset'),
+        clone: () => query,
+        leftJoin: (...args: any[]) => {
+          joinsTexts = true;
+          return record('leftJoin')(...args);
+        },
+        count: async () => [{ count: String(documents.length) }],
+        then: (resolve: any, reject: any) =>
+          Promise.resolve(joinsTexts ? headlines : documents).then(resolve, reject),
+      };
+      return query;
+    };
+    db.raw = (sql: string, bindings: any[]): Raw => ({ sql, bindings });
+    mockedGetDatabase.mockReturnValue(db);
+  });
+
+  const search = (searchTerm: string, userRole = 'editor') =>
+    new DocumentService().searchDocuments(searchTerm, 'user-1', userRole, { page: 1, limit: 20 });
+
+  const tsQuery = (): Raw => calls.find(([method]) => method === 'whereRaw')![1][1][0];
+
+  it('should pass phrases and negations to websearch_to_tsquery unchanged', async () => {
+    await search('"annual report" -draft OR budget');
+
+    expect(calls).toContainEqual(['whereRaw', ['d.search_vector @@ ?', [expect.anything()]]]);
+    expect(tsQuery()).toEqual({
+      sql: 'websearch_to_tsquery(?::regconfig, ?)',
+      bindings: ['english', '"annual report" -draft OR budget'],
+    });
+  });
+
+  it('should rank by relevance, newest first among equal ranks', async () => {
+    const result = await search('annual report');
+
+    const orderBy = calls.filter(([method]) => method === 'orderBy').map(([, args]) => args);
+    expect(orderBy).toEqual([['rank', 'desc'], ['d.created_at', 'desc']]);
+    expect(calls).toContainEqual(['select', expect.arrayContaining([
+      { sql: 'ts_rank(d.search_vector, ?) as rank', bindings: [tsQuery()] },
+    ])]);
+    expect(result.data.map(doc => [doc.id, doc.rank])).toEqual([['doc-1', 0.6], ['doc-2', 0.2]]);
+    expect(result.pagination).toEqual({ page: 1, limit: 20, total: 2, total_pages: 1 });
+  });
+
+  it('should build highlighted snippets with ts_headline for the documents on the page', async () => {
+    const result = await search('annual report');
+
+    const headlineSelect = calls.find(([method, args]) =>
+      method === 'select' && args.some((arg: any) => arg?.sql?.startsWith('ts_headline')))!;
+    expect(headlineSelect[1][1]).toEqual({
+      sql: 'ts_headline(?::regconfig, coalesce(dt.content, d.description, d.title), ?, ?) as headline',
+      bindings: ['english', tsQuery(), expect.stringContaining('StartSel=\u0001, StopSel=\u0002')],
+    });
+    expect(calls).toContainEqual(['whereIn', ['d.id', ['doc-1', 'doc-2']]]);
+    expect(result.data[0]!.snippet).toBe('the <mark>annual</mark> <mark>report</mark> &lt;final&gt;');
+    expect(result.data[1]!.snippet).toBe('draft of the <mark>annual</mark> <mark>report</mark>');
+  });
+
+  it('should only search a viewer\'s own documents', async () => {
+    await search('annual report', 'viewer');
+
+    expect(calls).toContainEqual(['where', ['d.uploaded_by', 'user-1']]);
+  });
+
+  it('should search every document for editors and admins', async () => {
+    await search('annual report', 'admin');
+
+    expect(calls.some(([method, args]) => method === 'where' && args[0] === 'd.uploaded_by')).toBe(false);
+  });
+
+  it('should skip snippets when nothing matches', async () => {
+    documents = [];
+
+    const result = await search('nothing');
+
+    expect(result.data).toEqual([]);
+    expect(calls.some(([method]) => method === 'leftJoin')).toBe(false);
+  });
+});
@@ -0,0 +1,306 @@
+import fs from 'fs';
+import { DocumentService } from '../services/documentService';
+import { IngestionService } from '../services/ingestionService';
+import { QuarantineService } from '../services/quarantineService';
+import { getDatabase } from '../database/connection';
+import * as configHelper from '../utils/configHelper';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+type Write = { table: string; fields: Record<string, any> };
+
+const CONTENT_HASH = 'a'.repeat(64);
+
+const existingDocument = {
+  id: 'doc-1',
+  title: 'Handbook',
+  file_name: 'handbook.pdf',
+  file_path: 'uploads/pdf/1-abc.pdf',
+  file_type: 'pdf',
+  file_size: 1024,
+  mime_type: 'application/pdf',
+  status: 'completed',
+  content_hash: CONTENT_HASH,
+  uploaded_by: 'editor-1',
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  updated_at: new Date('2024-01-01T00:00:00Z'),
+};
+
+const upload = {
+  fieldname: 'file',
+  originalname: 'handbook-copy.pdf',
+  encoding: '7bit',
+  mimetype: 'application/pdf',
+  size: 1024,
+  destination: 'uploads/pdf',
+  filename: '2-def.pdf',
+  path: 'uploads/pdf/2-def.pdf',
+  contentHash: CONTENT_HASH,
+} as Express.Multer.File;
+
+/**
+ * Minimal query builder stub: first() returns the document with the queried content hash, if any;
+ * inserts and raw statements are recorded
+ */
+function mockDatabase(match: Record<string, any> | undefined, inserts: Write[], statements: string[] = []): void {
+  const builder: any = (table: string) => {
+    let hash: string | undefined;
+    const query: any = {
+      where: (_column: string, value: string) => {
+        hash = value;
+        return query;
+      },
+      orderBy: () => query,
+      first: async () => {
+        statements.push(`select ${table}`);
+        return match && match.content_hash === hash ? match : undefined;
+      },
+      insert: (fields: Record<string, any>) => {
+        inserts.push({ table, fields });
+        const id = `doc-${inserts.filter(insert => insert.table === 'documents').length + 1}`; // doc-1 exists
+        return Object.assign(Promise.resolve(), {
+          returning: async () => [{ id, current_version: 1, ...fields }],
+        });
+      },
+    };
+    return query;
+  };
+  builder.raw = async (sql: string, bindings: string[]) => {
+    statements.push(`${sql} [${bindings.join(', ')}]`);
+  };
+  builder.transaction = async (callback: (trx: any) => Promise<any>) => callback(builder);
+
+  mockedGetDatabase.mockReturnValue(builder);
+}
+
+describe('DocumentService.createDocument duplicates', () => {
+  let inserts: Write[];
+  let unlink: jest.SpyInstance;
+
+  beforeEach(() => {
+    inserts = [];
+    unlink = jest.spyOn(fs.promises, 'unlink').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const duplicateMode = (mode: 'reject' | 'link') => {
+    jest.spyOn(configHelper, 'getFileUploadConfig').mockReturnValue({
+      maxSize: 10485760,
+      uploadPath: './uploads',
+      allowedTypes: ['pdf'],
+      duplicateMode: mode,
+      maxFiles: 20,
+    });
+  };
+
+  it('should store the content hash of a new upload as its first version', async () => {
+    duplicateMode('reject');
+    mockDatabase(undefined, inserts);
+
+    const result = await new DocumentService().createDocument('editor-2', { title: 'Handbook', file: upload });
+
+    expect(result.duplicate).toBe(false);
+    expect(inserts).toMatchObject([
+      { table: 'documents', fields: { content_hash: CONTENT_HASH, uploaded_by: 'editor-2' } },
+      { table: 'document_versions', fields: { document_id: 'doc-2', version_number: 1, file_path: 'uploads/pdf/2-def.pdf', content_hash: CONTENT_HASH } },
+    ]);
+    expect(result.document).toMatchObject({ content_hash: CONTENT_HASH, current_version: 1 });
+  });
+
+  it('should look for a duplicate while holding a lock on the content hash', async () => {
+    duplicateMode('reject');
+    const statements: string[] = [];
+    mockDatabase(undefined, inserts, statements);
+
+    await new DocumentService().createDocument('editor-2', { title: 'Handbook', file: upload });
+
+    expect(statements).toEqual([
+      `SELECT pg_advisory_xact_lock(hashtext(?)) [${CONTENT_HASH}]`,
+      'select documents',
+    ]);
+  });
+
+  it('should reject a duplicate with a pointer to the existing document', async () => {
+    duplicateMode('reject');
+    mockDatabase(existingDocument, inserts);
+
+    await expect(new DocumentService().createDocument('editor-2', { title: 'Copy', file: upload }))
+      .rejects.toMatchObject({
+        statusCode: 409,
+        code: 'DUPLICATE_DOCUMENT',
+        data: { document_id: 'doc-1', title: 'Handbook' },
+      });
+    expect(inserts).toEqual([]);
+  });
+
+  it('should link a duplicate to the existing document and discard the upload', async () => {
+    duplicateMode('link');
+    mockDatabase(existingDocument, inserts);
+
+    const result = await new DocumentService().createDocument('editor-2', { title: 'Copy', file: upload });
+
+    expect(result).toMatchObject({ duplicate: true, document: { id: 'doc-1', status: 'completed' } });
+    expect(unlink).toHaveBeenCalledWith('uploads/pdf/2-def.pdf');
+    expect(inserts).toEqual([]);
+  });
+});
+
+describe('DocumentService.createDocument malware scanning', () => {
+  let inserts: Write[];
+  let quarantine: { scan: jest.Mock; quarantineFile: jest.Mock; recordDetection: jest.Mock };
+
+  beforeEach(() => {
+    inserts = [];
+    quarantine = {
+      scan: jest.fn().mockResolvedValue({ infected: true, signature: 'Eicar-Test-Signature' }),
+      quarantineFile: jest.fn().mockResolvedValue('uploads/.quarantine/2-def.pdf'),
+      recordDetection: jest.fn().mockResolvedValue(undefined),
+    };
+    jest.spyOn(configHelper, 'getFileUploadConfig').mockReturnValue({
+      maxSize: 10485760,
+      uploadPath: './uploads',
+      allowedTypes: ['pdf'],
+      duplicateMode: 'link',
+      maxFiles: 20,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const service = () => new DocumentService({} as IngestionService, quarantine as unknown as QuarantineService);
+
+  it('should quarantine an infected upload as a quarantined document and report the detection', async () => {
+    // Even a copy of an existing document is kept, rather than linked
+    mockDatabase(existingDocument, inserts);
+
+    await expect(service().createDocument('editor-2', { title: 'Handbook', file: upload }))
+      .rejects.toMatchObject({
+        statusCode: 422,
+        code: 'MALWARE_DETECTED',
+        data: { document_id: 'doc-2', signature: 'Eicar-Test-Signature' },
+      });
+
+    expect(inserts).toMatchObject([
+      { table: 'documents', fields: { status: 'quarantined', file_path: 'uploads/.quarantine/2-def.pdf' } },
+      { table: 'document_versions', fields: { document_id: 'doc-2', file_path: 'uploads/.quarantine/2-def.pdf' } },
+    ]);
+    expect(quarantine.recordDetection).toHaveBeenCalledWith(expect.objectContaining({
+      document_id: 'doc-2',
+      file_name: 'handbook-copy.pdf',
+      signature: 'Eicar-Test-Signature',
+      uploaded_by: 'editor-2',
+    }), expect.anything());
+  });
+
+  it('should create a clean upload as usual', async () => {
+    quarantine.scan.mockResolvedValue({ infected: false });
+    mockDatabase(undefined, inserts);
+
+    const result = await service().createDocument('editor-2', { title: 'Handbook', file: upload });
+
+    expect(result.document).toMatchObject({ status: 'pending' });
+    expect(quarantine.quarantineFile).not.toHaveBeenCalled();
+    expect(quarantine.recordDetection).not.toHaveBeenCalled();
+  });
+
+  it('should not let a status change release a quarantined document', async () => {
+    const update = jest.fn();
+    const query: any = {
+      where: () => query,
+      first: async () => ({ ...existingDocument, status: 'quarantined' }),
+      update,
+    };
+    mockedGetDatabase.mockReturnValue((() => query) as any);
+
+    await expect(service().updateDocument('doc-1', 'editor-1', 'editor', { status: 'completed' }))
+      .rejects.toMatchObject({ statusCode: 409, code: 'DOCUMENT_QUARANTINED' });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe('DocumentService.uploadDocuments', () => {
+  let inserts: Write[];
+  let unlink: jest.SpyInstance;
+  let triggerBatch: jest.Mock;
+
+  const file = (name: string, hash: string, uploadIndex: number) => ({
+    ...upload,
+    fieldname: 'files',
+    originalname: name,
+    path: `uploads/pdf/${uploadIndex}.pdf`,
+    contentHash: hash,
+    uploadIndex,
+  }) as Express.Multer.File;
+
+  beforeEach(() => {
+    inserts = [];
+    unlink = jest.spyOn(fs.promises, 'unlink').mockResolvedValue(undefined);
+    jest.spyOn(configHelper, 'getFileUploadConfig').mockReturnValue({
+      maxSize: 10485760,
+      uploadPath: './uploads',
+      allowedTypes: ['pdf'],
+      duplicateMode: 'reject',
+      maxFiles: 20,
+    });
+    triggerBatch = jest.fn().mockImplementation(async (_userId: string, documentIds: string[]) => ({
+      batch: { id: 'batch-1', total_jobs: documentIds.length },
+      results: documentIds.map(documentId => ({ document_id: documentId, job_id: `job-${documentId}`, status: 'triggered' })),
+      errors: [],
+    }));
+    mockDatabase(existingDocument, inserts);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const service = () => new DocumentService({ triggerBatch } as unknown as IngestionService);
+
+  it('should report every file in request order and ingest the new documents as one batch', async () => {
+    const files = [
+      file('guides/onboarding.pdf', 'b'.repeat(64), 0),
+      file('handbook.pdf', CONTENT_HASH, 2),
+      file('benefits.pdf', 'c'.repeat(64), 3),
+    ];
+    const rejected = [{ index: 1, file_name: 'tool.exe', error: 'File type not allowed', code: 'INVALID_FILE_TYPE' }];
+
+    const result = await service().uploadDocuments('editor-2', files, rejected);
+
+    expect(result.results).toMatchObject([
+      { index: 0, file_name: 'guides/onboarding.pdf', status: 'created', job_id: 'job-doc-2', document: { id: 'doc-2', title: 'onboarding', file_name: 'onboarding.pdf' } },
+      { index: 1, file_name: 'tool.exe', status: 'failed', code: 'INVALID_FILE_TYPE' },
+      { index: 2, file_name: 'handbook.pdf', status: 'failed', code: 'DUPLICATE_DOCUMENT', data: { document_id: 'doc-1' } },
+      { index: 3, file_name: 'benefits.pdf', status: 'created', job_id: 'job-doc-3' },
+    ]);
+    expect(inserts[0]!.fields.metadata).toMatchObject({ relativePath: 'guides/onboarding.pdf' });
+    expect(unlink).toHaveBeenCalledWith('uploads/pdf/2.pdf');
+    expect(triggerBatch).toHaveBeenCalledWith('editor-2', ['doc-2', 'doc-3']);
+    expect(result.batch).toMatchObject({ id: 'batch-1' });
+    expect(result.summary).toEqual({ total: 4, created: 2, duplicate: 0, failed: 2 });
+  });
+
+  it('should keep the documents when their ingestion cannot be queued', async () => {
+    triggerBatch.mockRejectedValue(new Error('queue unavailable'));
+
+    const result = await service().uploadDocuments('editor-2', [file('benefits.pdf', 'c'.repeat(64), 0)]);
+
+    expect(result.batch).toBeNull();
+    expect(result.results).toMatchObject([{ status: 'created', job_id: null }]);
+  });
+
+  it('should not start a batch when no document was created', async () => {
+    const result = await service().uploadDocuments('editor-2', [file('handbook.pdf', CONTENT_HASH, 0)]);
+
+    expect(triggerBatch).not.toHaveBeenCalled();
+    expect(result.batch).toBeNull();
+    expect(result.summary).toMatchObject({ created: 0, failed: 1 });
+  });
+});
@@ -0,0 +1,161 @@
+import { DocumentVersionService } from '../services/documentVersionService';
+import { IngestionService } from '../services/ingestionService';
+import { getDatabase } from '../database/connection';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+type Write = { table: string; fields: Record<string, any> };
+
+const document = {
+  id: 'doc-1',
+  title: 'Travel policy',
+  file_name: 'travel-v2.pdf',
+  file_path: 'uploads/pdf/2-def.pdf',
+  file_type: 'pdf',
+  file_size: 2048,
+  mime_type: 'application/pdf',
+  status: 'completed',
+  content_hash: 'b'.repeat(64),
+  current_version: 2,
+  uploaded_by: 'editor-1',
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  updated_at: new Date('2024-02-01T00:00:00Z'),
+};
+
+const versionOne = {
+  id: 'version-1',
+  document_id: 'doc-1',
+  version_number: 1,
+  file_name: 'travel.pdf',
+  file_path: 'uploads/pdf/1-abc.pdf',
+  file_type: 'pdf',
+  file_size: 1024,
+  mime_type: 'application/pdf',
+  content_hash: 'a'.repeat(64),
+  restored_from: null,
+  uploaded_by: 'editor-1',
+  created_at: new Date('2024-01-01T00:00:00Z'),
+};
+
+/**
+ * Minimal query builder stub: first() returns the table's row; writes are recorded
+ * and return the written fields
+ */
+function mockDatabase(rows: Record<string, any>, inserts: Write[], updates: Write[]): void {
+  const builder: any = (table: string): any => {
+    const query: any = {
+      where: () => query,
+      forUpdate: () => query,
+      first: async () => rows[table],
+      insert: (fields: Record<string, any>) => {
+        inserts.push({ table, fields });
+        return { returning: async () => [{ id: 'version-new', ...fields }] };
+      },
+      update: (fields: Record<string, any>) => {
+        updates.push({ table, fields });
+        return { returning: async () => [{ ...rows[table], ...fields }] };
+      },
+    };
+    return query;
+  };
+  builder.transaction = async (callback: (trx: any) => Promise<any>) => callback(builder);
+
+  mockedGetDatabase.mockReturnValue(builder);
+}
+
+describe('DocumentVersionService', () => {
+  let inserts: Write[];
+  let updates: Write[];
+  let triggerVersionIngestion: jest.Mock;
+
+  const upload = {
+    originalname: 'travel-v3.pdf',
+    mimetype: 'application/pdf',
+    size: 4096,
+    path: 'uploads/pdf/3-ghi.pdf',
+    contentHash: 'c'.repeat(64),
+  } as Express.Multer.File;
+
+  beforeEach(() => {
+    inserts = [];
+    updates = [];
+    triggerVersionIngestion = jest.fn().mockResolvedValue({ id: 'job-3', status: 'queued', document_version: 3 });
+  });
+
+  const service = () => new DocumentVersionService({ triggerVersionIngestion } as unknown as IngestionService);
+
+  it('should make an upload the next version, move the document to it and queue its ingestion', async () => {
+    mockDatabase({ documents: document, document_versions: versionOne }, inserts, updates);
+
+    const result = await service().uploadVersion('doc-1', 'editor-2', 'editor', upload);
+
+    expect(inserts[0]).toEqual({
+      table: 'document_versions',
+      fields: expect.objectContaining({
+        document_id: 'doc-1',
+        version_number: 3,
+        file_path: 'uploads/pdf/3-ghi.pdf',
+        content_hash: 'c'.repeat(64),
+        restored_from: null,
+        uploaded_by: 'editor-2',
+      }),
+    });
+    expect(updates[0]!.fields).toMatchObject({
+      file_name: 'travel-v3.pdf',
+      file_path: 'uploads/pdf/3-ghi.pdf',
+      current_version: 3,
+    });
+    expect(triggerVersionIngestion).toHaveBeenCalledWith('editor-2', 'doc-1');
+    expect(result.version).toMatchObject({ version_number: 3, is_current: true });
+    expect(result.version).not.toHaveProperty('file_path');
+    expect(result.ingestion_job).toMatchObject({ id: 'job-3' });
+  });
+
+  it('should reject an upload identical to the current version without re-ingesting it', async () => {
+    mockDatabase({ documents: document }, inserts, updates);
+
+    await expect(service().uploadVersion('doc-1', 'editor-2', 'editor', { ...upload, contentHash: document.content_hash }))
+      .rejects.toMatchObject({
+        statusCode: 409,
+        code: 'DUPLICATE_DOCUMENT',
+        data: { document_id: 'doc-1', version_number: 2 },
+      });
+    expect(inserts).toEqual([]);
+    expect(triggerVersionIngestion).not.toHaveBeenCalled();
+  });
+
+  it('should restore a previous version as a new version that shares its file', async () => {
+    mockDatabase({ documents: document, document_versions: versionOne }, inserts, updates);
+
+    const result = await service().restoreVersion('doc-1', 1, 'editor-2', 'editor');
+
+    expect(inserts[0]!.fields).toMatchObject({
+      version_number: 3,
+      file_path: 'uploads/pdf/1-abc.pdf',
+      content_hash: 'a'.repeat(64),
+      restored_from: 1,
+    });
+    expect(updates[0]!.fields).toMatchObject({ file_path: 'uploads/pdf/1-abc.pdf', current_version: 3 });
+    expect(result.version.download_url).toBe('/api/documents/doc-1/versions/3/stream');
+  });
+
+  it('should return 404 when restoring an unknown version', async () => {
+    mockDatabase({ documents: document, document_versions: undefined }, inserts, updates);
+
+    await expect(service().restoreVersion('doc-1', 7, 'editor-2', 'editor'))
+      .rejects.toMatchObject({ statusCode: 404, code: 'DOCUMENT_VERSION_NOT_FOUND' });
+  });
+
+  it('should keep the new version when its ingestion cannot be queued', async () => {
+    mockDatabase({ documents: document, document_versions: versionOne }, inserts, updates);
+    triggerVersionIngestion.mockRejectedValue(new Error('queue unavailable'));
+
+    const result = await service().uploadVersion('doc-1', 'editor-2', 'editor', upload);
+
+    expect(result.version.version_number).toBe(3);
+    expect(result.ingestion_job).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { HashingEmbedder, cosineSimilarity, createEmbedder, tokenize } from '../services/embeddingService';
+
+describe('Embedding service', () => {
+  describe('HashingEmbedder', () => {
+    const embedder = new HashingEmbedder(256);
+
+    it('should return one normalized vector per input', async () => {
+      const vectors = await embedder.embed(['first text', 'second text']);
+
+      expect(vectors).toHaveLength(2);
+      vectors.forEach(vector => {
+        expect(vector).toHaveLength(256);
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        expect(norm).toBeCloseTo(1, 6);
+      });
+    });
+
+    it('should be deterministic', async () => {
+      const [first] = await embedder.embed(['Termination clause of the contract']);
+      const [second] = await new HashingEmbedder(256).embed(['Termination clause of the contract']);
+
+      expect(first).toEqual(second);
+    });
+
+    it('should rank related text above unrelated text', async () => {
+      const [query, related, unrelated] = await embedder.embed([
+        'employee vacation policy',
+        'The vacation policy gives every employee 25 days of paid leave.',
+        'Quarterly revenue grew due to strong hardware sales.',
+      ]);
+
+      expect(cosineSimilarity(query!, related!)).toBeGreaterThan(cosineSimilarity(query!, unrelated!));
+    });
+
+    it('should return a zero vector for text without tokens', async () => {
+      const [vector] = await embedder.embed(['   ...   ']);
+
+      expect(vector!.every(value => value === 0)).toBe(true);
+    });
+
+    it('should reject invalid dimensions', () => {
+      expect(() => new HashingEmbedder(0)).toThrow('Embedding dimensions must be a positive integer');
+    });
+  });
+
+  describe('createEmbedder', () => {
+    it('should create the hashing embedder', () => {
+      expect(createEmbedder('hashing')).toBeInstanceOf(HashingEmbedder);
+    });
+
+    it('should throw for unknown providers', () => {
+      expect(() => createEmbedder('unknown')).toThrow('Unknown embedding provider: unknown');
+    });
+  });
+
+  describe('cosineSimilarity', () => {
+    it('should compute similarity of vectors', () => {
+      expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+      expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    });
+
+    it('should reject vectors of different lengths', () => {
+      expect(() => cosineSimilarity([1], [1, 2])).toThrow('Vectors must have the same length');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should lowercase and split on non-word characters', () => {
+      expect(tokenize('Hello, World! Café 2024')).toEqual(['hello', 'world', 'café', '2024']);
+    });
+  });
+});
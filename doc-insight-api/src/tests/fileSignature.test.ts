@@ -0,0 +1,69 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { detectFileType, verifyFileType } from '../utils/fileSignature';
+import { zip } from './zipBuilder';
+import { ole } from './oleBuilder';
+
+const EXECUTABLE = Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00, 0x00, 0x00, 0x04, 0x00]); // MZ header
+
+describe('fileSignature', () => {
+  let directory: string;
+
+  const storeFile = (content: string | Buffer) => {
+    const filePath = path.join(directory, `file-${fs.readdirSync(directory).length}`);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'file-signature-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('detectFileType', () => {
+    it('should recognise documents by their content', async () => {
+      expect(await detectFileType(storeFile('%PDF-1.7\n%âãÏÓ\n'))).toBe('pdf');
+      expect(await detectFileType(storeFile(ole(['WordDocument', '1Table'])))).toBe('doc');
+      expect(await detectFileType(storeFile(zip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': '<w:document/>' }))))
+        .toBe('docx');
+      expect(await detectFileType(storeFile('# Übersicht\r\n\tZeile mit Umlauten\n'))).toBe('text');
+    });
+
+    it('should not recognise executables, other archives or binary data', async () => {
+      expect(await detectFileType(storeFile(EXECUTABLE))).toBeNull();
+      expect(await detectFileType(storeFile(zip({ 'xl/workbook.xml': '<workbook/>' })))).toBeNull();
+      expect(await detectFileType(storeFile(Buffer.from([0x68, 0x69, 0xff, 0xfe])))).toBeNull(); // invalid UTF-8
+      expect(await detectFileType(storeFile('text with a NUL \u0000 byte'))).toBeNull();
+    });
+
+    it('should only recognise OLE files with a Word document stream as Word 97-2003', async () => {
+      // A directory spanning two sectors, with the Word stream in the second
+      expect(await detectFileType(storeFile(ole(['\u0001CompObj', '1Table', 'Data', 'ObjectPool', 'WordDocument']))))
+        .toBe('doc');
+      expect(await detectFileType(storeFile(ole(['Workbook', '\u0005SummaryInformation'])))).toBeNull(); // .xls
+      expect(await detectFileType(storeFile(ole(['PowerPoint Document', 'Current User'])))).toBeNull(); // .ppt
+      expect(await detectFileType(storeFile(ole(['\u0005SummaryInformation'])))).toBeNull(); // .msi
+      expect(await detectFileType(storeFile(ole(['WordDocument']).subarray(0, 100)))).toBeNull(); // truncated
+    });
+  });
+
+  describe('verifyFileType', () => {
+    it('should return the MIME type to store for content matching the file name', async () => {
+      expect(await verifyFileType(storeFile('%PDF-1.4'), 'manual.pdf', 'application/pdf'))
+        .toEqual({ type: 'pdf', mimeType: 'application/pdf' });
+      expect(await verifyFileType(storeFile('# Notes'), 'notes.md', 'text/plain'))
+        .toEqual({ type: 'text', mimeType: 'text/markdown' });
+    });
+
+    it('should reject a renamed executable and content of another declared type', async () => {
+      expect(await verifyFileType(storeFile(EXECUTABLE), 'invoice.pdf', 'application/pdf')).toBeNull();
+      expect(await verifyFileType(storeFile('plain text'), 'manual.pdf', 'application/pdf')).toBeNull();
+      expect(await verifyFileType(storeFile('%PDF-1.4'), 'manual.pdf', 'text/plain')).toBeNull();
+      expect(await verifyFileType(storeFile(ole(['Workbook'])), 'budget.doc', 'application/msword')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { Stats } from 'fs';
+import {
+  parseRangeHeader,
+  buildETag,
+  isETagFresh,
+  isIfRangeFresh,
+  buildContentDisposition,
+} from '../utils/fileStreaming';
+
+describe('File streaming utilities', () => {
+  describe('parseRangeHeader', () => {
+    it('should return null when no range is requested', () => {
+      expect(parseRangeHeader(undefined, 100)).toBeNull();
+    });
+
+    it('should parse a closed byte range', () => {
+      expect(parseRangeHeader('bytes=0-49', 100)).toEqual({ start: 0, end: 49 });
+    });
+
+    it('should parse an open-ended byte range', () => {
+      expect(parseRangeHeader('bytes=50-', 100)).toEqual({ start: 50, end: 99 });
+    });
+
+    it('should parse a suffix byte range', () => {
+      expect(parseRangeHeader('bytes=-10', 100)).toEqual({ start: 90, end: 99 });
+    });
+
+    it('should clamp the end of the range to the file size', () => {
+      expect(parseRangeHeader('bytes=90-500', 100)).toEqual({ start: 90, end: 99 });
+    });
+
+    it('should report ranges starting past the end as unsatisfiable', () => {
+      expect(parseRangeHeader('bytes=100-', 100)).toBe('unsatisfiable');
+      expect(parseRangeHeader('bytes=60-50', 100)).toBe('unsatisfiable');
+    });
+
+    it('should ignore malformed and multi-part ranges', () => {
+      expect(parseRangeHeader('items=0-5', 100)).toBeNull();
+      expect(parseRangeHeader('bytes=0-5,10-15', 100)).toBeNull();
+      expect(parseRangeHeader('bytes=-', 100)).toBeNull();
+    });
+  });
+
+  describe('buildETag', () => {
+    it('should change when the file changes', () => {
+      const original = buildETag({ size: 100, mtimeMs: 1000 } as Stats);
+      const modified = buildETag({ size: 100, mtimeMs: 2000 } as Stats);
+
+      expect(original).toMatch(/^W\/".+"$/);
+      expect(original).not.toBe(modified);
+    });
+
+    it('should be strong when the content hash is known', () => {
+      const hash = 'ab'.repeat(32);
+
+      expect(buildETag({ size: 100, mtimeMs: 1000 } as Stats, hash)).toBe(`"64-3e8-${'ab'.repeat(8)}"`);
+      expect(buildETag({ size: 100, mtimeMs: 1000 } as Stats, null)).toBe('W/"64-3e8"');
+    });
+  });
+
+  describe('isETagFresh', () => {
+    const etag = 'W/"64-3e8"';
+
+    it('should match weak and strong forms of the same tag', () => {
+      expect(isETagFresh('W/"64-3e8"', etag)).toBe(true);
+      expect(isETagFresh('"64-3e8"', etag)).toBe(true);
+      expect(isETagFresh('"other", W/"64-3e8"', etag)).toBe(true);
+      expect(isETagFresh('*', etag)).toBe(true);
+    });
+
+    it('should not match a different or missing tag', () => {
+      expect(isETagFresh('"other"', etag)).toBe(false);
+      expect(isETagFresh(undefined, etag)).toBe(false);
+    });
+  });
+
+  describe('isIfRangeFresh', () => {
+    const etag = '"64-3e8-abababababababab"';
+
+    it('should allow the range without If-Range or when it matches strongly', () => {
+      expect(isIfRangeFresh(undefined, etag)).toBe(true);
+      expect(isIfRangeFresh(etag, etag)).toBe(true);
+    });
+
+    it('should refuse the range for a different tag or any weak tag', () => {
+      expect(isIfRangeFresh('"other"', etag)).toBe(false);
+      expect(isIfRangeFresh(`W/${etag}`, etag)).toBe(false);
+      expect(isIfRangeFresh('W/"64-3e8"', 'W/"64-3e8"')).toBe(false);
+    });
+  });
+
+  describe('buildContentDisposition', () => {
+    it('should include an ASCII fallback and an encoded file name', () => {
+      const header = buildContentDisposition('résumé "final".pdf');
+
+      expect(header).toBe(
+        'attachment; filename="r_sum_ _final_.pdf"; filename*=UTF-8\'\'r%C3%A9sum%C3%A9%20%22final%22.pdf'
+      );
+    });
+
+    it('should support inline disposition', () => {
+      expect(buildContentDisposition('report.pdf', 'inline')).toMatch(/^inline; /);
+    });
+  });
+});
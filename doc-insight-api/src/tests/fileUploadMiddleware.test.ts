@@ -0,0 +1,105 @@
+import express, { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import fs from 'fs';
+import { multiFileUploadMiddleware } from '../middleware/fileUploadMiddleware';
+import { CustomError } from '../middleware/errorHandler';
+import config from '../config';
+
+jest.mock('../utils/logger');
+jest.mock('../config', () => ({
+  __esModule: true,
+  default: {
+    nodeEnv: 'test',
+    maxFileSize: 16,
+    uploadPath: require('path').join(require('os').tmpdir(), `doc-insight-upload-test-${process.pid}`),
+    allowedFileTypes: ['pdf', 'txt', 'md'],
+    maxFilesPerUpload: 3,
+  },
+}));
+
+// form-data keeps a folder path in the filename with its filepath option, which supertest's typings lack
+const inFolder = (filepath: string, contentType: string) => ({ filepath, contentType }) as { contentType: string };
+
+/**
+ * App that runs the multi-file upload chain and answers with what reached the route
+ */
+function createApp() {
+  const app = express();
+  app.post('/upload', multiFileUploadMiddleware, (req: Request, res: Response) => {
+    const files = req.files as Express.Multer.File[];
+    res.json({
+      files: files.map(file => ({ index: file.uploadIndex, name: file.originalname, size: file.size, hash: file.contentHash })),
+      rejected: req.rejectedUploads,
+    });
+  });
+  app.use((error: CustomError, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(error.statusCode || 500).json({ code: error.code, message: error.message });
+  });
+  return app;
+}
+
+describe('multiFileUploadMiddleware', () => {
+  afterAll(() => {
+    fs.rmSync(config.uploadPath, { recursive: true, force: true });
+  });
+
+  it('should accept valid files and report invalid ones without failing the request', async () => {
+    const response = await request(createApp())
+      .post('/upload')
+      .attach('files', Buffer.from('first'), { filename: 'notes.txt', contentType: 'text/plain' })
+      .attach('files', Buffer.from('binary'), { filename: 'tool.exe', contentType: 'application/octet-stream' })
+      .attach('files', Buffer.from('x'.repeat(32)), { filename: 'large.txt', contentType: 'text/plain' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.files).toEqual([
+      { index: 0, name: 'notes.txt', size: 5, hash: expect.stringMatching(/^[0-9a-f]{64}$/) },
+    ]);
+    expect(response.body.rejected).toEqual([
+      { index: 1, file_name: 'tool.exe', error: expect.stringContaining('File type not allowed'), code: 'INVALID_FILE_TYPE' },
+      { index: 2, file_name: 'large.txt', error: expect.stringContaining('File too large'), code: 'FILE_TOO_LARGE' },
+    ]);
+  });
+
+  it('should reject files whose content is not their declared type', async () => {
+    const response = await request(createApp())
+      .post('/upload')
+      .attach('files', Buffer.from('%PDF-1.4\n'), { filename: 'manual.pdf', contentType: 'application/pdf' })
+      .attach('files', Buffer.from([0x4d, 0x5a, 0x90, 0x00]), { filename: 'invoice.pdf', contentType: 'application/pdf' });
+
+    expect(response.body.files.map((file: any) => file.name)).toEqual(['manual.pdf']);
+    expect(response.body.rejected).toEqual([
+      { index: 1, file_name: 'invoice.pdf', error: 'File content does not match its file type', code: 'INVALID_MIME_TYPE' },
+    ]);
+  });
+
+  it('should keep folder paths but reject paths leaving the folder', async () => {
+    const response = await request(createApp())
+      .post('/upload')
+      .attach('files', Buffer.from('policy'), inFolder('handbook/hr/policy.md', 'text/markdown'))
+      .attach('files', Buffer.from('escape'), inFolder('handbook/../../secret.txt', 'text/plain'));
+
+    expect(response.body.files.map((file: any) => file.name)).toEqual(['handbook/hr/policy.md']);
+    expect(response.body.rejected).toEqual([expect.objectContaining({ index: 1, code: 'INVALID_FILENAME' })]);
+  });
+
+  it('should reject a request with more files than allowed', async () => {
+    let upload = request(createApp()).post('/upload');
+    for (let i = 0; i < 4; i++) {
+      upload = upload.attach('files', Buffer.from(`file ${i}`), { filename: `file-${i}.txt`, contentType: 'text/plain' });
+    }
+
+    const response = await upload;
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ code: 'TOO_MANY_FILES', message: 'Too many files. Maximum 3 files per request' });
+  });
+
+  it('should reject a request without files', async () => {
+    const response = await request(createApp())
+      .post('/upload')
+      .field('description', 'nothing attached');
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('NO_FILE');
+  });
+});
@@ -0,0 +1,66 @@
+import { HybridSearchService, reciprocalRankFusion } from '../services/hybridSearchService';
+import { DocumentService } from '../services/documentService';
+import { ChunkStoreService } from '../services/chunkStoreService';
+import { RetrievedChunk } from '../types';
+
+jest.mock('../utils/logger');
+
+describe('reciprocalRankFusion', () => {
+  it('should rank ids found by both rankings above ids found by one', () => {
+    const fused = reciprocalRankFusion([['a', 'b', 'c'], ['c', 'd']], 60);
+
+    expect(fused.map(entry => entry.id)).toEqual(['c', 'a', 'b', 'd']);
+    expect(fused[0]).toEqual({ id: 'c', score: 1 / 63 + 1 / 61, ranks: [3, 1] });
+    expect(fused[3]!.ranks).toEqual([undefined, 2]);
+  });
+
+  it('should break ties by the best single rank', () => {
+    const fused = reciprocalRankFusion([['a', 'b'], ['b', 'a']], 60);
+
+    expect(fused[0]!.score).toBeCloseTo(fused[1]!.score);
+    expect(fused.map(entry => entry.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('HybridSearchService.search', () => {
+  const makeChunk = (documentId: string, chunkId: string, relevance: number): RetrievedChunk => ({
+    chunk_id: chunkId,
+    document_id: documentId,
+    document_title: `Title ${documentId}`,
+    file_name: `${documentId}.pdf`,
+    chunk_index: 0,
+    content: `Content of ${chunkId}`,
+    page_number: 1,
+    document_version: 1,
+    relevance,
+  });
+
+  it('should group chunk hits by document and fuse them with keyword results', async () => {
+    const chunkStoreService = {
+      findRelevantChunks: jest.fn().mockResolvedValue([
+        makeChunk('doc-1', 'c1', 0.9),
+        makeChunk('doc-2', 'c2', 0.8),
+        makeChunk('doc-1', 'c3', 0.7),
+        makeChunk('doc-3', 'c4', 0),
+      ]),
+    } as unknown as ChunkStoreService;
+    const documentService = {
+      searchDocuments: jest.fn().mockResolvedValue({
+        data: [
+          { id: 'doc-2', title: 'Keyword title', file_name: 'doc-2.pdf', snippet: '<mark>budget</mark>' },
+          { id: 'doc-4', title: 'Only keywords', file_name: 'doc-4.txt', snippet: 'budget' },
+        ],
+        pagination: { page: 1, limit: 50, total: 2, total_pages: 1 },
+      }),
+    } as unknown as DocumentService;
+
+    const service = new HybridSearchService(documentService, chunkStoreService);
+    const results = await service.search('budget', 'user-1', 'viewer', { limit: 10, chunks_per_document: 1 });
+
+    expect(results.map(result => result.document_id)).toEqual(['doc-2', 'doc-1', 'doc-4']);
+    expect(results[0]).toMatchObject({ semantic_rank: 2, keyword_rank: 1, snippet: '<mark>budget</mark>', title: 'Keyword title' });
+    expect(results[1]!.chunks.map(chunk => chunk.chunk_id)).toEqual(['c1']);
+    expect(results[1]).toMatchObject({ keyword_rank: null, snippet: null, title: 'Title doc-1' });
+    expect(results[2]!.chunks).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { EventEmitter } from 'events';
+import { IngestionEventService, IngestionJobEventSubscriber } from '../services/ingestionEventService';
+import { getDatabase } from '../database/connection';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+const event = {
+  job_id: 'job-1',
+  document_id: 'doc-1',
+  owner_id: 'user-1',
+  status: 'processing',
+  progress: { step: 'extracting_text', percentage: 30 },
+  error_message: null,
+  retry_count: 0,
+  next_attempt_at: null,
+  updated_at: '2024-01-01T00:00:00.000Z',
+};
+
+describe('IngestionEventService', () => {
+  let connection: EventEmitter & { query: jest.Mock };
+  let db: jest.Mock & { raw: jest.Mock; client: { acquireConnection: jest.Mock; releaseConnection: jest.Mock } };
+  let query: { join: jest.Mock; whereIn: jest.Mock; select: jest.Mock };
+  let service: IngestionEventService;
+
+  const subscriber = (): jest.Mocked<IngestionJobEventSubscriber> => ({
+    onEvent: jest.fn(),
+    onClose: jest.fn(),
+  });
+
+  const notify = (payload: object) => {
+    connection.emit('notification', { channel: 'ingestion_job_events', payload: JSON.stringify(payload) });
+  };
+
+  beforeEach(() => {
+    connection = Object.assign(new EventEmitter(), { query: jest.fn().mockResolvedValue({}) });
+    query = {
+      join: jest.fn(() => query),
+      whereIn: jest.fn(() => query),
+      select: jest.fn().mockResolvedValue([]),
+    };
+    db = Object.assign(jest.fn(() => query), {
+      raw: jest.fn((sql: string, bindings: any[]) => ({ sql, bindings })),
+      client: {
+        acquireConnection: jest.fn().mockResolvedValue(connection),
+        releaseConnection: jest.fn(),
+      },
+    });
+    mockedGetDatabase.mockReturnValue(db as any);
+    service = new IngestionEventService();
+  });
+
+  it('should publish the current state of the changed jobs', async () => {
+    await service.publishJobChange(['job-1', 'job-2']);
+
+    expect(query.whereIn).toHaveBeenCalledWith('j.id', ['job-1', 'job-2']);
+    expect(query.select).toHaveBeenCalledWith({
+      sql: expect.stringContaining('pg_notify'),
+      bindings: ['ingestion_job_events'],
+    });
+  });
+
+  it('should not fail the caller when publishing fails', async () => {
+    query.select.mockRejectedValue(new Error('connection reset'));
+
+    await expect(service.publishJobChange('job-1')).resolves.toBeUndefined();
+  });
+
+  it('should share one listening connection between subscribers and fan events out', async () => {
+    const first = subscriber();
+    const second = subscriber();
+
+    await service.subscribe(first);
+    await service.subscribe(second);
+    notify(event);
+
+    expect(db.client.acquireConnection).toHaveBeenCalledTimes(1);
+    expect(connection.query).toHaveBeenCalledWith('LISTEN ingestion_job_events');
+    expect(first.onEvent).toHaveBeenCalledWith(event);
+    expect(second.onEvent).toHaveBeenCalledWith(event);
+  });
+
+  it('should release the connection once the last subscriber leaves', async () => {
+    const first = subscriber();
+    const unsubscribeFirst = await service.subscribe(first);
+    const unsubscribeSecond = await service.subscribe(subscriber());
+
+    unsubscribeFirst();
+    notify(event);
+    expect(first.onEvent).not.toHaveBeenCalled();
+    expect(db.client.releaseConnection).not.toHaveBeenCalled();
+
+    unsubscribeSecond();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(connection.query).toHaveBeenCalledWith('UNLISTEN ingestion_job_events');
+    expect(db.client.releaseConnection).toHaveBeenCalledWith(connection);
+    expect(service.getSubscriberCount()).toBe(0);
+  });
+
+  it('should reject subscribers when it cannot listen', async () => {
+    db.client.acquireConnection.mockRejectedValue(new Error('pool exhausted'));
+
+    await expect(service.subscribe(subscriber())).rejects.toMatchObject({ statusCode: 503 });
+    expect(service.getSubscriberCount()).toBe(0);
+  });
+
+  it('should end every subscription when closed', async () => {
+    const first = subscriber();
+    await service.subscribe(first);
+
+    await service.close();
+
+    expect(first.onClose).toHaveBeenCalled();
+    expect(db.client.releaseConnection).toHaveBeenCalledWith(connection);
+  });
+});
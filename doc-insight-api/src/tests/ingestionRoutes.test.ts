@@ -1,19 +1,24 @@
 import request from 'supertest';
 import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
 import ingestionRoutes from '../routes/ingestionRoutes';
-import { MockIngestionService } from '../services/mockIngestionService';
 import { IngestionService } from '../services/ingestionService';
+import { ingestionEvents } from '../services/ingestionEventService';
+import { captureRawBody } from '../middleware/webhookMiddleware';
+import { signWebhookPayload } from '../utils/webhookSignature';
+import config from '../config';
+import { CustomError, errorHandler } from '../middleware/errorHandler';
+import { IngestionJobResponse } from '../types';
 
 // Mock dependencies
 jest.mock('../services/ingestionService');
-jest.mock('../services/mockIngestionService');
 jest.mock('../utils/logger');
 
-const mockIngestionService = MockIngestionService as jest.MockedClass<typeof MockIngestionService>;
-const mockRealIngestionService = IngestionService as jest.MockedClass<typeof IngestionService>;
+const mockIngestionService = IngestionService as jest.MockedClass<typeof IngestionService>;
 
 // Mock authentication middleware
-const mockAuthenticateToken = jest.fn((req: any, res: any, next: any) => {
+const mockAuthenticateToken = jest.fn((req: any, _res: any, next: any) => {
   req.user = { user_id: 'user-123', email: 'test@example.com', role: 'editor' };
   next();
 });
@@ -34,20 +39,45 @@ const mockRequireAdmin = jest.fn((req: any, res: any, next: any) => {
   }
 });
 
-// Mock the middleware
+// Mock the middleware; jest.mock is hoisted above the mocks, so they are looked up when called
 jest.mock('../middleware/authMiddleware', () => ({
-  authenticateToken: mockAuthenticateToken,
-  requireEditor: mockRequireEditor,
-  requireAdmin: mockRequireAdmin,
+  authenticateToken: (req: any, res: any, next: any) => mockAuthenticateToken(req, res, next),
+  requireEditor: (req: any, res: any, next: any) => mockRequireEditor(req, res, next),
+  requireAdmin: (req: any, res: any, next: any) => mockRequireAdmin(req, res, next),
 }));
 
 // Create test app
 const app = express();
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 app.use('/api/ingestion', ingestionRoutes);
+app.use(errorHandler);
+
+// Dates in a response body are ISO strings
+const asJson = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+const JOB_ID = '7c9e6679-7425-40de-944b-e07fc1f99a4c';
+const DOCUMENT_ID = '9b2d3c4e-5f60-4718-8a9b-0c1d2e3f4a5b';
+
+const mockBatch = {
+  id: '3f2b8a1e-6c4d-4e5f-9a7b-1c2d3e4f5a6b',
+  status: 'processing' as const,
+  total_jobs: 10,
+  counts: { queued: 4, running: 2, done: 3, failed: 1, cancelled: 0 },
+  progress: 50,
+  created_by: 'admin-123',
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const asAdmin = () => {
+  mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
+    req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
+    next();
+  });
+};
 
 describe('Ingestion Routes', () => {
-  let mockServiceInstance: jest.Mocked<MockIngestionService>;
+  let mockServiceInstance: jest.Mocked<IngestionService>;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -55,12 +85,17 @@ describe('Ingestion Routes', () => {
     mockServiceInstance = {
       triggerIngestion: jest.fn(),
       getIngestionStatus: jest.fn(),
+      getJobHistory: jest.fn(),
+      getJobTimeline: jest.fn(),
+      triggerBatch: jest.fn(),
+      getBatch: jest.fn(),
+      cancelBatch: jest.fn(),
+      retryBatch: jest.fn(),
       getUserIngestionJobs: jest.fn(),
       getAllIngestionJobs: jest.fn(),
       retryJob: jest.fn(),
+      cancelJob: jest.fn(),
       updateJobStatus: jest.fn(),
-      clearAllJobs: jest.fn(),
-      getJobCount: jest.fn(),
     } as any;
     
     mockIngestionService.mockImplementation(() => mockServiceInstance);
@@ -72,14 +107,15 @@ describe('Ingestion Routes', () => {
 
   describe('POST /api/ingestion/trigger', () => {
     const validRequest = {
-      document_id: 'doc-123',
+      document_id: DOCUMENT_ID,
     };
 
     it('should trigger ingestion successfully (editor)', async () => {
-      const mockJob = {
-        id: 'job-123',
-        document_id: 'doc-123',
+      const mockJob: IngestionJobResponse = {
+        id: JOB_ID,
+        document_id: DOCUMENT_ID,
         status: 'queued',
+        priority: 'normal',
         retry_count: 0,
         created_at: new Date(),
         updated_at: new Date(),
@@ -94,23 +130,24 @@ describe('Ingestion Routes', () => {
 
       expect(response.body).toEqual({
         success: true,
-        data: mockJob,
+        data: asJson(mockJob),
         message: 'Ingestion process triggered successfully',
         timestamp: expect.any(String),
       });
-      expect(mockServiceInstance.triggerIngestion).toHaveBeenCalledWith('user-123', validRequest);
+      expect(mockServiceInstance.triggerIngestion).toHaveBeenCalledWith('user-123', validRequest, 'editor');
     });
 
     it('should trigger ingestion successfully (admin)', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
         next();
       });
 
-      const mockJob = {
+      const mockJob: IngestionJobResponse = {
         id: 'job-456',
-        document_id: 'doc-123',
+        document_id: DOCUMENT_ID,
         status: 'queued',
+        priority: 'normal',
         retry_count: 0,
         created_at: new Date(),
         updated_at: new Date(),
@@ -128,12 +165,12 @@ describe('Ingestion Routes', () => {
     });
 
     it('should return 403 for viewer role', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'user-123', email: 'test@example.com', role: 'viewer' };
         next();
       });
 
-      mockRequireEditor.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockRequireEditor.mockImplementationOnce((_req: any, res: any, _next: any) => {
         res.status(403).json({ success: false, error: 'Insufficient permissions' });
       });
 
@@ -148,6 +185,16 @@ describe('Ingestion Routes', () => {
       });
     });
 
+    it('should return 400 for an unknown priority', async () => {
+      const response = await request(app)
+        .post('/api/ingestion/trigger')
+        .send({ ...validRequest, priority: 'immediate' })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(mockServiceInstance.triggerIngestion).not.toHaveBeenCalled();
+    });
+
     it('should return 400 for invalid request data', async () => {
       const invalidRequest = {};
 
@@ -175,11 +222,12 @@ describe('Ingestion Routes', () => {
 
   describe('GET /api/ingestion/status/:jobId', () => {
     it('should get job status successfully', async () => {
-      const mockJob = {
-        id: 'job-123',
-        document_id: 'doc-123',
+      const mockJob: IngestionJobResponse = {
+        id: JOB_ID,
+        document_id: DOCUMENT_ID,
         status: 'processing',
         progress: { step: 'extracting_text', percentage: 50 },
+        priority: 'normal',
         retry_count: 0,
         created_at: new Date(),
         updated_at: new Date(),
@@ -188,23 +236,25 @@ describe('Ingestion Routes', () => {
       mockServiceInstance.getIngestionStatus.mockResolvedValue(mockJob);
 
       const response = await request(app)
-        .get('/api/ingestion/status/job-123')
+        .get(`/api/ingestion/status/${JOB_ID}`)
         .expect(200);
 
       expect(response.body).toEqual({
         success: true,
-        data: mockJob,
+        data: asJson(mockJob),
         timestamp: expect.any(String),
       });
-      expect(mockServiceInstance.getIngestionStatus).toHaveBeenCalledWith('job-123', 'user-123', 'editor');
+      expect(mockServiceInstance.getIngestionStatus).toHaveBeenCalledWith(JOB_ID, 'user-123', 'editor');
     });
 
     it('should return 404 for non-existent job', async () => {
-      mockServiceInstance.getIngestionStatus.mockRejectedValue(new Error('Ingestion job not found'));
+      mockServiceInstance.getIngestionStatus.mockRejectedValue(
+        new CustomError('Ingestion job not found', 404, 'INGESTION_JOB_NOT_FOUND')
+      );
 
       const response = await request(app)
-        .get('/api/ingestion/status/nonexistent')
-        .expect(500);
+        .get(`/api/ingestion/status/${JOB_ID}`)
+        .expect(404);
 
       expect(response.body.success).toBe(false);
       expect(response.body.error).toBe('Ingestion job not found');
@@ -220,13 +270,103 @@ describe('Ingestion Routes', () => {
     });
   });
 
+  describe('GET /api/ingestion/status/:jobId/history', () => {
+    it('should get the job\'s transitions', async () => {
+      const mockHistory = [
+        {
+          id: 'event-1',
+          job_id: JOB_ID,
+          from_status: null,
+          to_status: 'queued',
+          source: 'api',
+          actor_id: 'user-123',
+          message: null,
+          created_at: new Date(),
+        },
+      ];
+
+      mockServiceInstance.getJobHistory.mockResolvedValue(mockHistory as any);
+
+      const response = await request(app)
+        .get(`/api/ingestion/status/${JOB_ID}/history`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(mockServiceInstance.getJobHistory).toHaveBeenCalledWith(JOB_ID, 'user-123', 'editor');
+    });
+  });
+
+  describe('GET /api/ingestion/status/:jobId/timeline', () => {
+    it('should get the job\'s step timings', async () => {
+      const mockTimeline = {
+        job_id: JOB_ID,
+        status: 'completed',
+        created_at: new Date(),
+        completed_at: new Date(),
+        duration_ms: 3000,
+        steps: [
+          {
+            attempt: 1,
+            step: 'extracting_text',
+            status: 'completed',
+            message: null,
+            started_at: new Date(),
+            ended_at: new Date(),
+            duration_ms: 3000,
+          },
+        ],
+      };
+
+      mockServiceInstance.getJobTimeline.mockResolvedValue(mockTimeline as any);
+
+      const response = await request(app)
+        .get(`/api/ingestion/status/${JOB_ID}/timeline`)
+        .expect(200);
+
+      expect(response.body.data.steps).toHaveLength(1);
+      expect(mockServiceInstance.getJobTimeline).toHaveBeenCalledWith(JOB_ID, 'user-123', 'editor');
+    });
+  });
+
+  describe('GET /api/ingestion/events', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should unsubscribe a client that leaves while the stream is being set up', async () => {
+      const server = app.listen(0);
+      try {
+        const requestClosed = new Promise<void>(resolve => {
+          server.on('request', (req: http.IncomingMessage) => req.on('close', () => resolve()));
+        });
+        const unsubscribed = new Promise<void>(resolve => {
+          jest.spyOn(ingestionEvents, 'subscribe').mockImplementation(async () => {
+            // The client leaves before the subscription is in place
+            clientRequest.destroy();
+            await requestClosed;
+            return () => resolve();
+          });
+        });
+
+        const { port } = server.address() as AddressInfo;
+        const clientRequest = http.get(`http://127.0.0.1:${port}/api/ingestion/events`);
+        clientRequest.on('error', () => undefined);
+
+        await unsubscribed;
+      } finally {
+        server.close();
+      }
+    });
+  });
+
   describe('GET /api/ingestion/jobs', () => {
     it('should get user jobs successfully', async () => {
-      const mockJobs = [
+      const mockJobs: IngestionJobResponse[] = [
         {
           id: 'job-1',
           document_id: 'doc-1',
           status: 'completed',
+          priority: 'normal',
           retry_count: 0,
           created_at: new Date(),
           updated_at: new Date(),
@@ -235,6 +375,7 @@ describe('Ingestion Routes', () => {
           id: 'job-2',
           document_id: 'doc-2',
           status: 'processing',
+          priority: 'normal',
           retry_count: 0,
           created_at: new Date(),
           updated_at: new Date(),
@@ -255,7 +396,7 @@ describe('Ingestion Routes', () => {
 
       expect(response.body).toEqual({
         success: true,
-        data: mockJobs,
+        data: asJson(mockJobs),
         pagination: {
           page: 1,
           limit: 20,
@@ -281,16 +422,17 @@ describe('Ingestion Routes', () => {
 
   describe('GET /api/ingestion/jobs/all', () => {
     it('should get all jobs successfully (admin)', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
         next();
       });
 
-      const mockJobs = [
+      const mockJobs: IngestionJobResponse[] = [
         {
           id: 'job-1',
           document_id: 'doc-1',
           status: 'completed',
+          priority: 'normal',
           retry_count: 0,
           created_at: new Date(),
           updated_at: new Date(),
@@ -310,12 +452,12 @@ describe('Ingestion Routes', () => {
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data).toEqual(mockJobs);
+      expect(response.body.data).toEqual(asJson(mockJobs));
       expect(mockServiceInstance.getAllIngestionJobs).toHaveBeenCalledWith(1, 20, undefined);
     });
 
     it('should return 403 for non-admin user', async () => {
-      mockRequireAdmin.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockRequireAdmin.mockImplementationOnce((_req: any, res: any, _next: any) => {
         res.status(403).json({ success: false, error: 'Insufficient permissions' });
       });
 
@@ -330,7 +472,7 @@ describe('Ingestion Routes', () => {
     });
 
     it('should handle status filter', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
         next();
       });
@@ -348,10 +490,11 @@ describe('Ingestion Routes', () => {
 
   describe('POST /api/ingestion/jobs/:jobId/retry', () => {
     it('should retry job successfully', async () => {
-      const mockUpdatedJob = {
-        id: 'job-123',
-        document_id: 'doc-123',
+      const mockUpdatedJob: IngestionJobResponse = {
+        id: JOB_ID,
+        document_id: DOCUMENT_ID,
         status: 'queued',
+        priority: 'normal',
         retry_count: 1,
         created_at: new Date(),
         updated_at: new Date(),
@@ -360,16 +503,16 @@ describe('Ingestion Routes', () => {
       mockServiceInstance.retryJob.mockResolvedValue(mockUpdatedJob);
 
       const response = await request(app)
-        .post('/api/ingestion/jobs/job-123/retry')
+        .post(`/api/ingestion/jobs/${JOB_ID}/retry`)
         .expect(200);
 
       expect(response.body).toEqual({
         success: true,
-        data: mockUpdatedJob,
+        data: asJson(mockUpdatedJob),
         message: 'Ingestion job retried successfully',
         timestamp: expect.any(String),
       });
-      expect(mockServiceInstance.retryJob).toHaveBeenCalledWith('job-123', 'user-123', 'editor');
+      expect(mockServiceInstance.retryJob).toHaveBeenCalledWith(JOB_ID, 'user-123', 'editor');
     });
 
     it('should return 400 for invalid job ID format', async () => {
@@ -385,7 +528,56 @@ describe('Ingestion Routes', () => {
       mockServiceInstance.retryJob.mockRejectedValue(new Error('Job not found'));
 
       const response = await request(app)
-        .post('/api/ingestion/jobs/job-123/retry')
+        .post(`/api/ingestion/jobs/${JOB_ID}/retry`)
+        .expect(500);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Job not found');
+    });
+  });
+
+  describe('POST /api/ingestion/jobs/:jobId/cancel', () => {
+    it('should cancel job successfully', async () => {
+      const mockCancelledJob: IngestionJobResponse = {
+        id: JOB_ID,
+        document_id: DOCUMENT_ID,
+        status: 'cancelled',
+        priority: 'normal',
+        retry_count: 0,
+        cancelled_by: 'user-123',
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+
+      mockServiceInstance.cancelJob.mockResolvedValue(mockCancelledJob);
+
+      const response = await request(app)
+        .post(`/api/ingestion/jobs/${JOB_ID}/cancel`)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        data: asJson(mockCancelledJob),
+        message: 'Ingestion job cancelled successfully',
+        timestamp: expect.any(String),
+      });
+      expect(mockServiceInstance.cancelJob).toHaveBeenCalledWith(JOB_ID, 'user-123', 'editor');
+    });
+
+    it('should return 400 for invalid job ID format', async () => {
+      const response = await request(app)
+        .post('/api/ingestion/jobs/invalid-id/cancel')
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBeDefined();
+    });
+
+    it('should return 500 for service error', async () => {
+      mockServiceInstance.cancelJob.mockRejectedValue(new Error('Job not found'));
+
+      const response = await request(app)
+        .post(`/api/ingestion/jobs/${JOB_ID}/cancel`)
         .expect(500);
 
       expect(response.body.success).toBe(false);
@@ -394,20 +586,27 @@ describe('Ingestion Routes', () => {
   });
 
   describe('POST /api/ingestion/webhook/status-update', () => {
-    it('should update job status successfully (with mock service)', async () => {
+    const postSigned = (payload: object) => {
+      const body = JSON.stringify(payload);
+      return request(app)
+        .post('/api/ingestion/webhook/status-update')
+        .set('Content-Type', 'application/json')
+        .set('X-Webhook-Signature', signWebhookPayload(body, 'webhook-secret'))
+        .send(body);
+    };
+
+    beforeEach(() => {
+      config.ingestionWebhookSecret = 'webhook-secret';
+    });
+
+    it('should update job status successfully', async () => {
       mockServiceInstance.updateJobStatus.mockResolvedValue(undefined);
 
-      const webhookData = {
-        job_id: 'job-123',
+      const response = await postSigned({
+        job_id: JOB_ID,
         status: 'completed',
         progress: { step: 'completed', percentage: 100 },
-        api_key: 'test-key',
-      };
-
-      const response = await request(app)
-        .post('/api/ingestion/webhook/status-update')
-        .send(webhookData)
-        .expect(200);
+      }).expect(200);
 
       expect(response.body).toEqual({
         success: true,
@@ -415,18 +614,24 @@ describe('Ingestion Routes', () => {
         timestamp: expect.any(String),
       });
       expect(mockServiceInstance.updateJobStatus).toHaveBeenCalledWith(
-        'job-123',
+        JOB_ID,
         'completed',
         { step: 'completed', percentage: 100 },
         undefined
       );
     });
 
-    it('should return 400 for missing required fields', async () => {
-      const response = await request(app)
+    it('should reject unsigned calls', async () => {
+      await request(app)
         .post('/api/ingestion/webhook/status-update')
-        .send({})
-        .expect(400);
+        .send({ job_id: JOB_ID, status: 'completed', api_key: 'test-key' })
+        .expect(401);
+
+      expect(mockServiceInstance.updateJobStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for missing required fields', async () => {
+      const response = await postSigned({}).expect(400);
 
       expect(response.body).toEqual({
         success: false,
@@ -435,18 +640,24 @@ describe('Ingestion Routes', () => {
       });
     });
 
+    it('should reject invalid status transitions', async () => {
+      mockServiceInstance.updateJobStatus.mockRejectedValue(
+        new CustomError('Invalid job status transition from completed to queued', 400, 'INVALID_JOB_STATUS')
+      );
+
+      await postSigned({
+        job_id: JOB_ID,
+        status: 'queued',
+      }).expect(400);
+    });
+
     it('should return 500 for service error', async () => {
       mockServiceInstance.updateJobStatus.mockRejectedValue(new Error('Job not found'));
 
-      const webhookData = {
-        job_id: 'job-123',
+      const response = await postSigned({
+        job_id: JOB_ID,
         status: 'completed',
-      };
-
-      const response = await request(app)
-        .post('/api/ingestion/webhook/status-update')
-        .send(webhookData)
-        .expect(500);
+      }).expect(500);
 
       expect(response.body.success).toBe(false);
       expect(response.body.error).toBe('Failed to update status');
@@ -455,11 +666,12 @@ describe('Ingestion Routes', () => {
 
   describe('GET /api/ingestion/stats/overview', () => {
     it('should get user statistics successfully', async () => {
-      const mockJobs = [
+      const mockJobs: IngestionJobResponse[] = [
         {
           id: 'job-1',
           document_id: 'doc-1',
           status: 'completed',
+          priority: 'normal',
           retry_count: 0,
           created_at: new Date(),
           updated_at: new Date(),
@@ -468,6 +680,7 @@ describe('Ingestion Routes', () => {
           id: 'job-2',
           document_id: 'doc-2',
           status: 'processing',
+          priority: 'normal',
           retry_count: 1,
           created_at: new Date(),
           updated_at: new Date(),
@@ -494,16 +707,17 @@ describe('Ingestion Routes', () => {
 
   describe('GET /api/ingestion/stats/admin', () => {
     it('should get admin statistics successfully', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
         next();
       });
 
-      const mockJobs = [
+      const mockJobs: IngestionJobResponse[] = [
         {
           id: 'job-1',
           document_id: 'doc-1',
           status: 'completed',
+          priority: 'normal',
           retry_count: 0,
           created_at: new Date(),
           updated_at: new Date(),
@@ -529,7 +743,7 @@ describe('Ingestion Routes', () => {
     });
 
     it('should return 403 for non-admin user', async () => {
-      mockRequireAdmin.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockRequireAdmin.mockImplementationOnce((_req: any, res: any, _next: any) => {
         res.status(403).json({ success: false, error: 'Insufficient permissions' });
       });
 
@@ -546,32 +760,33 @@ describe('Ingestion Routes', () => {
 
   describe('POST /api/ingestion/bulk/trigger', () => {
     it('should trigger bulk ingestion successfully (admin)', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
         next();
       });
 
-      const mockJob = {
-        id: 'job-123',
-        document_id: 'doc-123',
-        status: 'queued',
-        retry_count: 0,
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
-
-      mockServiceInstance.triggerIngestion.mockResolvedValue(mockJob);
-
       const bulkRequest = {
         document_ids: ['doc-1', 'doc-2', 'doc-3'],
       };
 
+      mockServiceInstance.triggerBatch.mockResolvedValue({
+        batch: { ...mockBatch, total_jobs: 3, counts: { ...mockBatch.counts, queued: 3 } },
+        results: bulkRequest.document_ids.map((documentId, index) => ({
+          document_id: documentId,
+          job_id: `job-${index}`,
+          status: 'triggered' as const,
+        })),
+        errors: [],
+      });
+
       const response = await request(app)
         .post('/api/ingestion/bulk/trigger')
         .send(bulkRequest)
         .expect(200);
 
       expect(response.body.success).toBe(true);
+      expect(response.body.data.batch.id).toBe(mockBatch.id);
+      expect(mockServiceInstance.triggerBatch).toHaveBeenCalledWith('admin-123', bulkRequest.document_ids, 'normal');
       expect(response.body.data).toHaveProperty('results');
       expect(response.body.data).toHaveProperty('errors');
       expect(response.body.data).toHaveProperty('summary');
@@ -580,8 +795,23 @@ describe('Ingestion Routes', () => {
       expect(response.body.data.summary.failed).toBe(0);
     });
 
+    it('should return 400 for an unknown priority', async () => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
+        req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
+        next();
+      });
+
+      const response = await request(app)
+        .post('/api/ingestion/bulk/trigger')
+        .send({ document_ids: ['doc-1'], priority: 'immediate' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Priority must be one of: low, normal, high, urgent');
+      expect(mockServiceInstance.triggerBatch).not.toHaveBeenCalled();
+    });
+
     it('should return 400 for empty document_ids array', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
         next();
       });
@@ -599,13 +829,13 @@ describe('Ingestion Routes', () => {
     });
 
     it('should return 400 for too many documents', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
         next();
       });
 
       const bulkRequest = {
-        document_ids: Array(101).fill('doc-id'), // 101 documents
+        document_ids: Array(501).fill('doc-id'), // 501 documents
       };
 
       const response = await request(app)
@@ -615,13 +845,13 @@ describe('Ingestion Routes', () => {
 
       expect(response.body).toEqual({
         success: false,
-        error: 'Maximum 100 documents can be processed at once',
+        error: 'Maximum 500 documents can be processed at once',
         timestamp: expect.any(String),
       });
     });
 
     it('should return 403 for non-admin user', async () => {
-      mockRequireAdmin.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockRequireAdmin.mockImplementationOnce((_req: any, res: any, _next: any) => {
         res.status(403).json({ success: false, error: 'Insufficient permissions' });
       });
 
@@ -637,93 +867,129 @@ describe('Ingestion Routes', () => {
     });
   });
 
-  describe('DELETE /api/ingestion/jobs/:jobId', () => {
-    it('should cancel job successfully (admin)', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
-        req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
-        next();
-      });
+  describe('GET /api/ingestion/batches/:batchId', () => {
+    it('should get the batch progress (admin)', async () => {
+      asAdmin();
+      mockServiceInstance.getBatch.mockResolvedValue(mockBatch);
 
-      const mockJob = {
-        id: 'job-123',
-        document_id: 'doc-123',
-        status: 'processing',
-        retry_count: 0,
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
+      const response = await request(app)
+        .get(`/api/ingestion/batches/${mockBatch.id}`)
+        .expect(200);
 
-      mockServiceInstance.getIngestionStatus.mockResolvedValue(mockJob);
-      mockServiceInstance.updateJobStatus.mockResolvedValue(undefined);
+      expect(response.body.data.counts).toEqual(mockBatch.counts);
+      expect(response.body.data.progress).toBe(mockBatch.progress);
+      expect(mockServiceInstance.getBatch).toHaveBeenCalledWith(mockBatch.id, 'admin-123', 'admin');
+    });
+
+    it('should let the editor who started the batch follow it', async () => {
+      mockServiceInstance.getBatch.mockResolvedValue(mockBatch);
+
+      await request(app)
+        .get(`/api/ingestion/batches/${mockBatch.id}`)
+        .expect(200);
+
+      expect(mockServiceInstance.getBatch).toHaveBeenCalledWith(mockBatch.id, 'user-123', 'editor');
+    });
+
+    it('should return 400 for invalid batch ID format', async () => {
+      asAdmin();
+      await request(app)
+        .get('/api/ingestion/batches/invalid-id')
+        .expect(400);
+
+      expect(mockServiceInstance.getBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/ingestion/batches/:batchId/cancel', () => {
+    it('should cancel the batch (admin)', async () => {
+      asAdmin();
+      mockServiceInstance.cancelBatch.mockResolvedValue({ ...mockBatch, status: 'cancelled' });
 
       const response = await request(app)
-        .delete('/api/ingestion/jobs/job-123')
+        .post(`/api/ingestion/batches/${mockBatch.id}/cancel`)
         .expect(200);
 
-      expect(response.body).toEqual({
-        success: true,
-        message: 'Job cancelled successfully',
-        timestamp: expect.any(String),
-      });
-      expect(mockServiceInstance.updateJobStatus).toHaveBeenCalledWith(
-        'job-123',
-        'cancelled',
-        { step: 'cancelled', percentage: 0 },
-        'Job cancelled by admin'
-      );
+      expect(response.body.data.status).toBe('cancelled');
+      expect(mockServiceInstance.cancelBatch).toHaveBeenCalledWith(mockBatch.id, 'admin-123', 'admin');
     });
 
-    it('should return 400 for completed job', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+    it('should let the editor who started the batch cancel it', async () => {
+      mockServiceInstance.cancelBatch.mockResolvedValue({ ...mockBatch, status: 'cancelled' });
+
+      await request(app)
+        .post(`/api/ingestion/batches/${mockBatch.id}/cancel`)
+        .expect(200);
+
+      expect(mockServiceInstance.cancelBatch).toHaveBeenCalledWith(mockBatch.id, 'user-123', 'editor');
+    });
+  });
+
+  describe('POST /api/ingestion/batches/:batchId/retry', () => {
+    it('should retry the batch\'s failed jobs (admin)', async () => {
+      asAdmin();
+      mockServiceInstance.retryBatch.mockResolvedValue(mockBatch);
+
+      await request(app)
+        .post(`/api/ingestion/batches/${mockBatch.id}/retry`)
+        .expect(200);
+
+      expect(mockServiceInstance.retryBatch).toHaveBeenCalledWith(mockBatch.id, 'admin-123', 'admin');
+    });
+  });
+
+  describe('DELETE /api/ingestion/jobs/:jobId', () => {
+    it('should cancel job successfully (admin)', async () => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
         next();
       });
 
-      const mockJob = {
-        id: 'job-123',
-        document_id: 'doc-123',
-        status: 'completed',
+      mockServiceInstance.cancelJob.mockResolvedValue({
+        id: JOB_ID,
+        document_id: DOCUMENT_ID,
+        status: 'cancelled',
+        priority: 'normal',
         retry_count: 0,
         created_at: new Date(),
         updated_at: new Date(),
-      };
-
-      mockServiceInstance.getIngestionStatus.mockResolvedValue(mockJob);
+      });
 
       const response = await request(app)
-        .delete('/api/ingestion/jobs/job-123')
-        .expect(400);
+        .delete(`/api/ingestion/jobs/${JOB_ID}`)
+        .expect(200);
 
       expect(response.body).toEqual({
-        success: false,
-        error: 'Job cannot be cancelled. Current status: completed',
+        success: true,
+        message: 'Job cancelled successfully',
         timestamp: expect.any(String),
       });
+      expect(mockServiceInstance.cancelJob).toHaveBeenCalledWith(JOB_ID, 'admin-123', 'admin');
     });
 
     it('should return 500 for service error', async () => {
-      mockAuthenticateToken.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockAuthenticateToken.mockImplementationOnce((req: any, _res: any, next: any) => {
         req.user = { user_id: 'admin-123', email: 'admin@example.com', role: 'admin' };
         next();
       });
 
-      mockServiceInstance.getIngestionStatus.mockRejectedValue(new Error('Job not found'));
+      mockServiceInstance.cancelJob.mockRejectedValue(new Error('Job cannot be cancelled. Current status: completed'));
 
       const response = await request(app)
-        .delete('/api/ingestion/jobs/job-123')
+        .delete(`/api/ingestion/jobs/${JOB_ID}`)
         .expect(500);
 
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toBe('Failed to cancel job');
+      expect(response.body.error).toBe('Job cannot be cancelled. Current status: completed');
     });
 
     it('should return 403 for non-admin user', async () => {
-      mockRequireAdmin.mockImplementationOnce((req: any, res: any, next: any) => {
+      mockRequireAdmin.mockImplementationOnce((_req: any, res: any, _next: any) => {
         res.status(403).json({ success: false, error: 'Insufficient permissions' });
       });
 
       const response = await request(app)
-        .delete('/api/ingestion/jobs/job-123')
+        .delete(`/api/ingestion/jobs/${JOB_ID}`)
         .expect(403);
 
       expect(response.body).toEqual({
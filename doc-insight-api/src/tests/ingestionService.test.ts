@@ -0,0 +1,509 @@
+import { IngestionService } from '../services/ingestionService';
+import { JobQueueService } from '../services/jobQueueService';
+import { IngestionJobProcessor } from '../services/ingestionProcessors';
+import { getDatabase } from '../database/connection';
+import * as jobScheduler from '../services/jobScheduler';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+type Write = { table: string; fields: Record<string, any> };
+
+/**
+ * Minimal query builder stub: single-row reads return the table's row, list reads
+ * return the table's list, aggregate selects return rows.counts; writes are recorded
+ */
+function mockDatabase(
+  rows: Record<string, any>,
+  updates: Write[],
+  inserts: Write[],
+  lists: Record<string, any[]> = {}
+): void {
+  const builder: any = (table: string): any => {
+    const query: any = {
+      where: () => query,
+      whereIn: () => query,
+      whereNull: () => query,
+      forUpdate: () => query,
+      first: async () => rows[table],
+      select: async () => [rows['counts']],
+      delete: async () => 1,
+      then: (resolve: any, reject: any) => Promise.resolve(lists[table] ?? []).then(resolve, reject),
+      update: (fields: Record<string, any>) => {
+        updates.push({ table, fields });
+        return Object.assign(Promise.resolve(1), {
+          returning: async () => [{ ...rows[table], ...fields }],
+        });
+      },
+      insert: (fields: Record<string, any>) => {
+        inserts.push({ table, fields });
+        return Object.assign(Promise.resolve(), {
+          returning: async () => [{ ...rows[table], ...fields }],
+        });
+      },
+    };
+    return query;
+  };
+  builder.raw = (sql: string, bindings?: any[]) => ({ sql, bindings });
+  builder.fn = { now: () => 'NOW()' };
+  builder.transaction = async (callback: (trx: any) => Promise<any>) => callback(builder);
+
+  mockedGetDatabase.mockReturnValue(builder);
+}
+
+describe('IngestionService.triggerIngestion', () => {
+  let updates: Write[];
+  let inserts: Write[];
+
+  beforeEach(() => {
+    updates = [];
+    inserts = [];
+    mockDatabase({ documents: { id: 'doc-1', uploaded_by: 'editor-1', processed_at: null } }, updates, inserts);
+
+    jest.spyOn(jobScheduler, 'queuePositions')
+      .mockImplementation(async (_db, jobIds) => new Map(jobIds.map(jobId => [jobId, 3])));
+    jest.spyOn(jobScheduler, 'loadQueueStats')
+      .mockResolvedValue({ slots: 2, running: 2, averageDurationMs: 60000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const service = () => new IngestionService({} as JobQueueService);
+
+  it('should queue the job with its requester and priority and report its place in the queue', async () => {
+    const job = await service().triggerIngestion('admin-1', { document_id: 'doc-1', priority: 'urgent' }, 'admin');
+
+    expect(inserts[0]).toEqual({
+      table: 'ingestion_jobs',
+      fields: expect.objectContaining({ status: 'queued', requested_by: 'admin-1', priority: 'urgent' }),
+    });
+    expect(job).toMatchObject({ priority: 'urgent', queue_position: 3, estimated_start_at: expect.any(Date) });
+  });
+
+  it('should default to normal priority', async () => {
+    const job = await service().triggerIngestion('editor-1', { document_id: 'doc-1' }, 'editor');
+
+    expect(inserts[0]!.fields['priority']).toBe('normal');
+    expect(job.priority).toBe('normal');
+  });
+
+  it('should record the document version the job ingests', async () => {
+    mockDatabase({ documents: { id: 'doc-1', uploaded_by: 'editor-1', current_version: 2 } }, updates, inserts);
+
+    const job = await service().triggerIngestion('editor-1', { document_id: 'doc-1' }, 'editor');
+
+    expect(inserts[0]!.fields['document_version']).toBe(2);
+    expect(job.document_version).toBe(2);
+  });
+
+  it('should only let admins queue urgent jobs', async () => {
+    await expect(service().triggerIngestion('editor-1', { document_id: 'doc-1', priority: 'urgent' }, 'editor'))
+      .rejects.toMatchObject({ statusCode: 403 });
+    expect(inserts).toHaveLength(0);
+  });
+});
+
+describe('IngestionService.cancelJob', () => {
+  let rows: Record<string, any>;
+  let updates: Write[];
+  let inserts: Write[];
+  let processor: IngestionJobProcessor;
+  let cancel: jest.Mock;
+
+  beforeEach(() => {
+    updates = [];
+    inserts = [];
+    rows = {
+      ingestion_jobs: {
+        id: 'job-1',
+        document_id: 'doc-1',
+        status: 'processing',
+        retry_count: 0,
+        locked_by: 'worker-1',
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+      documents: { id: 'doc-1', uploaded_by: 'user-1', processed_at: null },
+    };
+    cancel = jest.fn().mockResolvedValue(undefined);
+    processor = { name: 'python', process: jest.fn(), cancel };
+
+    mockDatabase(rows, updates, inserts);
+  });
+
+  const service = () => new IngestionService({} as JobQueueService, processor);
+
+  it('should cancel the job, record who cancelled it and roll the document back', async () => {
+    const job = await service().cancelJob('job-1', 'user-1', 'editor');
+
+    expect(job.status).toBe('cancelled');
+    expect(job.cancelled_by).toBe('user-1');
+    expect(job.cancelled_at).toBeInstanceOf(Date);
+    expect(updates[0]!.fields).toMatchObject({ status: 'cancelled', locked_by: null, locked_until: null });
+    expect(updates).toContainEqual({
+      table: 'ingestion_job_steps',
+      fields: expect.objectContaining({ status: 'cancelled', ended_at: 'NOW()' }),
+    });
+    expect(updates).toContainEqual({
+      table: 'documents',
+      fields: expect.objectContaining({
+        status: { sql: expect.stringContaining("WHEN processed_at IS NULL THEN 'pending'"), bindings: undefined },
+      }),
+    });
+    expect(inserts[0]!.fields).toMatchObject({
+      job_id: 'job-1',
+      from_status: 'processing',
+      to_status: 'cancelled',
+      source: 'api',
+      actor_id: 'user-1',
+    });
+    expect(cancel).not.toHaveBeenCalled();
+  });
+
+  it('should keep a previously ingested document completed', async () => {
+    await service().cancelJob('job-1', 'user-1', 'editor');
+
+    const documentUpdate = updates.find(update => update.table === 'documents');
+
+    expect(documentUpdate!.fields['status'].sql).toContain("ELSE 'completed'");
+  });
+
+  it('should ask the external service to stop a job handed off to it', async () => {
+    rows['ingestion_jobs'].locked_by = 'python';
+
+    await service().cancelJob('job-1', 'admin-1', 'admin');
+
+    expect(cancel).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1' }));
+  });
+
+  it('should still cancel the job when the external service cannot be reached', async () => {
+    rows['ingestion_jobs'].locked_by = 'python';
+    cancel.mockRejectedValue(new Error('Python service error: 503'));
+
+    const job = await service().cancelJob('job-1', 'user-1', 'editor');
+
+    expect(job.status).toBe('cancelled');
+  });
+
+  it('should refuse to cancel a finished job', async () => {
+    rows['ingestion_jobs'].status = 'completed';
+
+    await expect(service().cancelJob('job-1', 'user-1', 'editor'))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Job cannot be cancelled. Current status: completed' });
+    expect(updates).toHaveLength(0);
+    expect(inserts).toHaveLength(0);
+  });
+
+  it('should cancel the job of a superseded version before queuing the new version', async () => {
+    rows['ingestion_jobs'].locked_by = 'python';
+    const ingestionService = service();
+    const queueJob = jest.spyOn(ingestionService as any, 'queueJob')
+      .mockResolvedValue({ ...rows['ingestion_jobs'], id: 'job-2', status: 'queued', document_version: 3 });
+    jest.spyOn(ingestionService as any, 'withQueueEstimates')
+      .mockImplementation(async (jobs: any) => jobs);
+
+    const job = await ingestionService.triggerVersionIngestion('editor-2', 'doc-1');
+
+    expect(updates[0]!.fields).toMatchObject({ status: 'cancelled', cancelled_by: 'editor-2' });
+    expect(cancel).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1' }));
+    expect(queueJob).toHaveBeenCalledWith('editor-2', { document_id: 'doc-1' });
+    expect(job).toMatchObject({ id: 'job-2', document_version: 3 });
+  });
+
+  it('should refuse to cancel another user\'s job', async () => {
+    await expect(service().cancelJob('job-1', 'user-2', 'editor'))
+      .rejects.toMatchObject({ statusCode: 403 });
+    expect(updates).toHaveLength(0);
+  });
+});
+
+describe('IngestionService.retryJob', () => {
+  let rows: Record<string, any>;
+  let updates: Write[];
+  let inserts: Write[];
+
+  beforeEach(() => {
+    updates = [];
+    inserts = [];
+    rows = {
+      ingestion_jobs: {
+        id: 'job-1',
+        document_id: 'doc-1',
+        status: 'dead_lettered',
+        retry_count: 3,
+        error_message: 'Text extraction failed',
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+      documents: { id: 'doc-1', uploaded_by: 'user-1' },
+    };
+
+    mockDatabase(rows, updates, inserts);
+  });
+
+  const service = () => new IngestionService({} as JobQueueService);
+
+  it('should requeue the owner\'s dead-lettered job with a fresh set of retries', async () => {
+    const job = await service().retryJob('job-1', 'user-1', 'editor');
+
+    expect(job).toMatchObject({ status: 'queued', retry_count: 0 });
+    expect(updates[0]!.fields).toMatchObject({ status: 'queued', retry_count: 0, error_message: null });
+    expect(inserts[0]!.fields).toMatchObject({
+      from_status: 'dead_lettered',
+      to_status: 'queued',
+      actor_id: 'user-1',
+      message: 'Retry requested',
+    });
+  });
+
+  it('should let admins retry any user\'s job', async () => {
+    const job = await service().retryJob('job-1', 'admin-1', 'admin');
+
+    expect(job.status).toBe('queued');
+  });
+
+  it('should refuse to retry another user\'s job', async () => {
+    await expect(service().retryJob('job-1', 'user-2', 'editor'))
+      .rejects.toMatchObject({ statusCode: 403 });
+    expect(updates).toHaveLength(0);
+  });
+
+  it('should refuse to retry a job that has not run out of retries', async () => {
+    rows['ingestion_jobs'].status = 'processing';
+
+    await expect(service().retryJob('job-1', 'user-1', 'editor'))
+      .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_JOB_STATUS' });
+    expect(updates).toHaveLength(0);
+  });
+});
+
+describe('IngestionService.updateJobStatus', () => {
+  let rows: Record<string, any>;
+  let updates: Write[];
+  let inserts: Write[];
+  let jobQueueService: { failJob: jest.Mock };
+
+  beforeEach(() => {
+    updates = [];
+    inserts = [];
+    rows = {
+      ingestion_jobs: {
+        id: 'job-1',
+        document_id: 'doc-1',
+        status: 'processing',
+        retry_count: 0,
+        locked_by: 'python',
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    };
+    jobQueueService = { failJob: jest.fn().mockResolvedValue(null) };
+
+    mockDatabase(rows, updates, inserts);
+  });
+
+  const service = () => new IngestionService(jobQueueService as unknown as JobQueueService);
+
+  it('should complete the job, complete its document and record the transition', async () => {
+    await service().updateJobStatus('job-1', 'completed', { step: 'completed', percentage: 100 });
+
+    expect(updates[0]!.fields).toMatchObject({ status: 'completed', locked_by: null });
+    expect(updates).toContainEqual({ table: 'ingestion_job_steps', fields: expect.objectContaining({ status: 'completed' }) });
+    expect(updates).toContainEqual({ table: 'documents', fields: expect.objectContaining({ status: 'completed' }) });
+    expect(inserts[0]).toMatchObject({
+      table: 'ingestion_job_events',
+      fields: { from_status: 'processing', to_status: 'completed', source: 'webhook' },
+    });
+  });
+
+  it('should record progress on a running job in its timeline without a transition', async () => {
+    await service().updateJobStatus('job-1', 'processing', { step: 'embedding', percentage: 60 });
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]!.fields).toMatchObject({ progress: { step: 'embedding', percentage: 60 } });
+    expect(updates[0]!.fields).not.toHaveProperty('status');
+    expect(inserts).toEqual([{
+      table: 'ingestion_job_steps',
+      fields: { job_id: 'job-1', attempt: 1, step: 'embedding', message: null },
+    }]);
+  });
+
+  it('should reject moving a completed job back to queued', async () => {
+    rows['ingestion_jobs'].status = 'completed';
+
+    await expect(service().updateJobStatus('job-1', 'queued'))
+      .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_JOB_STATUS' });
+    expect(updates).toHaveLength(0);
+    expect(inserts).toHaveLength(0);
+  });
+
+  it('should reject unknown statuses', async () => {
+    await expect(service().updateJobStatus('job-1', 'paused'))
+      .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_JOB_STATUS' });
+  });
+
+  it('should hand reported failures to the queue\'s retry policy', async () => {
+    jobQueueService.failJob.mockResolvedValue('retry_scheduled');
+
+    await service().updateJobStatus('job-1', 'failed', undefined, 'Parse error');
+
+    expect(jobQueueService.failJob).toHaveBeenCalledWith('job-1', null, 'Parse error', 'webhook');
+    expect(updates).toHaveLength(0);
+  });
+
+  it('should ignore updates for a cancelled job', async () => {
+    rows['ingestion_jobs'].status = 'cancelled';
+
+    await service().updateJobStatus('job-1', 'completed');
+
+    expect(updates).toHaveLength(0);
+    expect(inserts).toHaveLength(0);
+  });
+});
+
+describe('IngestionService batches', () => {
+  let rows: Record<string, any>;
+  let lists: Record<string, any[]>;
+  let updates: Write[];
+  let inserts: Write[];
+  let cancel: jest.Mock;
+
+  const job = (id: string, status: string, lockedBy: string | null = null) => ({
+    id,
+    document_id: `doc-${id}`,
+    status,
+    retry_count: 3,
+    locked_by: lockedBy,
+    batch_id: 'batch-1',
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
+  beforeEach(() => {
+    updates = [];
+    inserts = [];
+    rows = {
+      ingestion_batches: {
+        id: 'batch-1',
+        created_by: 'admin-1',
+        cancelled_by: null,
+        cancelled_at: null,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+      counts: { queued: 2, running: 1, done: 5, failed: 2, cancelled: 0, running_percentage: 40 },
+    };
+    lists = {};
+    cancel = jest.fn().mockResolvedValue(undefined);
+
+    mockDatabase(rows, updates, inserts, lists);
+  });
+
+  const service = () => new IngestionService({} as JobQueueService, { name: 'python', process: jest.fn(), cancel });
+
+  it('should aggregate the jobs of a batch into counts and progress', async () => {
+    const batch = await service().getBatch('batch-1', 'admin-1', 'admin');
+
+    expect(batch).toMatchObject({
+      id: 'batch-1',
+      status: 'processing',
+      total_jobs: 10,
+      counts: { queued: 2, running: 1, done: 5, failed: 2, cancelled: 0 },
+      progress: 74, // (7 finished * 100 + 40) / 10
+    });
+  });
+
+  it('should report a finished batch with failures as failed', async () => {
+    rows['counts'] = { queued: 0, running: 0, done: 9, failed: 1, cancelled: 0, running_percentage: 0 };
+
+    const batch = await service().getBatch('batch-1', 'admin-1', 'admin');
+
+    expect(batch.status).toBe('failed');
+    expect(batch.progress).toBe(100);
+  });
+
+  it('should return 404 for an unknown batch', async () => {
+    rows['ingestion_batches'] = undefined;
+
+    await expect(service().getBatch('batch-1', 'admin-1', 'admin')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should let the user who started a batch follow it', async () => {
+    rows['ingestion_batches'].created_by = 'editor-1';
+
+    const batch = await service().getBatch('batch-1', 'editor-1', 'editor');
+
+    expect(batch.id).toBe('batch-1');
+  });
+
+  it('should deny other users access to a batch', async () => {
+    await expect(service().getBatch('batch-1', 'editor-2', 'editor')).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('should queue each document once and report the ones that could not be queued', async () => {
+    const ingestionService = service();
+    const queueJob = jest.spyOn(ingestionService as any, 'queueJob')
+      .mockResolvedValueOnce({ id: 'job-1' })
+      .mockRejectedValueOnce(new Error('Document is already being processed'));
+
+    const result = await ingestionService.triggerBatch('admin-1', ['doc-1', 'doc-2', 'doc-1']);
+
+    expect(queueJob).toHaveBeenCalledTimes(2);
+    expect(queueJob).toHaveBeenCalledWith('admin-1', { document_id: 'doc-1', priority: 'normal' }, 'batch-1');
+    expect(result.batch?.id).toBe('batch-1');
+    expect(result.results).toEqual([{ document_id: 'doc-1', job_id: 'job-1', status: 'triggered' }]);
+    expect(result.errors).toEqual([{ document_id: 'doc-2', error: 'Document is already being processed' }]);
+  });
+
+  it('should cancel the active jobs of a batch and stop dispatched ones', async () => {
+    lists['ingestion_jobs'] = [job('job-1', 'queued'), job('job-2', 'processing', 'python')];
+
+    await service().cancelBatch('batch-1', 'admin-1', 'admin');
+
+    const jobUpdates = updates.filter(update => update.table === 'ingestion_jobs');
+    expect(jobUpdates.map(update => update.fields['status'])).toEqual(['cancelled', 'cancelled']);
+    expect(updates).toContainEqual({
+      table: 'ingestion_batches',
+      fields: expect.objectContaining({ cancelled_by: 'admin-1' }),
+    });
+    expect(cancel).toHaveBeenCalledTimes(1);
+    expect(cancel).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-2' }));
+  });
+
+  it('should requeue the failed jobs of a batch with fresh retries', async () => {
+    lists['ingestion_jobs'] = [job('job-1', 'dead_lettered'), job('job-2', 'failed')];
+
+    await service().retryBatch('batch-1', 'admin-1', 'admin');
+
+    const jobUpdates = updates.filter(update => update.table === 'ingestion_jobs');
+    expect(jobUpdates.map(update => [update.fields['status'], update.fields['retry_count']])).toEqual([
+      ['queued', 0],
+      ['queued', 0],
+    ]);
+    expect(inserts.map(insert => insert.fields['message'])).toEqual(['Retried with its batch', 'Retried with its batch']);
+  });
+
+  it('should let the user who started a batch cancel it', async () => {
+    rows['ingestion_batches'].created_by = 'editor-1';
+    lists['ingestion_jobs'] = [job('job-1', 'queued')];
+
+    await service().cancelBatch('batch-1', 'editor-1', 'editor');
+
+    expect(updates).toContainEqual({
+      table: 'ingestion_batches',
+      fields: expect.objectContaining({ cancelled_by: 'editor-1' }),
+    });
+  });
+
+  it('should not let other users cancel or retry a batch', async () => {
+    lists['ingestion_jobs'] = [job('job-1', 'queued'), job('job-2', 'failed')];
+
+    await expect(service().cancelBatch('batch-1', 'editor-2', 'editor')).rejects.toMatchObject({ statusCode: 403 });
+    await expect(service().retryBatch('batch-1', 'editor-2', 'editor')).rejects.toMatchObject({ statusCode: 403 });
+    expect(updates).toHaveLength(0);
+  });
+});
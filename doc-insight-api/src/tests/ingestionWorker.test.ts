@@ -0,0 +1,166 @@
+import { IngestionWorker } from '../services/ingestionWorker';
+import { JobQueueService } from '../services/jobQueueService';
+import { IngestionJobProcessor } from '../services/ingestionProcessors';
+import { IngestionJob } from '../types';
+
+jest.mock('../utils/logger');
+
+const makeJob = (id: string): IngestionJob => ({
+  id,
+  document_id: `doc-${id}`,
+  status: 'processing',
+  retry_count: 0,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const waitFor = async (condition: () => boolean, timeout = 2000): Promise<void> => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('IngestionWorker', () => {
+  let queue: jest.Mocked<JobQueueService>;
+  let processor: jest.Mocked<IngestionJobProcessor>;
+  let worker: IngestionWorker;
+
+  const options = {
+    concurrency: 2,
+    pollInterval: 10,
+    visibilityTimeout: 60000,
+    recoveryInterval: 60000,
+  };
+
+  // Serve the given jobs once each, then report an empty queue
+  const queueJobs = (...jobs: IngestionJob[]) => {
+    jobs.forEach(job => queue.claimNextJob.mockResolvedValueOnce(job));
+    queue.claimNextJob.mockResolvedValue(null);
+  };
+
+  beforeEach(() => {
+    queue = {
+      claimNextJob: jest.fn().mockResolvedValue(null),
+      extendLease: jest.fn().mockResolvedValue(true),
+      updateProgress: jest.fn().mockResolvedValue(true),
+      completeJob: jest.fn().mockResolvedValue(true),
+      failJob: jest.fn().mockResolvedValue(true),
+      handOff: jest.fn().mockResolvedValue(true),
+      recoverExpiredJobs: jest.fn().mockResolvedValue({ requeued: 0, deadLettered: 0 }),
+    } as any;
+    processor = {
+      name: 'test',
+      process: jest.fn(),
+    };
+    worker = new IngestionWorker(queue, processor, options);
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+  });
+
+  it('should process a claimed job and complete it with its progress', async () => {
+    queueJobs(makeJob('1'));
+    processor.process.mockImplementation(async (_job, context) => {
+      await context.reportProgress({ step: 'extracting_text', percentage: 50 });
+      return { status: 'completed', progress: { step: 'completed', percentage: 100 } };
+    });
+
+    worker.start();
+    await waitFor(() => queue.completeJob.mock.calls.length === 1);
+
+    expect(queue.claimNextJob).toHaveBeenCalledWith(worker.workerId);
+    expect(queue.updateProgress).toHaveBeenCalledWith('1', worker.workerId, { step: 'extracting_text', percentage: 50 });
+    expect(queue.completeJob).toHaveBeenCalledWith('1', worker.workerId, { step: 'completed', percentage: 100 });
+    expect(queue.failJob).not.toHaveBeenCalled();
+  });
+
+  it('should fail the job when the processor throws', async () => {
+    queueJobs(makeJob('1'));
+    processor.process.mockRejectedValue(new Error('Unsupported file type'));
+
+    worker.start();
+    await waitFor(() => queue.failJob.mock.calls.length === 1);
+
+    expect(queue.failJob).toHaveBeenCalledWith('1', worker.workerId, 'Unsupported file type');
+    expect(queue.completeJob).not.toHaveBeenCalled();
+  });
+
+  it('should abort the processor without failing the job when its lease is lost', async () => {
+    queueJobs(makeJob('1'));
+    queue.updateProgress.mockResolvedValue(false);
+    let aborted = false;
+    processor.process.mockImplementation(async (_job, context) => {
+      await context.reportProgress({ step: 'extracting_text', percentage: 50 });
+      aborted = context.signal.aborted;
+      throw new Error('Ingestion job aborted');
+    });
+
+    worker.start();
+    await waitFor(() => processor.process.mock.calls.length === 1 && worker.getActiveJobCount() === 0);
+
+    expect(aborted).toBe(true);
+    expect(queue.failJob).not.toHaveBeenCalled();
+    expect(queue.completeJob).not.toHaveBeenCalled();
+  });
+
+  it('should hand dispatched jobs off to the processor', async () => {
+    queueJobs(makeJob('1'));
+    processor.process.mockResolvedValue({ status: 'dispatched' });
+
+    worker.start();
+    await waitFor(() => queue.handOff.mock.calls.length === 1);
+
+    expect(queue.handOff).toHaveBeenCalledWith('1', worker.workerId, 'test');
+    expect(queue.completeJob).not.toHaveBeenCalled();
+  });
+
+  it('should not run more jobs at once than its concurrency', async () => {
+    queueJobs(makeJob('1'), makeJob('2'), makeJob('3'));
+    const releases: (() => void)[] = [];
+    processor.process.mockImplementation(() => new Promise(resolve => {
+      releases.push(() => resolve({ status: 'completed' }));
+    }));
+
+    worker.start();
+    await waitFor(() => releases.length === 2);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(worker.getActiveJobCount()).toBe(2);
+    expect(processor.process).toHaveBeenCalledTimes(2);
+
+    releases[0]!();
+    await waitFor(() => releases.length === 3);
+    releases.slice(1).forEach(release => release());
+    await waitFor(() => queue.completeJob.mock.calls.length === 3);
+  });
+
+  it('should recover expired jobs when it starts', async () => {
+    worker.start();
+    await waitFor(() => queue.recoverExpiredJobs.mock.calls.length === 1);
+
+    expect(queue.recoverExpiredJobs).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for in-flight jobs when stopped', async () => {
+    queueJobs(makeJob('1'));
+    let release: () => void = () => undefined;
+    processor.process.mockImplementation(() => new Promise(resolve => {
+      release = () => resolve({ status: 'completed' });
+    }));
+
+    worker.start();
+    await waitFor(() => worker.getActiveJobCount() === 1);
+
+    const stopped = worker.stop();
+    release();
+    await stopped;
+
+    expect(queue.completeJob).toHaveBeenCalledWith('1', worker.workerId, undefined);
+    expect(worker.getActiveJobCount()).toBe(0);
+  });
+});
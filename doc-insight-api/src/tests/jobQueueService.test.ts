@@ -0,0 +1,135 @@
+import { JobQueueService, computeRetryDelay } from '../services/jobQueueService';
+import { getDatabase } from '../database/connection';
+import { IngestionJob } from '../types';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+describe('computeRetryDelay', () => {
+  const policy = { baseDelay: 1000, maxDelay: 10000, jitter: 0 };
+
+  it('should double the delay for every retry', () => {
+    expect([1, 2, 3, 4].map(retry => computeRetryDelay(retry, policy))).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('should cap the delay at the max delay', () => {
+    expect(computeRetryDelay(10, policy)).toBe(10000);
+  });
+
+  it('should spread the delay by the jitter fraction', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+
+    expect(computeRetryDelay(2, jittered, () => 0)).toBe(1000);
+    expect(computeRetryDelay(2, jittered, () => 0.5)).toBe(2000);
+    expect(computeRetryDelay(2, jittered, () => 1)).toBe(3000);
+  });
+});
+
+describe('JobQueueService.failJob', () => {
+  let updates: { table: string; fields: Record<string, any> }[];
+  let inserts: { table: string; fields: Record<string, any> }[];
+  let processingJob: IngestionJob | undefined;
+
+  beforeEach(() => {
+    updates = [];
+    inserts = [];
+    processingJob = {
+      id: 'job-1',
+      document_id: 'doc-1',
+      status: 'processing',
+      retry_count: 0,
+      locked_by: 'worker-1',
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+
+    // Minimal query builder stub: reads return the processing job, writes are recorded
+    const builder = (table: string): any => {
+      const query: any = {
+        where: () => query,
+        whereNull: () => query,
+        forUpdate: () => query,
+        first: async () => processingJob,
+        update: (fields: Record<string, any>) => {
+          updates.push({ table, fields });
+          return Object.assign(Promise.resolve(1), {
+            returning: async () => [{ ...processingJob, ...fields }],
+          });
+        },
+        insert: async (fields: Record<string, any>) => {
+          inserts.push({ table, fields });
+        },
+      };
+      return query;
+    };
+    const trx: any = Object.assign(builder, {
+      fn: { now: () => 'NOW()' },
+      raw: (sql: string, bindings?: any[]) => ({ sql, bindings }),
+    });
+
+    mockedGetDatabase.mockReturnValue({
+      transaction: async (callback: (trx: any) => Promise<any>) => callback(trx),
+      raw: (sql: string, bindings: any[]) => ({ sql, bindings }),
+    } as any);
+  });
+
+  const service = () => new JobQueueService({
+    maxRetries: 2,
+    retryBaseDelay: 1000,
+    retryMaxDelay: 60000,
+    retryJitter: 0,
+  });
+
+  it('should requeue the job with a backoff delay while it has retries left', async () => {
+    processingJob!.retry_count = 1;
+
+    const outcome = await service().failJob('job-1', 'worker-1', 'Parse error');
+
+    expect(outcome).toBe('retry_scheduled');
+    expect(updates[0]!.table).toBe('ingestion_jobs');
+    expect(updates[0]!.fields).toMatchObject({
+      status: 'queued',
+      error_message: 'Parse error',
+      retry_count: 2,
+      locked_by: null,
+      next_attempt_at: { bindings: [2000] },
+    });
+    expect(inserts).toEqual([{
+      table: 'ingestion_job_events',
+      fields: expect.objectContaining({ from_status: 'processing', to_status: 'queued', source: 'worker' }),
+    }]);
+  });
+
+  it('should record failures reported through the webhook as such', async () => {
+    processingJob!.locked_by = 'python';
+
+    await service().failJob('job-1', null, 'Python service error', 'webhook');
+
+    expect(inserts[0]!.fields).toMatchObject({ to_status: 'queued', source: 'webhook', message: 'Python service error' });
+  });
+
+  it('should dead-letter the job and fail its document when it is out of retries', async () => {
+    processingJob!.retry_count = 2;
+
+    const outcome = await service().failJob('job-1', 'worker-1', 'Parse error');
+
+    expect(outcome).toBe('dead_lettered');
+    expect(updates.map(update => [update.table, update.fields['status']])).toEqual([
+      ['ingestion_jobs', 'dead_lettered'],
+      ['ingestion_job_steps', 'failed'],
+      ['documents', 'failed'],
+    ]);
+  });
+
+  it('should leave the job alone when the worker no longer holds it', async () => {
+    processingJob = undefined;
+
+    const outcome = await service().failJob('job-1', 'worker-1', 'Parse error');
+
+    expect(outcome).toBeNull();
+    expect(updates).toHaveLength(0);
+    expect(inserts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { claimConstraints, estimateStartTime } from '../services/jobScheduler';
+
+describe('claimConstraints', () => {
+  const limits = {
+    maxRunningJobs: 10,
+    userMaxRunningJobs: 3,
+    roleMaxRunningJobs: { editor: 4, viewer: 0 },
+  };
+
+  it('should block requesters at their limit and roles at theirs', () => {
+    const constraints = claimConstraints([
+      { requested_by: 'editor-1', role: 'editor', running: 3 },
+      { requested_by: 'editor-2', role: 'editor', running: 1 },
+      { requested_by: 'viewer-1', role: 'viewer', running: 2 },
+    ], limits);
+
+    expect(constraints).toEqual({
+      atCapacity: false,
+      blockedUsers: ['editor-1'],
+      blockedRoles: ['editor'],
+    });
+  });
+
+  it('should stop all claims once the global limit is reached', () => {
+    const constraints = claimConstraints([
+      { requested_by: 'admin-1', role: 'admin', running: 2 },
+      { requested_by: null, role: null, running: 8 },
+    ], limits);
+
+    expect(constraints.atCapacity).toBe(true);
+    expect(constraints.blockedUsers).toEqual([]);
+  });
+
+  it('should treat limits of 0 as no limit', () => {
+    const constraints = claimConstraints(
+      [{ requested_by: 'editor-1', role: 'editor', running: 50 }],
+      { maxRunningJobs: 0, userMaxRunningJobs: 0, roleMaxRunningJobs: { editor: 0 } }
+    );
+
+    expect(constraints).toEqual({ atCapacity: false, blockedUsers: [], blockedRoles: [] });
+  });
+});
+
+describe('estimateStartTime', () => {
+  const now = new Date('2024-01-01T00:00:00Z');
+  const stats = { slots: 4, running: 2, averageDurationMs: 60000 };
+
+  it('should start jobs that fit in a free slot straight away', () => {
+    expect(estimateStartTime(2, stats, now)).toEqual(now);
+  });
+
+  it('should add one average job duration per round of slots ahead', () => {
+    expect(estimateStartTime(3, stats, now)).toEqual(new Date('2024-01-01T00:01:00Z'));
+    expect(estimateStartTime(6, stats, now)).toEqual(new Date('2024-01-01T00:01:00Z'));
+    expect(estimateStartTime(7, stats, now)).toEqual(new Date('2024-01-01T00:02:00Z'));
+  });
+
+  it('should not estimate before any job has completed', () => {
+    expect(estimateStartTime(1, { ...stats, averageDurationMs: null }, now)).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { JOB_TRANSITIONS, canTransition, isIngestionJobStatus, transitionJob } from '../services/jobStateMachine';
+import { IngestionJob } from '../types';
+
+describe('job state machine', () => {
+  it('should treat completed and cancelled as final', () => {
+    expect(JOB_TRANSITIONS.completed).toEqual([]);
+    expect(JOB_TRANSITIONS.cancelled).toEqual([]);
+  });
+
+  it('should allow the transitions of a job\'s lifecycle', () => {
+    expect(canTransition('queued', 'processing')).toBe(true);
+    expect(canTransition('processing', 'completed')).toBe(true);
+    expect(canTransition('processing', 'queued')).toBe(true);
+    expect(canTransition('dead_lettered', 'queued')).toBe(true);
+    expect(canTransition('failed', 'queued')).toBe(true);
+  });
+
+  it('should reject transitions that skip or reverse steps', () => {
+    expect(canTransition('completed', 'queued')).toBe(false);
+    expect(canTransition('queued', 'completed')).toBe(false);
+    expect(canTransition('cancelled', 'processing')).toBe(false);
+    expect(canTransition('failed', 'completed')).toBe(false);
+  });
+
+  it('should recognise known statuses only', () => {
+    expect(isIngestionJobStatus('dead_lettered')).toBe(true);
+    expect(isIngestionJobStatus('paused')).toBe(false);
+    expect(isIngestionJobStatus('constructor')).toBe(false);
+  });
+
+  it('should reject an invalid transition before writing anything', async () => {
+    const trx = jest.fn();
+    const job = { id: 'job-1', document_id: 'doc-1', status: 'completed' } as IngestionJob;
+
+    await expect(transitionJob(trx as any, job, 'queued', {}, { source: 'webhook' }))
+      .rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_JOB_STATUS',
+        message: 'Invalid job status transition from completed to queued',
+      });
+    expect(trx).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { buildTimeline, endRunningStep, recordStepProgress } from '../services/jobTimeline';
+import { IngestionJob, IngestionJobStep } from '../types';
+
+describe('job timeline', () => {
+  let runningStep: Partial<IngestionJobStep> | undefined;
+  let updates: { table: string; fields: Record<string, any> }[];
+  let inserts: { table: string; fields: Record<string, any> }[];
+  let trx: any;
+
+  const job: IngestionJob = {
+    id: 'job-1',
+    document_id: 'doc-1',
+    status: 'processing',
+    retry_count: 0,
+    created_at: new Date('2024-01-01T00:00:00Z'),
+    updated_at: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    runningStep = undefined;
+    updates = [];
+    inserts = [];
+
+    // Minimal query builder stub: reads return the running step, writes are recorded
+    trx = Object.assign((table: string): any => {
+      const query: any = {
+        where: () => query,
+        whereNull: () => query,
+        first: async () => runningStep,
+        update: async (fields: Record<string, any>) => {
+          updates.push({ table, fields });
+          return 1;
+        },
+        insert: async (fields: Record<string, any>) => {
+          inserts.push({ table, fields });
+        },
+      };
+      return query;
+    }, { fn: { now: () => 'NOW()' } });
+  });
+
+  it('should end the running step and start the next one', async () => {
+    runningStep = { id: 'step-1', step: 'extracting_text', attempt: 1 };
+
+    await recordStepProgress(trx, job, { step: 'generating_embeddings', percentage: 50 });
+
+    expect(updates).toEqual([{ table: 'ingestion_job_steps', fields: { status: 'completed', ended_at: 'NOW()' } }]);
+    expect(inserts).toEqual([{
+      table: 'ingestion_job_steps',
+      fields: { job_id: 'job-1', attempt: 1, step: 'generating_embeddings', message: null },
+    }]);
+  });
+
+  it('should only update the message when the running step is reported again', async () => {
+    runningStep = { id: 'step-1', step: 'generating_embeddings', attempt: 1 };
+
+    await recordStepProgress(trx, job, { step: 'generating_embeddings', percentage: 70, message: 'Chunk 7 of 10' });
+
+    expect(updates).toEqual([{ table: 'ingestion_job_steps', fields: { message: 'Chunk 7 of 10' } }]);
+    expect(inserts).toHaveLength(0);
+  });
+
+  it('should start the steps of a retried job as a new attempt', async () => {
+    runningStep = undefined;
+
+    await recordStepProgress(trx, { ...job, retry_count: 2 }, { step: 'extracting_text' });
+
+    expect(inserts[0]!.fields).toMatchObject({ step: 'extracting_text', attempt: 3 });
+  });
+
+  it('should ignore progress without a step', async () => {
+    await recordStepProgress(trx, job, { percentage: 40 });
+    await recordStepProgress(trx, job, undefined);
+
+    expect(updates).toHaveLength(0);
+    expect(inserts).toHaveLength(0);
+  });
+
+  it('should mark the running step by how the job left processing', async () => {
+    await endRunningStep(trx, 'job-1', 'completed');
+    await endRunningStep(trx, 'job-1', 'queued', 'Parse error');
+    await endRunningStep(trx, 'job-1', 'cancelled');
+
+    expect(updates.map(update => update.fields)).toEqual([
+      { status: 'completed', ended_at: 'NOW()' },
+      { status: 'failed', ended_at: 'NOW()', message: 'Parse error' },
+      { status: 'cancelled', ended_at: 'NOW()' },
+    ]);
+  });
+
+  it('should compute step and total durations', () => {
+    const step = (name: string, start: string, end: string | null): IngestionJobStep => ({
+      id: name,
+      job_id: 'job-1',
+      attempt: 1,
+      step: name,
+      status: end ? 'completed' : 'running',
+      message: null,
+      started_at: new Date(start),
+      ended_at: end ? new Date(end) : null,
+    });
+
+    const finished = buildTimeline(job, [
+      step('extracting_text', '2024-01-01T00:00:01Z', '2024-01-01T00:00:03Z'),
+      step('generating_embeddings', '2024-01-01T00:00:03Z', '2024-01-01T00:00:08Z'),
+    ]);
+
+    expect(finished.steps.map(s => s.duration_ms)).toEqual([2000, 5000]);
+    expect(finished.duration_ms).toBe(7000);
+
+    const running = buildTimeline(job, [step('extracting_text', '2024-01-01T00:00:01Z', null)]);
+
+    expect(running.steps[0]!.duration_ms).toBeNull();
+    expect(running.duration_ms).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * OLE compound files (the container of Word 97-2003 documents) for tests, built by hand
+ */
+
+const SECTOR_SIZE = 512;
+const ENTRIES_PER_SECTOR = SECTOR_SIZE / 128;
+
+/**
+ * Build a compound file whose directory holds an empty stream per name. The FAT takes
+ * the first sector and the directory the sectors after it, chained through the FAT.
+ */
+export function ole(streamNames: string[]): Buffer {
+  const entries = ['Root Entry', ...streamNames];
+  const directorySectors = Math.ceil(entries.length / ENTRIES_PER_SECTOR);
+
+  const header = Buffer.alloc(SECTOR_SIZE);
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(header, 0);
+  header.writeUInt16LE(0x3e, 0x18); // minor version
+  header.writeUInt16LE(3, 0x1a); // major version: 512-byte sectors
+  header.writeUInt16LE(0xfffe, 0x1c); // byte order
+  header.writeUInt16LE(9, 0x1e); // sector shift
+  header.writeUInt16LE(6, 0x20); // mini sector shift
+  header.writeUInt32LE(1, 0x2c); // FAT sectors
+  header.writeUInt32LE(1, 0x30); // first directory sector
+  header.writeUInt32LE(4096, 0x38); // mini stream cutoff
+  header.writeUInt32LE(0xfffffffe, 0x3c); // no mini FAT
+  header.writeUInt32LE(0xfffffffe, 0x44); // no DIFAT sectors
+  header.fill(0xff, 0x4c);
+  header.writeUInt32LE(0, 0x4c); // the FAT is sector 0
+
+  const fat = Buffer.alloc(SECTOR_SIZE, 0xff);
+  fat.writeUInt32LE(0xfffffffd, 0);
+  for (let sector = 1; sector <= directorySectors; sector++) {
+    fat.writeUInt32LE(sector === directorySectors ? 0xfffffffe : sector + 1, sector * 4);
+  }
+
+  const directory = Buffer.alloc(directorySectors * SECTOR_SIZE);
+  entries.forEach((name, index) => {
+    const offset = index * 128;
+    const encoded = Buffer.from(`${name}\0`, 'utf16le');
+    encoded.copy(directory, offset);
+    directory.writeUInt16LE(encoded.length, offset + 0x40);
+    directory[offset + 0x42] = index === 0 ? 5 : 2; // root storage, then streams
+    directory.writeUInt32LE(0xffffffff, offset + 0x44); // no siblings or children
+    directory.writeUInt32LE(0xffffffff, offset + 0x48);
+    directory.writeUInt32LE(0xffffffff, offset + 0x4c);
+    directory.writeUInt32LE(0xfffffffe, offset + 0x74); // empty stream
+  });
+
+  return Buffer.concat([header, fat, directory]);
+}
@@ -0,0 +1,84 @@
+import { QaService } from '../services/qaService';
+import { ChunkStoreService } from '../services/chunkStoreService';
+import { AnswerGenerator } from '../services/answerGenerator';
+import { getDatabase } from '../database/connection';
+import { RetrievedChunk } from '../types';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+const chunk: RetrievedChunk = {
+  chunk_id: 'chunk-1',
+  document_id: 'doc-1',
+  document_title: 'Employee Handbook',
+  file_name: 'handbook.pdf',
+  chunk_index: 0,
+  content: 'Employees receive 25 vacation days per year.',
+  page_number: 2,
+  document_version: 1,
+  relevance: 0.8,
+};
+
+describe('QaService.askQuestion', () => {
+  let insertedRows: Record<string, any[]>;
+  let findRelevantChunks: jest.Mock;
+
+  beforeEach(() => {
+    insertedRows = {};
+
+    // Minimal transaction stub that echoes inserted rows back with ids, parsing JSONB like pg does
+    const trx = (table: string) => ({
+      insert: (row: any) => ({
+        returning: async () => {
+          const saved = {
+            id: `${table}-id`,
+            created_at: new Date('2025-01-01T00:00:00Z'),
+            ...row,
+            ...(row.sources ? { sources: JSON.parse(row.sources) } : {}),
+          };
+          (insertedRows[table] = insertedRows[table] || []).push(saved);
+          return [saved];
+        },
+      }),
+    });
+    mockedGetDatabase.mockReturnValue({
+      transaction: async (callback: (trx: any) => Promise<any>) => callback(trx),
+    } as any);
+
+    findRelevantChunks = jest.fn().mockResolvedValue([chunk]);
+  });
+
+  const createService = (generator?: AnswerGenerator) =>
+    new QaService({ findRelevantChunks } as unknown as ChunkStoreService, generator);
+
+  it('should answer from retrieved chunks and store the question and answer', async () => {
+    const result = await createService().askQuestion('user-1', 'viewer', {
+      question: 'How many vacation days do employees get?',
+    });
+
+    expect(findRelevantChunks).toHaveBeenCalledWith(
+      'How many vacation days do employees get?', 'user-1', 'viewer', expect.any(Number), undefined, undefined
+    );
+    expect(result.question).toMatchObject({ id: 'qa_questions-id', askedBy: 'user-1' });
+    expect(result.answer.text).toContain('25 vacation days');
+    expect(result.answer.sources[0]).toMatchObject({ documentId: 'doc-1', pageNumber: 2 });
+    expect(insertedRows['qa_answers']![0]).toMatchObject({ question_id: 'qa_questions-id', generator: 'extractive' });
+  });
+
+  it('should fall back to the extractive generator when the configured one fails', async () => {
+    const failingGenerator: AnswerGenerator = {
+      name: 'openai:test-model',
+      generate: jest.fn().mockRejectedValue(new Error('Answer generation error: 503')),
+    };
+
+    const result = await createService(failingGenerator).askQuestion('user-1', 'viewer', {
+      question: 'How many vacation days do employees get?',
+    });
+
+    expect(failingGenerator.generate).toHaveBeenCalled();
+    expect(result.answer.text).toContain('25 vacation days');
+    expect(insertedRows['qa_answers']![0].generator).toBe('extractive');
+  });
+});
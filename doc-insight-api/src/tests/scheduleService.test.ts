@@ -0,0 +1,197 @@
+import { ScheduleService } from '../services/scheduleService';
+import { getDatabase } from '../database/connection';
+import { Schedule } from '../types';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+type Write = { table: string; fields: Record<string, any> };
+
+/**
+ * Minimal query builder stub: each first() returns the next queued row (or
+ * undefined once none are left); writes are recorded and return the merged row
+ */
+function mockDatabase(firstRows: Array<Schedule | undefined>, updates: Write[], inserts: Write[]): void {
+  let current: Record<string, any> | undefined;
+
+  const builder: any = (table: string): any => {
+    const query: any = {
+      where: () => query,
+      orderBy: () => query,
+      forUpdate: () => query,
+      skipLocked: () => query,
+      first: async () => {
+        current = firstRows.shift();
+        return current;
+      },
+      update: (fields: Record<string, any>) => {
+        updates.push({ table, fields });
+        current = { ...current, ...fields };
+        return { returning: async () => [current] };
+      },
+      insert: (fields: Record<string, any>) => {
+        inserts.push({ table, fields });
+        return { returning: async () => [{ id: 'schedule-new', ...fields }] };
+      },
+    };
+    return query;
+  };
+  builder.fn = { now: () => 'NOW()' };
+  builder.transaction = async (callback: (trx: any) => Promise<any>) => callback(builder);
+
+  mockedGetDatabase.mockReturnValue(builder);
+}
+
+const schedule = (overrides: Partial<Schedule> = {}): Schedule => ({
+  id: 'schedule-1',
+  name: 'Nightly re-ingestion',
+  task: 'reingest_documents',
+  cron_expression: '0 2 * * *',
+  options: { changed_since_last_run: true },
+  is_enabled: true,
+  next_run_at: new Date('2024-01-15T02:00:00Z'),
+  last_run_at: null,
+  last_run_status: null,
+  last_run_error: null,
+  last_run_result: null,
+  last_success_at: null,
+  created_by: 'admin-1',
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  updated_at: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('ScheduleService', () => {
+  let updates: Write[];
+  let inserts: Write[];
+  let tasks: { reingest_documents: jest.Mock; cleanup_expired_sessions: jest.Mock; cleanup_stale_uploads: jest.Mock };
+
+  beforeEach(() => {
+    updates = [];
+    inserts = [];
+    tasks = {
+      reingest_documents: jest.fn().mockResolvedValue({ documents: 2, queued: 2, skipped: 0, batch_id: 'batch-1' }),
+      cleanup_expired_sessions: jest.fn().mockRejectedValue(new Error('connection lost')),
+      cleanup_stale_uploads: jest.fn().mockResolvedValue({ deleted: 0 }),
+    };
+  });
+
+  const service = () => new ScheduleService(tasks);
+
+  describe('runDueSchedules', () => {
+    it('should move each due schedule to its next run and record its outcome', async () => {
+      mockDatabase([
+        schedule(),
+        schedule({ id: 'schedule-2', task: 'cleanup_expired_sessions', cron_expression: '@hourly' }),
+        undefined,
+      ], updates, inserts);
+
+      const ran = await service().runDueSchedules();
+
+      expect(ran).toBe(2);
+      expect(tasks.reingest_documents).toHaveBeenCalledWith(expect.objectContaining({ id: 'schedule-1' }));
+
+      const [claimed, succeeded, , failed] = updates.map(update => update.fields);
+      expect(claimed).toMatchObject({ last_run_status: 'running', last_run_result: null });
+      expect(claimed!['next_run_at'].getTime()).toBeGreaterThan(Date.now());
+      expect(succeeded).toMatchObject({
+        last_run_status: 'succeeded',
+        last_run_result: { documents: 2, queued: 2, skipped: 0, batch_id: 'batch-1' },
+        last_success_at: claimed!['last_run_at'],
+      });
+      expect(failed).toMatchObject({ last_run_status: 'failed', last_run_error: 'connection lost' });
+      expect(failed).not.toHaveProperty('last_success_at');
+    });
+
+    it('should do nothing when no schedule is due', async () => {
+      mockDatabase([undefined], updates, inserts);
+
+      expect(await service().runDueSchedules()).toBe(0);
+      expect(updates).toEqual([]);
+    });
+  });
+
+  describe('runSchedule', () => {
+    it('should run the task without moving the next run', async () => {
+      mockDatabase([schedule()], updates, inserts);
+
+      const result = await service().runSchedule('schedule-1');
+
+      expect(result.last_run_status).toBe('succeeded');
+      expect(result.next_run_at).toEqual(new Date('2024-01-15T02:00:00Z'));
+      expect(updates.every(update => !('next_run_at' in update.fields))).toBe(true);
+    });
+
+    it('should return 404 for an unknown schedule', async () => {
+      mockDatabase([undefined], updates, inserts);
+
+      await expect(service().runSchedule('missing'))
+        .rejects.toMatchObject({ statusCode: 404, code: 'SCHEDULE_NOT_FOUND' });
+      expect(tasks.reingest_documents).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSchedule', () => {
+    it('should compute the first run of an enabled schedule', async () => {
+      mockDatabase([], updates, inserts);
+
+      await service().createSchedule('admin-1', {
+        name: 'Session cleanup',
+        task: 'cleanup_expired_sessions',
+        cron_expression: '@daily',
+      });
+
+      expect(inserts[0]!.fields).toMatchObject({
+        task: 'cleanup_expired_sessions',
+        options: {},
+        is_enabled: true,
+        created_by: 'admin-1',
+      });
+      expect(inserts[0]!.fields['next_run_at']).toBeInstanceOf(Date);
+    });
+
+    it('should reject invalid cron expressions with 400', async () => {
+      mockDatabase([], updates, inserts);
+
+      await expect(service().createSchedule('admin-1', {
+        name: 'Never',
+        task: 'cleanup_expired_sessions',
+        cron_expression: '0 0 30 2 *',
+      })).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_CRON_EXPRESSION',
+        message: 'Cron expression never matches',
+      });
+      expect(inserts).toEqual([]);
+    });
+  });
+
+  describe('updateSchedule', () => {
+    it('should recompute the next run when the expression changes', async () => {
+      mockDatabase([schedule()], updates, inserts);
+
+      await service().updateSchedule('schedule-1', { cron_expression: '@hourly' });
+
+      expect(updates[0]!.fields['cron_expression']).toBe('@hourly');
+      expect(updates[0]!.fields['next_run_at']).toBeInstanceOf(Date);
+    });
+
+    it('should clear the next run when the schedule is disabled', async () => {
+      mockDatabase([schedule()], updates, inserts);
+
+      await service().updateSchedule('schedule-1', { is_enabled: false });
+
+      expect(updates[0]!.fields).toMatchObject({ is_enabled: false, next_run_at: null });
+    });
+
+    it('should keep the next run for changes that do not affect it', async () => {
+      mockDatabase([schedule()], updates, inserts);
+
+      await service().updateSchedule('schedule-1', { name: 'Renamed' });
+
+      expect(updates[0]!.fields).not.toHaveProperty('next_run_at');
+    });
+  });
+});
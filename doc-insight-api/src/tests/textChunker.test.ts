@@ -0,0 +1,88 @@
+import { chunkText, validateChunkingOptions } from '../utils/textChunker';
+import { ExtractedPage } from '../types';
+
+describe('Text chunker', () => {
+  const sentence = (n: number) => `Sentence number ${n} talks about topic ${n}.`;
+  const text = Array.from({ length: 40 }, (_, i) => sentence(i)).join(' ');
+
+  describe('validateChunkingOptions', () => {
+    it('should accept valid options', () => {
+      expect(validateChunkingOptions({ chunkSize: 1000, chunkOverlap: 200 })).toEqual([]);
+    });
+
+    it('should reject overlap greater than or equal to the chunk size', () => {
+      expect(validateChunkingOptions({ chunkSize: 100, chunkOverlap: 100 })).toContain(
+        'Chunk overlap must be smaller than chunk size'
+      );
+    });
+
+    it('should reject non-positive chunk sizes', () => {
+      expect(validateChunkingOptions({ chunkSize: 0, chunkOverlap: 0 }).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('chunkText', () => {
+    it('should return a single chunk for short text', () => {
+      const chunks = chunkText('  Short text.  ', [], { chunkSize: 100, chunkOverlap: 10 });
+
+      expect(chunks).toEqual([
+        { chunk_index: 0, content: 'Short text.', start_offset: 2, end_offset: 13, page_number: null },
+      ]);
+    });
+
+    it('should return no chunks for blank text', () => {
+      expect(chunkText(' \n\n ', [], { chunkSize: 100, chunkOverlap: 10 })).toEqual([]);
+    });
+
+    it('should keep chunks within the configured size and cover the whole text', () => {
+      const chunks = chunkText(text, [], { chunkSize: 200, chunkOverlap: 50 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk, index) => {
+        expect(chunk.chunk_index).toBe(index);
+        expect(chunk.content.length).toBeLessThanOrEqual(200);
+        expect(text.slice(chunk.start_offset, chunk.end_offset)).toBe(chunk.content);
+      });
+      expect(chunks[0]!.start_offset).toBe(0);
+      expect(chunks[chunks.length - 1]!.end_offset).toBe(text.length);
+    });
+
+    it('should overlap consecutive chunks', () => {
+      const chunks = chunkText(text, [], { chunkSize: 200, chunkOverlap: 50 });
+
+      for (let i = 1; i < chunks.length; i++) {
+        expect(chunks[i]!.start_offset).toBeLessThan(chunks[i - 1]!.end_offset);
+      }
+    });
+
+    it('should prefer sentence boundaries and never start mid-word', () => {
+      const chunks = chunkText(text, [], { chunkSize: 200, chunkOverlap: 50 });
+
+      chunks.slice(0, -1).forEach(chunk => {
+        expect(chunk.content.endsWith('.')).toBe(true);
+      });
+      chunks.forEach(chunk => {
+        expect(chunk.start_offset === 0 || /\s/.test(text.charAt(chunk.start_offset - 1))).toBe(true);
+      });
+    });
+
+    it('should tag chunks with the page they start on', () => {
+      const pageOne = 'a '.repeat(60).trim();
+      const pageTwo = 'b '.repeat(60).trim();
+      const content = `${pageOne}\n\n${pageTwo}`;
+      const pages: ExtractedPage[] = [
+        { page_number: 1, start_offset: 0, end_offset: pageOne.length },
+        { page_number: 2, start_offset: pageOne.length + 2, end_offset: content.length },
+      ];
+
+      const chunks = chunkText(content, pages, { chunkSize: 60, chunkOverlap: 0 });
+
+      expect(chunks[0]!.page_number).toBe(1);
+      expect(chunks[chunks.length - 1]!.page_number).toBe(2);
+    });
+
+    it('should throw for invalid options', () => {
+      expect(() => chunkText(text, [], { chunkSize: 10, chunkOverlap: 20 })).toThrow('Invalid chunking options');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TextExtractionService } from '../services/textExtractionService';
+import { CustomError } from '../middleware/errorHandler';
+import config from '../config';
+
+// Mock dependencies
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+describe('TextExtractionService', () => {
+  let service: TextExtractionService;
+  let tempDir: string;
+
+  const writeTempFile = (name: string, content: string): string => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    service = new TextExtractionService();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'text-extraction-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('extractFromFile', () => {
+    it('should extract plain text as a single page', async () => {
+      const filePath = writeTempFile('notes.txt', '\uFEFFFirst line\r\nSecond line   \r\n');
+
+      const result = await service.extractFromFile(filePath, 'txt');
+
+      expect(result.extractor).toBe('plain-text');
+      expect(result.content).toBe('First line\nSecond line');
+      expect(result.pages).toEqual([
+        { page_number: 1, start_offset: 0, end_offset: result.content.length },
+      ]);
+    });
+
+    it('should record page boundaries at form feeds', async () => {
+      const filePath = writeTempFile('paged.txt', 'Page one\fPage two\fPage three');
+
+      const result = await service.extractFromFile(filePath, 'txt');
+
+      expect(result.pages).toHaveLength(3);
+      result.pages.forEach((page, index) => {
+        expect(result.content.slice(page.start_offset, page.end_offset)).toBe(
+          ['Page one', 'Page two', 'Page three'][index]
+        );
+      });
+    });
+
+    it('should strip Markdown syntax', async () => {
+      const filePath = writeTempFile(
+        'readme.md',
+        '# Title\n\nSome **bold** and *italic* text with a [link](http://example.com) and `code`.\n\n- item one\n- item two\n'
+      );
+
+      const result = await service.extractFromFile(filePath, 'md');
+
+      expect(result.extractor).toBe('markdown');
+      expect(result.content).toBe('Title\n\nSome bold and italic text with a link and code.\n\nitem one\nitem two');
+    });
+
+    it('should reject unsupported file types', async () => {
+      const filePath = writeTempFile('image.png', 'not really an image');
+
+      await expect(service.extractFromFile(filePath, 'png')).rejects.toThrow(CustomError);
+    });
+
+    it('should reject missing files', async () => {
+      await expect(
+        service.extractFromFile(path.join(tempDir, 'missing.txt'), 'txt')
+      ).rejects.toThrow();
+    });
+
+    it('should refuse files larger than the extraction limit without reading them', async () => {
+      const maxSize = config.textExtractionMaxSize;
+      config.textExtractionMaxSize = 10;
+      const readFile = jest.spyOn(fs.promises, 'readFile');
+
+      try {
+        const filePath = writeTempFile('large.txt', 'More than ten bytes of text');
+
+        await expect(service.extractFromFile(filePath, 'txt')).rejects.toMatchObject({
+          statusCode: 413,
+          code: 'FILE_TOO_LARGE',
+          message: expect.stringContaining('TEXT_EXTRACTION_MAX_SIZE'),
+        });
+        expect(readFile).not.toHaveBeenCalled();
+      } finally {
+        config.textExtractionMaxSize = maxSize;
+        readFile.mockRestore();
+      }
+    });
+  });
+});
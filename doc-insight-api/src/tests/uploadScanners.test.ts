@@ -0,0 +1,149 @@
+import fs from 'fs';
+import os from 'os';
+import net from 'net';
+import path from 'path';
+import crypto from 'crypto';
+import { once } from 'events';
+import { ClamdScanner, createUploadScanner, EicarScanner, UploadScanner } from '../services/uploadScanners';
+import { QuarantineService } from '../services/quarantineService';
+
+jest.mock('../utils/logger');
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Read the file sent with an INSTREAM command, or null until all of it has arrived
+ */
+function readInstream(received: Buffer): Buffer | null {
+  const parts: Buffer[] = [];
+  let offset = 'zINSTREAM\0'.length;
+
+  while (offset + 4 <= received.length) {
+    const length = received.readUInt32BE(offset);
+    if (length === 0) {
+      return Buffer.concat(parts);
+    }
+    if (offset + 4 + length > received.length) {
+      return null;
+    }
+    parts.push(received.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+  return null;
+}
+
+describe('upload scanners', () => {
+  let tempPath: string;
+
+  const writeFile = (name: string, content: Buffer | string) => {
+    const filePath = path.join(tempPath, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tempPath = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-scanners-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempPath, { recursive: true, force: true });
+  });
+
+  describe('EicarScanner', () => {
+    it('should find the EICAR test string, even across read chunks', async () => {
+      const content = Buffer.concat([Buffer.alloc(64 * 1024 - 30, 'a'), Buffer.from(EICAR)]);
+
+      expect(await new EicarScanner().scan(writeFile('eicar.txt', content)))
+        .toEqual({ infected: true, signature: 'Eicar-Test-Signature' });
+      expect(await new EicarScanner().scan(writeFile('notes.txt', 'Quarterly notes')))
+        .toEqual({ infected: false });
+    });
+  });
+
+  describe('ClamdScanner', () => {
+    let server: net.Server;
+    let connections: net.Socket[];
+    let received: Buffer[];
+    let silent: boolean;
+
+    const scanner = (clamdTimeout = 5000) => new ClamdScanner({
+      clamdSocket: '',
+      clamdHost: '127.0.0.1',
+      clamdPort: (server.address() as net.AddressInfo).port,
+      clamdTimeout,
+    });
+
+    beforeEach(async () => {
+      connections = [];
+      received = [];
+      silent = false;
+
+      // Replies like clamd once the whole stream is in, unless told to stay silent
+      server = net.createServer({ allowHalfOpen: true }, (socket) => {
+        connections.push(socket);
+        let data = Buffer.alloc(0);
+        socket.on('data', (chunk: Buffer) => {
+          data = Buffer.concat([data, chunk]);
+          const content = readInstream(data);
+          if (content && !silent) {
+            received.push(content);
+            socket.end(content.includes(EICAR) ? 'stream: Eicar-Test-Signature FOUND\0' : 'stream: OK\0');
+          }
+        });
+        socket.on('error', () => undefined);
+      });
+      server.listen(0, '127.0.0.1');
+      await once(server, 'listening');
+    });
+
+    afterEach(async () => {
+      connections.forEach(socket => socket.destroy());
+      server.close();
+      await once(server, 'close');
+    });
+
+    it('should stream the file to clamd in chunks and report it clean', async () => {
+      const content = crypto.randomBytes(150 * 1024);
+
+      expect(await scanner().scan(writeFile('manual.pdf', content))).toEqual({ infected: false });
+      expect(received[0]!.equals(content)).toBe(true);
+    });
+
+    it('should report the signature clamd found', async () => {
+      expect(await scanner().scan(writeFile('eicar.txt', EICAR)))
+        .toEqual({ infected: true, signature: 'Eicar-Test-Signature' });
+    });
+
+    it('should fail when clamd does not reply in time', async () => {
+      silent = true;
+
+      await expect(scanner(100).scan(writeFile('notes.txt', 'notes')))
+        .rejects.toThrow('clamd did not reply within 100ms');
+    });
+  });
+
+  describe('createUploadScanner', () => {
+    it('should create the configured scanner, or none', () => {
+      expect(createUploadScanner('')).toBeNull();
+      expect(createUploadScanner('eicar')).toBeInstanceOf(EicarScanner);
+      expect(createUploadScanner('clamd')).toBeInstanceOf(ClamdScanner);
+      expect(() => createUploadScanner('antivirus')).toThrow('Unknown upload scanner: antivirus');
+    });
+  });
+
+  describe('QuarantineService.scan', () => {
+    it('should refuse an upload that cannot be scanned', async () => {
+      const failing: UploadScanner = { name: 'clamd', scan: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) };
+      const file = { originalname: 'notes.txt', path: writeFile('notes.txt', 'notes') } as Express.Multer.File;
+
+      await expect(new QuarantineService(failing).scan(file))
+        .rejects.toMatchObject({ statusCode: 503, code: 'UPLOAD_SCAN_FAILED' });
+    });
+
+    it('should treat every upload as clean without a scanner', async () => {
+      const file = { originalname: 'eicar.txt', path: writeFile('eicar.txt', EICAR) } as Express.Multer.File;
+
+      expect(await new QuarantineService(null).scan(file)).toEqual({ infected: false });
+    });
+  });
+});
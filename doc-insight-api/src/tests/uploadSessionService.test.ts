@@ -0,0 +1,258 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { UploadSessionService } from '../services/uploadSessionService';
+import { DocumentService } from '../services/documentService';
+import { getDatabase } from '../database/connection';
+import { CustomError } from '../middleware/errorHandler';
+import * as configHelper from '../utils/configHelper';
+import * as fileStorage from '../utils/fileStorage';
+
+jest.mock('../database/connection');
+jest.mock('../utils/logger');
+
+const mockedGetDatabase = getDatabase as jest.MockedFunction<typeof getDatabase>;
+
+const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * In-memory stand-in for the upload_sessions and upload_session_chunks tables, supporting
+ * the query builder calls the service makes
+ */
+function mockDatabase(tables: Record<string, Record<string, any>[]>): void {
+  const builder: any = (table: string) => {
+    const filters: ((row: Record<string, any>) => boolean)[] = [];
+    const rows = () => tables[table]!.filter(row => filters.every(filter => filter(row)));
+
+    const query: any = {
+      where: (column: string | Record<string, any>, operator?: any, value?: any) => {
+        if (typeof column === 'object') {
+          filters.push(row => Object.entries(column).every(([key, expected]) => row[key] === expected));
+        } else if (value === undefined) {
+          filters.push(row => row[column] === operator);
+        } else {
+          filters.push(row => (operator === '<' ? row[column] < value : row[column] > value));
+        }
+        return query;
+      },
+      whereIn: (column: string, values: any[]) => {
+        filters.push(row => values.includes(row[column]));
+        return query;
+      },
+      orderBy: (column: string) => Object.assign(
+        Promise.resolve(rows().sort((a, b) => a[column] - b[column])),
+        query
+      ),
+      select: async () => rows(),
+      first: async () => rows()[0],
+      insert: (fields: Record<string, any>) => {
+        const row = { id: `upload-${tables[table]!.length + 1}`, ...fields };
+        return {
+          returning: async () => {
+            tables[table]!.push(row);
+            return [row];
+          },
+          onConflict: () => ({
+            merge: async () => {
+              tables[table] = tables[table]!.filter(existing =>
+                existing['session_id'] !== fields['session_id'] || existing['chunk_index'] !== fields['chunk_index']);
+              tables[table]!.push(fields);
+            },
+          }),
+        };
+      },
+      update: (fields: Record<string, any>) => {
+        const matched = rows();
+        matched.forEach(row => Object.assign(row, fields));
+        return Object.assign(Promise.resolve(matched.length), { returning: async () => matched });
+      },
+      delete: async () => {
+        const matched = rows();
+        tables[table] = tables[table]!.filter(row => !matched.includes(row));
+        return matched.length;
+      },
+    };
+    return query;
+  };
+
+  mockedGetDatabase.mockReturnValue(builder);
+}
+
+describe('UploadSessionService', () => {
+  let uploadPath: string;
+  let tables: Record<string, Record<string, any>[]>;
+  let createDocument: jest.Mock;
+
+  const session = (overrides: Record<string, any> = {}) => ({
+    id: 'upload-1',
+    file_name: 'manual.pdf',
+    file_size: 10,
+    mime_type: 'application/pdf',
+    chunk_size: 4,
+    total_chunks: 3,
+    checksum: sha256('%PDF-1.7\n%'),
+    title: 'manual',
+    description: null,
+    status: 'active',
+    document_id: null,
+    created_by: 'editor-1',
+    expires_at: new Date(Date.now() + 60000),
+    ...overrides,
+  });
+
+  const service = () => new UploadSessionService({ createDocument } as unknown as DocumentService);
+
+  const sendChunk = (index: number, data: string, checksum = sha256(data)) =>
+    service().receiveChunk('upload-1', 'editor-1', index, checksum, Readable.from([Buffer.from(data)]));
+
+  beforeEach(() => {
+    uploadPath = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-sessions-'));
+    tables = { upload_sessions: [session()], upload_session_chunks: [] };
+    mockDatabase(tables);
+    createDocument = jest.fn().mockResolvedValue({ document: { id: 'doc-1', file_name: 'manual.pdf' }, duplicate: false });
+
+    jest.spyOn(configHelper, 'getResumableUploadConfig').mockReturnValue({ maxSize: 1024, chunkSize: 4, ttl: 60000 });
+    jest.spyOn(configHelper, 'getFileUploadConfig').mockReturnValue({
+      maxSize: 10485760,
+      uploadPath,
+      allowedTypes: ['pdf'],
+      duplicateMode: 'reject',
+      maxFiles: 20,
+    });
+    jest.spyOn(fileStorage, 'createStoredFilePath').mockReturnValue({
+      destination: uploadPath,
+      filename: 'stored.pdf',
+      path: path.join(uploadPath, 'stored.pdf'),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(uploadPath, { recursive: true, force: true });
+  });
+
+  it('should split a new upload into chunks of the configured size', async () => {
+    tables['upload_sessions'] = [];
+
+    const upload = await service().createSession('editor-1', {
+      file_name: 'Scanned manual.pdf',
+      file_size: 9,
+      mime_type: 'application/pdf',
+    });
+
+    expect(upload).toMatchObject({
+      title: 'Scanned manual',
+      chunk_size: 4,
+      total_chunks: 3,
+      status: 'active',
+      received_chunks: [],
+      bytes_received: 0,
+    });
+  });
+
+  it('should store chunks sent in any order and report them', async () => {
+    await sendChunk(2, '\n%');
+    const upload = await sendChunk(0, '%PDF');
+
+    expect(upload).toMatchObject({ received_chunks: [0, 2], bytes_received: 6 });
+    expect(fs.readFileSync(path.join(uploadPath, '.resumable', 'upload-1', '2.part'), 'utf8')).toBe('\n%');
+  });
+
+  it('should reject a chunk that does not match its checksum or size', async () => {
+    await expect(sendChunk(0, '%PDF', sha256('%PDG')))
+      .rejects.toMatchObject({ statusCode: 400, code: 'CHUNK_CHECKSUM_MISMATCH' });
+    await expect(sendChunk(0, '%PDF-1'))
+      .rejects.toMatchObject({ statusCode: 400, code: 'CHUNK_SIZE_MISMATCH' });
+
+    expect(tables['upload_session_chunks']).toEqual([]);
+    expect(fs.readdirSync(path.join(uploadPath, '.resumable', 'upload-1'))).toEqual([]);
+  });
+
+  it('should reject chunks of an expired upload', async () => {
+    tables['upload_sessions'] = [session({ expires_at: new Date(Date.now() - 1000) })];
+
+    await expect(sendChunk(0, '%PDF')).rejects.toMatchObject({ statusCode: 410, code: 'UPLOAD_SESSION_EXPIRED' });
+  });
+
+  it('should assemble the chunks in order into a document and delete them', async () => {
+    await sendChunk(1, '-1.7');
+    await sendChunk(0, '%PDF');
+    await sendChunk(2, '\n%');
+
+    const result = await service().completeSession('upload-1', 'editor-1');
+
+    const [, { file }] = createDocument.mock.calls[0];
+    expect(file).toMatchObject({ originalname: 'manual.pdf', size: 10, contentHash: sha256('%PDF-1.7\n%') });
+    expect(fs.readFileSync(file.path, 'utf8')).toBe('%PDF-1.7\n%');
+    expect(result.upload).toMatchObject({ status: 'completed', document_id: 'doc-1' });
+    expect(fs.existsSync(path.join(uploadPath, '.resumable', 'upload-1'))).toBe(false);
+  });
+
+  it('should list the missing chunks and keep the upload active when completed early', async () => {
+    await sendChunk(1, '-1.7');
+
+    await expect(service().completeSession('upload-1', 'editor-1')).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'UPLOAD_INCOMPLETE',
+      data: { missing_chunks: [0, 2] },
+    });
+    expect(tables['upload_sessions']![0]).toMatchObject({ status: 'active' });
+    expect(createDocument).not.toHaveBeenCalled();
+  });
+
+  it('should keep the chunks when the document cannot be created', async () => {
+    await sendChunk(0, '%PDF');
+    await sendChunk(1, '-1.7');
+    await sendChunk(2, '\n%');
+    createDocument.mockRejectedValue(new CustomError('An identical file has already been uploaded', 409, 'DUPLICATE_DOCUMENT'));
+
+    await expect(service().completeSession('upload-1', 'editor-1'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'DUPLICATE_DOCUMENT' });
+
+    expect(tables['upload_sessions']![0]).toMatchObject({ status: 'active' });
+    expect(fs.existsSync(path.join(uploadPath, 'stored.pdf'))).toBe(false);
+    expect(fs.readdirSync(path.join(uploadPath, '.resumable', 'upload-1'))).toHaveLength(3);
+  });
+
+  it('should abort an upload found infected and delete its chunks', async () => {
+    await sendChunk(0, '%PDF');
+    await sendChunk(1, '-1.7');
+    await sendChunk(2, '\n%');
+    createDocument.mockRejectedValue(new CustomError('The file contains malware and has been quarantined', 422, 'MALWARE_DETECTED'));
+
+    await expect(service().completeSession('upload-1', 'editor-1'))
+      .rejects.toMatchObject({ statusCode: 422, code: 'MALWARE_DETECTED' });
+
+    expect(tables['upload_sessions']![0]).toMatchObject({ status: 'aborted' });
+    expect(fs.existsSync(path.join(uploadPath, '.resumable', 'upload-1'))).toBe(false);
+  });
+
+  it('should refuse to complete an upload whose content is not its file type', async () => {
+    tables['upload_sessions'] = [session({ checksum: null })];
+    await sendChunk(0, 'MZ\u0000\u0003');
+    await sendChunk(1, '4567');
+    await sendChunk(2, '89');
+
+    await expect(service().completeSession('upload-1', 'editor-1'))
+      .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_MIME_TYPE' });
+
+    expect(createDocument).not.toHaveBeenCalled();
+    expect(fs.existsSync(path.join(uploadPath, 'stored.pdf'))).toBe(false);
+  });
+
+  it('should delete expired uploads and their chunks', async () => {
+    await sendChunk(0, '%PDF');
+    tables['upload_sessions'] = [
+      session({ expires_at: new Date(Date.now() - 1000) }),
+      session({ id: 'upload-2' }),
+    ];
+
+    const deleted = await service().cleanupStaleUploads();
+
+    expect(deleted).toBe(1);
+    expect(tables['upload_sessions']!.map(row => row['id'])).toEqual(['upload-2']);
+    expect(fs.existsSync(path.join(uploadPath, '.resumable', 'upload-1'))).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import express from 'express';
+import request from 'supertest';
+import { signWebhookPayload, verifyWebhookSignature } from '../utils/webhookSignature';
+import { captureRawBody, verifyWebhookRequest } from '../middleware/webhookMiddleware';
+import { errorHandler } from '../middleware/errorHandler';
+import config from '../config';
+
+jest.mock('../utils/logger');
+
+describe('verifyWebhookSignature', () => {
+  const body = Buffer.from(JSON.stringify({ job_id: 'job-1', status: 'completed' }));
+  const now = 1700000000000;
+  const timestamp = now / 1000;
+  const tolerance = 300000;
+
+  it('should accept a payload signed with the current secret', () => {
+    const header = signWebhookPayload(body, 'current', timestamp);
+
+    expect(verifyWebhookSignature(header, body, ['current', 'previous'], tolerance, now))
+      .toEqual({ valid: true, timestamp });
+  });
+
+  it('should accept a payload signed with the previous secret during rotation', () => {
+    const header = signWebhookPayload(body, 'previous', timestamp);
+
+    expect(verifyWebhookSignature(header, body, ['current', 'previous'], tolerance, now).valid).toBe(true);
+    expect(verifyWebhookSignature(header, body, ['current'], tolerance, now)).toEqual({
+      valid: false,
+      reason: 'Signature mismatch',
+    });
+  });
+
+  it('should reject a tampered body', () => {
+    const header = signWebhookPayload(body, 'current', timestamp);
+    const tampered = Buffer.from(JSON.stringify({ job_id: 'job-1', status: 'failed' }));
+
+    expect(verifyWebhookSignature(header, tampered, ['current'], tolerance, now).valid).toBe(false);
+  });
+
+  it('should reject replays outside the tolerance window', () => {
+    const header = signWebhookPayload(body, 'current', timestamp - 301);
+
+    expect(verifyWebhookSignature(header, body, ['current'], tolerance, now)).toEqual({
+      valid: false,
+      reason: 'Signature timestamp outside the tolerance window',
+    });
+  });
+
+  it('should reject a timestamp that does not match the signature', () => {
+    const signature = signWebhookPayload(body, 'current', timestamp - 1000).split(',')[1];
+
+    expect(verifyWebhookSignature(`t=${timestamp},${signature}`, body, ['current'], tolerance, now).valid).toBe(false);
+  });
+
+  it('should reject missing or malformed headers and unconfigured secrets', () => {
+    const header = signWebhookPayload(body, 'current', timestamp);
+
+    expect(verifyWebhookSignature(undefined, body, ['current'], tolerance, now).valid).toBe(false);
+    expect(verifyWebhookSignature('v1=abc', body, ['current'], tolerance, now).valid).toBe(false);
+    expect(verifyWebhookSignature(`t=${timestamp},v1=not-hex`, body, ['current'], tolerance, now).valid).toBe(false);
+    expect(verifyWebhookSignature(header, body, [], tolerance, now).valid).toBe(false);
+  });
+});
+
+describe('verifyWebhookRequest', () => {
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  app.post('/webhook', verifyWebhookRequest, (_req, res) => {
+    res.status(200).json({ success: true });
+  });
+  app.use(errorHandler);
+
+  const payload = JSON.stringify({ job_id: 'job-1', status: 'completed' });
+
+  beforeEach(() => {
+    config.ingestionWebhookSecret = 'current';
+    config.ingestionWebhookPreviousSecret = '';
+  });
+
+  it('should pass signed requests through', async () => {
+    await request(app)
+      .post('/webhook')
+      .set('Content-Type', 'application/json')
+      .set('X-Webhook-Signature', signWebhookPayload(payload, 'current'))
+      .send(payload)
+      .expect(200);
+  });
+
+  it('should reject unsigned requests', async () => {
+    const response = await request(app)
+      .post('/webhook')
+      .set('Content-Type', 'application/json')
+      .send(payload)
+      .expect(401);
+
+    expect(response.body.code).toBe('WEBHOOK_SIGNATURE_INVALID');
+  });
+});
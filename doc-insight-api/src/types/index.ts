@@ -90,13 +90,17 @@ export interface Document {
   mime_type: string;
   status: DocumentStatus;
   metadata?: Record<string, any>;
+  content_hash?: string | null; // hex SHA-256 of the file; null for documents uploaded before hashing
+  current_version?: number; // the file columns above are this version's
+  indexed_version?: number | null; // the version Q&A and semantic search cite; null until first indexed
   uploaded_by: string;
   created_at: Date;
   updated_at: Date;
   processed_at?: Date;
 }
 
-export type DocumentStatus = 'pending' | 'processing' | 'completed' | 'failed';
+// 'quarantined' documents were found infected on upload; they are never ingested or served
+export type DocumentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'quarantined';
 
 export interface CreateDocumentRequest {
   title: string;
@@ -120,12 +124,323 @@ export interface DocumentResponse {
   mime_type: string;
   status: DocumentStatus;
   metadata?: Record<string, any>;
+  content_hash?: string | null;
+  current_version?: number;
+  indexed_version?: number | null;
   uploaded_by: string;
   created_at: Date;
   updated_at: Date;
   processed_at?: Date;
 }
 
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  file_name: string;
+  file_path: string;
+  file_type: string;
+  file_size: number;
+  mime_type: string;
+  content_hash: string | null;
+  restored_from: number | null; // the version this one restored
+  uploaded_by: string | null;
+  created_at: Date;
+}
+
+export interface DocumentVersionResponse extends Omit<DocumentVersion, 'file_path'> {
+  is_current: boolean;
+  download_url: string;
+}
+
+// A new current version and the job ingesting it (null if it could not be queued)
+export interface DocumentVersionResult {
+  version: DocumentVersionResponse;
+  ingestion_job: IngestionJobResponse | null;
+}
+
+// An upload's document: the new one, or with DUPLICATE_UPLOAD_MODE=link the existing document with identical content
+export interface DocumentUploadResult {
+  document: DocumentResponse;
+  duplicate: boolean;
+}
+
+// A file of a multi-file upload that was turned away before it was stored
+export interface RejectedUpload {
+  index: number; // position of the file in the request
+  file_name: string;
+  error: string;
+  code: string;
+}
+
+// Outcome of one file of a multi-file upload
+export interface MultiUploadFileResult {
+  index: number;
+  file_name: string;
+  status: 'created' | 'duplicate' | 'failed';
+  document?: DocumentResponse;
+  job_id?: string | null; // ingestion job of a created document, null if it could not be queued
+  error?: string;
+  code?: string;
+  data?: Record<string, any>; // e.g. the existing document of a rejected duplicate
+}
+
+export interface MultiUploadResult {
+  batch: IngestionBatchResponse | null; // ingestion batch of the created documents
+  results: MultiUploadFileResult[];
+  summary: { total: number; created: number; duplicate: number; failed: number };
+}
+
+// Entry of an imported ZIP archive that is not a document to import (e.g. a file type
+// that is not allowed), and so was not extracted
+export interface SkippedArchiveEntry {
+  index: number; // position of the file among the archive's files
+  file_name: string; // path within the archive
+  reason: string;
+}
+
+// Outcome of a ZIP import: one result per extracted entry, as for a multi-file upload
+export interface ArchiveImportResult extends MultiUploadResult {
+  archive: { file_name: string; entries: number; uncompressed_size: number };
+  skipped: SkippedArchiveEntry[];
+  summary: MultiUploadResult['summary'] & { skipped: number };
+}
+
+// Resumable upload related types. 'expired' is never stored: it is reported for
+// active sessions past expires_at, which are waiting to be cleaned up.
+export type UploadSessionStatus = 'active' | 'completing' | 'completed' | 'aborted' | 'expired';
+
+export interface UploadSession {
+  id: string;
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+  chunk_size: number;
+  total_chunks: number;
+  checksum: string | null; // SHA-256 of the whole file, if declared
+  title: string;
+  description: string | null;
+  status: UploadSessionStatus;
+  document_id: string | null; // the document created on completion
+  created_by: string;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UploadSessionChunk {
+  session_id: string;
+  chunk_index: number;
+  size: number;
+  checksum: string;
+  received_at: Date;
+}
+
+export interface CreateUploadSessionRequest {
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+  checksum?: string;
+  title?: string;
+  description?: string;
+}
+
+export interface UploadSessionResponse extends UploadSession {
+  received_chunks: number[]; // indexes of the chunks received so far, ascending
+  bytes_received: number;
+}
+
+export interface CompletedUploadResult extends DocumentUploadResult {
+  upload: UploadSessionResponse;
+}
+
+// Malware scanning related types
+export interface UploadScanResult {
+  infected: boolean;
+  signature?: string; // what the scanner found, if infected
+}
+
+export interface MalwareDetection {
+  id: string;
+  document_id: string | null; // the quarantined document, or the document a new version was uploaded to
+  file_name: string;
+  file_path: string; // where the file is quarantined
+  file_size: number;
+  content_hash: string | null;
+  scanner: string;
+  signature: string;
+  uploaded_by: string | null;
+  acknowledged_at: Date | null;
+  acknowledged_by: string | null;
+  created_at: Date;
+}
+
+export interface MalwareDetectionQuery {
+  acknowledged?: boolean;
+}
+
+export interface DocumentSearchQuery extends Omit<PaginationQuery, 'sort_by'> {
+  sort_by?: 'relevance' | 'created_at' | 'updated_at' | 'title' | 'file_name' | 'file_size';
+}
+
+export interface DocumentSearchResult extends DocumentResponse {
+  rank: number;
+  snippet: string; // HTML-escaped excerpt with matches wrapped in <mark>
+}
+
+export interface SemanticSearchQuery {
+  limit?: number;
+  chunks_per_document?: number;
+}
+
+export interface SemanticSearchChunkHit {
+  chunk_id: string;
+  chunk_index: number;
+  content: string;
+  page_number: number | null;
+  relevance: number;
+}
+
+export interface SemanticSearchResult {
+  document_id: string;
+  title: string;
+  file_name: string;
+  score: number; // Reciprocal rank fusion score
+  semantic_rank: number | null;
+  keyword_rank: number | null;
+  snippet: string | null;
+  chunks: SemanticSearchChunkHit[];
+}
+
+// Text extraction related types
+export interface ExtractedPage {
+  page_number: number;
+  start_offset: number;
+  end_offset: number;
+}
+
+export interface ExtractedText {
+  content: string;
+  pages: ExtractedPage[];
+  extractor: string;
+}
+
+export interface DocumentText {
+  id: string;
+  document_id: string;
+  content: string;
+  pages: ExtractedPage[];
+  page_count: number;
+  character_count: number;
+  extractor: string;
+  document_version?: number | null; // the document version the text was extracted from
+  extracted_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Chunking and embedding related types
+export interface TextChunk {
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  page_number: number | null;
+}
+
+export interface DocumentChunk extends TextChunk {
+  id: string;
+  document_id: string;
+  embedding: number[];
+  embedding_model: string;
+  document_version?: number | null;
+  created_at: Date;
+}
+
+export type DocumentChunkResponse = Omit<DocumentChunk, 'embedding'>;
+
+export interface RetrievedChunk {
+  chunk_id: string;
+  document_id: string;
+  document_title: string;
+  file_name: string;
+  chunk_index: number;
+  content: string;
+  page_number: number | null;
+  document_version: number | null;
+  relevance: number;
+}
+
+// Q&A related types
+export interface AskQuestionRequest {
+  question: string;
+  context?: string;
+  document_ids?: string[];
+  document_version?: number; // cite this version of the one document asked about, instead of its indexed version
+}
+
+export interface QaQuestion {
+  id: string;
+  user_id: string;
+  question_text: string;
+  context: string | null;
+  document_ids: string[] | null;
+  created_at: Date;
+}
+
+export interface QaAnswer {
+  id: string;
+  question_id: string;
+  answer_text: string;
+  confidence: number;
+  sources: QaSource[];
+  generator: string;
+  created_at: Date;
+}
+
+export interface GeneratedAnswer {
+  text: string;
+  confidence: number;
+  sources: QaSource[];
+  generator: string;
+}
+
+// Q&A responses use camelCase to match the portal's Question/Answer/Source models
+export interface QaSource {
+  documentId: string;
+  documentName: string;
+  excerpt: string;
+  pageNumber?: number;
+  documentVersion?: number; // the version of the document the excerpt was ingested from
+  relevance: number;
+}
+
+export interface QaQuestionResponse {
+  id: string;
+  text: string;
+  askedAt: Date;
+  askedBy: string;
+}
+
+export interface QaAnswerResponse {
+  id: string;
+  questionId: string;
+  text: string;
+  confidence: number;
+  sources: QaSource[];
+  answeredAt: Date;
+}
+
+export interface QaResponse {
+  question: QaQuestionResponse;
+  answer: QaAnswerResponse;
+}
+
+export interface QaStats {
+  totalQuestions: number;
+  recentQuestions: QaQuestionResponse[];
+}
+
 // Ingestion related types
 export interface IngestionJob {
   id: string;
@@ -136,29 +451,200 @@ export interface IngestionJob {
   retry_count: number;
   started_at?: Date;
   completed_at?: Date;
+  locked_by?: string | null;
+  locked_until?: Date | null;
+  next_attempt_at?: Date | null;
+  cancelled_by?: string | null;
+  cancelled_at?: Date | null;
+  batch_id?: string | null;
+  requested_by?: string | null;
+  priority?: IngestionJobPriority;
+  document_version?: number | null;
   created_at: Date;
   updated_at: Date;
 }
 
-export type IngestionJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+export type IngestionJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'dead_lettered';
+
+// Queued jobs are claimed in priority order; only admins may queue urgent jobs
+export type IngestionJobPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export type IngestionProcessResult =
+  | { status: 'completed'; progress?: Record<string, any> }
+  // Handed to an external service that reports back through the status webhook
+  | { status: 'dispatched' };
+
+// Who or what moved an ingestion job between statuses
+export type IngestionJobTransitionSource = 'api' | 'worker' | 'webhook' | 'recovery';
+
+// A status transition recorded in ingestion_job_events
+export interface IngestionJobTransition {
+  id: string;
+  job_id: string;
+  from_status: IngestionJobStatus | null;
+  to_status: IngestionJobStatus;
+  source: IngestionJobTransitionSource;
+  actor_id: string | null;
+  message: string | null;
+  created_at: Date;
+}
+
+export type IngestionJobStepStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// A processing step recorded in ingestion_job_steps
+export interface IngestionJobStep {
+  id: string;
+  job_id: string;
+  attempt: number;
+  step: string;
+  status: IngestionJobStepStatus;
+  message: string | null;
+  started_at: Date;
+  ended_at: Date | null;
+}
+
+export interface IngestionJobTimelineStep {
+  attempt: number;
+  step: string;
+  status: IngestionJobStepStatus;
+  message: string | null;
+  started_at: Date;
+  ended_at: Date | null;
+  duration_ms: number | null; // null while the step is running
+}
+
+// Per-step timings of an ingestion job, as returned by GET /api/ingestion/status/:jobId/timeline
+export interface IngestionJobTimeline {
+  job_id: string;
+  status: IngestionJobStatus;
+  created_at: Date;
+  completed_at: Date | null;
+  duration_ms: number | null; // from the first step starting to the last one ending
+  steps: IngestionJobTimelineStep[];
+}
+
+// Live change to an ingestion job, as published to GET /api/ingestion/events
+export interface IngestionJobEvent {
+  job_id: string;
+  document_id: string;
+  // Uploader of the job's document; used to route the event, not sent to clients
+  owner_id: string;
+  status: IngestionJobStatus;
+  progress: Record<string, any> | null;
+  error_message: string | null;
+  retry_count: number;
+  next_attempt_at: string | null;
+  updated_at: string;
+}
 
 export interface TriggerIngestionRequest {
   document_id: string;
+  priority?: IngestionJobPriority; // defaults to normal
 }
 
 export interface IngestionJobResponse {
   id: string;
   document_id: string;
   status: IngestionJobStatus;
+  priority: IngestionJobPriority;
   error_message?: string;
   progress?: Record<string, any>;
   retry_count: number;
   started_at?: Date;
   completed_at?: Date;
+  next_attempt_at?: Date;
+  cancelled_by?: string;
+  cancelled_at?: Date;
+  batch_id?: string;
+  requested_by?: string;
+  document_version?: number;
+  queue_position?: number; // queued jobs only; 1 is the next job to be claimed
+  estimated_start_at?: Date; // queued jobs only, once there are finished jobs to estimate from
   created_at: Date;
   updated_at: Date;
 }
 
+// Jobs queued together by a bulk trigger
+export interface IngestionBatch {
+  id: string;
+  created_by: string | null;
+  cancelled_by: string | null;
+  cancelled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type IngestionBatchStatus = 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// Number of a batch's jobs in each state; failed includes dead-lettered jobs
+export interface IngestionBatchCounts {
+  queued: number;
+  running: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface IngestionBatchResponse {
+  id: string;
+  status: IngestionBatchStatus;
+  total_jobs: number;
+  counts: IngestionBatchCounts;
+  progress: number; // percentage over all jobs; finished jobs count as 100
+  created_by: string | null;
+  cancelled_by?: string;
+  cancelled_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BulkIngestionResult {
+  batch: IngestionBatchResponse | null; // null when no job could be queued
+  results: { document_id: string; job_id: string; status: 'triggered' }[];
+  errors: { document_id: string; error: string }[];
+}
+
+// Schedule related types
+export type ScheduledTaskName = 'reingest_documents' | 'cleanup_expired_sessions' | 'cleanup_stale_uploads';
+
+export type ScheduleRunStatus = 'running' | 'succeeded' | 'failed';
+
+// Options of a reingest_documents schedule. Without document_ids every document is
+// considered; with changed_since_last_run only those updated since the last successful run.
+export interface ReingestScheduleOptions {
+  document_ids?: string[];
+  changed_since_last_run?: boolean;
+  priority?: IngestionJobPriority; // defaults to low
+}
+
+export interface Schedule {
+  id: string;
+  name: string;
+  task: ScheduledTaskName;
+  cron_expression: string;
+  options: Record<string, any>;
+  is_enabled: boolean;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  last_run_status: ScheduleRunStatus | null;
+  last_run_error: string | null;
+  last_run_result: Record<string, any> | null;
+  last_success_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateScheduleRequest {
+  name: string;
+  task: ScheduledTaskName;
+  cron_expression: string;
+  options?: Record<string, any>;
+  is_enabled?: boolean;
+}
+
+export type UpdateScheduleRequest = Partial<CreateScheduleRequest>;
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -189,6 +675,8 @@ export interface PaginationQuery {
 // File upload types
 export interface FileUploadConfig {
   maxFileSize: number;
+  maxFilesPerUpload: number;
+  maxArchiveSize: number;
   allowedFileTypes: string[];
   uploadPath: string;
 }
@@ -7,6 +7,7 @@
 
 import config from '../config';
 import { logger } from './logger';
+import { validateChunkingOptions } from './textChunker';
 
 /**
  * Check if the application is running in development mode
@@ -70,11 +71,66 @@ export function getFileUploadConfig(): {
   maxSize: number;
   uploadPath: string;
   allowedTypes: string[];
+  duplicateMode: 'reject' | 'link';
+  maxFiles: number;
 } {
   return {
     maxSize: config.maxFileSize,
     uploadPath: config.uploadPath,
     allowedTypes: config.allowedFileTypes,
+    duplicateMode: config.duplicateUploadMode === 'link' ? 'link' : 'reject',
+    maxFiles: config.maxFilesPerUpload,
+  };
+}
+
+/**
+ * Get resumable upload configuration
+ */
+export function getResumableUploadConfig(): {
+  maxSize: number;
+  chunkSize: number;
+  ttl: number;
+} {
+  return {
+    maxSize: config.resumableUploadMaxSize,
+    chunkSize: config.resumableUploadChunkSize,
+    ttl: config.resumableUploadTtl,
+  };
+}
+
+/**
+ * Get ZIP import configuration
+ */
+export function getZipImportConfig(): {
+  maxSize: number;
+  maxEntries: number;
+  maxUncompressedSize: number;
+  maxCompressionRatio: number;
+} {
+  return {
+    maxSize: config.zipImportMaxSize,
+    maxEntries: config.zipImportMaxEntries,
+    maxUncompressedSize: config.zipImportMaxUncompressedSize,
+    maxCompressionRatio: config.zipImportMaxCompressionRatio,
+  };
+}
+
+/**
+ * Get upload malware scanning configuration
+ */
+export function getUploadScanConfig(): {
+  scanner: string;
+  clamdSocket: string;
+  clamdHost: string;
+  clamdPort: number;
+  clamdTimeout: number;
+} {
+  return {
+    scanner: config.uploadScanner,
+    clamdSocket: config.clamdSocket,
+    clamdHost: config.clamdHost,
+    clamdPort: config.clamdPort,
+    clamdTimeout: config.clamdTimeout,
   };
 }
 
@@ -109,20 +165,131 @@ export function getMockIngestionConfig(): {
   minTime: number;
   maxTime: number;
   failureRate: number;
-  maxRetries: number;
-  autoCleanup: boolean;
-  cleanupInterval: number;
-  maxAge: number;
+  localProcessing: boolean;
 } {
   return {
     useMock: config.useMockIngestion,
     minTime: config.mockIngestionMinTime,
     maxTime: config.mockIngestionMaxTime,
     failureRate: config.mockIngestionFailureRate,
-    maxRetries: config.mockIngestionMaxRetries,
-    autoCleanup: config.mockIngestionAutoCleanup,
-    cleanupInterval: config.mockIngestionCleanupInterval,
-    maxAge: config.mockIngestionMaxAge,
+    localProcessing: config.mockIngestionLocalProcessing,
+  };
+}
+
+/**
+ * Get ingestion queue configuration
+ */
+export function getIngestionQueueConfig(): {
+  processor: string;
+  workerInProcess: boolean;
+  concurrency: number;
+  maxRunningJobs: number;
+  userMaxRunningJobs: number;
+  roleMaxRunningJobs: Record<string, number>;
+  pollInterval: number;
+  visibilityTimeout: number;
+  recoveryInterval: number;
+  maxRetries: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  retryJitter: number;
+} {
+  return {
+    processor: config.ingestionProcessor || (config.useMockIngestion ? 'mock' : 'python'),
+    workerInProcess: config.ingestionWorkerInProcess,
+    concurrency: config.ingestionWorkerConcurrency,
+    maxRunningJobs: config.ingestionMaxRunningJobs,
+    userMaxRunningJobs: config.ingestionUserMaxRunningJobs,
+    roleMaxRunningJobs: parseRoleLimits(config.ingestionRoleMaxRunningJobs) || {},
+    pollInterval: config.ingestionPollInterval,
+    visibilityTimeout: config.ingestionVisibilityTimeout,
+    recoveryInterval: config.ingestionRecoveryInterval,
+    maxRetries: config.ingestionMaxRetries,
+    retryBaseDelay: config.ingestionRetryBaseDelay,
+    retryMaxDelay: config.ingestionRetryMaxDelay,
+    retryJitter: config.ingestionRetryJitter,
+  };
+}
+
+/**
+ * Get scheduler configuration
+ */
+export function getSchedulerConfig(): {
+  enabled: boolean;
+  pollInterval: number;
+} {
+  return {
+    enabled: config.schedulerEnabled,
+    pollInterval: config.schedulerPollInterval,
+  };
+}
+
+/**
+ * Parse a list of role:limit pairs such as "editor:6,viewer:2", or return null if it is malformed
+ */
+export function parseRoleLimits(value: string): Record<string, number> | null {
+  const limits: Record<string, number> = {};
+
+  for (const pair of value.split(',').map(entry => entry.trim()).filter(entry => entry)) {
+    const [role, limit, ...rest] = pair.split(':').map(part => part.trim());
+    const parsedLimit = Number(limit);
+    if (!role || rest.length > 0 || !Number.isInteger(parsedLimit) || parsedLimit < 0) {
+      return null;
+    }
+    limits[role] = parsedLimit;
+  }
+
+  return limits;
+}
+
+/**
+ * Get chunking and embedding configuration
+ */
+export function getEmbeddingConfig(): {
+  chunkSize: number;
+  chunkOverlap: number;
+  provider: string;
+  dimensions: number;
+  batchSize: number;
+} {
+  return {
+    chunkSize: config.chunkSize,
+    chunkOverlap: config.chunkOverlap,
+    provider: config.embeddingProvider,
+    dimensions: config.embeddingDimensions,
+    batchSize: config.embeddingBatchSize,
+  };
+}
+
+/**
+ * Get Q&A configuration
+ */
+export function getQaConfig(): {
+  topK: number;
+  minRelevance: number;
+  answerProvider: string;
+  llmApiUrl: string;
+  llmModel: string;
+} {
+  return {
+    topK: config.qaTopK,
+    minRelevance: config.qaMinRelevance,
+    answerProvider: config.answerProvider,
+    llmApiUrl: config.llmApiUrl,
+    llmModel: config.llmModel,
+  };
+}
+
+/**
+ * Get search configuration
+ */
+export function getSearchConfig(): {
+  candidates: number;
+  rrfK: number;
+} {
+  return {
+    candidates: config.searchCandidates,
+    rrfK: config.searchRrfK,
   };
 }
 
@@ -173,6 +340,151 @@ export function validateRequiredEnvVars(): { valid: boolean; errors: string[] }
     errors.push('Either DATABASE_URL or DB_HOST and DB_NAME must be set');
   }
 
+  if (!Number.isInteger(config.textExtractionMaxSize) || config.textExtractionMaxSize <= 0) {
+    errors.push('TEXT_EXTRACTION_MAX_SIZE must be a positive integer');
+  }
+
+  errors.push(...validateChunkingOptions({
+    chunkSize: config.chunkSize,
+    chunkOverlap: config.chunkOverlap,
+  }));
+
+  if (!['reject', 'link'].includes(config.duplicateUploadMode)) {
+    errors.push('DUPLICATE_UPLOAD_MODE must be one of reject or link');
+  }
+
+  if (!Number.isInteger(config.maxFilesPerUpload) || config.maxFilesPerUpload <= 0) {
+    errors.push('MAX_FILES_PER_UPLOAD must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.resumableUploadMaxSize) || config.resumableUploadMaxSize <= 0) {
+    errors.push('RESUMABLE_UPLOAD_MAX_SIZE must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.resumableUploadChunkSize) || config.resumableUploadChunkSize <= 0) {
+    errors.push('RESUMABLE_UPLOAD_CHUNK_SIZE must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.resumableUploadTtl) || config.resumableUploadTtl <= 0) {
+    errors.push('RESUMABLE_UPLOAD_TTL must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.zipImportMaxSize) || config.zipImportMaxSize <= 0) {
+    errors.push('ZIP_IMPORT_MAX_SIZE must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.zipImportMaxEntries) || config.zipImportMaxEntries <= 0) {
+    errors.push('ZIP_IMPORT_MAX_ENTRIES must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.zipImportMaxUncompressedSize) || config.zipImportMaxUncompressedSize <= 0) {
+    errors.push('ZIP_IMPORT_MAX_UNCOMPRESSED_SIZE must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.zipImportMaxCompressionRatio) || config.zipImportMaxCompressionRatio <= 0) {
+    errors.push('ZIP_IMPORT_MAX_COMPRESSION_RATIO must be a positive integer');
+  }
+
+  if (config.uploadScanner && !['clamd', 'eicar'].includes(config.uploadScanner)) {
+    errors.push('UPLOAD_SCANNER must be empty or one of clamd, eicar');
+  }
+
+  if (!Number.isInteger(config.clamdPort) || config.clamdPort <= 0) {
+    errors.push('CLAMD_PORT must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.clamdTimeout) || config.clamdTimeout <= 0) {
+    errors.push('CLAMD_TIMEOUT must be a positive integer');
+  }
+
+  if (config.ingestionProcessor && !['mock', 'local', 'python'].includes(config.ingestionProcessor)) {
+    errors.push('INGESTION_PROCESSOR must be one of mock, local or python');
+  }
+
+  if (!Number.isInteger(config.ingestionWorkerConcurrency) || config.ingestionWorkerConcurrency <= 0) {
+    errors.push('INGESTION_WORKER_CONCURRENCY must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.ingestionMaxRunningJobs) || config.ingestionMaxRunningJobs < 0) {
+    errors.push('INGESTION_MAX_RUNNING_JOBS must be a non-negative integer');
+  }
+
+  if (!Number.isInteger(config.ingestionUserMaxRunningJobs) || config.ingestionUserMaxRunningJobs < 0) {
+    errors.push('INGESTION_USER_MAX_RUNNING_JOBS must be a non-negative integer');
+  }
+
+  if (!parseRoleLimits(config.ingestionRoleMaxRunningJobs)) {
+    errors.push('INGESTION_ROLE_MAX_RUNNING_JOBS must be a list of role:limit pairs with non-negative integer limits');
+  }
+
+  if (!Number.isInteger(config.ingestionPollInterval) || config.ingestionPollInterval <= 0) {
+    errors.push('INGESTION_POLL_INTERVAL must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.ingestionVisibilityTimeout) || config.ingestionVisibilityTimeout <= 0) {
+    errors.push('INGESTION_VISIBILITY_TIMEOUT must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.ingestionRecoveryInterval) || config.ingestionRecoveryInterval <= 0) {
+    errors.push('INGESTION_RECOVERY_INTERVAL must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.ingestionMaxRetries) || config.ingestionMaxRetries < 0) {
+    errors.push('INGESTION_MAX_RETRIES must be a non-negative integer');
+  }
+
+  if (!Number.isInteger(config.ingestionRetryBaseDelay) || config.ingestionRetryBaseDelay < 0) {
+    errors.push('INGESTION_RETRY_BASE_DELAY must be a non-negative integer');
+  }
+
+  if (!Number.isInteger(config.ingestionRetryMaxDelay) || config.ingestionRetryMaxDelay < config.ingestionRetryBaseDelay) {
+    errors.push('INGESTION_RETRY_MAX_DELAY must be an integer no smaller than INGESTION_RETRY_BASE_DELAY');
+  }
+
+  if (isNaN(config.ingestionRetryJitter) || config.ingestionRetryJitter < 0 || config.ingestionRetryJitter > 1) {
+    errors.push('INGESTION_RETRY_JITTER must be between 0 and 1');
+  }
+
+  if (!Number.isInteger(config.ingestionEventsKeepAliveInterval) || config.ingestionEventsKeepAliveInterval <= 0) {
+    errors.push('INGESTION_EVENTS_KEEPALIVE_INTERVAL must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.ingestionBulkMaxDocuments) || config.ingestionBulkMaxDocuments <= 0) {
+    errors.push('INGESTION_BULK_MAX_DOCUMENTS must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.ingestionWebhookTolerance) || config.ingestionWebhookTolerance <= 0) {
+    errors.push('INGESTION_WEBHOOK_TOLERANCE must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.schedulerPollInterval) || config.schedulerPollInterval <= 0) {
+    errors.push('SCHEDULER_POLL_INTERVAL must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.embeddingBatchSize) || config.embeddingBatchSize <= 0) {
+    errors.push('EMBEDDING_BATCH_SIZE must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.qaTopK) || config.qaTopK <= 0) {
+    errors.push('QA_TOP_K must be a positive integer');
+  }
+
+  if (isNaN(config.qaMinRelevance) || config.qaMinRelevance < 0 || config.qaMinRelevance > 1) {
+    errors.push('QA_MIN_RELEVANCE must be between 0 and 1');
+  }
+
+  if (!['extractive', 'openai'].includes(config.answerProvider)) {
+    errors.push('ANSWER_PROVIDER must be either extractive or openai');
+  }
+
+  if (!Number.isInteger(config.searchCandidates) || config.searchCandidates <= 0) {
+    errors.push('SEARCH_CANDIDATES must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.searchRrfK) || config.searchRrfK < 0) {
+    errors.push('SEARCH_RRF_K must be a non-negative integer');
+  }
+
   // Only enforce secure values in production
   if (isProduction()) {
     if (config.jwtSecret === 'your_secret_key') {
@@ -182,6 +494,11 @@ export function validateRequiredEnvVars(): { valid: boolean; errors: string[] }
     if (config.jwtRefreshSecret === 'your_refresh_secret_key') {
       errors.push('JWT_REFRESH_SECRET must be set to a secure value in production');
     }
+
+    // The Python service reports back through the signed status webhook
+    if (getIngestionQueueConfig().processor === 'python' && !config.ingestionWebhookSecret) {
+      errors.push('INGESTION_WEBHOOK_SECRET must be set in production when using the python processor');
+    }
   } else {
     // In development, warn but don't fail if using default values
     if (config.jwtSecret === 'your_secret_key') {
@@ -199,6 +516,20 @@ export function validateRequiredEnvVars(): { valid: boolean; errors: string[] }
   };
 }
 
+/**
+ * Get ingestion webhook verification configuration: the active signing secrets
+ * (current first, then the one being rotated out) and the replay window
+ */
+export function getWebhookConfig(): {
+  secrets: string[];
+  tolerance: number;
+} {
+  return {
+    secrets: [config.ingestionWebhookSecret, config.ingestionWebhookPreviousSecret].filter(secret => secret),
+    tolerance: config.ingestionWebhookTolerance,
+  };
+}
+
 /**
  * Get configuration summary for logging (without sensitive data)
  */
@@ -221,13 +552,51 @@ export function getConfigSummary(): {
   fileUpload: {
     maxSize: number;
     allowedTypes: string[];
+    duplicateMode: string;
+    maxFiles: number;
+  };
+  resumableUpload: {
+    maxSize: number;
+    chunkSize: number;
+    ttl: number;
+  };
+  zipImport: {
+    maxSize: number;
+    maxEntries: number;
+    maxUncompressedSize: number;
+    maxCompressionRatio: number;
+  };
+  uploadScan: {
+    scanner: string;
+    clamdSocket: string;
+    clamdHost: string;
+    clamdPort: number;
   };
   mockIngestion: {
     enabled: boolean;
     minTime: number;
     maxTime: number;
     failureRate: number;
-    autoCleanup: boolean;
+    localProcessing: boolean;
+  };
+  ingestionQueue: {
+    processor: string;
+    workerInProcess: boolean;
+    concurrency: number;
+    maxRunningJobs: number;
+  };
+  webhook: {
+    secretConfigured: boolean;
+    rotating: boolean;
+    tolerance: number;
+  };
+  scheduler: {
+    enabled: boolean;
+    pollInterval: number;
+  };
+  qa: {
+    answerProvider: string;
+    llmModel: string;
   };
   logging: {
     level: string;
@@ -247,13 +616,39 @@ export function getConfigSummary(): {
     fileUpload: {
       maxSize: config.maxFileSize,
       allowedTypes: config.allowedFileTypes,
+      duplicateMode: config.duplicateUploadMode,
+      maxFiles: config.maxFilesPerUpload,
+    },
+    resumableUpload: getResumableUploadConfig(),
+    zipImport: getZipImportConfig(),
+    uploadScan: {
+      scanner: config.uploadScanner || 'none',
+      clamdSocket: config.clamdSocket,
+      clamdHost: config.clamdHost,
+      clamdPort: config.clamdPort,
     },
     mockIngestion: {
       enabled: config.useMockIngestion,
       minTime: config.mockIngestionMinTime,
       maxTime: config.mockIngestionMaxTime,
       failureRate: config.mockIngestionFailureRate,
-      autoCleanup: config.mockIngestionAutoCleanup,
+      localProcessing: config.mockIngestionLocalProcessing,
+    },
+    ingestionQueue: {
+      processor: getIngestionQueueConfig().processor,
+      workerInProcess: config.ingestionWorkerInProcess,
+      concurrency: config.ingestionWorkerConcurrency,
+      maxRunningJobs: config.ingestionMaxRunningJobs,
+    },
+    webhook: {
+      secretConfigured: !!config.ingestionWebhookSecret,
+      rotating: !!config.ingestionWebhookPreviousSecret,
+      tolerance: config.ingestionWebhookTolerance,
+    },
+    scheduler: getSchedulerConfig(),
+    qa: {
+      answerProvider: config.answerProvider,
+      llmModel: config.llmModel,
     },
     logging: {
       level: config.logLevel,
@@ -268,8 +663,6 @@ export function isFeatureEnabled(feature: string): boolean {
   switch (feature) {
     case 'mockIngestion':
       return config.useMockIngestion;
-    case 'autoCleanup':
-      return config.mockIngestionAutoCleanup;
     case 'ssl':
       return config.dbSsl;
     default:
@@ -51,6 +51,21 @@ export class ErrorCodes {
     static readonly DOCUMENTS_FETCH_ERROR = 'DOCUMENTS_FETCH_ERROR';
     static readonly DOCUMENT_STATS_ERROR = 'DOCUMENT_STATS_ERROR';
     static readonly DOCUMENT_SEARCH_ERROR = 'DOCUMENT_SEARCH_ERROR';
+    static readonly SEMANTIC_SEARCH_ERROR = 'SEMANTIC_SEARCH_ERROR';
+    static readonly DOCUMENT_FILE_NOT_FOUND = 'DOCUMENT_FILE_NOT_FOUND';
+    static readonly DOCUMENT_STREAM_ERROR = 'DOCUMENT_STREAM_ERROR';
+    static readonly RANGE_NOT_SATISFIABLE = 'RANGE_NOT_SATISFIABLE';
+    static readonly DOCUMENT_TEXT_NOT_FOUND = 'DOCUMENT_TEXT_NOT_FOUND';
+    static readonly TEXT_EXTRACTION_ERROR = 'TEXT_EXTRACTION_ERROR';
+    static readonly UNSUPPORTED_FILE_TYPE = 'UNSUPPORTED_FILE_TYPE';
+    static readonly CHUNK_INDEXING_ERROR = 'CHUNK_INDEXING_ERROR';
+    static readonly DOCUMENT_CHUNKS_FETCH_ERROR = 'DOCUMENT_CHUNKS_FETCH_ERROR';
+    static readonly CHUNK_RETRIEVAL_ERROR = 'CHUNK_RETRIEVAL_ERROR';
+    static readonly QA_QUESTION_NOT_FOUND = 'QA_QUESTION_NOT_FOUND';
+    static readonly QA_ASK_ERROR = 'QA_ASK_ERROR';
+    static readonly QA_HISTORY_ERROR = 'QA_HISTORY_ERROR';
+    static readonly QA_ANSWER_FETCH_ERROR = 'QA_ANSWER_FETCH_ERROR';
+    static readonly QA_STATS_ERROR = 'QA_STATS_ERROR';
     static readonly INGESTION_JOB_NOT_FOUND = 'INGESTION_JOB_NOT_FOUND';
     static readonly INGESTION_JOB_UPDATE_ERROR = 'INGESTION_JOB_UPDATE_ERROR';
     static readonly INGESTION_JOB_DELETE_ERROR = 'INGESTION_JOB_DELETE_ERROR';
@@ -68,6 +83,13 @@ export class ErrorCodes {
     static readonly INGESTION_RETRY_ERROR = 'INGESTION_RETRY_ERROR';
     static readonly JOB_STATUS_UPDATE_ERROR = 'JOB_STATUS_UPDATE_ERROR';
     static readonly INVALID_JOB_STATUS = 'INVALID_JOB_STATUS';
+    static readonly INGESTION_QUEUE_ERROR = 'INGESTION_QUEUE_ERROR';
+    static readonly INGESTION_REQUEUE_ERROR = 'INGESTION_REQUEUE_ERROR';
+    static readonly INGESTION_CANCEL_ERROR = 'INGESTION_CANCEL_ERROR';
+    static readonly INGESTION_EVENTS_ERROR = 'INGESTION_EVENTS_ERROR';
+    static readonly INGESTION_BATCH_NOT_FOUND = 'INGESTION_BATCH_NOT_FOUND';
+    static readonly INGESTION_BATCH_ERROR = 'INGESTION_BATCH_ERROR';
+    static readonly WEBHOOK_SIGNATURE_INVALID = 'WEBHOOK_SIGNATURE_INVALID';
     static readonly EMAIL_EXISTS = 'EMAIL_EXISTS';
     static readonly USERNAME_EXISTS = 'USERNAME_EXISTS';
     static readonly REGISTRATION_ERROR = 'REGISTRATION_ERROR';
@@ -86,4 +108,30 @@ export class ErrorCodes {
     static readonly USER_SESSION_CLEANUP_ERROR = 'USER_SESSION_CLEANUP_ERROR';
     static readonly INVALID_PASSWORD = 'INVALID_PASSWORD';
     static readonly PASSWORD_CHANGE_ERROR = 'PASSWORD_CHANGE_ERROR';
+    static readonly SCHEDULE_NOT_FOUND = 'SCHEDULE_NOT_FOUND';
+    static readonly INVALID_CRON_EXPRESSION = 'INVALID_CRON_EXPRESSION';
+    static readonly SCHEDULE_ERROR = 'SCHEDULE_ERROR';
+    static readonly SCHEDULE_RUN_ERROR = 'SCHEDULE_RUN_ERROR';
+    static readonly DUPLICATE_DOCUMENT = 'DUPLICATE_DOCUMENT';
+    static readonly DOCUMENT_VERSION_NOT_FOUND = 'DOCUMENT_VERSION_NOT_FOUND';
+    static readonly DOCUMENT_VERSION_ERROR = 'DOCUMENT_VERSION_ERROR';
+    static readonly UPLOAD_SESSION_NOT_FOUND = 'UPLOAD_SESSION_NOT_FOUND';
+    static readonly UPLOAD_SESSION_EXPIRED = 'UPLOAD_SESSION_EXPIRED';
+    static readonly UPLOAD_SESSION_NOT_ACTIVE = 'UPLOAD_SESSION_NOT_ACTIVE';
+    static readonly UPLOAD_INCOMPLETE = 'UPLOAD_INCOMPLETE';
+    static readonly CHUNK_SIZE_MISMATCH = 'CHUNK_SIZE_MISMATCH';
+    static readonly CHUNK_CHECKSUM_MISMATCH = 'CHUNK_CHECKSUM_MISMATCH';
+    static readonly UPLOAD_CHECKSUM_MISMATCH = 'UPLOAD_CHECKSUM_MISMATCH';
+    static readonly UPLOAD_SESSION_ERROR = 'UPLOAD_SESSION_ERROR';
+    static readonly INVALID_ARCHIVE = 'INVALID_ARCHIVE';
+    static readonly ARCHIVE_TOO_LARGE = 'ARCHIVE_TOO_LARGE';
+    static readonly ARCHIVE_TOO_MANY_ENTRIES = 'ARCHIVE_TOO_MANY_ENTRIES';
+    static readonly ARCHIVE_ENTRY_SUSPICIOUS = 'ARCHIVE_ENTRY_SUSPICIOUS';
+    static readonly ARCHIVE_ENTRY_ENCRYPTED = 'ARCHIVE_ENTRY_ENCRYPTED';
+    static readonly ARCHIVE_IMPORT_ERROR = 'ARCHIVE_IMPORT_ERROR';
+    static readonly MALWARE_DETECTED = 'MALWARE_DETECTED';
+    static readonly UPLOAD_SCAN_FAILED = 'UPLOAD_SCAN_FAILED';
+    static readonly DOCUMENT_QUARANTINED = 'DOCUMENT_QUARANTINED';
+    static readonly MALWARE_DETECTION_NOT_FOUND = 'MALWARE_DETECTION_NOT_FOUND';
+    static readonly MALWARE_DETECTION_ERROR = 'MALWARE_DETECTION_ERROR';
 }
\ No newline at end of file
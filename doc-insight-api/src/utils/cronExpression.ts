@@ -0,0 +1,189 @@
+/**
+ * Cron expressions for schedules.
+ *
+ * Standard five-field expressions (minute, hour, day of month, month, day of
+ * week) with `*`, lists, ranges, steps and three-letter month and day names,
+ * plus the @yearly, @monthly, @weekly, @daily and @hourly shorthands. Times are
+ * evaluated in UTC. As in cron, when both the day of month and the day of week
+ * are restricted, a day matching either one matches.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 is Sunday
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  // 7 is accepted for Sunday and folded into 0
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const SHORTHANDS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// How far ahead to look for an occurrence before deciding there is none (e.g. "0 0 30 2 *")
+const SEARCH_YEARS = 5;
+
+/**
+ * Parse a cron expression, throwing an Error that describes what is wrong with it
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = expression.trim().toLowerCase();
+  const fields = (SHORTHANDS[normalized] || normalized).split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Cron expression must have ${FIELDS.length} fields (minute hour day-of-month month day-of-week)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]!));
+
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek: new Set([...daysOfWeek!].map(day => day % 7)),
+    // As in cron, a field starting with `*` (including "*/2") does not restrict the day
+    dayOfMonthRestricted: !fields[2]!.startsWith('*'),
+    dayOfWeekRestricted: !fields[4]!.startsWith('*'),
+  };
+}
+
+/**
+ * The first time strictly after `after` that matches the schedule, to the minute.
+ * Throws if the expression never matches (e.g. February 30th).
+ */
+export function nextCronOccurrence(schedule: CronSchedule | string, after: Date): Date {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  const lastYear = time.getUTCFullYear() + SEARCH_YEARS;
+
+  while (time.getUTCFullYear() <= lastYear) {
+    if (!cron.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return time;
+  }
+
+  throw new Error('Cron expression never matches');
+}
+
+/**
+ * Check a cron expression, returning what is wrong with it or null if it is valid
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    nextCronOccurrence(expression, new Date());
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+/**
+ * Whether a day matches the day-of-month and day-of-week fields
+ */
+function matchesDay(cron: CronSchedule, time: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(time.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(time.getUTCDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Parse one field (a comma-separated list of `*`, values, ranges and steps) into the values it matches
+ */
+function parseField(field: string, spec: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    if (rest.length > 0 || !range || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${spec.name} field: "${field}"`);
+    }
+
+    let start = spec.min;
+    let end = spec.max;
+
+    if (range !== '*') {
+      const [from, to, ...extra] = range.split('-');
+      if (extra.length > 0) {
+        throw new Error(`Invalid ${spec.name} field: "${field}"`);
+      }
+      start = parseValue(from!, spec, field);
+      // A single value with a step ("5/15") runs from that value to the end of the range
+      end = to !== undefined ? parseValue(to, spec, field) : stepText !== undefined ? spec.max : start;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid ${spec.name} range: "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a number or name within a field's bounds
+ */
+function parseValue(text: string, spec: CronField, field: string): number {
+  const nameIndex = spec.names ? spec.names.indexOf(text) : -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.name === 'month' ? 1 : 0) : Number(text);
+
+  if (text === '' || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} field: "${field}" (expected ${spec.min}-${spec.max})`);
+  }
+
+  return value;
+}
@@ -0,0 +1,231 @@
+/**
+ * File Signature Utilities
+ *
+ * Detects what an uploaded file is from its content (magic bytes), rather than
+ * trusting the name and MIME type the client sent, and checks the two agree.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { TextDecoder } from 'util';
+import yauzl from 'yauzl';
+
+export type DetectedFileType = 'pdf' | 'doc' | 'docx' | 'text';
+
+export interface VerifiedFileType {
+  type: DetectedFileType;
+  mimeType: string; // MIME type to store for the file
+}
+
+// Document file types by extension, with the content each must have
+const FILE_TYPES: Record<string, VerifiedFileType> = {
+  pdf: { type: 'pdf', mimeType: 'application/pdf' },
+  doc: { type: 'doc', mimeType: 'application/msword' },
+  docx: { type: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  txt: { type: 'text', mimeType: 'text/plain' },
+  md: { type: 'text', mimeType: 'text/markdown' },
+};
+
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]); // Word 97-2003, and any other OLE file
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]); // DOCX, and any other ZIP
+
+/**
+ * Get the MIME type documents with a file name's extension are stored with, if it is a known type
+ */
+export function getExpectedMimeType(fileName: string): string | undefined {
+  return FILE_TYPES[path.extname(fileName).toLowerCase().substring(1)]?.mimeType;
+}
+
+/**
+ * Detect the type of a stored file from its content, or null if it is none of the document types
+ */
+export async function detectFileType(filePath: string): Promise<DetectedFileType | null> {
+  const head = await readHead(filePath, OLE_SIGNATURE.length);
+
+  if (head.subarray(0, PDF_SIGNATURE.length).equals(PDF_SIGNATURE)) {
+    return 'pdf';
+  }
+  if (head.equals(OLE_SIGNATURE)) {
+    return (await hasOleStream(filePath, 'WordDocument')) ? 'doc' : null;
+  }
+  if (head.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+    return (await hasZipEntry(filePath, 'word/document.xml')) ? 'docx' : null;
+  }
+  if (await isUtf8Text(filePath)) {
+    return 'text';
+  }
+  return null;
+}
+
+/**
+ * Detect the type of a stored file and check it is the type its name says (and its
+ * declared MIME type, if any). Returns the verified type, or null on a mismatch.
+ */
+export async function verifyFileType(
+  filePath: string,
+  fileName: string,
+  declaredMimeType?: string
+): Promise<VerifiedFileType | null> {
+  const expected = FILE_TYPES[path.extname(fileName).toLowerCase().substring(1)]
+    ?? Object.values(FILE_TYPES).find(fileType => fileType.mimeType === declaredMimeType);
+  if (!expected) {
+    return null;
+  }
+
+  const detected = await detectFileType(filePath);
+  if (detected !== expected.type) {
+    return null;
+  }
+
+  // e.g. a .md file may be declared as text/plain, but a .pdf not as text/plain
+  const declaredMatches = !declaredMimeType || Object.values(FILE_TYPES)
+    .some(fileType => fileType.type === detected && fileType.mimeType === declaredMimeType.toLowerCase());
+
+  return declaredMatches ? expected : null;
+}
+
+/**
+ * Read up to the first bytes of a file
+ */
+async function readHead(filePath: string, length: number): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    return await readAt(handle, 0, length);
+  } finally {
+    await handle.close();
+  }
+}
+
+// Sector numbers above this mark free sectors and chain ends in an OLE compound file
+const OLE_MAX_SECTOR = 0xfffffffa;
+const OLE_HEADER_SIZE = 512;
+const OLE_DIRECTORY_ENTRY_SIZE = 128;
+const OLE_STREAM = 2;
+
+/**
+ * Whether an OLE compound file has a stream, e.g. WordDocument, which Excel, PowerPoint
+ * and installer files lack. Follows the directory's sector chain through the FAT, and
+ * gives up on chains longer than the file, which would loop.
+ */
+async function hasOleStream(filePath: string, streamName: string): Promise<boolean> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const header = await readAt(handle, 0, OLE_HEADER_SIZE);
+    if (header.length < OLE_HEADER_SIZE) {
+      return false;
+    }
+
+    const sectorShift = header.readUInt16LE(0x1e);
+    if (sectorShift !== 9 && sectorShift !== 12) {
+      return false;
+    }
+    const sectorSize = 1 << sectorShift;
+    const sectorCount = Math.floor((await handle.stat()).size / sectorSize);
+    const readSector = (sector: number) => readAt(handle, (sector + 1) * sectorSize, sectorSize);
+
+    // The first 109 FAT sectors are listed in the header, any further ones in DIFAT sectors
+    const fatSectors: number[] = [];
+    for (let offset = 0x4c; offset < OLE_HEADER_SIZE; offset += 4) {
+      fatSectors.push(header.readUInt32LE(offset));
+    }
+    let difatSector = header.readUInt32LE(0x44);
+    for (let visited = 0; difatSector < OLE_MAX_SECTOR && visited < sectorCount; visited++) {
+      const data = await readSector(difatSector);
+      if (data.length < sectorSize) {
+        return false;
+      }
+      for (let offset = 0; offset < sectorSize - 4; offset += 4) {
+        fatSectors.push(data.readUInt32LE(offset));
+      }
+      difatSector = data.readUInt32LE(sectorSize - 4);
+    }
+
+    const nextSector = async (sector: number): Promise<number> => {
+      const fatSector = fatSectors[Math.floor(sector / (sectorSize / 4))];
+      if (fatSector === undefined || fatSector >= OLE_MAX_SECTOR) {
+        return OLE_MAX_SECTOR;
+      }
+      const entry = await readAt(handle, (fatSector + 1) * sectorSize + (sector % (sectorSize / 4)) * 4, 4);
+      return entry.length === 4 ? entry.readUInt32LE(0) : OLE_MAX_SECTOR;
+    };
+
+    const name = Buffer.from(`${streamName}\0`, 'utf16le');
+    let sector = header.readUInt32LE(0x30);
+    for (let visited = 0; sector < OLE_MAX_SECTOR && visited < sectorCount; visited++) {
+      const data = await readSector(sector);
+      for (let offset = 0; offset + OLE_DIRECTORY_ENTRY_SIZE <= data.length; offset += OLE_DIRECTORY_ENTRY_SIZE) {
+        if (data[offset + 0x42] === OLE_STREAM
+          && data.readUInt16LE(offset + 0x40) === name.length
+          && data.subarray(offset, offset + name.length).equals(name)) {
+          return true;
+        }
+      }
+      sector = await nextSector(sector);
+    }
+    return false;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read up to `length` bytes of an open file from a position
+ */
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Whether a ZIP file has an entry, read from its central directory only. Files yauzl
+ * cannot read, including ones with unsafe entry paths, have none.
+ */
+function hasZipEntry(filePath: string, entryName: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    yauzl.open(filePath, { lazyEntries: true }, (error, zipFile) => {
+      if (error || !zipFile) {
+        resolve(false);
+        return;
+      }
+
+      zipFile.on('entry', (entry: yauzl.Entry) => {
+        if (entry.fileName === entryName) {
+          zipFile.close();
+          resolve(true);
+        } else {
+          zipFile.readEntry();
+        }
+      });
+      zipFile.on('end', () => resolve(false));
+      zipFile.on('error', () => resolve(false));
+
+      zipFile.readEntry();
+    });
+  });
+}
+
+/**
+ * Whether a whole file is UTF-8 text: valid UTF-8 without control characters other than whitespace
+ */
+async function isUtf8Text(filePath: string): Promise<boolean> {
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+
+  try {
+    for await (const data of fs.createReadStream(filePath)) {
+      // NUL and other C0 controls besides tab, line breaks, form feed and escape
+      if ((data as Buffer).some(byte => byte < 0x09 || (byte > 0x0d && byte < 0x20 && byte !== 0x1b))) {
+        return false;
+      }
+      decoder.decode(data as Buffer, { stream: true });
+    }
+    decoder.decode();
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_ENCODING_INVALID_ENCODED_DATA') {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * File Storage Utilities
+ *
+ * Where uploaded document files are stored: a directory per file type under
+ * the upload path, with a unique name per file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import config from '../config';
+
+export interface StoredFilePath {
+  destination: string;
+  filename: string;
+  path: string;
+}
+
+/**
+ * Choose where to store an uploaded file, creating its directory if needed
+ */
+export function createStoredFilePath(originalName: string, mimeType: string): StoredFilePath {
+  // Create subdirectories based on file type
+  const fileTypeDir = path.join(config.uploadPath, mimeType.split('/')[1] || 'other');
+  if (!fs.existsSync(fileTypeDir)) {
+    fs.mkdirSync(fileTypeDir, { recursive: true });
+  }
+
+  // Generate unique filename with timestamp
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(2, 15);
+  const fileExtension = path.extname(originalName);
+  const fileName = `${timestamp}-${randomString}${fileExtension}`;
+
+  return { destination: fileTypeDir, filename: fileName, path: path.join(fileTypeDir, fileName) };
+}
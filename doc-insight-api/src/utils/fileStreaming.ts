@@ -0,0 +1,110 @@
+/**
+ * File Streaming Utilities
+ *
+ * Helpers for serving stored document files over HTTP: byte range parsing,
+ * entity tags and Content-Disposition headers.
+ */
+
+import { Stats } from 'fs';
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse an HTTP Range header against a file of the given size.
+ *
+ * Returns `null` when the header is absent, malformed or requests multiple
+ * ranges (the full file is served in that case), `'unsatisfiable'` when the
+ * range falls outside the file, and the inclusive byte range otherwise.
+ */
+export function parseRangeHeader(rangeHeader: string | undefined, fileSize: number): ByteRange | 'unsatisfiable' | null {
+  if (!rangeHeader) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, startText, endText] = match;
+
+  if (startText === '' && endText === '') {
+    return null;
+  }
+
+  if (fileSize === 0) {
+    return 'unsatisfiable';
+  }
+
+  // Suffix range: the last N bytes of the file
+  if (startText === '') {
+    const suffixLength = parseInt(endText as string, 10);
+    if (suffixLength === 0) {
+      return 'unsatisfiable';
+    }
+    return {
+      start: Math.max(fileSize - suffixLength, 0),
+      end: fileSize - 1,
+    };
+  }
+
+  const start = parseInt(startText as string, 10);
+  const end = endText === '' ? fileSize - 1 : Math.min(parseInt(endText as string, 10), fileSize - 1);
+
+  if (start >= fileSize || start > end) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
+
+/**
+ * Build an entity tag from file size and modification time. The tag is strong when the
+ * SHA-256 of the content is known, and weak otherwise.
+ */
+export function buildETag(stats: Stats, contentHash?: string | null): string {
+  const tag = `${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}`;
+  return contentHash ? `"${tag}-${contentHash.slice(0, 16)}"` : `W/"${tag}"`;
+}
+
+/**
+ * Check whether an If-None-Match header matches the given entity tag
+ */
+export function isETagFresh(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+
+  if (ifNoneMatch.trim() === '*') {
+    return true;
+  }
+
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some(tag => normalize(tag) === normalize(etag));
+}
+
+/**
+ * Check whether a Range request may be served under its If-Range header. If-Range needs
+ * a strong comparison, so a weak tag on either side never matches and the full file is
+ * served instead (RFC 7233, section 3.2).
+ */
+export function isIfRangeFresh(ifRange: string | undefined, etag: string): boolean {
+  if (!ifRange) {
+    return true;
+  }
+
+  return !etag.startsWith('W/') && ifRange.trim() === etag;
+}
+
+/**
+ * Build a Content-Disposition header that survives non-ASCII file names
+ */
+export function buildContentDisposition(fileName: string, disposition: 'attachment' | 'inline' = 'attachment'): string {
+  const asciiFallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+  return `${disposition}; filename="${asciiFallback}"; filename*=UTF-8''${encoded}`;
+}
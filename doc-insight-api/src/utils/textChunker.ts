@@ -0,0 +1,129 @@
+/**
+ * Text Chunking Utilities
+ *
+ * Splits extracted document text into overlapping chunks for embedding,
+ * preferring paragraph, sentence and word boundaries over hard cuts.
+ */
+
+import { ExtractedPage, TextChunk } from '../types';
+
+export interface ChunkingOptions {
+  chunkSize: number; // Maximum chunk length in characters
+  chunkOverlap: number; // Characters shared between consecutive chunks
+}
+
+/**
+ * Validate chunking options
+ */
+export function validateChunkingOptions(options: ChunkingOptions): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(options.chunkSize) || options.chunkSize <= 0) {
+    errors.push('Chunk size must be a positive integer');
+  }
+
+  if (!Number.isInteger(options.chunkOverlap) || options.chunkOverlap < 0) {
+    errors.push('Chunk overlap must be a non-negative integer');
+  }
+
+  if (options.chunkOverlap >= options.chunkSize) {
+    errors.push('Chunk overlap must be smaller than chunk size');
+  }
+
+  return errors;
+}
+
+/**
+ * Split text into chunks, tagging each chunk with the page it starts on
+ */
+export function chunkText(text: string, pages: ExtractedPage[], options: ChunkingOptions): TextChunk[] {
+  const errors = validateChunkingOptions(options);
+  if (errors.length > 0) {
+    throw new Error(`Invalid chunking options: ${errors.join(', ')}`);
+  }
+
+  const { chunkSize, chunkOverlap } = options;
+  const chunks: TextChunk[] = [];
+  let start = skipWhitespace(text, 0);
+
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+
+    if (end < text.length) {
+      end = findBreakPoint(text, start, end);
+    }
+
+    const rawContent = text.slice(start, end);
+    const content = rawContent.trim();
+
+    if (content.length > 0) {
+      const startOffset = start + (rawContent.length - rawContent.trimStart().length);
+      chunks.push({
+        chunk_index: chunks.length,
+        content,
+        start_offset: startOffset,
+        end_offset: startOffset + content.length,
+        page_number: findPageNumber(pages, startOffset),
+      });
+    }
+
+    if (end >= text.length) {
+      break;
+    }
+
+    // Step back by the overlap, but always make progress and avoid starting mid-word
+    let next = Math.max(end - chunkOverlap, start + 1);
+    if (next < end && /\S/.test(text.charAt(next - 1))) {
+      const wordStart = text.slice(next, end).search(/\s/);
+      next = wordStart === -1 ? end : next + wordStart;
+    }
+    start = skipWhitespace(text, next);
+  }
+
+  return chunks;
+}
+
+/**
+ * Find the best place to end a chunk that would otherwise be cut at `hardEnd`
+ */
+function findBreakPoint(text: string, start: number, hardEnd: number): number {
+  // Do not shrink a chunk below half its size just to hit a nicer boundary
+  const minEnd = start + Math.floor((hardEnd - start) / 2);
+  const window = text.slice(minEnd, hardEnd);
+
+  const boundaries = [/\n\s*\n/g, /[.!?]["')\]]?\s/g, /\s/g];
+  for (const pattern of boundaries) {
+    let lastMatchEnd = -1;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(window)) !== null) {
+      lastMatchEnd = match.index + match[0].length;
+    }
+    if (lastMatchEnd > 0) {
+      return minEnd + lastMatchEnd;
+    }
+  }
+
+  return hardEnd;
+}
+
+/**
+ * Advance past whitespace
+ */
+function skipWhitespace(text: string, position: number): number {
+  while (position < text.length && /\s/.test(text.charAt(position))) {
+    position++;
+  }
+  return position;
+}
+
+/**
+ * Find the page that contains a character offset
+ */
+function findPageNumber(pages: ExtractedPage[], offset: number): number | null {
+  if (pages.length === 0) {
+    return null;
+  }
+
+  const page = pages.find(candidate => offset < candidate.end_offset) || pages[pages.length - 1];
+  return page ? page.page_number : null;
+}
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+
+/**
+ * Header carrying a webhook's signature, formatted `t=<unix seconds>,v1=<hex HMAC>`.
+ * The HMAC-SHA256 is computed over `<timestamp>.<raw request body>`, so the
+ * timestamp cannot be changed without invalidating the signature. A sender may
+ * include several `v1` values, e.g. one per secret while rotating keys.
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+export type WebhookVerificationResult =
+  | { valid: true; timestamp: number }
+  | { valid: false; reason: string };
+
+/**
+ * Compute the hex HMAC-SHA256 of a payload for a timestamp
+ */
+function computeSignature(secret: string, timestamp: number, rawBody: Buffer | string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+}
+
+/**
+ * Build the signature header value for a payload (used by senders and tests)
+ */
+export function signWebhookPayload(
+  rawBody: Buffer | string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, rawBody)}`;
+}
+
+/**
+ * Check a signature header against the raw body. Any of the given secrets may
+ * have signed it, and its timestamp must be within `toleranceMs` of `now`.
+ */
+export function verifyWebhookSignature(
+  header: string | undefined,
+  rawBody: Buffer | undefined,
+  secrets: string[],
+  toleranceMs: number,
+  now: number = Date.now()
+): WebhookVerificationResult {
+  if (secrets.length === 0) {
+    return { valid: false, reason: 'No webhook secret configured' };
+  }
+  if (!header) {
+    return { valid: false, reason: 'Missing signature header' };
+  }
+  if (!rawBody) {
+    return { valid: false, reason: 'Missing request body' };
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && value && /^\d+$/.test(value)) {
+      timestamp = parseInt(value, 10);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === undefined || signatures.length === 0) {
+    return { valid: false, reason: 'Malformed signature header' };
+  }
+
+  if (Math.abs(now - timestamp * 1000) > toleranceMs) {
+    return { valid: false, reason: 'Signature timestamp outside the tolerance window' };
+  }
+
+  const matched = secrets.some(secret => {
+    const expected = Buffer.from(computeSignature(secret, timestamp!, rawBody), 'hex');
+    return signatures.some(signature => {
+      const provided = Buffer.from(signature, 'hex');
+      // timingSafeEqual throws on a length mismatch, which only reveals the (public) digest size
+      return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+    });
+  });
+
+  return matched ? { valid: true, timestamp } : { valid: false, reason: 'Signature mismatch' };
+}
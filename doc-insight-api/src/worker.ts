@@ -0,0 +1,63 @@
+import { logger } from './utils/logger';
+import { initializeDatabase, closeDatabase } from './database/connection';
+import { IngestionWorker } from './services/ingestionWorker';
+import { ScheduleRunner } from './services/scheduleRunner';
+import { validateRequiredEnvVars, getIngestionQueueConfig, getSchedulerConfig } from './utils/configHelper';
+
+// Standalone ingestion worker. Run with INGESTION_WORKER_IN_PROCESS=false on the
+// API so that only dedicated worker processes pick up jobs. It also runs due
+// schedules unless SCHEDULER_ENABLED=false.
+let ingestionWorker: IngestionWorker | undefined;
+let scheduleRunner: ScheduleRunner | undefined;
+
+async function startWorker() {
+  try {
+    // Validate environment variables
+    const validation = validateRequiredEnvVars();
+    if (!validation.valid) {
+      logger.error('Environment validation failed:', validation.errors);
+      process.exit(1);
+    }
+
+    logger.info('Ingestion queue configuration:', getIngestionQueueConfig());
+
+    // Initialize database
+    await initializeDatabase();
+    logger.info('Database connection established');
+
+    ingestionWorker = new IngestionWorker();
+    ingestionWorker.start();
+
+    if (getSchedulerConfig().enabled) {
+      scheduleRunner = new ScheduleRunner();
+      scheduleRunner.start();
+    }
+  } catch (error) {
+    logger.error('Failed to start ingestion worker:', error);
+    process.exit(1);
+  }
+}
+
+// Graceful shutdown: let in-flight jobs finish; anything cut off is recovered once its lease expires
+async function shutdown(signal: string) {
+  logger.info(`${signal} received, stopping ingestion worker`);
+  if (ingestionWorker) {
+    await ingestionWorker.stop();
+  }
+  if (scheduleRunner) {
+    await scheduleRunner.stop();
+  }
+  await closeDatabase();
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
+
+process.on('unhandledRejection', (reason, promise) => {
+  logger.error('Unhandled Rejection at:', promise, 'reason:', reason);
+  process.exit(1);
+});
+
+startWorker();
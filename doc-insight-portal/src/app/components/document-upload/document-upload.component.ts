@@ -1,4 +1,6 @@
-import { Component } from '@angular/core';
+import { Component, OnDestroy } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Subscription } from 'rxjs';
 import { DocumentService } from '../../services/document.service';
 import { AuthService } from '../../services/auth.service';
 
@@ -7,13 +9,21 @@ import { AuthService } from '../../services/auth.service';
   templateUrl: './document-upload.component.html',
   styleUrls: ['./document-upload.component.scss']
 })
-export class DocumentUploadComponent {
+export class DocumentUploadComponent implements OnDestroy {
+  // Files larger than this are sent in resumable chunks
+  readonly resumableUploadThreshold = 10 * 1024 * 1024; // 10MB
+  readonly maxFileSize = 1024 * 1024 * 1024; // 1GB
+
   selectedFile: File | null = null;
   description = '';
   uploading = false;
   uploadProgress = 0;
+  reconnecting = false;
+  uploadInterrupted = false;
+  uploadError: string | null = null;
   isDragOver = false;
   allowedFileTypes = '.pdf,.doc,.docx,.txt,.md';
+  private uploadSubscription?: Subscription;
 
   constructor(
     private documentService: DocumentService,
@@ -43,7 +53,15 @@ export class DocumentUploadComponent {
     }
   }
 
+  ngOnDestroy(): void {
+    this.uploadSubscription?.unsubscribe();
+  }
+
   removeFile(): void {
+    this.uploadSubscription?.unsubscribe();
+    this.uploading = false;
+    this.uploadInterrupted = false;
+    this.uploadError = null;
     this.selectedFile = null;
     this.description = '';
     this.uploadProgress = 0;
@@ -51,6 +69,11 @@ export class DocumentUploadComponent {
 
   uploadDocument(): void {
     if (!this.selectedFile) return;
+
+    if (this.selectedFile.size > this.resumableUploadThreshold) {
+      this.uploadResumable(this.selectedFile);
+      return;
+    }
     
     this.uploading = true;
     this.uploadProgress = 0;
@@ -82,10 +105,52 @@ export class DocumentUploadComponent {
       });
   }
 
+  /**
+   * Upload a large file in chunks. A dropped connection is retried by the service; if it
+   * gives up, uploading the same file again picks up where this upload stopped. A file
+   * the server refuses, such as a duplicate, fails with the server's reason instead.
+   */
+  private uploadResumable(file: File): void {
+    this.uploading = true;
+    this.uploadInterrupted = false;
+    this.uploadError = null;
+    this.uploadProgress = 0;
+
+    this.uploadSubscription = this.documentService.uploadResumable(file, this.description)
+      .subscribe({
+        next: (progress) => {
+          this.uploadProgress = Math.floor((progress.bytesUploaded / progress.totalBytes) * 100);
+          this.reconnecting = progress.reconnecting;
+
+          if (progress.document) {
+            console.log('Document uploaded:', progress.document);
+            this.uploading = false;
+            setTimeout(() => {
+              this.resetForm();
+            }, 1000);
+          }
+        },
+        error: (error) => {
+          console.error('Upload failed:', error);
+          this.uploading = false;
+          this.reconnecting = false;
+
+          if (error instanceof HttpErrorResponse && error.status >= 400 && error.status < 500) {
+            this.uploadError = error.error?.error || 'Upload failed';
+            this.uploadProgress = 0;
+          } else {
+            this.uploadInterrupted = true;
+          }
+        }
+      });
+  }
+
   private resetForm(): void {
     this.selectedFile = null;
     this.description = '';
     this.uploadProgress = 0;
+    this.uploadInterrupted = false;
+    this.uploadError = null;
   }
 
   get canUpload(): boolean {
@@ -102,8 +167,7 @@ export class DocumentUploadComponent {
     if (!this.selectedFile) return false;
     
     const allowedTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
-    const maxSize = 10 * 1024 * 1024; // 10MB
     
-    return allowedTypes.includes(this.selectedFile.type) && this.selectedFile.size <= maxSize;
+    return allowedTypes.includes(this.selectedFile.type) && this.selectedFile.size <= this.maxFileSize;
   }
 }
@@ -1,27 +1,84 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription, timer } from 'rxjs';
+import { repeat, retry } from 'rxjs/operators';
 import { IngestionService } from '../../services/ingestion.service';
-import { IngestionStatus } from '../../services/ingestion.service';
+import { IngestionJobEvent, IngestionJobTimeline, IngestionStatus, IngestionTimelineStep } from '../../services/ingestion.service';
+
+export interface TimelineBar {
+  label: string;
+  attempt: number;
+  status: IngestionTimelineStep['status'];
+  message: string | null;
+  offset: number; // % of the timeline before the step started
+  width: number; // % of the timeline the step took
+  duration: string;
+}
 
 @Component({
   selector: 'app-ingestion-panel',
   templateUrl: './ingestion-panel.component.html',
   styleUrls: ['./ingestion-panel.component.scss']
 })
-export class IngestionPanelComponent implements OnInit {
+export class IngestionPanelComponent implements OnInit, OnDestroy {
   ingestionStatus: IngestionStatus | null = null;
+  currentStep: string | null = null;
+  timeline: IngestionJobTimeline | null = null;
+  timelineBars: TimelineBar[] = [];
+  showAttempts = false;
   loading = false;
   error: string | null = null;
+  private eventsSubscription?: Subscription;
 
   constructor(private ingestionService: IngestionService) {}
 
   ngOnInit(): void {
     this.loadStatus();
-    // Poll for status updates every 5 seconds
-    setInterval(() => {
-      if (this.ingestionStatus?.status === 'running') {
-        this.loadStatus();
-      }
-    }, 5000);
+    this.watchEvents();
+  }
+
+  ngOnDestroy(): void {
+    this.eventsSubscription?.unsubscribe();
+  }
+
+  /**
+   * Apply live job events instead of polling; reconnects if the stream ends or drops
+   */
+  private watchEvents(): void {
+    this.eventsSubscription = this.ingestionService.watchJobEvents()
+      .pipe(
+        retry({ delay: () => timer(5000) }),
+        repeat({ delay: () => timer(5000) })
+      )
+      .subscribe((event) => this.applyEvent(event));
+  }
+
+  private applyEvent(event: IngestionJobEvent): void {
+    if (!this.ingestionStatus || this.ingestionStatus.id !== event.job_id) return;
+
+    const step = event.progress?.step?.replace(/_/g, ' ') ?? null;
+    // The timeline only changes when a step starts or the job stops processing
+    if (step !== this.currentStep || event.status !== 'processing') {
+      this.loadTimeline(event.job_id);
+    }
+
+    this.currentStep = step;
+    this.ingestionStatus = {
+      ...this.ingestionStatus,
+      status: this.toPanelStatus(event.status),
+      progress: event.progress?.percentage ?? this.ingestionStatus.progress,
+      errorMessage: event.error_message ?? undefined
+    };
+  }
+
+  private toPanelStatus(status: IngestionJobEvent['status']): IngestionStatus['status'] {
+    switch (status) {
+      case 'queued':
+      case 'processing': return 'running';
+      case 'completed': return 'completed';
+      case 'failed':
+      case 'dead_lettered': return 'error';
+      default: return 'idle';
+    }
   }
 
   loadStatus(): void {
@@ -32,6 +89,9 @@ export class IngestionPanelComponent implements OnInit {
       next: (status) => {
         this.ingestionStatus = status;
         this.loading = false;
+        if (status?.id) {
+          this.loadTimeline(status.id);
+        }
       },
       error: (error) => {
         console.error('Failed to load status:', error);
@@ -41,6 +101,55 @@ export class IngestionPanelComponent implements OnInit {
     });
   }
 
+  loadTimeline(jobId: string): void {
+    this.ingestionService.getJobTimeline(jobId).subscribe({
+      next: (timeline) => {
+        this.timeline = timeline;
+        this.timelineBars = this.toTimelineBars(timeline);
+        this.showAttempts = new Set(timeline.steps.map(step => step.attempt)).size > 1;
+      },
+      error: (error) => {
+        // The panel still works without the timeline
+        console.error('Failed to load timeline:', error);
+      }
+    });
+  }
+
+  /**
+   * Lay the steps out as Gantt bars on a shared time axis; running steps extend to now
+   */
+  private toTimelineBars(timeline: IngestionJobTimeline): TimelineBar[] {
+    if (timeline.steps.length === 0) return [];
+
+    const now = Date.now();
+    const spans = timeline.steps.map(step => ({
+      step,
+      start: Date.parse(step.started_at),
+      end: step.ended_at ? Date.parse(step.ended_at) : now
+    }));
+    const axisStart = Math.min(...spans.map(span => span.start));
+    const axisLength = Math.max(Math.max(...spans.map(span => span.end)) - axisStart, 1);
+
+    return spans.map(({ step, start, end }) => ({
+      label: step.step.replace(/_/g, ' '),
+      attempt: step.attempt,
+      status: step.status,
+      message: step.message,
+      offset: ((start - axisStart) / axisLength) * 100,
+      width: Math.max(((end - start) / axisLength) * 100, 0.5),
+      duration: this.formatDuration(end - start)
+    }));
+  }
+
+  formatDuration(milliseconds: number): string {
+    if (milliseconds < 1000) return `${Math.round(milliseconds)} ms`;
+    if (milliseconds < 60000) return `${(milliseconds / 1000).toFixed(1)} s`;
+
+    const minutes = Math.floor(milliseconds / 60000);
+    const seconds = Math.round((milliseconds % 60000) / 1000);
+    return `${minutes} min ${seconds} s`;
+  }
+
   startIngestion(): void {
     this.loading = true;
     this.error = null;
@@ -58,11 +167,13 @@ export class IngestionPanelComponent implements OnInit {
   }
 
   stopIngestion(): void {
+    if (!this.ingestionStatus) return;
+
     if (confirm('Are you sure you want to stop the ingestion process?')) {
       this.loading = true;
       this.error = null;
       
-      this.ingestionService.stopIngestion().subscribe({
+      this.ingestionService.stopIngestion(this.ingestionStatus.id).subscribe({
         next: () => {
           this.loadStatus();
         },
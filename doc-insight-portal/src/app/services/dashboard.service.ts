@@ -143,7 +143,7 @@ export class DashboardService {
    * Get QA statistics
    */
   getQaStats(): Observable<QaStats> {
-    return this.http.get<{ success: boolean; data: QaStats }>(`${this.configService.ragServiceUrl}/api/qa/stats`)
+    return this.http.get<{ success: boolean; data: QaStats }>(`${this.API_URL}/qa/stats`)
       .pipe(
         timeout(5000), // 5 second timeout
         map(response => response.data),
@@ -1,7 +1,7 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, firstValueFrom, throwError } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
 import { ConfigService } from './config.service';
 
 export interface Document {
@@ -10,7 +10,7 @@ export interface Document {
   filename: string;
   size: number;
   type: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'quarantined';
   uploadedAt: Date;
   uploadedBy: string;
   description?: string;
@@ -21,11 +21,33 @@ export interface UploadResponse {
   message: string;
 }
 
+export interface UploadSession {
+  id: string;
+  file_name: string;
+  file_size: number;
+  chunk_size: number;
+  total_chunks: number;
+  status: 'active' | 'completing' | 'completed' | 'aborted' | 'expired';
+  received_chunks: number[];
+  bytes_received: number;
+  document_id: string | null;
+  expires_at: string;
+}
+
+export interface ResumableUploadProgress {
+  bytesUploaded: number;
+  totalBytes: number;
+  reconnecting: boolean; // waiting to retry after a network error
+  document?: Document; // set once the upload has completed
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class DocumentService {
   private readonly API_URL: string;
+  private readonly UPLOAD_KEY_PREFIX = 'resumable_upload:';
+  private readonly MAX_UPLOAD_RETRIES = 8;
 
   constructor(
     private http: HttpClient,
@@ -55,6 +77,64 @@ export class DocumentService {
       .pipe(catchError(this.handleError));
   }
 
+  /**
+   * Upload a large file in chunks, each sent with its SHA-256. The upload is remembered
+   * per file, so uploading the same file again after a failure resumes with the chunks
+   * still missing; network drops and server errors are retried with backoff meanwhile.
+   * Unsubscribing stops sending chunks but keeps the upload resumable.
+   */
+  uploadResumable(file: File, description?: string): Observable<ResumableUploadProgress> {
+    return new Observable<ResumableUploadProgress>(subscriber => {
+      let cancelled = false;
+      const key = `${this.UPLOAD_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+      const progress = (bytesUploaded: number, reconnecting = false) =>
+        subscriber.next({ bytesUploaded, totalBytes: file.size, reconnecting });
+
+      const run = async () => {
+        let upload = await this.withRetry(() => this.resumeOrStartUpload(key, file, description), progress, () => cancelled);
+        progress(upload.bytes_received);
+
+        const received = new Set(upload.received_chunks);
+        for (let index = 0; index < upload.total_chunks; index++) {
+          if (received.has(index)) continue;
+          if (cancelled) return;
+
+          const chunk = file.slice(index * upload.chunk_size, (index + 1) * upload.chunk_size);
+          const bytesUploaded = upload.bytes_received;
+          upload = await this.withRetry(
+            () => this.sendChunk(upload.id, index, chunk),
+            reconnecting => progress(bytesUploaded, reconnecting),
+            () => cancelled
+          );
+          progress(upload.bytes_received);
+        }
+
+        let document: Document;
+        try {
+          document = await this.withRetry(() => this.completeUpload(upload.id), progress, () => cancelled);
+        } catch (error) {
+          // A refused file, e.g. a duplicate, cannot be resumed into a document
+          if (this.isRejected(error)) {
+            await this.abortUpload(upload.id);
+            localStorage.removeItem(key);
+          }
+          throw error;
+        }
+        localStorage.removeItem(key);
+        subscriber.next({ bytesUploaded: file.size, totalBytes: file.size, reconnecting: false, document });
+        subscriber.complete();
+      };
+
+      run().catch(error => {
+        if (!cancelled) subscriber.error(error);
+      });
+
+      return () => {
+        cancelled = true;
+      };
+    }).pipe(catchError(this.handleError));
+  }
+
   updateDocument(id: string, updates: Partial<Document>): Observable<Document> {
     return this.http.put<Document>(`${this.API_URL}/${id}`, updates)
       .pipe(catchError(this.handleError));
@@ -65,6 +145,109 @@ export class DocumentService {
       .pipe(catchError(this.handleError));
   }
 
+  /**
+   * Continue the upload remembered for a file while it can still take chunks, or start a new one
+   */
+  private async resumeOrStartUpload(key: string, file: File, description?: string): Promise<UploadSession> {
+    const uploadId = localStorage.getItem(key);
+    if (uploadId) {
+      try {
+        const upload = await firstValueFrom(
+          this.http.get<{ success: boolean; data: UploadSession }>(`${this.API_URL}/uploads/${uploadId}`)
+            .pipe(map(response => response.data))
+        );
+        if (upload.status === 'active') return upload;
+      } catch (error) {
+        // Network errors are retried; a forgotten upload is started again
+        if (!(error instanceof HttpErrorResponse) || error.status !== 404) throw error;
+      }
+    }
+
+    const upload = await firstValueFrom(
+      this.http.post<{ success: boolean; data: UploadSession }>(`${this.API_URL}/uploads`, {
+        file_name: file.name,
+        file_size: file.size,
+        mime_type: file.type,
+        ...(description && { description })
+      }).pipe(map(response => response.data))
+    );
+    localStorage.setItem(key, upload.id);
+    return upload;
+  }
+
+  private async sendChunk(uploadId: string, index: number, chunk: Blob): Promise<UploadSession> {
+    const digest = await crypto.subtle.digest('SHA-256', await chunk.arrayBuffer());
+    const checksum = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+
+    return firstValueFrom(
+      this.http.put<{ success: boolean; data: UploadSession }>(`${this.API_URL}/uploads/${uploadId}/chunks/${index}`, chunk, {
+        headers: { 'Content-Type': 'application/octet-stream', 'X-Chunk-SHA256': checksum }
+      }).pipe(map(response => response.data))
+    );
+  }
+
+  /**
+   * Complete an upload. If an earlier attempt completed it but its response was lost,
+   * the upload reports the document it created. Any other refusal, such as a duplicate
+   * of an existing document, fails the upload.
+   */
+  private async completeUpload(uploadId: string): Promise<Document> {
+    try {
+      return await firstValueFrom(
+        this.http.post<{ success: boolean; data: Document }>(`${this.API_URL}/uploads/${uploadId}/complete`, {})
+          .pipe(map(response => response.data))
+      );
+    } catch (error) {
+      const completed = error instanceof HttpErrorResponse && error.status === 409 && error.error?.code === 'UPLOAD_SESSION_NOT_ACTIVE';
+      const documentId = completed ? error.error?.data?.document_id : undefined;
+      if (!documentId) throw error;
+
+      return firstValueFrom(
+        this.http.get<{ success: boolean; data: Document }>(`${this.API_URL}/${documentId}`)
+          .pipe(map(response => response.data))
+      );
+    }
+  }
+
+  /**
+   * Abort an upload on the server; an upload that is already gone needs nothing more
+   */
+  private async abortUpload(uploadId: string): Promise<void> {
+    try {
+      await firstValueFrom(this.http.delete<void>(`${this.API_URL}/uploads/${uploadId}`));
+    } catch (error) {
+      console.error('Failed to abort upload:', error);
+    }
+  }
+
+  /**
+   * Whether the server refused a request outright, so sending it again cannot succeed
+   */
+  private isRejected(error: unknown): boolean {
+    return error instanceof HttpErrorResponse && error.status >= 400 && error.status < 500;
+  }
+
+  /**
+   * Retry a request after network errors and server errors, with exponential backoff
+   */
+  private async withRetry<T>(
+    request: () => Promise<T>,
+    onReconnecting: (reconnecting: boolean) => void,
+    cancelled: () => boolean
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const retryable = error instanceof HttpErrorResponse && (error.status === 0 || error.status >= 500);
+        if (!retryable || attempt >= this.MAX_UPLOAD_RETRIES || cancelled()) throw error;
+
+        onReconnecting(true);
+        await new Promise(resolve => setTimeout(resolve, Math.min(30000, 1000 * 2 ** attempt)));
+      }
+    }
+  }
+
   private handleError(error: any): Observable<never> {
     console.error('Document Service Error:', error);
     return throwError(() => error);
@@ -1,8 +1,9 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
+import { catchError, map } from 'rxjs/operators';
 import { ConfigService } from './config.service';
+import { AuthService } from './auth.service';
 
 export interface IngestionStatus {
   id: string;
@@ -15,6 +16,41 @@ export interface IngestionStatus {
   errorMessage?: string;
 }
 
+export interface IngestionJobEvent {
+  job_id: string;
+  document_id: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'dead_lettered';
+  progress: { step?: string; percentage?: number } | null;
+  error_message: string | null;
+  retry_count: number;
+  next_attempt_at: string | null;
+  updated_at: string;
+}
+
+export interface IngestionTimelineStep {
+  attempt: number;
+  step: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  message: string | null;
+  started_at: string;
+  ended_at: string | null;
+  duration_ms: number | null;
+}
+
+export interface IngestionJobTimeline {
+  job_id: string;
+  status: IngestionJobEvent['status'];
+  created_at: string;
+  completed_at: string | null;
+  duration_ms: number | null;
+  steps: IngestionTimelineStep[];
+}
+
+export interface IngestionEventFilter {
+  jobId?: string;
+  documentId?: string;
+}
+
 export interface IngestionRequest {
   documentIds?: string[];
   processAll?: boolean;
@@ -33,7 +69,8 @@ export class IngestionService {
 
   constructor(
     private http: HttpClient,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private authService: AuthService
   ) {
     this.API_URL = this.configService.getApiUrl('ingestion');
   }
@@ -48,16 +85,95 @@ export class IngestionService {
       .pipe(catchError(this.handleError));
   }
 
-  stopIngestion(): Observable<void> {
-    return this.http.delete<void>(`${this.API_URL}/jobs`)
+  stopIngestion(jobId: string): Observable<void> {
+    return this.http.post<void>(`${this.API_URL}/jobs/${jobId}/cancel`, {})
       .pipe(catchError(this.handleError));
   }
 
+  /**
+   * Start and end times of each step of a job, per attempt
+   */
+  getJobTimeline(jobId: string): Observable<IngestionJobTimeline> {
+    return this.http.get<{ success: boolean; data: IngestionJobTimeline }>(`${this.API_URL}/status/${jobId}/timeline`)
+      .pipe(
+        map(response => response.data),
+        catchError(this.handleError)
+      );
+  }
+
   getIngestionHistory(): Observable<IngestionStatus[]> {
     return this.http.get<IngestionStatus[]>(`${this.API_URL}/jobs`)
       .pipe(catchError(this.handleError));
   }
 
+  /**
+   * Live job status and progress changes from the API's Server-Sent Events stream.
+   * Uses fetch rather than EventSource so the bearer token can be sent as a header.
+   * Completes when the server ends the stream; unsubscribing closes the connection.
+   */
+  watchJobEvents(filter: IngestionEventFilter = {}): Observable<IngestionJobEvent> {
+    return new Observable<IngestionJobEvent>(subscriber => {
+      const controller = new AbortController();
+      const params = new URLSearchParams();
+      if (filter.jobId) params.set('job_id', filter.jobId);
+      if (filter.documentId) params.set('document_id', filter.documentId);
+      const query = params.toString();
+
+      const token = this.authService.getToken();
+      const headers: Record<string, string> = { Accept: 'text/event-stream' };
+      if (token) headers['Authorization'] = `Bearer ${token}`;
+
+      fetch(`${this.API_URL}/events${query ? `?${query}` : ''}`, { headers, signal: controller.signal })
+        .then(async response => {
+          if (!response.ok || !response.body) {
+            throw { status: response.status, message: `Event stream failed: ${response.status}` };
+          }
+
+          const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = '';
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+
+            buffer += value;
+            const messages = buffer.split('\n\n');
+            buffer = messages.pop() ?? '';
+            messages.forEach(message => {
+              const event = this.parseJobEvent(message);
+              if (event) subscriber.next(event);
+            });
+          }
+          subscriber.complete();
+        })
+        .catch(error => {
+          if (!controller.signal.aborted) {
+            console.error('Ingestion Service Error:', error);
+            subscriber.error(error);
+          }
+        });
+
+      return () => controller.abort();
+    });
+  }
+
+  /**
+   * Parse one Server-Sent Events message, ignoring comments and other event types
+   */
+  private parseJobEvent(message: string): IngestionJobEvent | null {
+    let eventType = 'message';
+    const data: string[] = [];
+
+    message.split('\n').forEach(line => {
+      if (line.startsWith('event:')) {
+        eventType = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trim());
+      }
+    });
+
+    return eventType === 'job' && data.length > 0 ? JSON.parse(data.join('\n')) : null;
+  }
+
   private handleError(error: any): Observable<never> {
     console.error('Ingestion Service Error:', error);
     return throwError(() => error);
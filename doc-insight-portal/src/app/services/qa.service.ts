@@ -1,7 +1,7 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
+import { catchError, map } from 'rxjs/operators';
 import { ConfigService } from './config.service';
 
 export interface Question {
@@ -25,12 +25,14 @@ export interface Source {
   documentName: string;
   excerpt: string;
   pageNumber?: number;
+  documentVersion?: number;
   relevance: number;
 }
 
 export interface QaRequest {
   question: string;
   context?: string;
+  document_ids?: string[];
 }
 
 export interface QaResponse {
@@ -48,22 +50,31 @@ export class QaService {
     private http: HttpClient,
     private configService: ConfigService
   ) {
-    this.API_URL = this.configService.getRagServiceUrl('api/qa');
+    this.API_URL = `${this.configService.apiUrl}/qa`;
   }
 
   askQuestion(request: QaRequest): Observable<QaResponse> {
-    return this.http.post<QaResponse>(`${this.API_URL}/ask`, request)
-      .pipe(catchError(this.handleError));
+    return this.http.post<{ success: boolean; data: QaResponse }>(`${this.API_URL}/ask`, request)
+      .pipe(
+        map(response => response.data),
+        catchError(this.handleError)
+      );
   }
 
   getQuestionHistory(): Observable<Question[]> {
-    return this.http.get<Question[]>(`${this.API_URL}/history`)
-      .pipe(catchError(this.handleError));
+    return this.http.get<{ success: boolean; data: Question[] }>(`${this.API_URL}/history`)
+      .pipe(
+        map(response => response.data),
+        catchError(this.handleError)
+      );
   }
 
   getAnswer(questionId: string): Observable<Answer> {
-    return this.http.get<Answer>(`${this.API_URL}/answers/${questionId}`)
-      .pipe(catchError(this.handleError));
+    return this.http.get<{ success: boolean; data: Answer }>(`${this.API_URL}/answers/${questionId}`)
+      .pipe(
+        map(response => response.data),
+        catchError(this.handleError)
+      );
   }
 
   private handleError(error: any): Observable<never> {
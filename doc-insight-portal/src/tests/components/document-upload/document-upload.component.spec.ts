@@ -1,4 +1,5 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
 import { of, throwError } from 'rxjs';
 import { NoopAnimationsModule } from '@angular/platform-browser/animations';
 
@@ -39,7 +40,7 @@ describe('DocumentUploadComponent', () => {
   };
 
   beforeEach(async () => {
-    const documentServiceSpy = jasmine.createSpyObj('DocumentService', ['uploadDocument']);
+    const documentServiceSpy = jasmine.createSpyObj('DocumentService', ['uploadDocument', 'uploadResumable']);
     const authServiceSpy = jasmine.createSpyObj('AuthService', ['getCurrentUser']);
 
     await TestBed.configureTestingModule({
@@ -196,12 +197,61 @@ describe('DocumentUploadComponent', () => {
 
   it('should reject file that is too large', () => {
     const largeFile = new File(['test content'], 'test.pdf', { type: 'application/pdf' });
-    Object.defineProperty(largeFile, 'size', { value: 11 * 1024 * 1024 }); // 11MB
+    Object.defineProperty(largeFile, 'size', { value: 1024 * 1024 * 1024 + 1 }); // over 1GB
 
     component.selectedFile = largeFile;
     expect(component.isFileValid).toBeFalsy();
   });
 
+  it('should upload large files in resumable chunks', () => {
+    const largeFile = new File(['test content'], 'manual.pdf', { type: 'application/pdf' });
+    Object.defineProperty(largeFile, 'size', { value: 500 * 1024 * 1024 }); // 500MB
+    component.selectedFile = largeFile;
+    component.description = 'Scanned manual';
+    mockDocumentService.uploadResumable.and.returnValue(of(
+      { bytesUploaded: 250 * 1024 * 1024, totalBytes: 500 * 1024 * 1024, reconnecting: true }
+    ));
+
+    component.uploadDocument();
+
+    expect(component.isFileValid).toBeTruthy();
+    expect(mockDocumentService.uploadResumable).toHaveBeenCalledWith(largeFile, 'Scanned manual');
+    expect(mockDocumentService.uploadDocument).not.toHaveBeenCalled();
+    expect(component.uploadProgress).toBe(50);
+    expect(component.reconnecting).toBeTruthy();
+  });
+
+  it('should offer to resume a failed resumable upload', () => {
+    spyOn(console, 'error');
+    const largeFile = new File(['test content'], 'manual.pdf', { type: 'application/pdf' });
+    Object.defineProperty(largeFile, 'size', { value: 500 * 1024 * 1024 }); // 500MB
+    component.selectedFile = largeFile;
+    mockDocumentService.uploadResumable.and.returnValue(throwError(() => new Error('Network error')));
+
+    component.uploadDocument();
+
+    expect(component.uploading).toBeFalsy();
+    expect(component.uploadInterrupted).toBeTruthy();
+    expect(component.selectedFile).toBe(largeFile);
+  });
+
+  it('should report a resumable upload the server refuses as failed', () => {
+    spyOn(console, 'error');
+    const largeFile = new File(['test content'], 'manual.pdf', { type: 'application/pdf' });
+    Object.defineProperty(largeFile, 'size', { value: 500 * 1024 * 1024 }); // 500MB
+    component.selectedFile = largeFile;
+    mockDocumentService.uploadResumable.and.returnValue(throwError(() => new HttpErrorResponse({
+      status: 409,
+      error: { success: false, error: 'An identical file has already been uploaded', code: 'DUPLICATE_DOCUMENT' }
+    })));
+
+    component.uploadDocument();
+
+    expect(component.uploading).toBeFalsy();
+    expect(component.uploadInterrupted).toBeFalsy();
+    expect(component.uploadError).toBe('An identical file has already been uploaded');
+  });
+
   it('should return false for file validation when no file selected', () => {
     component.selectedFile = null;
     expect(component.isFileValid).toBeFalsy();
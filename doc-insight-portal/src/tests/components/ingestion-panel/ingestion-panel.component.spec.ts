@@ -1,9 +1,14 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
-import { of, throwError } from 'rxjs';
+import { NEVER, Subject, of, throwError } from 'rxjs';
 import { NoopAnimationsModule } from '@angular/platform-browser/animations';
 
 import { IngestionPanelComponent } from '../../../app/components/ingestion-panel/ingestion-panel.component';
-import { IngestionService, IngestionStatus } from '../../../app/services/ingestion.service';
+import {
+  IngestionJobEvent,
+  IngestionJobTimeline,
+  IngestionService,
+  IngestionStatus
+} from '../../../app/services/ingestion.service';
 
 describe('IngestionPanelComponent', () => {
   let component: IngestionPanelComponent;
@@ -29,11 +34,50 @@ describe('IngestionPanelComponent', () => {
     startTime: new Date('2023-01-01T10:00:00Z')
   };
 
+  const emptyTimeline: IngestionJobTimeline = {
+    job_id: '1',
+    status: 'completed',
+    created_at: '2023-01-01T10:00:00Z',
+    completed_at: null,
+    duration_ms: null,
+    steps: []
+  };
+
+  const mockTimeline: IngestionJobTimeline = {
+    job_id: '2',
+    status: 'processing',
+    created_at: '2023-01-01T10:00:00Z',
+    completed_at: null,
+    duration_ms: null,
+    steps: [
+      {
+        attempt: 1,
+        step: 'extracting_text',
+        status: 'failed',
+        message: 'Parse error',
+        started_at: '2023-01-01T10:00:00Z',
+        ended_at: '2023-01-01T10:00:02Z',
+        duration_ms: 2000
+      },
+      {
+        attempt: 2,
+        step: 'extracting_text',
+        status: 'completed',
+        message: null,
+        started_at: '2023-01-01T10:00:06Z',
+        ended_at: '2023-01-01T10:00:10Z',
+        duration_ms: 4000
+      }
+    ]
+  };
+
   beforeEach(async () => {
     const ingestionServiceSpy = jasmine.createSpyObj('IngestionService', [
       'getIngestionStatus',
       'startIngestion',
-      'stopIngestion'
+      'stopIngestion',
+      'watchJobEvents',
+      'getJobTimeline'
     ]);
 
     await TestBed.configureTestingModule({
@@ -51,6 +95,8 @@ describe('IngestionPanelComponent', () => {
 
   beforeEach(() => {
     mockIngestionService.getIngestionStatus.and.returnValue(of(mockIngestionStatus));
+    mockIngestionService.watchJobEvents.and.returnValue(NEVER);
+    mockIngestionService.getJobTimeline.and.returnValue(of(emptyTimeline));
     fixture.detectChanges();
   });
 
@@ -119,7 +165,7 @@ describe('IngestionPanelComponent', () => {
     component.stopIngestion();
 
     expect(window.confirm).toHaveBeenCalledWith('Are you sure you want to stop the ingestion process?');
-    expect(mockIngestionService.stopIngestion).toHaveBeenCalled();
+    expect(mockIngestionService.stopIngestion).toHaveBeenCalledWith('1');
     expect(component.loading).toBeFalsy();
   });
 
@@ -183,32 +229,104 @@ describe('IngestionPanelComponent', () => {
     expect(component.error).toBeNull();
   });
 
-  it('should poll for status updates when running', () => {
-    jasmine.clock().install();
-    component.ingestionStatus = mockRunningStatus;
+  it('should apply live progress events to the current job', () => {
+    const events = new Subject<IngestionJobEvent>();
+    mockIngestionService.watchJobEvents.and.returnValue(events);
     mockIngestionService.getIngestionStatus.and.returnValue(of(mockRunningStatus));
 
+    component.ngOnDestroy();
     component.ngOnInit();
+    events.next({
+      job_id: '2',
+      document_id: 'doc-1',
+      status: 'processing',
+      progress: { step: 'extracting_text', percentage: 30 },
+      error_message: null,
+      retry_count: 0,
+      next_attempt_at: null,
+      updated_at: '2023-01-01T10:01:00Z'
+    });
+
+    expect(component.ingestionStatus?.status).toBe('running');
+    expect(component.ingestionStatus?.progress).toBe(30);
+    expect(component.currentStep).toBe('extracting text');
+    expect(mockIngestionService.getIngestionStatus).toHaveBeenCalledTimes(2); // No polling
+  });
 
-    // Fast-forward time to trigger polling
-    jasmine.clock().tick(5000);
-    expect(mockIngestionService.getIngestionStatus).toHaveBeenCalledTimes(2); // Initial + polled
+  it('should ignore events for other jobs', () => {
+    const events = new Subject<IngestionJobEvent>();
+    mockIngestionService.watchJobEvents.and.returnValue(events);
 
-    jasmine.clock().uninstall();
+    component.ngOnDestroy();
+    component.ngOnInit();
+    events.next({
+      job_id: 'other-job',
+      document_id: 'doc-2',
+      status: 'failed',
+      progress: null,
+      error_message: 'Parse error',
+      retry_count: 1,
+      next_attempt_at: null,
+      updated_at: '2023-01-01T10:01:00Z'
+    });
+
+    expect(component.ingestionStatus).toEqual(mockIngestionStatus);
   });
 
-  it('should not poll when status is not running', () => {
-    jasmine.clock().install();
-    component.ingestionStatus = mockIngestionStatus; // idle status
-    mockIngestionService.getIngestionStatus.and.returnValue(of(mockIngestionStatus));
+  it('should lay the job\'s steps out on one time axis', () => {
+    mockIngestionService.getJobTimeline.and.returnValue(of(mockTimeline));
+
+    component.loadTimeline('2');
 
+    expect(mockIngestionService.getJobTimeline).toHaveBeenCalledWith('2');
+    expect(component.showAttempts).toBeTrue();
+    expect(component.timelineBars.map(bar => [bar.offset, bar.width, bar.duration])).toEqual([
+      [0, 20, '2.0 s'],
+      [60, 40, '4.0 s']
+    ]);
+    expect(component.timelineBars[0].status).toBe('failed');
+  });
+
+  it('should reload the timeline when a new step starts', () => {
+    const events = new Subject<IngestionJobEvent>();
+    mockIngestionService.watchJobEvents.and.returnValue(events);
+    mockIngestionService.getIngestionStatus.and.returnValue(of(mockRunningStatus));
+
+    component.ngOnDestroy();
     component.ngOnInit();
+    mockIngestionService.getJobTimeline.calls.reset();
+
+    const event: IngestionJobEvent = {
+      job_id: '2',
+      document_id: 'doc-1',
+      status: 'processing',
+      progress: { step: 'extracting_text', percentage: 30 },
+      error_message: null,
+      retry_count: 0,
+      next_attempt_at: null,
+      updated_at: '2023-01-01T10:01:00Z'
+    };
+    events.next(event);
+    events.next({ ...event, progress: { step: 'extracting_text', percentage: 40 } });
+
+    expect(mockIngestionService.getJobTimeline).toHaveBeenCalledTimes(1);
+  });
+
+  it('should format step durations', () => {
+    expect(component.formatDuration(350)).toBe('350 ms');
+    expect(component.formatDuration(12500)).toBe('12.5 s');
+    expect(component.formatDuration(125000)).toBe('2 min 5 s');
+  });
 
-    // Fast-forward time
-    jasmine.clock().tick(5000);
-    expect(mockIngestionService.getIngestionStatus).toHaveBeenCalledTimes(1); // Only initial call
+  it('should stop listening for events when destroyed', () => {
+    const events = new Subject<IngestionJobEvent>();
+    mockIngestionService.watchJobEvents.and.returnValue(events);
+
+    component.ngOnDestroy();
+    component.ngOnInit();
+    component.ngOnDestroy();
 
-    jasmine.clock().uninstall();
+    expect(events.observed).toBeFalse();
   });
 
   it('should disable start button when loading', () => {
@@ -94,7 +94,7 @@ describe('DashboardService', () => {
     expect(ingestionReq.request.method).toBe('GET');
     ingestionReq.flush({ success: true, data: mockIngestionStats });
 
-    const qaReq = httpMock.expectOne('http://localhost:8000/api/qa/stats');
+    const qaReq = httpMock.expectOne('http://localhost:3000/api/qa/stats');
     expect(qaReq.request.method).toBe('GET');
     qaReq.flush({ success: true, data: mockQaStats });
   });
@@ -134,7 +134,7 @@ describe('DashboardService', () => {
       expect(stats).toEqual(mockQaStats);
     });
 
-    const req = httpMock.expectOne('http://localhost:8000/api/qa/stats');
+    const req = httpMock.expectOne('http://localhost:3000/api/qa/stats');
     expect(req.request.method).toBe('GET');
     req.flush({ success: true, data: mockQaStats });
   });